@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import Layout from './components/Layout';
@@ -7,6 +7,7 @@ import RegisterForm from './components/RegisterForm';
 import AuthCallbackPage from './pages/AuthCallbackPage';
 import ConfirmModal from './components/ConfirmModal';
 import CancelBookingModal from './components/CancelBookingModal';
+import EditBookingModal from './components/EditBookingModal';
 import ChangePasswordModal from './components/ChangePasswordModal';
 import LoadingOverlay from './components/LoadingOverlay';
 import ProtectedRoute from './components/ProtectedRoute';
@@ -14,9 +15,20 @@ import HomePage from './pages/HomePage';
 import MyBookingsPage from './pages/MyBookingsPage';
 import AdminPage from './pages/AdminPage';
 import { api } from './services/api';
-import { User, Room, Booking } from './types';
+import {
+  User,
+  UserRole,
+  Room,
+  Booking,
+  BookingStatus,
+  CancelScope,
+  isGlobalAdminRole,
+} from './types';
 import { useToast } from './contexts/ToastContext';
 import { SettingsProvider } from './contexts/SettingsContext';
+import { useBookings } from './hooks/useBookings';
+import { connectLiveUpdates, subscribeLiveEvents } from './services/liveUpdates';
+import { canModerateAnything } from './utils/notifications';
 
 function App() {
   const { t } = useTranslation();
@@ -27,17 +39,22 @@ function App() {
   const [isDataLoading, setIsDataLoading] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null);
   const [rooms, setRooms] = useState<Room[]>([]);
-  const [bookings, setBookings] = useState<Booking[]>([]);
 
   // Cancel Booking Modal State
   const [cancelBookingModal, setCancelBookingModal] = useState<{
     isOpen: boolean;
     bookingId: string | null;
+    isSeries?: boolean;
+    cancelsEvent?: boolean;
+    ownConfirmedStart?: string; // the booker's own confirmed booking: cancelling late earns a strike
   }>({
     isOpen: false,
     bookingId: null,
   });
 
+  // Booking being rescheduled/edited (null = modal closed)
+  const [editingBooking, setEditingBooking] = useState<Booking | null>(null);
+
   // Confirm Modal State
   const [confirmModal, setConfirmModal] = useState<{
     isOpen: boolean;
@@ -81,36 +98,62 @@ function App() {
     checkAuth();
   }, []);
 
-  // Poll for updates every 5 seconds when authenticated
+  // Changes arrive over the live event stream while it is up. Each reconnect
+  // refreshes once, for anything missed while it was down.
+  const [isLive, setIsLive] = useState(false);
   useEffect(() => {
     if (!isAuthenticated) return;
 
+    let connectedBefore = false;
+    const stop = connectLiveUpdates((connected) => {
+      setIsLive(connected);
+      if (connected && connectedBefore) refresh();
+      if (connected) connectedBefore = true;
+    });
+
+    return () => {
+      stop();
+      setIsLive(false);
+    };
+  }, [isAuthenticated]);
+
+  // A room change can touch any page, and deleting a room takes its bookings
+  // with it: reload everything
+  useEffect(
+    () =>
+      subscribeLiveEvents((event) => {
+        if (event.type === 'rooms') refresh();
+      }),
+    [],
+  );
+
+  // Poll for updates every 5 seconds when authenticated and the stream is down
+  useEffect(() => {
+    if (!isAuthenticated || isLive) return;
+
     const intervalId = setInterval(() => {
       refresh();
     }, 5000);
 
     return () => clearInterval(intervalId);
-  }, [isAuthenticated]);
+  }, [isAuthenticated, isLive]);
 
   useEffect(() => {
     if (!isAuthenticated) return;
 
-    // Load data only if authenticated
+    // Load data only if authenticated. Bookings are not loaded here: each page
+    // asks for the window it displays, refetched on the same tick.
     const loadData = async () => {
       // Don't show loading spinner for background refreshes unless it's the first load
       if (rooms.length === 0) setIsDataLoading(true);
 
       try {
-        const [loadedRooms, loadedBookings] = await Promise.all([
-          api.getRooms(),
-          api.getBookings(),
-        ]);
+        const loadedRooms = await api.getRooms();
 
         // Only update state if data has actually changed to prevent unnecessary re-renders
         // Simple comparison by length + last item ID or timestamp would be better, but deep check is expensive
         // For now, we just set state which triggers re-render. React handles DOM diffing.
         setRooms(loadedRooms);
-        setBookings(loadedBookings);
         setLastRefreshed(new Date());
       } catch (error) {
         console.error('Failed to load data:', error);
@@ -124,21 +167,60 @@ function App() {
     loadData();
   }, [tick, isAuthenticated]);
 
-  const handleCancelBooking = (id: string) => {
+  // The header's search and notification bell need only what is still ahead:
+  // the user's own upcoming bookings and, for anyone who can approve, the
+  // pending requests, from the start of today
+  const todayKey = new Date().setHours(0, 0, 0, 0);
+  const canModerate = !!user && canModerateAnything(user, rooms);
+  const { bookings: ownBookings } = useBookings(
+    user ? { userId: user.id, from: new Date(todayKey) } : null,
+    tick,
+  );
+  const { bookings: pendingBookings } = useBookings(
+    canModerate
+      ? { status: [BookingStatus.PENDING], from: new Date(todayKey) }
+      : null,
+    tick,
+  );
+  const headerBookings = useMemo(() => {
+    const byId = new Map<string, Booking>();
+    [...ownBookings, ...pendingBookings].forEach((b) => byId.set(b.id, b));
+    return Array.from(byId.values());
+  }, [ownBookings, pendingBookings]);
+
+  const handleCancelBooking = async (id: string) => {
+    // Occurrences of a series offer "this one / future / all" in the modal.
+    // A room of an event takes the whole event with it when its organizer or
+    // staff cancel it; a department manager cancels only their room.
+    const booking = await api.getBooking(id).catch(() => null);
     setCancelBookingModal({
       isOpen: true,
       bookingId: id,
+      isSeries: !!booking?.seriesId,
+      cancelsEvent:
+        !!booking?.eventId &&
+        (booking.userId === user?.id ||
+          isGlobalAdminRole(user?.role) ||
+          user?.role === UserRole.STUDENT_WORKER),
+      // Staff never get strikes
+      ownConfirmedStart:
+        booking?.userId === user?.id &&
+        booking?.status === BookingStatus.CONFIRMED &&
+        !isGlobalAdminRole(user?.role) &&
+        user?.role !== UserRole.STUDENT_WORKER
+          ? booking.startTime
+          : undefined,
     });
   };
 
-  const onConfirmCancelBooking = async (reason: string) => {
+  const onConfirmCancelBooking = async (reason: string, scope: CancelScope) => {
     if (!cancelBookingModal.bookingId) return;
 
     const id = cancelBookingModal.bookingId;
     setCancelBookingModal({ isOpen: false, bookingId: null });
 
     try {
-      const success = await api.cancelBooking(id, reason);
+      const success = await api.cancelBooking(id, reason, scope);
       if (success) {
         toast.success(t('app.bookingCancelled'));
         refresh();
@@ -150,9 +232,27 @@ function App() {
     }
   };
 
+  const handleEditBooking = async (id: string) => {
+    try {
+      setEditingBooking(await api.getBooking(id));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('app.loadDataFailed'));
+    }
+  };
+
+  const handleCheckIn = async (id: string) => {
+    try {
+      await api.checkInBooking(id);
+      toast.success(t('checkIn.done'));
+      refresh();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('checkIn.failed'));
+    }
+  };
+
   const handleExportCSV = async () => {
     try {
-      const allBookings = await api.getAllBookingsForAdmin();
+      const allBookings = await api.getAllBookings();
       const headers = [
         'Booking ID',
         'Room',
@@ -248,7 +348,6 @@ function App() {
         api.logout();
         setUser(null);
         setIsAuthenticated(false);
-        setBookings([]);
         setRooms([]);
         toast.info(t('app.loggedOut'));
       },
@@ -311,16 +410,18 @@ function App() {
                 <Layout
                   user={user!}
                   rooms={rooms}
-                  bookings={bookings}
+                  bookings={headerBookings}
                   onLogout={handleLogout}
                   onChangePassword={() => setShowChangePasswordModal(true)}
                 >
                   <HomePage
                     user={user!}
                     rooms={rooms}
-                    bookings={bookings}
+                    refreshKey={tick}
                     onRefresh={refresh}
                     onCancelBooking={handleCancelBooking}
+                    onEditBooking={handleEditBooking}
+                    onCheckIn={handleCheckIn}
                   />
                 </Layout>
               </ProtectedRoute>
@@ -333,15 +434,17 @@ function App() {
                 <Layout
                   user={user!}
                   rooms={rooms}
-                  bookings={bookings}
+                  bookings={headerBookings}
                   onLogout={handleLogout}
                   onChangePassword={() => setShowChangePasswordModal(true)}
                 >
                   <MyBookingsPage
                     user={user!}
                     rooms={rooms}
-                    bookings={bookings}
+                    refreshKey={tick}
                     onCancelBooking={handleCancelBooking}
+                    onEditBooking={handleEditBooking}
+                    onCheckIn={handleCheckIn}
                   />
                 </Layout>
               </ProtectedRoute>
@@ -358,14 +461,14 @@ function App() {
                 <Layout
                   user={user!}
                   rooms={rooms}
-                  bookings={bookings}
+                  bookings={headerBookings}
                   onLogout={handleLogout}
                   onChangePassword={() => setShowChangePasswordModal(true)}
                 >
                   <AdminPage
                     user={user!}
                     rooms={rooms}
-                    bookings={bookings}
+                    refreshKey={tick}
                     onExportCSV={handleExportCSV}
                     onCancelBooking={handleCancelBooking}
                     onRefresh={refresh}
@@ -379,12 +482,25 @@ function App() {
         {/* Global Modals */}
         <CancelBookingModal
           isOpen={cancelBookingModal.isOpen}
+          isSeries={cancelBookingModal.isSeries}
+          cancelsEvent={cancelBookingModal.cancelsEvent}
+          ownConfirmedStart={cancelBookingModal.ownConfirmedStart}
           onConfirm={onConfirmCancelBooking}
           onCancel={() =>
             setCancelBookingModal({ isOpen: false, bookingId: null })
           }
         />
 
+        <EditBookingModal
+          booking={editingBooking}
+          rooms={rooms}
+          onSaved={() => {
+            setEditingBooking(null);
+            refresh();
+          }}
+          onCancel={() => setEditingBooking(null)}
+        />
+
         <ConfirmModal
           isOpen={confirmModal.isOpen}
           title={confirmModal.title}
@@ -6,6 +6,20 @@ import { XIcon, PlusIcon } from './Icons';
 import { useToast } from '../contexts/ToastContext';
 import { useSettings } from '../contexts/SettingsContext';
 import { getEffectiveOperatingHours } from '../utils/operatingHours';
+import { parseCheckInInput } from '../utils/checkIn';
+import { MAX_BUFFER_MINUTES, parseBufferInput } from '../utils/buffer';
+import { rulesDraftFromJson, rulesJsonFromDraft } from '../utils/bookingRules';
+import BookingRulesEditor from './BookingRulesEditor';
+import {
+  autoApprovalDraftFromJson,
+  autoApprovalJsonFromDraft,
+} from '../utils/autoApproval';
+import AutoApprovalRulesEditor from './AutoApprovalRulesEditor';
+import {
+  approvalChainDraftFromJson,
+  approvalChainJsonFromDraft,
+} from '../utils/approvalChain';
+import ApprovalChainEditor from './ApprovalChainEditor';
 import OperatingHoursEditor, {
   validateOperatingHours,
 } from './OperatingHoursEditor';
@@ -33,6 +47,11 @@ const AddRoomModal: React.FC<AddRoomModalProps> = ({
   const [departmentId, setDepartmentId] = useState('');
   const [bookingTerms, setBookingTerms] = useState('');
   const [requiresApproval, setRequiresApproval] = useState(false);
+  const [checkInGrace, setCheckInGrace] = useState('');
+  const [buffer, setBuffer] = useState('0');
+  const [rules, setRules] = useState(rulesDraftFromJson(null));
+  const [autoRules, setAutoRules] = useState(autoApprovalDraftFromJson(null));
+  const [chain, setChain] = useState(approvalChainDraftFromJson(null));
   const { operatingHours: globalHours } = useSettings();
   const [useCustomHours, setUseCustomHours] = useState(false);
   const [hours, setHours] = useState<OperatingHours>(globalHours);
@@ -116,6 +135,36 @@ const AddRoomModal: React.FC<AddRoomModalProps> = ({
       }
     }
 
+    const checkInGraceMinutes = parseCheckInInput(checkInGrace);
+    if (checkInGraceMinutes === false) {
+      setError(t('roomForm.errorCheckIn'));
+      return;
+    }
+
+    const bufferMinutes = parseBufferInput(buffer);
+    if (bufferMinutes === false) {
+      setError(t('roomForm.errorBuffer'));
+      return;
+    }
+
+    const bookingRules = rulesJsonFromDraft(rules);
+    if (bookingRules === false) {
+      setError(t('bookingRules.invalid'));
+      return;
+    }
+
+    const autoApprovalRules = autoApprovalJsonFromDraft(autoRules);
+    if (autoApprovalRules === false) {
+      setError(t('autoApproval.invalid'));
+      return;
+    }
+
+    const approvalChain = approvalChainJsonFromDraft(chain);
+    if (approvalChain === false) {
+      setError(t('approvalChain.invalid'));
+      return;
+    }
+
     setIsSubmitting(true);
     try {
       await api.createRoom({
@@ -129,6 +178,14 @@ const AddRoomModal: React.FC<AddRoomModalProps> = ({
         requiresApproval,
         // null = inherit the department's schedule (or the global one)
         operatingHours: useCustomHours ? JSON.stringify(hours) : null,
+        // null = inherit the department's check-in grace (or the global one)
+        checkInGraceMinutes,
+        // null = follow the department's rules (or the global ones)
+        bookingRules,
+        // only consulted while the room requires approval
+        autoApprovalRules,
+        approvalChain,
+        bufferMinutes,
       });
       toast.success(t('roomForm.created'));
       onSuccess();
@@ -301,6 +358,83 @@ const AddRoomModal: React.FC<AddRoomModalProps> = ({
               <p className="text-xs text-slate-500 mt-1 ml-6">
                 {t('roomForm.requireApprovalHint')}
               </p>
+              {requiresApproval && (
+                <div className="mt-3 ml-6">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    {t('autoApproval.title')}
+                  </label>
+                  <AutoApprovalRulesEditor
+                    value={autoRules}
+                    onChange={setAutoRules}
+                    disabled={isSubmitting}
+                  />
+                  <p className="text-xs text-slate-500 mt-1">
+                    {t('autoApproval.roomHint')}
+                  </p>
+                  <label className="block text-sm font-medium text-slate-700 mt-3 mb-1">
+                    {t('approvalChain.title')}
+                  </label>
+                  <ApprovalChainEditor
+                    value={chain}
+                    onChange={setChain}
+                    departments={departments}
+                    disabled={isSubmitting}
+                  />
+                  <p className="text-xs text-slate-500 mt-1">
+                    {t('approvalChain.hint')}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                {t('roomForm.checkInGrace')}
+              </label>
+              <input
+                type="number"
+                value={checkInGrace}
+                onChange={(e) => setCheckInGrace(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                placeholder={t('roomForm.checkInGracePlaceholder')}
+                min="0"
+                disabled={isSubmitting}
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                {t('roomForm.checkInGraceHint')}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                {t('roomForm.buffer')}
+              </label>
+              <input
+                type="number"
+                value={buffer}
+                onChange={(e) => setBuffer(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                min="0"
+                max={MAX_BUFFER_MINUTES}
+                disabled={isSubmitting}
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                {t('roomForm.bufferHint')}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                {t('bookingRules.title')}
+              </label>
+              <BookingRulesEditor
+                value={rules}
+                onChange={setRules}
+                disabled={isSubmitting}
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                {t('roomForm.bookingRulesHint')}
+              </p>
             </div>
 
             <div>
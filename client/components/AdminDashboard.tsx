@@ -2,7 +2,15 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { dateLocale } from '../i18n';
-import { User, Room, Booking, UserRole, isGlobalAdminRole } from '../types';
+import {
+  User,
+  Room,
+  Booking,
+  BookingStatus,
+  AdminStats,
+  UserRole,
+  isGlobalAdminRole,
+} from '../types';
 import { api } from '../services/api';
 import {
   BarChartIcon,
@@ -10,6 +18,9 @@ import {
   UsersIcon,
   BuildingIcon,
   SettingsIcon,
+  CheckCircleIcon,
+  MessageIcon,
+  AlertTriangleIcon,
 } from './Icons';
 import UserImportModal from './UserImportModal';
 import AddUserModal from './AddUserModal';
@@ -22,36 +33,39 @@ import SemestersManager from './SemestersManager';
 import DepartmentsManager from './DepartmentsManager';
 import ClosuresManager from './ClosuresManager';
 import AuditLogViewer from './AuditLogViewer';
+import StrikesManager from './StrikesManager';
+import ModerationInbox from './ModerationInbox';
+import ApprovalDelegations from './ApprovalDelegations';
 import AttendeesModal from './AttendeesModal';
+import ProposeSlotModal from './ProposeSlotModal';
+import BookingCommentsModal from './BookingCommentsModal';
 import DataTable from './DataTable';
 import { useToast } from '../contexts/ToastContext';
 import { useSettings } from '../contexts/SettingsContext';
 import { ColumnDef } from '@tanstack/react-table';
 import { parseOperatingHoursOrNull } from '../utils/operatingHours';
+import { getCheckInState } from '../utils/checkIn';
+import { useBookingPages, useBookings } from '../hooks/useBookings';
 
 import ExportReportModal from './ExportReportModal';
 import SettingsTab from './SettingsTab';
 
 interface AdminDashboardProps {
   currentUser: User;
-  bookings: Booking[];
   rooms: Room[];
+  refreshKey: number;
   onExportCSV: () => void;
   onCancelBooking: (id: string) => void;
   onRefresh: () => void;
 }
 
-interface Stats {
-  totalBookings: number;
-  activeBookings: number;
-  totalUsers: number;
-  roomUtilization: { [key: string]: number };
-}
+// Bookings tab page size; more load on request
+const BOOKINGS_PAGE_SIZE = 50;
 
 const AdminDashboard: React.FC<AdminDashboardProps> = ({
   currentUser,
-  bookings: allBookings,
   rooms: allRooms,
+  refreshKey,
   onExportCSV,
   onCancelBooking,
   onRefresh,
@@ -76,11 +90,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         : allRooms,
     [allRooms, isDeptAdminOnly, currentUser],
   );
-  const bookings = useMemo(() => {
-    if (!isDeptAdminOnly) return allBookings;
-    const roomIds = new Set(rooms.map((r) => r.id));
-    return allBookings.filter((b) => roomIds.has(b.roomId));
-  }, [allBookings, rooms, isDeptAdminOnly]);
+  // Their bookings queries carry the same scope, so the server filters them
+  const departmentIds = isDeptAdminOnly ? managedDeptIds : undefined;
 
   // Rooms grouped by department for the Rooms tab; unassigned rooms last
   // Rooms tab search: matches name, description, features, department
@@ -135,21 +146,27 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
     return t('admin.roomsTable.hoursGlobal');
   };
 
-  const [stats, setStats] = useState<Stats | null>(null);
+  const [stats, setStats] = useState<AdminStats | null>(null);
   const [users, setUsers] = useState<User[]>([]);
   const [selectedTab, setSelectedTab] = useState<
     | 'overview'
     | 'bookings'
+    | 'inbox'
     | 'users'
     | 'rooms'
     | 'departments'
     | 'semesters'
     | 'closures'
+    | 'strikes'
     | 'audit'
     | 'settings'
   >(isDeptAdminOnly ? 'bookings' : 'overview');
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [filterRoom, setFilterRoom] = useState<string>('all');
+  // Upcoming runs forward from today; past runs back from it, latest first
+  const [filterWhen, setFilterWhen] = useState<'upcoming' | 'past'>(
+    'upcoming',
+  );
   // Set by a notification deep link: narrows the list to the one request the
   // admin clicked. Cleared from a visible chip so they are never stuck in it.
   const [focusedBookingId, setFocusedBookingId] = useState<string | null>(null);
@@ -172,6 +189,15 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
   // Attendees modal state
   const [viewingAttendeesBooking, setViewingAttendeesBooking] =
     useState<Booking | null>(null);
+  // The booking whose comment thread is open; looked up in the list so
+  // replies pushed over the live stream reach it
+  const [commentsBookingId, setCommentsBookingId] = useState<string | null>(
+    null,
+  );
+  // The pending request being answered with another time or room
+  const [proposingBooking, setProposingBooking] = useState<Booking | null>(
+    null,
+  );
 
   const handleRemind = async (bookingId: string) => {
     try {
@@ -200,6 +226,19 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
     }
   };
 
+  // Desk check-in for a booker who turned up without checking in themselves
+  const handleCheckIn = async (bookingId: string) => {
+    try {
+      await api.checkInBooking(bookingId);
+      toast.success(t('admin.toasts.checkedIn'));
+      onRefresh();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t('checkIn.failed'),
+      );
+    }
+  };
+
   const handleReject = async (bookingId: string) => {
     const reason = window.prompt(t('admin.rejectReasonPrompt'));
     if (reason === null) return; // user cancelled the prompt
@@ -214,13 +253,43 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
     }
   };
 
+  // Hover text for an outstanding proposal: the slot offered and until when
+  const proposalTitle = (booking: Booking) => {
+    const proposal = booking.proposal!;
+    const format = (iso: string) =>
+      new Date(iso).toLocaleString(dateLocale(), {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+    return t('admin.proposalTitle', {
+      room: proposal.roomName,
+      time: format(proposal.startTime),
+      expires: format(proposal.expiresAt),
+    });
+  };
+
+  // Hover text for the escalated flag: who the scheduler has told, and when
+  const escalationTitle = (booking: Booking) =>
+    t(`admin.escalation.level${booking.escalationLevel}`, {
+      time: booking.escalatedAt
+        ? new Date(booking.escalatedAt).toLocaleString(dateLocale(), {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+          })
+        : '',
+    });
+
   useEffect(() => {
     // Stats and user management endpoints are admin/worker only
     if (!isDeptAdminOnly) {
       loadStats();
       loadUsers();
     }
-  }, [bookings]);
+  }, [refreshKey]);
 
   // Column definitions for bookings table
   /**
@@ -231,8 +300,10 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
    * - **User**: Shows the user's display name and their ID/Email.
    * - **Date & Time**: Formats the start/end times and dates into a readable string.
    * - **Attendees**: Renders an interactive badge showing the count of attendees; clicking opens a details view.
-   * - **Status**: Renders a color-coded badge based on the booking status (CONFIRMED, CANCELLED, etc.).
-   * - **Actions**: Provides action buttons (Remind, Cancel) for bookings with a 'CONFIRMED' status.
+   * - **Status**: Renders a color-coded badge based on the booking status (CONFIRMED, CANCELLED, etc.),
+   *   with the check-in state underneath for rooms that require check-in, and an escalated
+   *   flag for pending requests the scheduler has chased.
+   * - **Actions**: Provides action buttons (Check in, Remind, Cancel) for bookings with a 'CONFIRMED' status.
    *
    * @returns {ColumnDef<Booking>[]} An array of column definitions for the tanstack/react-table.
    *
@@ -240,6 +311,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
    * - `rooms`: Used to look up room names by ID.
    * - `onCancelBooking`: Callback function triggered when the cancel button is clicked.
    * - `handleRemind`: Callback function triggered when the remind button is clicked.
+   * - `handleCheckIn`: Callback function triggered when the check-in button is clicked.
    */
   const bookingColumns = useMemo<ColumnDef<Booking>[]>(
     () => [
@@ -328,24 +400,74 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         ),
       },
       {
-        accessorKey: 'status',
-        header: t('admin.columns.status'),
+        id: 'comments',
+        header: t('admin.columns.comments'),
+        enableSorting: false,
         cell: ({ row }) => (
-          <span
-            className={`px-3 py-1 rounded-lg text-xs font-bold  ${
-              row.original.status === 'CONFIRMED'
-                ? 'bg-green-50 border border-green-200 text-green-700'
-                : row.original.status === 'PENDING'
-                  ? 'bg-amber-50 border border-amber-200 text-amber-700'
-                  : row.original.status === 'CANCELLED'
-                    ? 'bg-red-50 border border-red-200 text-red-700'
-                    : 'bg-slate-50 border border-slate-200 text-slate-700'
-            }`}
+          <button
+            onClick={() => setCommentsBookingId(row.original.id)}
+            className="inline-flex items-center gap-1 px-3 py-1.5 bg-primary/10 hover:bg-primary/20 border border-primary/20 rounded-md transition-colors cursor-pointer "
+            title={t('admin.viewComments')}
           >
-            {t(`status.${row.original.status}`)}
-          </span>
+            <MessageIcon className="w-4 h-4 text-primary" />
+            <span className="text-sm font-bold text-primary">
+              {row.original.commentCount ?? 0}
+            </span>
+          </button>
         ),
       },
+      {
+        accessorKey: 'status',
+        header: t('admin.columns.status'),
+        cell: ({ row }) => {
+          const checkIn = getCheckInState(row.original);
+          return (
+            <div className="flex flex-col items-start gap-1">
+              <span
+                className={`px-3 py-1 rounded-lg text-xs font-bold  ${
+                  row.original.status === 'CONFIRMED'
+                    ? 'bg-green-50 border border-green-200 text-green-700'
+                    : row.original.status === 'PENDING'
+                      ? 'bg-amber-50 border border-amber-200 text-amber-700'
+                      : row.original.status === 'CANCELLED' ||
+                          row.original.status === 'NO_SHOW'
+                        ? 'bg-red-50 border border-red-200 text-red-700'
+                        : 'bg-slate-50 border border-slate-200 text-slate-700'
+                }`}
+              >
+                {t(`status.${row.original.status}`)}
+              </span>
+              {checkIn === 'CHECKED_IN' && (
+                <span className="text-[11px] font-semibold text-green-700">
+                  {t('checkIn.checkedIn')}
+                </span>
+              )}
+              {(checkIn === 'UPCOMING' || checkIn === 'OPEN') && (
+                <span className="text-[11px] font-semibold text-amber-700">
+                  {t('checkIn.awaiting')}
+                </span>
+              )}
+              {row.original.status === 'PENDING' &&
+                !!row.original.escalationLevel && (
+                  <span
+                    className="text-[11px] font-semibold text-red-700"
+                    title={escalationTitle(row.original)}
+                  >
+                    {t('admin.escalated')}
+                  </span>
+                )}
+              {row.original.status === 'PENDING' && row.original.proposal && (
+                <span
+                  className="text-[11px] font-semibold text-primary"
+                  title={proposalTitle(row.original)}
+                >
+                  {t('admin.proposalSent')}
+                </span>
+              )}
+            </div>
+          );
+        },
+      },
       {
         id: 'actions',
         header: t('admin.columns.actions'),
@@ -360,6 +482,13 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                 >
                   {t('admin.approve')}
                 </button>
+                <button
+                  onClick={() => setProposingBooking(row.original)}
+                  className="px-3 py-1.5 bg-primary/10 hover:bg-primary border border-primary/20 hover:border-primary text-primary hover:text-white font-bold rounded-lg transition-all-smooth shadow-sm "
+                  title={t('admin.proposeTooltip')}
+                >
+                  {t('admin.propose')}
+                </button>
                 <button
                   onClick={() => handleReject(row.original.id)}
                   className="px-3 py-1.5 bg-red-50 hover:bg-red-500 border border-red-200 hover:border-red-500 text-red-600 hover:text-white font-bold rounded-lg transition-all-smooth shadow-sm "
@@ -372,6 +501,14 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
           if (row.original.status === 'CONFIRMED') {
             return (
               <div className="flex gap-2">
+                {getCheckInState(row.original) === 'OPEN' && (
+                  <button
+                    onClick={() => handleCheckIn(row.original.id)}
+                    className="px-3 py-1.5 bg-green-50 hover:bg-green-500 border border-green-200 hover:border-green-500 text-green-600 hover:text-white font-bold rounded-lg transition-all-smooth shadow-sm "
+                  >
+                    {t('checkIn.action')}
+                  </button>
+                )}
                 <button
                   onClick={() => handleRemind(row.original.id)}
                   className="px-3 py-1.5 bg-primary/10 hover:bg-primary border border-primary/20 hover:border-primary text-primary hover:text-white font-bold rounded-lg transition-all-smooth shadow-sm "
@@ -392,7 +529,15 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         },
       },
     ],
-    [rooms, onCancelBooking, handleRemind, handleApprove, handleReject, t],
+    [
+      rooms,
+      onCancelBooking,
+      handleRemind,
+      handleApprove,
+      handleReject,
+      handleCheckIn,
+      t,
+    ],
   );
 
   // Column definitions for users table
@@ -563,29 +708,12 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
     }
   };
 
-  const loadStats = () => {
-    const now = new Date();
-    const activeBookings = bookings.filter(
-      (b) =>
-        b.status === 'CONFIRMED' &&
-        new Date(b.endTime) > now &&
-        new Date(b.startTime) <= now,
-    );
-
-    const roomUtilization: { [key: string]: number } = {};
-    rooms.forEach((room) => {
-      const roomBookings = bookings.filter(
-        (b) => b.roomId === room.id && b.status === 'CONFIRMED',
-      );
-      roomUtilization[room.id] = roomBookings.length;
-    });
-
-    setStats({
-      totalBookings: bookings.length,
-      activeBookings: activeBookings.length,
-      totalUsers: 0, // Will be updated when users load
-      roomUtilization,
-    });
+  const loadStats = async () => {
+    try {
+      setStats(await api.getAdminStats());
+    } catch (error) {
+      console.error('Failed to load stats:', error);
+    }
   };
 
   const loadUsers = async () => {
@@ -600,48 +728,122 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         );
       });
       setUsers(sortedUsers);
-      setStats((prev) =>
-        prev ? { ...prev, totalUsers: allUsers.length } : null,
-      );
     } catch (error) {
       console.error('Failed to load users:', error);
     }
   };
 
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
   // A PENDING request auto-cancels once its start time passes, so the approval
-  // queue is the one thing here with a deadline. Count it separately to drive
-  // the banner and the tab badge.
-  const pendingCount = useMemo(
-    () => bookings.filter((b) => b.status === 'PENDING').length,
-    [bookings],
+  // queue is the one thing here with a deadline. Fetch it separately to drive
+  // the banner and the tab badge, whichever tab is open. A department admin's
+  // queue also holds requests elsewhere that wait on them, as a named approver
+  // or a delegate, so their scope is applied here rather than by the server.
+  const { bookings: pendingFetched } = useBookings(
+    { status: [BookingStatus.PENDING], from: startOfToday },
+    refreshKey,
+  );
+  const pendingBookings = useMemo(
+    () =>
+      isDeptAdminOnly
+        ? pendingFetched.filter(
+            (b) => b.awaitsYou || rooms.some((r) => r.id === b.roomId),
+          )
+        : pendingFetched,
+    [pendingFetched, isDeptAdminOnly, rooms],
+  );
+  const pendingCount = pendingBookings.length;
+  // The inbox names and filters by the rooms its requests are in
+  const inboxRooms = useMemo(
+    () =>
+      allRooms.filter(
+        (r) =>
+          rooms.includes(r) || pendingBookings.some((b) => b.roomId === r.id),
+      ),
+    [allRooms, rooms, pendingBookings],
   );
 
-  // A focused booking that no longer exists (already handled, or handled by
-  // someone else) must not leave an empty list with no explanation.
-  const focusedBookingMissing =
-    !!focusedBookingId && !bookings.some((b) => b.id === focusedBookingId);
+  // The filters go to the server; only the bookings tab asks for the list
+  const {
+    bookings: listedBookings,
+    loading: bookingsLoading,
+    hasMore: moreBookings,
+    loadMore: loadMoreBookings,
+  } = useBookingPages(
+    selectedTab === 'bookings' && !focusedBookingId
+      ? {
+          status:
+            filterStatus !== 'all'
+              ? [filterStatus as BookingStatus]
+              : undefined,
+          roomId: filterRoom !== 'all' ? filterRoom : undefined,
+          departmentId: departmentIds,
+          ...(filterWhen === 'upcoming'
+            ? { from: startOfToday }
+            : { to: startOfToday, order: 'desc' as const }),
+        }
+      : null,
+    refreshKey,
+    BOOKINGS_PAGE_SIZE,
+  );
+
+  // A notification deep link names one booking, which is fetched on its own.
+  // One that no longer exists (already handled and cleaned up, or never
+  // visible to this admin) must not leave an empty list with no explanation.
+  const [focused, setFocused] = useState<{
+    id: string;
+    booking: Booking | null;
+  } | null>(null);
+  useEffect(() => {
+    if (!focusedBookingId) return;
+    let stale = false;
+    api
+      .getBooking(focusedBookingId)
+      .then((booking) => {
+        if (!stale) setFocused({ id: focusedBookingId, booking });
+      })
+      .catch(() => {
+        if (!stale) setFocused({ id: focusedBookingId, booking: null });
+      });
+    return () => {
+      stale = true;
+    };
+  }, [focusedBookingId, refreshKey]);
+  const focusedBooking =
+    focused && focused.id === focusedBookingId ? focused.booking : undefined;
+  const focusedBookingMissing = !!focusedBookingId && focusedBooking === null;
 
   const filteredBookings = useMemo(() => {
-    const visible = bookings.filter((b) => {
-      if (focusedBookingId && !focusedBookingMissing) {
-        return b.id === focusedBookingId;
-      }
-      if (filterStatus !== 'all' && b.status !== filterStatus) return false;
-      if (filterRoom !== 'all' && b.roomId !== filterRoom) return false;
-      return true;
-    });
-    // The API returns every booking by startTime ascending, which buries a new
-    // request behind months of finished ones. Float pending to the top - soonest
-    // first, since that one runs out of time first - and leave the rest as-is.
-    return visible.sort((a, b) => {
-      const aPending = a.status === 'PENDING' ? 0 : 1;
-      const bPending = b.status === 'PENDING' ? 0 : 1;
-      if (aPending !== bPending) return aPending - bPending;
-      return (
-        new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
-      );
-    });
-  }, [bookings, filterStatus, filterRoom, focusedBookingId, focusedBookingMissing]);
+    if (focusedBookingId) return focusedBooking ? [focusedBooking] : [];
+    // Pending requests float to the top, soonest first, since they run out of
+    // time. The queue is already loaded in full, so none of it waits behind a
+    // page that has not been asked for yet.
+    if (
+      filterWhen === 'upcoming' &&
+      (filterStatus === 'all' || filterStatus === 'PENDING')
+    ) {
+      return [
+        ...pendingBookings.filter(
+          (b) => filterRoom === 'all' || b.roomId === filterRoom,
+        ),
+        ...listedBookings.filter((b) => b.status !== 'PENDING'),
+      ];
+    }
+    return listedBookings;
+  }, [
+    listedBookings,
+    pendingBookings,
+    filterWhen,
+    filterStatus,
+    filterRoom,
+    focusedBookingId,
+    focusedBooking,
+  ]);
+  const commentsBooking = filteredBookings.find(
+    (b) => b.id === commentsBookingId,
+  );
 
   const renderOverview = () => (
     <div className="space-y-4 sm:space-y-6 animate-fade-in">
@@ -827,7 +1029,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
           {t('admin.recentBookings')}
         </h3>
         <div className="space-y-2 sm:space-y-3">
-          {bookings.slice(0, 5).map((booking, idx) => (
+          {(stats?.recentBookings || []).slice(0, 5).map((booking, idx) => (
             <div
               key={booking.id}
               className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 sm:gap-4 py-3 border-b border-slate-200 last:border-0 hover:bg-primary/5 rounded-lg px-2 transition-colors"
@@ -835,7 +1037,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
             >
               <div className="flex-1 min-w-0">
                 <p className="font-semibold text-slate-800 truncate">
-                  {booking.userDisplay}
+                  {booking.userName}
                 </p>
                 <p className="text-xs sm:text-sm text-slate-500 font-medium flex items-center gap-1 flex-wrap mt-1">
                   <span className="flex items-center gap-1">
@@ -852,7 +1054,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                         d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4"
                       />
                     </svg>
-                    {rooms.find((r) => r.id === booking.roomId)?.name}
+                    {booking.roomName}
                   </span>
                   <span className="hidden sm:inline">•</span>
                   <span className="flex items-center gap-1">
@@ -949,6 +1151,16 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
       <div className="glass rounded-lg border border-slate-200 p-4 ">
         <div className="flex flex-col sm:flex-row gap-3 justify-between items-start sm:items-center">
           <div className="flex flex-wrap gap-3">
+            <select
+              value={filterWhen}
+              onChange={(e) =>
+                setFilterWhen(e.target.value as 'upcoming' | 'past')
+              }
+              className="px-4 py-2.5 border border-slate-200 rounded-md focus:ring-2 focus:ring-primary/20 focus:border-primary bg-white transition-all-smooth font-medium "
+            >
+              <option value="upcoming">{t('admin.filters.upcoming')}</option>
+              <option value="past">{t('admin.filters.past')}</option>
+            </select>
             <select
               value={filterStatus}
               onChange={(e) => setFilterStatus(e.target.value)}
@@ -959,6 +1171,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
               <option value="CONFIRMED">{t('status.CONFIRMED')}</option>
               <option value="CANCELLED">{t('status.CANCELLED')}</option>
               <option value="COMPLETED">{t('status.COMPLETED')}</option>
+              <option value="NO_SHOW">{t('status.NO_SHOW')}</option>
             </select>
             <select
               value={filterRoom}
@@ -1001,7 +1214,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
           data={filteredBookings}
           columns={bookingColumns}
           searchPlaceholder={t('admin.searchBookings')}
-          emptyMessage={t('admin.noBookingsFound')}
+          emptyMessage={
+            bookingsLoading ? t('common.loading') : t('admin.noBookingsFound')
+          }
           emptyIcon={
             <svg
               className="w-8 h-8 text-primary"
@@ -1038,7 +1253,9 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
               />
             </svg>
             <p className="text-slate-500 font-semibold">
-              {t('admin.noBookingsFound')}
+              {bookingsLoading
+                ? t('common.loading')
+                : t('admin.noBookingsFound')}
             </p>
           </div>
         ) : (
@@ -1084,12 +1301,30 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                       ? 'bg-green-50 border border-green-200 text-green-700'
                       : booking.status === 'PENDING'
                         ? 'bg-amber-50 border border-amber-200 text-amber-700'
-                        : booking.status === 'CANCELLED'
+                        : booking.status === 'CANCELLED' ||
+                            booking.status === 'NO_SHOW'
                           ? 'bg-red-50 border border-red-200 text-red-700'
                           : 'bg-slate-50 border border-slate-200 text-slate-700'
                   }`}
                 >
                   {t(`status.${booking.status}`)}
+                  {booking.status === 'PENDING' &&
+                    !!booking.escalationLevel && (
+                      <span
+                        className="block text-[11px] text-red-700"
+                        title={escalationTitle(booking)}
+                      >
+                        {t('admin.escalated')}
+                      </span>
+                    )}
+                  {booking.status === 'PENDING' && booking.proposal && (
+                    <span
+                      className="block text-[11px] text-primary"
+                      title={proposalTitle(booking)}
+                    >
+                      {t('admin.proposalSent')}
+                    </span>
+                  )}
                 </span>
               </div>
 
@@ -1172,6 +1407,16 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                     })}
                   </span>
                 </button>
+                <button
+                  onClick={() => setCommentsBookingId(booking.id)}
+                  className="inline-flex items-center justify-center gap-1 px-3 py-2 bg-primary/10 hover:bg-primary/20 border border-primary/20 rounded-md transition-colors "
+                  title={t('admin.viewComments')}
+                >
+                  <MessageIcon className="w-4 h-4 text-primary" />
+                  <span className="text-sm font-bold text-primary">
+                    {booking.commentCount ?? 0}
+                  </span>
+                </button>
                 {booking.status === 'PENDING' && (
                   <>
                     <button
@@ -1180,6 +1425,12 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                     >
                       {t('admin.approve')}
                     </button>
+                    <button
+                      onClick={() => setProposingBooking(booking)}
+                      className="flex-1 px-3 py-2 bg-primary/10 hover:bg-primary border border-primary/20 hover:border-primary text-primary hover:text-white font-bold rounded-md transition-all-smooth shadow-sm "
+                    >
+                      {t('admin.propose')}
+                    </button>
                     <button
                       onClick={() => handleReject(booking.id)}
                       className="flex-1 px-3 py-2 bg-red-50 hover:bg-red-500 border border-red-200 hover:border-red-500 text-red-600 hover:text-white font-bold rounded-md transition-all-smooth shadow-sm "
@@ -1188,6 +1439,14 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
                     </button>
                   </>
                 )}
+                {getCheckInState(booking) === 'OPEN' && (
+                  <button
+                    onClick={() => handleCheckIn(booking.id)}
+                    className="flex-1 px-3 py-2 bg-green-50 hover:bg-green-500 border border-green-200 hover:border-green-500 text-green-600 hover:text-white font-bold rounded-md transition-all-smooth shadow-sm "
+                  >
+                    {t('checkIn.action')}
+                  </button>
+                )}
                 {booking.status === 'CONFIRMED' && (
                   <button
                     onClick={() => onCancelBooking(booking.id)}
@@ -1202,6 +1461,18 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         )}
       </div>
 
+      {moreBookings && !focusedBookingId && (
+        <div className="flex justify-center">
+          <button
+            onClick={loadMoreBookings}
+            disabled={bookingsLoading}
+            className="px-4 py-2 glass hover:bg-white/80 border border-slate-200 text-slate-700 rounded-md font-bold text-sm transition-all-smooth disabled:opacity-50"
+          >
+            {bookingsLoading ? t('common.loading') : t('admin.loadMore')}
+          </button>
+        </div>
+      )}
+
       {/* Attendees Modal */}
       {viewingAttendeesBooking && (
         <AttendeesModal
@@ -1209,6 +1480,25 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
           onClose={() => setViewingAttendeesBooking(null)}
         />
       )}
+      {commentsBooking && (
+        <BookingCommentsModal
+          booking={commentsBooking}
+          roomName={rooms.find((r) => r.id === commentsBooking.roomId)?.name}
+          currentUser={currentUser}
+          onClose={() => setCommentsBookingId(null)}
+        />
+      )}
+      {proposingBooking && (
+        <ProposeSlotModal
+          booking={proposingBooking}
+          rooms={rooms}
+          onClose={() => setProposingBooking(null)}
+          onProposed={() => {
+            setProposingBooking(null);
+            onRefresh();
+          }}
+        />
+      )}
     </div>
   );
 
@@ -1959,10 +2249,11 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
     badge?: number;
   }[] = [
     { id: 'overview', label: t('admin.tabs.overview'), Icon: BarChartIcon },
+    { id: 'bookings', label: t('admin.tabs.bookings'), Icon: CalendarIcon },
     {
-      id: 'bookings',
-      label: t('admin.tabs.bookings'),
-      Icon: CalendarIcon,
+      id: 'inbox',
+      label: t('admin.tabs.inbox'),
+      Icon: CheckCircleIcon,
       // Approvals are time-limited, so the count has to be visible from any tab
       badge: pendingCount,
     },
@@ -1975,6 +2266,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
     },
     { id: 'semesters', label: t('admin.tabs.semesters'), Icon: CalendarIcon },
     { id: 'closures', label: t('admin.tabs.closures'), Icon: CalendarIcon },
+    { id: 'strikes', label: t('admin.tabs.strikes'), Icon: AlertTriangleIcon },
     { id: 'audit', label: t('admin.tabs.audit'), Icon: BarChartIcon },
     { id: 'settings', label: t('admin.tabs.settings'), Icon: SettingsIcon },
   ].filter((tab) => {
@@ -1982,11 +2274,18 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
     if (isAdmin) return true;
     if (isDeptAdminOnly)
       // Department admins see the trail for their own departments only (scoped server-side)
-      return ['bookings', 'rooms', 'departments', 'closures', 'audit'].includes(
-        tab.id,
-      );
+      return [
+        'bookings',
+        'inbox',
+        'rooms',
+        'departments',
+        'closures',
+        'audit',
+      ].includes(tab.id);
     // Staff without a department grant have no audit access (the API denies it too)
-    return !['departments', 'semesters', 'closures', 'audit'].includes(tab.id);
+    return !['departments', 'semesters', 'closures', 'strikes', 'audit'].includes(
+      tab.id,
+    );
   });
 
   const activeTab = tabs.find((t) => t.id === selectedTab);
@@ -2086,6 +2385,16 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
         <div className="flex-1 min-w-0">
           {selectedTab === 'overview' && renderOverview()}
           {selectedTab === 'bookings' && renderBookings()}
+          {selectedTab === 'inbox' && (
+            <div className="space-y-4">
+              <ModerationInbox
+                bookings={pendingBookings}
+                rooms={inboxRooms}
+                onRefresh={onRefresh}
+              />
+              <ApprovalDelegations currentUser={currentUser} />
+            </div>
+          )}
           {selectedTab === 'users' && renderUsers()}
           {selectedTab === 'rooms' && renderRooms()}
           {selectedTab === 'departments' && (
@@ -2101,6 +2410,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
           {selectedTab === 'closures' && (
             <ClosuresManager currentUser={currentUser} />
           )}
+          {selectedTab === 'strikes' && <StrikesManager />}
           {selectedTab === 'settings' && <SettingsTab />}
         </div>
       </div>
@@ -2172,7 +2482,8 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({
       <ExportReportModal
         isOpen={showExportModal}
         onClose={() => setShowExportModal(false)}
-        bookings={bookings}
+        refreshKey={refreshKey}
+        departmentIds={departmentIds}
         users={users}
         rooms={rooms}
       />
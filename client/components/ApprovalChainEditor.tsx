@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { api } from '../services/api';
+import { Approver, Department } from '../types';
+import {
+  ApprovalStepDraft,
+  MAX_APPROVAL_STEPS,
+  MAX_STEP_APPROVERS,
+  MAX_STEP_NAME,
+  emptyApprovalStep,
+} from '../utils/approvalChain';
+import { PlusIcon, TrashIcon, XIcon } from './Icons';
+
+interface ApprovalChainEditorProps {
+  value: ApprovalStepDraft[];
+  onChange: (drafts: ApprovalStepDraft[]) => void;
+  departments: Department[];
+  disabled?: boolean;
+}
+
+const inputClass =
+  'w-full px-2 py-1 border border-slate-200 rounded text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary';
+
+// The sign-offs a request needs, in order. Each step is given by any one of
+// the named approvers, or by any manager of the chosen department.
+const ApprovalChainEditor: React.FC<ApprovalChainEditorProps> = ({
+  value,
+  onChange,
+  departments,
+  disabled,
+}) => {
+  const { t } = useTranslation();
+  const [approvers, setApprovers] = useState<Approver[]>([]);
+
+  useEffect(() => {
+    api.getApprovers().then(setApprovers).catch(() => {});
+  }, []);
+
+  const update = (index: number, patch: Partial<ApprovalStepDraft>) => {
+    onChange(value.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...value];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const approverLabel = (id: string) => {
+    const a = approvers.find((x) => x.id === id);
+    return a ? a.name : t('approvalChain.unknownApprover');
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      {value.length === 0 && (
+        <p className="text-xs text-slate-500">{t('approvalChain.none')}</p>
+      )}
+      {value.map((step, index) => (
+        <div
+          key={index}
+          className="border border-slate-200 rounded-lg p-3 space-y-3"
+        >
+          <div className="flex items-end gap-2">
+            <label className="block flex-1">
+              <span className="block text-xs font-semibold text-slate-500 mb-1">
+                {t('approvalChain.stepName', { n: index + 1 })}
+              </span>
+              <input
+                type="text"
+                value={step.name}
+                maxLength={MAX_STEP_NAME}
+                onChange={(e) => update(index, { name: e.target.value })}
+                placeholder={t('approvalChain.namePlaceholder')}
+                className={inputClass}
+                disabled={disabled}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => move(index, -1)}
+              className="px-2 py-1 text-slate-500 hover:bg-slate-100 rounded disabled:opacity-30"
+              title={t('approvalChain.moveUp')}
+              disabled={disabled || index === 0}
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              onClick={() => move(index, 1)}
+              className="px-2 py-1 text-slate-500 hover:bg-slate-100 rounded disabled:opacity-30"
+              title={t('approvalChain.moveDown')}
+              disabled={disabled || index === value.length - 1}
+            >
+              ↓
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded"
+              title={t('approvalChain.remove')}
+              disabled={disabled}
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex gap-4">
+            {(['department', 'users'] as const).map((by) => (
+              <label
+                key={by}
+                className="flex items-center gap-1.5 text-slate-700 cursor-pointer"
+              >
+                <input
+                  type="radio"
+                  name={`approval-step-${index}`}
+                  checked={step.by === by}
+                  onChange={() => update(index, { by })}
+                  className="border-slate-300 text-primary focus:ring-primary/20"
+                  disabled={disabled}
+                />
+                {t(`approvalChain.by.${by}`)}
+              </label>
+            ))}
+          </div>
+
+          {step.by === 'department' ? (
+            <select
+              value={step.departmentId}
+              onChange={(e) => update(index, { departmentId: e.target.value })}
+              className={`${inputClass} bg-white`}
+              disabled={disabled}
+            >
+              <option value="">{t('approvalChain.pickDepartment')}</option>
+              {departments.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.name}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <div className="space-y-2">
+              {step.approverIds.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {step.approverIds.map((id) => (
+                    <span
+                      key={id}
+                      className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-primary/10 text-primary-dark text-xs"
+                    >
+                      {approverLabel(id)}
+                      <button
+                        type="button"
+                        onClick={() =>
+                          update(index, {
+                            approverIds: step.approverIds.filter((x) => x !== id),
+                          })
+                        }
+                        className="hover:text-red-600"
+                        disabled={disabled}
+                      >
+                        <XIcon className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              {step.approverIds.length < MAX_STEP_APPROVERS && (
+                <select
+                  value=""
+                  onChange={(e) =>
+                    e.target.value &&
+                    update(index, {
+                      approverIds: [...step.approverIds, e.target.value],
+                    })
+                  }
+                  className={`${inputClass} bg-white`}
+                  disabled={disabled}
+                >
+                  <option value="">{t('approvalChain.addApprover')}</option>
+                  {approvers
+                    .filter((a) => !step.approverIds.includes(a.id))
+                    .map((a) => (
+                      <option key={a.id} value={a.id}>
+                        {a.name} ({a.email})
+                      </option>
+                    ))}
+                </select>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+      {value.length < MAX_APPROVAL_STEPS && (
+        <button
+          type="button"
+          onClick={() => onChange([...value, emptyApprovalStep()])}
+          className="flex items-center gap-1 text-sm font-medium text-primary hover:underline disabled:opacity-50"
+          disabled={disabled}
+        >
+          <PlusIcon className="w-4 h-4" />
+          {t('approvalChain.add')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ApprovalChainEditor;
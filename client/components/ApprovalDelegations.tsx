@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { dateLocale } from '../i18n';
+import { api } from '../services/api';
+import { ApprovalDelegation, Approver, User } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { TrashIcon } from './Icons';
+
+interface ApprovalDelegationsProps {
+  currentUser: User;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+const toDateInput = (d: Date) =>
+  `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+const inputClass =
+  'px-3 py-2 border border-slate-200 rounded-md text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary bg-white';
+
+// Hand your approvals to a colleague while you are away, and see whose you
+// hold. Dates are whole days: from the start of the first to the end of the last.
+const ApprovalDelegations: React.FC<ApprovalDelegationsProps> = ({
+  currentUser,
+}) => {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [delegations, setDelegations] = useState<ApprovalDelegation[]>([]);
+  const [approvers, setApprovers] = useState<Approver[]>([]);
+  const [delegateId, setDelegateId] = useState('');
+  const [from, setFrom] = useState(() => toDateInput(new Date()));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const load = () => {
+    api.getDelegations().then(setDelegations).catch(() => {});
+  };
+
+  useEffect(() => {
+    load();
+    api.getApprovers().then(setApprovers).catch(() => {});
+  }, []);
+
+  const given = delegations.filter((d) => d.delegator.id === currentUser.id);
+  const held = delegations.filter((d) => d.delegate.id === currentUser.id);
+
+  const formatRange = (d: ApprovalDelegation) => {
+    const options: Intl.DateTimeFormatOptions = {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    };
+    // endsAt is the midnight after the last day
+    const last = new Date(new Date(d.endsAt).getTime() - 1);
+    return `${new Date(d.startsAt).toLocaleDateString(dateLocale(), options)} – ${last.toLocaleDateString(dateLocale(), options)}`;
+  };
+
+  const create = async () => {
+    const startsAt = new Date(`${from}T00:00`);
+    const endsAt = new Date(`${to}T00:00`);
+    endsAt.setDate(endsAt.getDate() + 1);
+    if (!delegateId || isNaN(startsAt.getTime()) || startsAt >= endsAt) {
+      toast.error(t('delegations.invalid'));
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await api.createDelegation({
+        delegateId,
+        startsAt: startsAt.toISOString(),
+        endsAt: endsAt.toISOString(),
+      });
+      toast.success(t('delegations.created'));
+      setDelegateId('');
+      load();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t('delegations.createFailed'),
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const remove = async (id: string) => {
+    try {
+      await api.deleteDelegation(id);
+      toast.success(t('delegations.deleted'));
+      load();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t('delegations.deleteFailed'),
+      );
+    }
+  };
+
+  return (
+    <div className="glass rounded-lg border border-slate-200 p-4 space-y-3">
+      <div>
+        <p className="text-sm font-semibold text-slate-800">
+          {t('delegations.title')}
+        </p>
+        <p className="text-xs text-slate-500 mt-0.5">
+          {t('delegations.subtitle')}
+        </p>
+      </div>
+
+      {held.map((d) => (
+        <p
+          key={d.id}
+          className="text-sm text-primary-dark bg-primary/10 rounded-md px-3 py-2"
+        >
+          {t('delegations.holding', {
+            name: d.delegator.name,
+            range: formatRange(d),
+          })}
+        </p>
+      ))}
+
+      {given.length > 0 && (
+        <ul className="divide-y divide-slate-100 border border-slate-200 rounded-md bg-white">
+          {given.map((d) => (
+            <li
+              key={d.id}
+              className="flex items-center justify-between gap-3 px-3 py-2 text-sm"
+            >
+              <span className="text-slate-700">
+                {t('delegations.giving', {
+                  name: d.delegate.name,
+                  range: formatRange(d),
+                })}
+              </span>
+              <button
+                onClick={() => remove(d.id)}
+                className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded"
+                title={t('delegations.end')}
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="block">
+          <span className="block text-xs font-semibold text-slate-500 mb-1">
+            {t('delegations.delegate')}
+          </span>
+          <select
+            value={delegateId}
+            onChange={(e) => setDelegateId(e.target.value)}
+            className={inputClass}
+            disabled={isSubmitting}
+          >
+            <option value="">{t('delegations.pickDelegate')}</option>
+            {approvers
+              .filter((a) => a.id !== currentUser.id)
+              .map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name} ({a.email})
+                </option>
+              ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs font-semibold text-slate-500 mb-1">
+            {t('delegations.from')}
+          </span>
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className={inputClass}
+            disabled={isSubmitting}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs font-semibold text-slate-500 mb-1">
+            {t('delegations.to')}
+          </span>
+          <input
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => setTo(e.target.value)}
+            className={inputClass}
+            disabled={isSubmitting}
+          />
+        </label>
+        <button
+          onClick={create}
+          className="px-4 py-2 text-sm font-medium text-white bg-primary-dark hover:bg-primary rounded-lg transition-colors disabled:opacity-50"
+          disabled={!delegateId || isSubmitting}
+        >
+          {t('delegations.add')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ApprovalDelegations;
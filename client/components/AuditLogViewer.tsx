@@ -17,14 +17,40 @@ const ACTION_GROUPS: { key: string; actions: string[] }[] = [
   {
     key: 'bookings',
     actions: [
+      'BOOKING_CREATE_ON_BEHALF',
+      'BOOKING_UPDATE',
       'BOOKING_APPROVE',
+      'BOOKING_APPROVE_STEP',
+      'BOOKING_AUTO_APPROVE',
       'BOOKING_REJECT',
+      'BOOKING_PROPOSE',
+      'BOOKING_PROPOSAL_ACCEPT',
+      'BOOKING_PROPOSAL_DECLINE',
+      'BOOKING_PROPOSAL_EXPIRE',
       'BOOKING_CANCEL',
       'BOOKING_REMIND',
+      'BOOKING_COMMENT',
+      'BOOKING_ESCALATE',
       'BOOKING_AUTO_CANCEL',
       'BOOKING_AUTO_COMPLETE',
+      'BOOKING_CHECK_IN',
+      'BOOKING_NO_SHOW',
+      'BOOKING_POLICY_NOTIFY',
+      'BOOKING_POLICY_CANCEL',
     ],
   },
+  {
+    key: 'waitlist',
+    actions: [
+      'WAITLIST_JOIN',
+      'WAITLIST_LEAVE',
+      'WAITLIST_OFFER',
+      'WAITLIST_CLAIM',
+      'WAITLIST_AUTO_BOOK',
+      'WAITLIST_EXPIRE',
+    ],
+  },
+  { key: 'delegations', actions: ['DELEGATION_CREATE', 'DELEGATION_DELETE'] },
   { key: 'rooms', actions: ['ROOM_CREATE', 'ROOM_UPDATE', 'ROOM_DELETE'] },
   {
     key: 'departments',
@@ -35,7 +61,10 @@ const ACTION_GROUPS: { key: string; actions: string[] }[] = [
       'DEPARTMENT_MANAGERS_UPDATE',
     ],
   },
-  { key: 'closures', actions: ['CLOSURE_CREATE', 'CLOSURE_UPDATE', 'CLOSURE_DELETE'] },
+  {
+    key: 'closures',
+    actions: ['CLOSURE_CREATE', 'CLOSURE_UPDATE', 'CLOSURE_DELETE', 'CLOSURE_CANCEL_BOOKINGS'],
+  },
   { key: 'semesters', actions: ['SEMESTER_CREATE', 'SEMESTER_UPDATE', 'SEMESTER_DELETE'] },
   {
     key: 'users',
@@ -46,6 +75,10 @@ const ACTION_GROUPS: { key: string; actions: string[] }[] = [
       'USER_IMPORT',
       'USER_ROLE_CHANGE',
       'USER_STATUS_CHANGE',
+      'USER_STRIKE',
+      'USER_STRIKE_FORGIVE',
+      'USER_BAN',
+      'USER_BAN_LIFT',
     ],
   },
   { key: 'platform', actions: ['SETTINGS_UPDATE'] },
@@ -53,12 +86,16 @@ const ACTION_GROUPS: { key: string; actions: string[] }[] = [
 
 // Destructive or privilege-changing actions are tinted so they stand out when scanning
 const HIGH_IMPACT = new Set([
+  'DELEGATION_CREATE',
   'ROOM_DELETE',
   'DEPARTMENT_DELETE',
   'SEMESTER_DELETE',
   'CLOSURE_DELETE',
+  'CLOSURE_CANCEL_BOOKINGS',
+  'BOOKING_POLICY_CANCEL',
   'USER_DELETE',
   'USER_ROLE_CHANGE',
+  'USER_BAN',
   'DEPARTMENT_MANAGERS_UPDATE',
   'SETTINGS_UPDATE',
 ]);
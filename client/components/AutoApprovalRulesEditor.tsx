@@ -0,0 +1,199 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { UserRole } from '../types';
+import {
+  AutoApprovalRuleDraft,
+  MAX_AUTO_APPROVAL_RULES,
+  MAX_RULE_ATTENDEES,
+  MAX_RULE_NAME,
+  emptyAutoApprovalRule,
+} from '../utils/autoApproval';
+import { PlusIcon, TrashIcon } from './Icons';
+
+interface AutoApprovalRulesEditorProps {
+  value: AutoApprovalRuleDraft[];
+  onChange: (drafts: AutoApprovalRuleDraft[]) => void;
+  disabled?: boolean;
+}
+
+const ROLES: UserRole[] = [
+  UserRole.STUDENT,
+  UserRole.FACULTY,
+  UserRole.STUDENT_WORKER,
+  UserRole.ADMIN,
+  UserRole.SUPERADMIN,
+];
+
+const inputClass =
+  'w-full px-2 py-1 border border-slate-200 rounded text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary';
+
+// One card per rule. A request is confirmed by the first rule whose every
+// filled-in condition holds; blank conditions are not checked.
+const AutoApprovalRulesEditor: React.FC<AutoApprovalRulesEditorProps> = ({
+  value,
+  onChange,
+  disabled,
+}) => {
+  const { t } = useTranslation();
+
+  const update = (index: number, patch: Partial<AutoApprovalRuleDraft>) => {
+    onChange(value.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const toggleRole = (index: number, role: UserRole) => {
+    const roles = value[index].roles;
+    update(index, {
+      roles: roles.includes(role)
+        ? roles.filter((r) => r !== role)
+        : [...roles, role],
+    });
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      {value.length === 0 && (
+        <p className="text-xs text-slate-500">{t('autoApproval.none')}</p>
+      )}
+      {value.map((rule, index) => (
+        <div
+          key={index}
+          className="border border-slate-200 rounded-lg p-3 space-y-3"
+        >
+          <div className="flex items-end gap-2">
+            <label className="block flex-1">
+              <span className="block text-xs font-semibold text-slate-500 mb-1">
+                {t('autoApproval.name')}
+              </span>
+              <input
+                type="text"
+                value={rule.name}
+                maxLength={MAX_RULE_NAME}
+                onChange={(e) => update(index, { name: e.target.value })}
+                placeholder={t('autoApproval.namePlaceholder')}
+                className={inputClass}
+                disabled={disabled}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded"
+              title={t('autoApproval.remove')}
+              disabled={disabled}
+            >
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div>
+            <span className="block text-xs font-semibold text-slate-500 mb-1">
+              {t('autoApproval.roles')}
+            </span>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {ROLES.map((role) => (
+                <label
+                  key={role}
+                  className="flex items-center gap-1.5 text-slate-700 cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={rule.roles.includes(role)}
+                    onChange={() => toggleRole(index, role)}
+                    className="rounded border-slate-300 text-primary focus:ring-primary/20"
+                    disabled={disabled}
+                  />
+                  {t(`admin.roles.${role}`)}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <label className="block">
+              <span className="block text-xs font-semibold text-slate-500 mb-1">
+                {t('autoApproval.maxDuration')}
+              </span>
+              <input
+                type="number"
+                min={1}
+                max={24 * 60}
+                value={rule.maxDurationMinutes}
+                onChange={(e) =>
+                  update(index, { maxDurationMinutes: e.target.value })
+                }
+                placeholder="—"
+                className={inputClass}
+                disabled={disabled}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-semibold text-slate-500 mb-1">
+                {t('autoApproval.maxAttendees')}
+              </span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_RULE_ATTENDEES}
+                value={rule.maxAttendees}
+                onChange={(e) => update(index, { maxAttendees: e.target.value })}
+                placeholder="—"
+                className={inputClass}
+                disabled={disabled}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-semibold text-slate-500 mb-1">
+                {t('autoApproval.from')}
+              </span>
+              <input
+                type="time"
+                value={rule.fromTime}
+                onChange={(e) => update(index, { fromTime: e.target.value })}
+                className={inputClass}
+                disabled={disabled}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-semibold text-slate-500 mb-1">
+                {t('autoApproval.to')}
+              </span>
+              <input
+                type="time"
+                value={rule.toTime}
+                onChange={(e) => update(index, { toTime: e.target.value })}
+                className={inputClass}
+                disabled={disabled}
+              />
+            </label>
+          </div>
+
+          <label className="flex items-center gap-1.5 text-slate-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={rule.bookerInDepartment}
+              onChange={(e) =>
+                update(index, { bookerInDepartment: e.target.checked })
+              }
+              className="rounded border-slate-300 text-primary focus:ring-primary/20"
+              disabled={disabled}
+            />
+            {t('autoApproval.bookerInDepartment')}
+          </label>
+        </div>
+      ))}
+      {value.length < MAX_AUTO_APPROVAL_RULES && (
+        <button
+          type="button"
+          onClick={() => onChange([...value, emptyAutoApprovalRule()])}
+          className="flex items-center gap-1 text-sm font-medium text-primary hover:underline disabled:opacity-50"
+          disabled={disabled}
+        >
+          <PlusIcon className="w-4 h-4" />
+          {t('autoApproval.add')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default AutoApprovalRulesEditor;
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { dateLocale } from '../i18n';
+import { api } from '../services/api';
+import { Booking, BookingComment, User } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { MessageIcon } from './Icons';
+
+interface BookingCommentsProps {
+  booking: Booking;
+  currentUser: User;
+}
+
+// Same limit as server/src/middleware/validation.ts
+const MAX_COMMENT_LENGTH = 2000;
+
+// The thread between the booker and those who moderate the booking, with a box
+// to add to it. Reloaded when the booking's comment count changes, so a reply
+// pushed over the live stream shows up without a refresh.
+const BookingComments: React.FC<BookingCommentsProps> = ({
+  booking,
+  currentUser,
+}) => {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [comments, setComments] = useState<BookingComment[]>([]);
+  const [draft, setDraft] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    let stale = false;
+    api
+      .getBookingComments(booking.id)
+      .then((loaded) => {
+        if (!stale) setComments(loaded);
+      })
+      .catch((error) => console.error('Failed to load comments:', error));
+    return () => {
+      stale = true;
+    };
+  }, [booking.id, booking.commentCount]);
+
+  const submit = async () => {
+    if (!draft.trim()) return;
+    setIsSubmitting(true);
+    try {
+      const comment = await api.addBookingComment(booking.id, draft);
+      setComments((prev) =>
+        prev.some((c) => c.id === comment.id) ? prev : [...prev, comment],
+      );
+      setDraft('');
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t('comments.failed'),
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <MessageIcon className="w-4 h-4 text-slate-400" />
+        <span className="text-sm font-medium text-slate-700">
+          {t('comments.title', { count: comments.length })}
+        </span>
+      </div>
+      {comments.length === 0 ? (
+        <p className="text-xs text-slate-500 mb-2">{t('comments.empty')}</p>
+      ) : (
+        <ul className="space-y-2 mb-3 max-h-72 overflow-y-auto custom-scrollbar">
+          {comments.map((c) => (
+            <li
+              key={c.id}
+              className={`rounded-lg p-2 text-sm border ${
+                c.authorId === currentUser.id
+                  ? 'bg-primary/5 border-primary/10'
+                  : 'bg-slate-50 border-slate-100'
+              }`}
+            >
+              <div className="flex justify-between gap-2 text-xs text-slate-500 mb-0.5">
+                <span className="font-semibold text-slate-700">
+                  {c.authorName ?? t('comments.deletedUser')}
+                  {c.fromBooker && (
+                    <span className="ml-1 font-normal text-slate-500">
+                      {t('comments.booker')}
+                    </span>
+                  )}
+                </span>
+                <span className="shrink-0">
+                  {new Date(c.createdAt).toLocaleString(dateLocale(), {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </span>
+              </div>
+              <p className="text-slate-700 whitespace-pre-wrap break-words">
+                {c.body}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={2}
+        maxLength={MAX_COMMENT_LENGTH}
+        className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+        placeholder={t('comments.placeholder')}
+        disabled={isSubmitting}
+      />
+      <div className="flex justify-end mt-1">
+        <button
+          onClick={submit}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-primary-dark hover:bg-primary rounded-lg transition-colors disabled:opacity-50"
+          disabled={!draft.trim() || isSubmitting}
+        >
+          {isSubmitting ? t('comments.sending') : t('comments.send')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BookingComments;
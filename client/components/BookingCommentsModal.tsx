@@ -0,0 +1,57 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { dateLocale } from '../i18n';
+import { Booking, User } from '../types';
+import BookingComments from './BookingComments';
+import { XIcon } from './Icons';
+
+interface BookingCommentsModalProps {
+  booking: Booking;
+  roomName?: string;
+  currentUser: User;
+  onClose: () => void;
+}
+
+// A booking's comment thread opened from the admin bookings list
+const BookingCommentsModal: React.FC<BookingCommentsModalProps> = ({
+  booking,
+  roomName,
+  currentUser,
+  onClose,
+}) => {
+  const { t } = useTranslation();
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50 animate-fade-in">
+      <div className="bg-white rounded-xl max-w-md w-full animate-scale-in">
+        <div className="p-6 border-b border-slate-200 flex items-start justify-between gap-3">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">
+              {t('comments.modalTitle')}
+            </h3>
+            <p className="text-sm text-slate-500 mt-1">
+              {roomName} ·{' '}
+              {new Date(booking.startTime).toLocaleString(dateLocale(), {
+                month: 'short',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}{' '}
+              · {booking.userDisplay}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-600 transition-colors"
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-6">
+          <BookingComments booking={booking} currentUser={currentUser} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BookingCommentsModal;
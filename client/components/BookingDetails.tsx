@@ -1,14 +1,26 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { dateLocale } from '../i18n';
-import { Booking, User, UserRole, Room } from '../types';
-import { ClockIcon, UsersIcon, UserCircleIcon, TrashIcon } from './Icons';
+import { Booking, BookingEvent, User, UserRole, Room } from '../types';
+import { api } from '../services/api';
+import { getCheckInState } from '../utils/checkIn';
+import BookingComments from './BookingComments';
+import {
+  ClockIcon,
+  UsersIcon,
+  UserCircleIcon,
+  TrashIcon,
+  PencilIcon,
+  CheckCircleIcon,
+} from './Icons';
 
 interface BookingDetailsProps {
   booking: Booking;
   room: Room;
   currentUser: User;
   onCancelBooking: (id: string) => void;
+  onEditBooking?: (id: string) => void;
+  onCheckIn?: (id: string) => void;
   onClose: () => void;
 }
 
@@ -17,6 +29,8 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
   room,
   currentUser,
   onCancelBooking,
+  onEditBooking,
+  onCheckIn,
   onClose,
 }) => {
   const { t } = useTranslation();
@@ -33,6 +47,37 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
   const hasEnded = end <= now;
   const canCancelBooking =
     canCancel && booking.status === 'CONFIRMED' && !hasEnded;
+  // Pending requests can be moved too; the server sends them back for approval
+  const canEditBooking =
+    canCancel &&
+    !!onEditBooking &&
+    (booking.status === 'CONFIRMED' || booking.status === 'PENDING') &&
+    !hasEnded;
+  const checkIn = getCheckInState(booking, now);
+
+  // The other rooms booked with this one, for a room of an event
+  const [event, setEvent] = useState<BookingEvent | null>(null);
+  useEffect(() => {
+    setEvent(null);
+    if (!booking.eventId) return;
+    let stale = false;
+    api
+      .getBookingEvent(booking.eventId)
+      .then((loaded) => {
+        if (!stale) setEvent(loaded);
+      })
+      .catch((error) => console.error('Failed to load event:', error));
+    return () => {
+      stale = true;
+    };
+  }, [booking.eventId, booking.status]);
+  const canCheckIn = isOwner && !!onCheckIn && checkIn === 'OPEN';
+
+  const formatTime = (iso: string) =>
+    new Date(iso).toLocaleTimeString(dateLocale(), {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
 
   return (
     <div className="h-full flex flex-col bg-white border-l border-slate-200 ">
@@ -57,6 +102,28 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
         >
           {t(`status.${booking.status}`)}
         </div>
+        {booking.seriesId && (
+          <div className="inline-block ml-2 px-2 py-1 rounded text-xs font-bold bg-primary/10 text-primary">
+            {t('bookingDetails.recurring')}
+          </div>
+        )}
+        {booking.eventId && (
+          <div className="inline-block ml-2 px-2 py-1 rounded text-xs font-bold bg-primary/10 text-primary">
+            {t('bookingDetails.event')}
+          </div>
+        )}
+        {checkIn === 'CHECKED_IN' && (
+          <div className="inline-block ml-2 px-2 py-1 rounded text-xs font-bold bg-green-50 text-green-700 border border-green-200">
+            {t('checkIn.checkedInAt', { time: formatTime(booking.checkedInAt!) })}
+          </div>
+        )}
+        {(checkIn === 'UPCOMING' || checkIn === 'OPEN') && (
+          <div className="text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded p-2">
+            {checkIn === 'UPCOMING'
+              ? t('checkIn.opensAt', { time: formatTime(booking.checkInOpensAt!) })
+              : t('checkIn.closesAt', { time: formatTime(booking.checkInClosesAt!) })}
+          </div>
+        )}
 
         {/* Time */}
         <div className="flex gap-3">
@@ -90,9 +157,81 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
             <div className="font-medium text-slate-900">
               {booking.userDisplay}
             </div>
+            {booking.createdByName && (
+              <div className="text-xs text-slate-500">
+                {t('bookingDetails.bookedOnBehalfBy', {
+                  name: booking.createdByName,
+                })}
+              </div>
+            )}
           </div>
         </div>
 
+        {/* Approval chain: who signed each step so far */}
+        {booking.approval && booking.status === 'PENDING' && (
+          <div>
+            <div className="text-sm font-medium text-slate-700 mb-1">
+              {t('bookingDetails.approvalTrail')}
+            </div>
+            <ol className="space-y-0.5 text-xs text-slate-600">
+              {booking.approval.steps.map((step, index) => {
+                const signed = booking.approval!.approvals.find(
+                  (a) => a.step === index,
+                );
+                return (
+                  <li
+                    key={index}
+                    className={signed ? 'text-green-700' : undefined}
+                  >
+                    {!signed
+                      ? t('bookingDetails.approvalWaiting', { step })
+                      : signed.onBehalfOfName
+                        ? t('bookingDetails.approvalOnBehalf', {
+                            step,
+                            name: signed.approverName ?? '—',
+                            onBehalfOf: signed.onBehalfOfName,
+                          })
+                        : t('bookingDetails.approvalSigned', {
+                            step,
+                            name: signed.approverName ?? '—',
+                          })}
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        )}
+
+        {/* Event */}
+        {event && (
+          <div>
+            <div className="text-sm font-medium text-slate-700">
+              {t('bookingDetails.eventRooms')}
+            </div>
+            <div className="text-xs text-slate-500 mb-2">
+              {t('bookingDetails.eventOrganizer', { name: event.organizer })}
+            </div>
+            <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg text-sm">
+              {event.bookings.map((b) => (
+                <li
+                  key={b.id}
+                  className={`flex justify-between gap-3 px-3 py-2 ${b.id === booking.id ? 'bg-slate-50 font-semibold' : ''}`}
+                >
+                  <span className="text-slate-800 truncate">
+                    {b.roomName}
+                    <span className="ml-1 font-normal text-slate-500">
+                      {formatTime(b.startTime)} - {formatTime(b.endTime)}
+                    </span>
+                  </span>
+                  <span className="shrink-0 text-xs text-slate-500">
+                    {t(`status.${b.status}`)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Purpose */}
         {booking.purpose && (
           <div className="bg-slate-50 p-3 rounded-lg border border-slate-100 text-sm text-slate-700 italic">
@@ -116,11 +255,34 @@ const BookingDetails: React.FC<BookingDetailsProps> = ({
             ))}
           </ul>
         </div>
+
+        {/* Comments: only for those who see the booking in full */}
+        {booking.userDisplay && (
+          <BookingComments booking={booking} currentUser={currentUser} />
+        )}
       </div>
 
       {/* Actions */}
       {canCancel && (
-        <div className="p-4 bg-slate-50 border-t border-slate-200">
+        <div className="p-4 bg-slate-50 border-t border-slate-200 space-y-2">
+          {canCheckIn && (
+            <button
+              onClick={() => onCheckIn!(booking.id)}
+              className="w-full flex justify-center items-center gap-2 py-2 text-sm font-bold text-white bg-primary hover:bg-primary-light rounded-lg shadow-sm transition-colors"
+            >
+              <CheckCircleIcon className="w-4 h-4" />
+              {t('checkIn.action')}
+            </button>
+          )}
+          {canEditBooking && (
+            <button
+              onClick={() => onEditBooking!(booking.id)}
+              className="w-full flex justify-center items-center gap-2 py-2 text-sm font-medium text-primary bg-white border border-primary/20 hover:bg-primary/5 rounded-lg transition-colors"
+            >
+              <PencilIcon className="w-4 h-4" />
+              {t('bookingDetails.editBooking')}
+            </button>
+          )}
           {canCancelBooking ? (
             <button
               onClick={() => onCancelBooking(booking.id)}
@@ -2,12 +2,31 @@ import React, { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { useTranslation, Trans } from 'react-i18next';
 import { dateLocale } from '../i18n';
-import { Room, Attendee } from '../types';
-import { api } from '../services/api';
+import {
+  Room,
+  Attendee,
+  RecurrenceFrequency,
+  BookingSeriesReport,
+  SeriesOccurrence,
+  QuotaLimits,
+  QuotaUsage,
+  SlotSuggestions,
+  EventRoomReport,
+  User,
+  UserRole,
+  isGlobalAdminRole,
+} from '../types';
+import { api, ApiError } from '../services/api';
 import { UsersIcon, ClockIcon, AlertTriangleIcon, XIcon } from './Icons';
 import { useToast } from '../contexts/ToastContext';
 import { useSettings } from '../contexts/SettingsContext';
 import LoadingSpinner from './LoadingSpinner';
+import {
+  DEFAULT_BOOKING_RULES,
+  RuleViolation,
+  getEffectiveBookingRules,
+  getRuleViolation,
+} from '../utils/bookingRules';
 
 // Matches server/src/services/settings.ts formatLeadTime, so the warning shown
 // here and the error the API returns describe the same period the same way.
@@ -16,20 +35,52 @@ const formatLeadTime = (minutes: number, t: (k: string, o?: any) => string) =>
     ? t('booking.durationHours', { count: minutes / 60 })
     : t('booking.durationMinutes', { count: minutes });
 
+// Same wording as the errors in server/src/services/bookingRules.ts
+const describeRuleViolation = (
+  v: RuleViolation,
+  t: (k: string, o?: any) => string,
+) =>
+  v.rule === 'tooFarAhead'
+    ? t('bookingRules.violations.tooFarAhead', {
+        days: v.days,
+        date: v.date.toLocaleDateString(dateLocale(), {
+          day: 'numeric',
+          month: 'short',
+        }),
+      })
+    : t(`bookingRules.violations.${v.rule}`, { duration: formatLeadTime(v.minutes, t) });
+
+// How a series ends: after N occurrences, on a date, or with the active semester
+type RepeatEnd = 'count' | 'until' | 'semester';
+
+const OCCURRENCE_TONE: Record<SeriesOccurrence['result'], string> = {
+  CREATED: 'text-green-700',
+  CONFLICT: 'text-red-600',
+  CLOSED: 'text-amber-700',
+  UNAVAILABLE: 'text-slate-500',
+};
+
 interface BookingFormProps {
   selectedRoom: Room;
+  rooms: Room[]; // every room, for adding more to an event
+  currentUser: User;
   startTime: Date;
   endTime: Date;
   onSuccess: () => void;
   onCancel: () => void;
+  // Take a suggested slot in another room: the page moves the form there
+  onSwitchRoom: (roomId: string, start: Date, end: Date) => void;
 }
 
 const BookingForm: React.FC<BookingFormProps> = ({
   selectedRoom,
+  rooms,
+  currentUser,
   startTime: initialStartTime,
   endTime: initialEndTime,
   onSuccess,
   onCancel,
+  onSwitchRoom,
 }) => {
   const { t } = useTranslation();
   const toast = useToast();
@@ -38,6 +89,20 @@ const BookingForm: React.FC<BookingFormProps> = ({
   const [bookingStart, setBookingStart] = useState(initialStartTime);
   const [bookingEnd, setBookingEnd] = useState(initialEndTime);
 
+  // Staff, and department admins for their own rooms, can take a walk-up or
+  // phone request and book it in the requester's name
+  const canBookForOthers =
+    isGlobalAdminRole(currentUser.role) ||
+    currentUser.role === UserRole.STUDENT_WORKER ||
+    (!!selectedRoom.departmentId &&
+      !!currentUser.managedDepartmentIds?.includes(selectedRoom.departmentId));
+  const [bookingForOther, setBookingForOther] = useState(false);
+  const [bookForName, setBookForName] = useState('');
+  const [bookForEmail, setBookForEmail] = useState('');
+  const [overrideLeadTime, setOverrideLeadTime] = useState(false);
+  const [overrideQuota, setOverrideQuota] = useState(false);
+  const onBehalf = canBookForOthers && bookingForOther;
+
   // Approval-gated rooms need enough notice for someone to respond; the server
   // enforces this, we just say so before the user fills the whole form in.
   const leadMinutes = selectedRoom.requiresApproval
@@ -45,8 +110,25 @@ const BookingForm: React.FC<BookingFormProps> = ({
     : 0;
   const earliestApprovalStart =
     leadMinutes > 0 ? new Date(Date.now() + leadMinutes * 60000) : null;
+  const waivesLeadTime = onBehalf && overrideLeadTime;
   const violatesLeadTime =
-    !!earliestApprovalStart && bookingStart < earliestApprovalStart;
+    !!earliestApprovalStart &&
+    bookingStart < earliestApprovalStart &&
+    !waivesLeadTime;
+
+  // Duration, start step and horizon for this room; the server checks the same
+  const rules = getEffectiveBookingRules(
+    selectedRoom,
+    selectedRoom.department,
+    settings,
+    currentUser.role,
+  );
+  const ruleViolation = getRuleViolation(bookingStart, bookingEnd, rules);
+  const hasCustomRules =
+    rules.minDurationMinutes !== DEFAULT_BOOKING_RULES.minDurationMinutes ||
+    rules.maxDurationMinutes !== DEFAULT_BOOKING_RULES.maxDurationMinutes ||
+    rules.slotMinutes !== DEFAULT_BOOKING_RULES.slotMinutes ||
+    rules.maxAdvanceDays !== null;
 
   const [purpose, setPurpose] = useState('');
   const [attendeeInput, setAttendeeInput] = useState('');
@@ -57,8 +139,32 @@ const BookingForm: React.FC<BookingFormProps> = ({
   const [hasConflict, setHasConflict] = useState(false);
   const [conflictDetails, setConflictDetails] = useState<string | null>(null);
   const [checkingConflict, setCheckingConflict] = useState(false);
+  const [suggestions, setSuggestions] = useState<SlotSuggestions | null>(null);
+  const [loadingSuggestions, setLoadingSuggestions] = useState(false);
+  const [repeat, setRepeat] = useState<'NONE' | RecurrenceFrequency>('NONE');
+  const [repeatEnd, setRepeatEnd] = useState<RepeatEnd>('count');
+  const [repeatCount, setRepeatCount] = useState(8);
+  const [repeatUntil, setRepeatUntil] = useState('');
+  const [seriesReport, setSeriesReport] = useState<BookingSeriesReport | null>(null);
+  // Other rooms booked with this one as an event, all or nothing
+  const [eventRoomIds, setEventRoomIds] = useState<string[]>([]);
+  const [eventReport, setEventReport] = useState<EventRoomReport[] | null>(null);
+  const [quota, setQuota] = useState<{
+    limits: QuotaLimits;
+    usage: QuotaUsage;
+  } | null>(null);
   const [isMobile, setIsMobile] = useState(window.innerWidth < 640);
 
+  // Booking for someone else is always a single room
+  const eventRooms = onBehalf
+    ? []
+    : eventRoomIds
+        .map((id) => rooms.find((r) => r.id === id))
+        .filter((r): r is Room => !!r && r.id !== selectedRoom.id);
+  const isEvent = eventRooms.length > 0;
+  // Every room being booked whose terms must be accepted first
+  const termsRooms = [selectedRoom, ...eventRooms].filter((r) => r.bookingTerms);
+
   useEffect(() => {
     const handleResize = () => setIsMobile(window.innerWidth < 640);
     window.addEventListener('resize', handleResize);
@@ -74,9 +180,20 @@ const BookingForm: React.FC<BookingFormProps> = ({
   useEffect(() => {
     // Reset form when times change
     setError(null);
+    setSuggestions(null);
+    setEventReport(null);
     checkForConflicts();
   }, [bookingStart, bookingEnd]);
 
+  // Usage depends on the day and week, not the exact time
+  const bookingDay = bookingStart.toDateString();
+  useEffect(() => {
+    api
+      .getQuota(selectedRoom.id, bookingStart)
+      .then(setQuota)
+      .catch(() => setQuota(null));
+  }, [selectedRoom.id, bookingDay]);
+
   const checkForConflicts = async () => {
     setCheckingConflict(true);
     setHasConflict(false);
@@ -90,22 +207,31 @@ const BookingForm: React.FC<BookingFormProps> = ({
       });
 
       if (result.hasConflict && result.conflicts.length > 0) {
-        const conflict = result.conflicts[0];
+        // A real overlap is worth more to the booker than a clash that is
+        // only with the turnover time around a booking
+        const conflict =
+          result.conflicts.find((c) => !c.bufferOnly) || result.conflicts[0];
         const conflictStart = new Date(conflict.startTime);
         const conflictEnd = new Date(conflict.endTime);
         setHasConflict(true);
         setConflictDetails(
-          t('booking.conflictsWith', {
-            name: conflict.userDisplay,
-            start: conflictStart.toLocaleTimeString(dateLocale(), {
-              hour: '2-digit',
-              minute: '2-digit',
-            }),
-            end: conflictEnd.toLocaleTimeString(dateLocale(), {
-              hour: '2-digit',
-              minute: '2-digit',
-            }),
-          }),
+          t(
+            conflict.bufferOnly
+              ? 'booking.conflictsWithBuffer'
+              : 'booking.conflictsWith',
+            {
+              name: conflict.userDisplay,
+              minutes: result.bufferMinutes,
+              start: conflictStart.toLocaleTimeString(dateLocale(), {
+                hour: '2-digit',
+                minute: '2-digit',
+              }),
+              end: conflictEnd.toLocaleTimeString(dateLocale(), {
+                hour: '2-digit',
+                minute: '2-digit',
+              }),
+            },
+          ),
         );
       }
     } catch (err) {
@@ -115,6 +241,25 @@ const BookingForm: React.FC<BookingFormProps> = ({
     }
   };
 
+  // Other times and rooms for a slot the conflict check found taken
+  const loadSuggestions = async () => {
+    setLoadingSuggestions(true);
+    try {
+      setSuggestions(
+        await api.suggestSlots({
+          roomId: selectedRoom.id,
+          startTime: bookingStart,
+          endTime: bookingEnd,
+          people: attendeeCount + 1,
+        }),
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('booking.suggestionsFailed'));
+    } finally {
+      setLoadingSuggestions(false);
+    }
+  };
+
   // Helper to handle time changes
   const handleTimeChange = (type: 'start' | 'end', timeString: string) => {
     if (!timeString) return;
@@ -128,7 +273,7 @@ const BookingForm: React.FC<BookingFormProps> = ({
       // Auto-adjust end time if start crosses end
       if (newDate >= bookingEnd) {
         const newEnd = new Date(newDate);
-        newEnd.setMinutes(newEnd.getMinutes() + 15); // Default 15 min duration
+        newEnd.setMinutes(newEnd.getMinutes() + rules.minDurationMinutes); // Shortest allowed duration
         setBookingEnd(newEnd);
       }
     } else {
@@ -170,8 +315,17 @@ const BookingForm: React.FC<BookingFormProps> = ({
       return;
     }
 
+    if (ruleViolation) {
+      setError(describeRuleViolation(ruleViolation, t));
+      return;
+    }
+
     // Re-checked against the clock at submit time, not the render-time value
-    if (leadMinutes > 0 && bookingStart < new Date(now.getTime() + leadMinutes * 60000)) {
+    if (
+      leadMinutes > 0 &&
+      !waivesLeadTime &&
+      bookingStart < new Date(now.getTime() + leadMinutes * 60000)
+    ) {
       setError(
         t('booking.approvalLeadTime', {
           duration: formatLeadTime(leadMinutes, t),
@@ -180,6 +334,11 @@ const BookingForm: React.FC<BookingFormProps> = ({
       return;
     }
 
+    if (onBehalf && (!bookForName.trim() || !bookForEmail.trim())) {
+      setError(t('booking.bookForRequired'));
+      return;
+    }
+
     const rawLines = attendeeInput
       .split(/[\n,]/)
       .map((s) => s.trim())
@@ -212,7 +371,7 @@ const BookingForm: React.FC<BookingFormProps> = ({
       return;
     }
 
-    if (selectedRoom.bookingTerms && !termsAccepted) {
+    if (termsRooms.length > 0 && !termsAccepted) {
       setError(t('booking.termsRequired'));
       return;
     }
@@ -221,10 +380,81 @@ const BookingForm: React.FC<BookingFormProps> = ({
       name: name,
       isCompanion: true,
     }));
-    attendees.unshift({ name: 'Me (Booker)', isCompanion: false });
+    attendees.unshift({
+      name: onBehalf ? bookForName.trim() : 'Me (Booker)',
+      isCompanion: false,
+    });
+
+    if (repeat !== 'NONE' && repeatEnd === 'until' && !repeatUntil) {
+      setError(t('booking.repeatUntilRequired'));
+      return;
+    }
+
+    // A taken slot can still be queued for: the waitlist takes the same request.
+    // Only for the booker's own requests; staff booking for someone pick a
+    // free slot instead.
+    const joiningWaitlist = hasConflict && repeat === 'NONE' && !onBehalf && !isEvent;
 
     setIsSubmitting(true);
     try {
+      if (joiningWaitlist) {
+        await api.joinWaitlist({
+          roomId: selectedRoom.id,
+          startTime: bookingStart,
+          endTime: bookingEnd,
+          purpose,
+          attendees,
+          termsAccepted: selectedRoom.bookingTerms ? termsAccepted : undefined,
+        });
+        toast.success(t('booking.waitlistJoined', { room: selectedRoom.name }));
+        onSuccess();
+        return;
+      }
+
+      if (isEvent) {
+        // Every room at the same time with the same people, or none of them
+        await api.createBookingEvent({
+          purpose,
+          bookings: [selectedRoom, ...eventRooms].map((room) => ({
+            roomId: room.id,
+            startTime: bookingStart,
+            endTime: bookingEnd,
+            attendees,
+            termsAccepted: room.bookingTerms ? termsAccepted : undefined,
+          })),
+        });
+        toast.success(t('booking.eventBooked', { count: eventRooms.length + 1 }));
+        onSuccess();
+        return;
+      }
+
+      if (repeat !== 'NONE') {
+        // Each date is checked on its own; keep the form open to show which
+        // ones were booked and which were not
+        const report = await api.createBookingSeries({
+          roomId: selectedRoom.id,
+          startTime: bookingStart,
+          endTime: bookingEnd,
+          purpose,
+          attendees,
+          termsAccepted: selectedRoom.bookingTerms ? termsAccepted : undefined,
+          frequency: repeat,
+          count: repeatEnd === 'count' ? repeatCount : null,
+          until:
+            repeatEnd === 'until'
+              ? new Date(`${repeatUntil}T00:00`).toISOString()
+              : null,
+        });
+        setSeriesReport(report);
+        toast.success(
+          t('booking.seriesCreated', {
+            created: report.created,
+            total: report.occurrences.length,
+          }),
+        );
+        return;
+      }
+
       const booking = await api.createBooking({
         roomId: selectedRoom.id,
         startTime: bookingStart,
@@ -232,9 +462,21 @@ const BookingForm: React.FC<BookingFormProps> = ({
         purpose,
         attendees,
         termsAccepted: selectedRoom.bookingTerms ? termsAccepted : undefined,
+        ...(onBehalf && {
+          guest: { name: bookForName.trim(), email: bookForEmail.trim() },
+          overrideLeadTime: waivesLeadTime,
+          overrideQuota,
+        }),
       });
 
-      if (booking.status === 'PENDING') {
+      if (onBehalf) {
+        toast.success(
+          t('booking.bookedFor', {
+            room: selectedRoom.name,
+            name: booking.userDisplay || bookForName.trim(),
+          }),
+        );
+      } else if (booking.status === 'PENDING') {
         toast.success(
           t('booking.requestSubmitted', { room: selectedRoom.name }),
         );
@@ -245,7 +487,19 @@ const BookingForm: React.FC<BookingFormProps> = ({
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       setError(errorMessage);
-      toast.error(t('booking.createFailed', { message: errorMessage }));
+      // A taken or closed slot comes back with places it could go instead
+      if (err instanceof ApiError && err.body.suggestions) {
+        setSuggestions(err.body.suggestions as SlotSuggestions);
+      }
+      // A refused event says which of its rooms could not be booked
+      if (err instanceof ApiError && err.body.rooms) {
+        setEventReport(err.body.rooms as EventRoomReport[]);
+      }
+      toast.error(
+        t(joiningWaitlist ? 'booking.waitlistFailed' : 'booking.createFailed', {
+          message: errorMessage,
+        }),
+      );
     } finally {
       setIsSubmitting(false);
     }
@@ -255,6 +509,54 @@ const BookingForm: React.FC<BookingFormProps> = ({
   // the user is expressed as a TOTAL so it can be compared with the room limits
   // directly, instead of asking them to add themselves in their head.
   const totalPeople = attendeeCount + 1;
+  // One line per limit that applies, red where this booking would go over it
+  const bookingHours = (bookingEnd.getTime() - bookingStart.getTime()) / 3600000;
+  const roundHours = (h: number) => Math.round(h * 100) / 100;
+  const quotaLines: { key: string; text: string; over: boolean }[] = [];
+  if (quota) {
+    const { limits, usage } = quota;
+    if (limits.maxHoursPerWeek) {
+      quotaLines.push({
+        key: 'week',
+        text: t('quotas.usage.hoursPerWeek', {
+          used: roundHours(usage.hoursInWeek),
+          max: limits.maxHoursPerWeek,
+        }),
+        over: usage.hoursInWeek + bookingHours > limits.maxHoursPerWeek,
+      });
+    }
+    if (limits.maxHoursPerDay) {
+      quotaLines.push({
+        key: 'day',
+        text: t('quotas.usage.hoursPerDay', {
+          used: roundHours(usage.hoursOnDay),
+          max: limits.maxHoursPerDay,
+        }),
+        over: usage.hoursOnDay + bookingHours > limits.maxHoursPerDay,
+      });
+    }
+    if (limits.maxActiveBookings) {
+      quotaLines.push({
+        key: 'active',
+        text: t('quotas.usage.activeBookings', {
+          used: usage.activeBookings,
+          max: limits.maxActiveBookings,
+        }),
+        over: usage.activeBookings + 1 > limits.maxActiveBookings,
+      });
+    }
+    if (limits.maxRoomBookingsPerWeek) {
+      quotaLines.push({
+        key: 'room',
+        text: t('quotas.usage.roomPerWeek', {
+          used: usage.roomBookingsInWeek,
+          max: limits.maxRoomBookingsPerWeek,
+        }),
+        over: usage.roomBookingsInWeek + 1 > limits.maxRoomBookingsPerWeek,
+      });
+    }
+  }
+
   const missingPeople = Math.max(0, selectedRoom.minCapacity - totalPeople);
   const extraPeople = Math.max(0, totalPeople - selectedRoom.maxCapacity);
   const isCountValid = missingPeople === 0 && extraPeople === 0;
@@ -268,6 +570,52 @@ const BookingForm: React.FC<BookingFormProps> = ({
     return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
   };
 
+  const formatOccurrence = (o: SeriesOccurrence) => {
+    switch (o.result) {
+      case 'CREATED':
+        return t(`status.${o.status}`);
+      case 'CONFLICT':
+        return t('booking.occurrenceConflict');
+      case 'CLOSED':
+        return t('booking.occurrenceClosed', { name: o.exceptionName });
+      default:
+        return o.error;
+    }
+  };
+
+  const reportContent = seriesReport && (
+    <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar">
+      <div className="bg-indigo-50 p-3 rounded-lg border border-indigo-100 text-sm font-semibold text-slate-800">
+        {t('booking.seriesCreated', {
+          created: seriesReport.created,
+          total: seriesReport.occurrences.length,
+        })}
+      </div>
+      <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg text-sm">
+        {seriesReport.occurrences.map((o) => (
+          <li key={o.startTime} className="flex justify-between gap-3 px-3 py-2">
+            <span className="text-slate-700">
+              {new Date(o.startTime).toLocaleDateString(dateLocale(), {
+                weekday: 'short',
+                month: 'short',
+                day: 'numeric',
+              })}
+            </span>
+            <span className={`text-right font-medium ${OCCURRENCE_TONE[o.result]}`}>
+              {formatOccurrence(o)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+  const formatSuggestionTime = (iso: string) =>
+    new Date(iso).toLocaleTimeString(dateLocale(), {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
   const formContent = (
     <div
       className={`flex flex-col bg-white  ${isMobile ? 'fixed inset-0 z-[100] animate-slide-up' : 'h-full border-l border-slate-200'}`}
@@ -287,224 +635,550 @@ const BookingForm: React.FC<BookingFormProps> = ({
         )}
       </div>
 
-      <form
-        onSubmit={handleSubmit}
-        className="flex-1 overflow-y-auto p-4 space-y-5 custom-scrollbar"
-      >
-        {checkingConflict && (
-          <div className="bg-primary/10 p-3 text-sm text-primary rounded border border-primary/20 flex items-center gap-2">
-            <LoadingSpinner size="sm" color="primary" />
-            {t('booking.checkingAvailability')}
-          </div>
-        )}
+      {reportContent || (
+        <form
+          onSubmit={handleSubmit}
+          className="flex-1 overflow-y-auto p-4 space-y-5 custom-scrollbar"
+        >
+          {checkingConflict && (
+            <div className="bg-primary/10 p-3 text-sm text-primary rounded border border-primary/20 flex items-center gap-2">
+              <LoadingSpinner size="sm" color="primary" />
+              {t('booking.checkingAvailability')}
+            </div>
+          )}
 
-        {hasConflict && !checkingConflict && (
-          <div className="bg-red-50 p-3 text-sm text-red-700 rounded border border-red-300">
-            <div className="font-semibold mb-1 flex items-center gap-2">
-              <AlertTriangleIcon className="w-4 h-4" />
-              {t('booking.timeConflict')}
+          {hasConflict && !checkingConflict && (
+            <div className="bg-red-50 p-3 text-sm text-red-700 rounded border border-red-300">
+              <div className="font-semibold mb-1 flex items-center gap-2">
+                <AlertTriangleIcon className="w-4 h-4" />
+                {t('booking.timeConflict')}
+              </div>
+              <div className="text-xs">{conflictDetails}</div>
+              <div className="text-xs mt-2 text-red-600">
+                {repeat === 'NONE' && !onBehalf && !isEvent
+                  ? t('booking.selectDifferentTimeOrWaitlist')
+                  : t('booking.selectDifferentTime')}
+              </div>
+              {!suggestions && (
+                <button
+                  type="button"
+                  onClick={loadSuggestions}
+                  disabled={loadingSuggestions}
+                  className="mt-2 text-xs font-bold text-red-700 underline hover:text-red-800 disabled:opacity-50 flex items-center gap-1.5"
+                >
+                  {loadingSuggestions && <LoadingSpinner size="sm" color="primary" />}
+                  {t('booking.showAlternatives')}
+                </button>
+              )}
             </div>
-            <div className="text-xs">{conflictDetails}</div>
-            <div className="text-xs mt-2 text-red-600">
-              {t('booking.selectDifferentTime')}
+          )}
+
+          {error && (
+            <div className="bg-red-50 p-2 text-xs text-red-600 rounded border border-red-200">
+              {error}
+              {eventReport && (
+                <ul className="mt-1.5 space-y-0.5">
+                  {eventReport.map((r) => (
+                    <li key={r.roomId}>
+                      <span className="font-semibold">{r.roomName}</span>
+                      {': '}
+                      {r.error ?? t('booking.eventRoomFine')}
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
-          </div>
-        )}
+          )}
 
-        {error && (
-          <div className="bg-red-50 p-2 text-xs text-red-600 rounded border border-red-200">
-            {error}
-          </div>
-        )}
+          {suggestions && (
+            <div className="p-3 rounded border border-slate-200 bg-slate-50 space-y-3">
+              {suggestions.sameRoom.length === 0 &&
+              suggestions.otherRooms.length === 0 ? (
+                <p className="text-xs text-slate-500">
+                  {t('booking.noAlternatives')}
+                </p>
+              ) : (
+                <>
+                  {suggestions.sameRoom.length > 0 && (
+                    <div>
+                      <p className="text-xs font-semibold text-slate-500 mb-1.5">
+                        {t('booking.otherTimes', { room: selectedRoom.name })}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {suggestions.sameRoom.map((s) => (
+                          <button
+                            key={s.startTime}
+                            type="button"
+                            onClick={() => {
+                              setBookingStart(new Date(s.startTime));
+                              setBookingEnd(new Date(s.endTime));
+                            }}
+                            className="px-2.5 py-1 rounded-md text-xs font-bold bg-white text-primary border border-primary/30 hover:bg-primary hover:text-white transition-colors"
+                          >
+                            {formatSuggestionTime(s.startTime)} -{' '}
+                            {formatSuggestionTime(s.endTime)}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  {suggestions.otherRooms.length > 0 && (
+                    <div>
+                      <p className="text-xs font-semibold text-slate-500 mb-1.5">
+                        {t('booking.otherRooms')}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {suggestions.otherRooms.map((s) => (
+                          <button
+                            key={s.roomId}
+                            type="button"
+                            onClick={() =>
+                              onSwitchRoom(
+                                s.roomId,
+                                new Date(s.startTime),
+                                new Date(s.endTime),
+                              )
+                            }
+                            className="px-2.5 py-1 rounded-md text-xs font-bold bg-white text-primary border border-primary/30 hover:bg-primary hover:text-white transition-colors"
+                          >
+                            {s.roomName}
+                            {s.requiresApproval && (
+                              <span className="ml-1 font-normal opacity-75">
+                                {t('booking.suggestionNeedsApproval')}
+                              </span>
+                            )}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
 
-        {selectedRoom.requiresApproval && (
-          <div
-            className={`p-3 text-xs rounded border ${
-              violatesLeadTime
-                ? 'bg-red-50 text-red-700 border-red-300'
-                : 'bg-amber-50 text-amber-800 border-amber-200'
-            }`}
-          >
-            <Trans
-              i18nKey="booking.approvalNotice"
-              components={{ 1: <strong /> }}
-            />
-            {leadMinutes > 0 && (
-              <div className="mt-1">
-                {violatesLeadTime
-                  ? t('booking.approvalLeadTime', {
-                      duration: formatLeadTime(leadMinutes, t),
-                    })
-                  : t('booking.approvalLeadTimeNotice', {
-                      duration: formatLeadTime(leadMinutes, t),
-                    })}
+          {selectedRoom.requiresApproval && (
+            <div
+              className={`p-3 text-xs rounded border ${
+                violatesLeadTime
+                  ? 'bg-red-50 text-red-700 border-red-300'
+                  : 'bg-amber-50 text-amber-800 border-amber-200'
+              }`}
+            >
+              <Trans
+                i18nKey="booking.approvalNotice"
+                components={{ 1: <strong /> }}
+              />
+              {leadMinutes > 0 && (
+                <div className="mt-1">
+                  {violatesLeadTime
+                    ? t('booking.approvalLeadTime', {
+                        duration: formatLeadTime(leadMinutes, t),
+                      })
+                    : t('booking.approvalLeadTimeNotice', {
+                        duration: formatLeadTime(leadMinutes, t),
+                      })}
+                </div>
+              )}
+            </div>
+          )}
+
+          {ruleViolation && (
+            <div className="p-3 text-xs rounded border bg-red-50 text-red-700 border-red-300">
+              {describeRuleViolation(ruleViolation, t)}
+            </div>
+          )}
+
+          {/* The caller's own usage; the server checks the booker's */}
+          {quotaLines.length > 0 && !onBehalf && (
+            <div className="p-3 text-xs rounded border bg-slate-50 text-slate-700 border-slate-200 space-y-0.5">
+              {quotaLines.map((line) => (
+                <div
+                  key={line.key}
+                  className={line.over ? 'text-red-600 font-semibold' : ''}
+                >
+                  {line.text}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canBookForOthers && (
+            <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 space-y-2 text-sm">
+              <label className="flex items-center gap-2 font-medium text-slate-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={bookingForOther}
+                  onChange={(e) => {
+                    setBookingForOther(e.target.checked);
+                    // A series is always booked in the caller's own name
+                    if (e.target.checked) setRepeat('NONE');
+                  }}
+                  className="rounded border-slate-300 text-primary focus:ring-primary/20"
+                />
+                {t('booking.bookForOther')}
+              </label>
+              {bookingForOther && (
+                <>
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="text"
+                      value={bookForName}
+                      onChange={(e) => setBookForName(e.target.value)}
+                      placeholder={t('booking.bookForName')}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-primary"
+                    />
+                    <input
+                      type="email"
+                      value={bookForEmail}
+                      onChange={(e) => setBookForEmail(e.target.value)}
+                      placeholder={t('booking.bookForEmail')}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-primary"
+                    />
+                  </div>
+                  <p className="text-xs text-slate-500">{t('booking.bookForHint')}</p>
+                  {selectedRoom.requiresApproval && leadMinutes > 0 && (
+                    <label className="flex items-center gap-2 text-xs text-slate-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={overrideLeadTime}
+                        onChange={(e) => setOverrideLeadTime(e.target.checked)}
+                        className="rounded border-slate-300 text-primary focus:ring-primary/20"
+                      />
+                      {t('booking.overrideLeadTime')}
+                    </label>
+                  )}
+                  <label className="flex items-center gap-2 text-xs text-slate-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={overrideQuota}
+                      onChange={(e) => setOverrideQuota(e.target.checked)}
+                      className="rounded border-slate-300 text-primary focus:ring-primary/20"
+                    />
+                    {t('booking.overrideQuota')}
+                  </label>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="bg-indigo-50 p-3 rounded-lg border border-indigo-100 space-y-3">
+            <div className="flex items-center gap-2 text-sm font-semibold text-slate-800 border-b border-indigo-100 pb-2">
+              <ClockIcon className="w-5 h-5 text-primary" />
+              <span>
+                {bookingStart.toLocaleDateString(dateLocale(), {
+                  weekday: 'short',
+                  month: 'short',
+                  day: 'numeric',
+                })}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 mb-1">
+                  {t('booking.startTime')}
+                </label>
+                <input
+                  type="time"
+                  className="w-full p-1.5 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-primary"
+                  value={formatTimeInput(bookingStart)}
+                  onChange={(e) => handleTimeChange('start', e.target.value)}
+                  step={rules.slotMinutes * 60}
+                />
               </div>
-            )}
-          </div>
-        )}
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 mb-1">
+                  {t('booking.endTime')}
+                </label>
+                <input
+                  type="time"
+                  className="w-full p-1.5 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-primary"
+                  value={formatTimeInput(bookingEnd)}
+                  onChange={(e) => handleTimeChange('end', e.target.value)}
+                  step={rules.slotMinutes * 60}
+                  min={formatTimeInput(bookingStart)}
+                />
+              </div>
+            </div>
 
-        <div className="bg-indigo-50 p-3 rounded-lg border border-indigo-100 space-y-3">
-          <div className="flex items-center gap-2 text-sm font-semibold text-slate-800 border-b border-indigo-100 pb-2">
-            <ClockIcon className="w-5 h-5 text-primary" />
-            <span>
-              {bookingStart.toLocaleDateString(dateLocale(), {
-                weekday: 'short',
-                month: 'short',
-                day: 'numeric',
+            <div className="text-xs text-slate-500 text-right font-medium">
+              {t('booking.duration', {
+                hours: Math.floor(durationMinutes / 60),
+                minutes: durationMinutes % 60,
               })}
-            </span>
+            </div>
+
+            {hasCustomRules && (
+              <div className="text-xs text-slate-500">
+                {t('bookingRules.summary', {
+                  min: formatLeadTime(rules.minDurationMinutes, t),
+                  max: formatLeadTime(rules.maxDurationMinutes, t),
+                  slot: formatLeadTime(rules.slotMinutes, t),
+                })}
+                {rules.maxAdvanceDays !== null &&
+                  ` ${t('bookingRules.summaryAhead', { count: rules.maxAdvanceDays })}`}
+              </div>
+            )}
           </div>
 
-          <div className="grid grid-cols-2 gap-3">
-            <div>
-              <label className="block text-xs font-semibold text-slate-500 mb-1">
-                {t('booking.startTime')}
+          {!onBehalf && !isEvent && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-slate-700">
+                {t('booking.repeat')}
               </label>
-              <input
-                type="time"
-                className="w-full p-1.5 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-primary"
-                value={formatTimeInput(bookingStart)}
-                onChange={(e) => handleTimeChange('start', e.target.value)}
-              />
+              <select
+                value={repeat}
+                onChange={(e) => setRepeat(e.target.value as 'NONE' | RecurrenceFrequency)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-primary"
+              >
+                <option value="NONE">{t('booking.repeatNone')}</option>
+                <option value="WEEKLY">{t('booking.repeatWeekly')}</option>
+                <option value="BIWEEKLY">{t('booking.repeatBiweekly')}</option>
+              </select>
+              {repeat !== 'NONE' && (
+                <div className="bg-slate-50 p-3 rounded-lg border border-slate-200 space-y-2 text-sm">
+                  <label className="flex items-center gap-2 text-slate-700">
+                    <input
+                      type="radio"
+                      name="repeat-end"
+                      checked={repeatEnd === 'count'}
+                      onChange={() => setRepeatEnd('count')}
+                      className="text-primary focus:ring-primary/20"
+                    />
+                    {t('booking.repeatFor')}
+                    <input
+                      type="number"
+                      min={2}
+                      max={52}
+                      value={repeatCount}
+                      onChange={(e) => setRepeatCount(Math.max(2, Math.min(52, Number(e.target.value) || 2)))}
+                      onFocus={() => setRepeatEnd('count')}
+                      className="w-16 p-1 border border-slate-300 rounded text-sm"
+                    />
+                    {t('booking.repeatOccurrences')}
+                  </label>
+                  <label className="flex items-center gap-2 text-slate-700">
+                    <input
+                      type="radio"
+                      name="repeat-end"
+                      checked={repeatEnd === 'until'}
+                      onChange={() => setRepeatEnd('until')}
+                      className="text-primary focus:ring-primary/20"
+                    />
+                    {t('booking.repeatUntil')}
+                    <input
+                      type="date"
+                      value={repeatUntil}
+                      onChange={(e) => setRepeatUntil(e.target.value)}
+                      onFocus={() => setRepeatEnd('until')}
+                      className="p-1 border border-slate-300 rounded text-sm"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2 text-slate-700">
+                    <input
+                      type="radio"
+                      name="repeat-end"
+                      checked={repeatEnd === 'semester'}
+                      onChange={() => setRepeatEnd('semester')}
+                      className="text-primary focus:ring-primary/20"
+                    />
+                    {t('booking.repeatSemester')}
+                  </label>
+                  <p className="text-xs text-slate-500">{t('booking.repeatHint')}</p>
+                </div>
+              )}
             </div>
-            <div>
-              <label className="block text-xs font-semibold text-slate-500 mb-1">
-                {t('booking.endTime')}
+          )}
+
+          {!onBehalf && repeat === 'NONE' && rooms.length > 1 && (
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-slate-700">
+                {t('booking.eventRooms')}
               </label>
-              <input
-                type="time"
-                className="w-full p-1.5 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-primary"
-                value={formatTimeInput(bookingEnd)}
-                onChange={(e) => handleTimeChange('end', e.target.value)}
-                min={formatTimeInput(bookingStart)}
-              />
+              {isEvent && (
+                <div className="flex flex-wrap gap-2">
+                  {eventRooms.map((room) => (
+                    <span
+                      key={room.id}
+                      className="inline-flex items-center gap-1 px-2.5 py-1 rounded-md text-xs font-bold bg-primary/10 text-primary border border-primary/20"
+                    >
+                      {room.name}
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEventRoomIds((ids) => ids.filter((id) => id !== room.id));
+                          setEventReport(null);
+                        }}
+                        className="hover:text-primary-dark"
+                        aria-label={t('booking.eventRemoveRoom', { room: room.name })}
+                      >
+                        <XIcon className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+              <select
+                value=""
+                onChange={(e) => {
+                  const id = e.target.value;
+                  if (id) setEventRoomIds((ids) => [...ids, id]);
+                  setEventReport(null);
+                }}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-primary"
+              >
+                <option value="">{t('booking.eventAddRoom')}</option>
+                {rooms
+                  .filter((r) => r.id !== selectedRoom.id && !eventRoomIds.includes(r.id))
+                  .map((r) => (
+                    <option key={r.id} value={r.id}>
+                      {r.name}
+                    </option>
+                  ))}
+              </select>
+              {isEvent && (
+                <p className="text-xs text-slate-500">{t('booking.eventHint')}</p>
+              )}
             </div>
-          </div>
+          )}
 
-          <div className="text-xs text-slate-500 text-right font-medium">
-            {t('booking.duration', {
-              hours: Math.floor(durationMinutes / 60),
-              minutes: durationMinutes % 60,
-            })}
-          </div>
-        </div>
-
-        <div>
-          <label className="block text-sm font-medium text-slate-700 mb-1">
-            {companionsRequired
-              ? t('booking.otherAttendeesRequired', {
-                  min: selectedRoom.minCapacity - 1,
-                })
-              : t('booking.otherAttendeesOptional')}
-          </label>
-          <div className="relative">
-            <textarea
-              required={companionsRequired}
-              rows={3}
-              value={attendeeInput}
-              onChange={(e) => setAttendeeInput(e.target.value)}
-              placeholder={t('booking.enterNames')}
-              className={`w-full p-2 border rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-primary ${!isCountValid && attendeeInput.length > 0 ? 'border-orange-300' : 'border-slate-300'}`}
-            />
-            <UsersIcon className="w-4 h-4 absolute right-2 top-2 text-slate-300" />
-          </div>
-          <div className="flex justify-between items-start gap-2 mt-1 text-xs">
-            {/* Always a TOTAL, in the same unit as the room limits beside it */}
-            <span
-              className={
-                isCountValid ? 'text-green-600 font-medium' : 'text-orange-500 font-medium'
-              }
-            >
-              {missingPeople > 0
-                ? t('booking.needMorePeople', {
-                    missing: missingPeople,
-                    total: totalPeople,
-                    min: selectedRoom.minCapacity,
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              {companionsRequired
+                ? t('booking.otherAttendeesRequired', {
+                    min: selectedRoom.minCapacity - 1,
                   })
-                : extraPeople > 0
-                  ? t('booking.tooManyPeople', {
-                      extra: extraPeople,
+                : t('booking.otherAttendeesOptional')}
+            </label>
+            <div className="relative">
+              <textarea
+                required={companionsRequired}
+                rows={3}
+                value={attendeeInput}
+                onChange={(e) => setAttendeeInput(e.target.value)}
+                placeholder={t('booking.enterNames')}
+                className={`w-full p-2 border rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-primary ${!isCountValid && attendeeInput.length > 0 ? 'border-orange-300' : 'border-slate-300'}`}
+              />
+              <UsersIcon className="w-4 h-4 absolute right-2 top-2 text-slate-300" />
+            </div>
+            <div className="flex justify-between items-start gap-2 mt-1 text-xs">
+              {/* Always a TOTAL, in the same unit as the room limits beside it */}
+              <span
+                className={
+                  isCountValid ? 'text-green-600 font-medium' : 'text-orange-500 font-medium'
+                }
+              >
+                {missingPeople > 0
+                  ? t('booking.needMorePeople', {
+                      missing: missingPeople,
                       total: totalPeople,
-                      max: selectedRoom.maxCapacity,
+                      min: selectedRoom.minCapacity,
                     })
-                  : attendeeCount === 0
-                    ? t('booking.justYou')
-                    : t('booking.totalPeople', {
+                  : extraPeople > 0
+                    ? t('booking.tooManyPeople', {
+                        extra: extraPeople,
                         total: totalPeople,
-                        others: attendeeCount,
-                      })}
-            </span>
-            <span className="text-slate-400 text-right shrink-0">
-              {t('booking.roomSeats', {
-                min: selectedRoom.minCapacity,
-                max: selectedRoom.maxCapacity,
-              })}
-            </span>
+                        max: selectedRoom.maxCapacity,
+                      })
+                    : attendeeCount === 0
+                      ? t('booking.justYou')
+                      : t('booking.totalPeople', {
+                          total: totalPeople,
+                          others: attendeeCount,
+                        })}
+              </span>
+              <span className="text-slate-400 text-right shrink-0">
+                {t('booking.roomSeats', {
+                  min: selectedRoom.minCapacity,
+                  max: selectedRoom.maxCapacity,
+                })}
+              </span>
+            </div>
           </div>
-        </div>
 
-        <div>
-          <label className="block text-sm font-medium text-slate-700 mb-1">
-            {t('booking.purpose')}
-          </label>
-          <input
-            type="text"
-            value={purpose}
-            onChange={(e) => setPurpose(e.target.value)}
-            placeholder={t('booking.purposePlaceholder')}
-            className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-primary"
-          />
-        </div>
-
-        {selectedRoom.bookingTerms && (
-          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
-            <div className="flex items-center gap-2 text-sm font-semibold text-amber-800">
-              <AlertTriangleIcon className="w-4 h-4" />
-              {t('booking.terms')}
-            </div>
-            <div className="text-xs text-slate-700 whitespace-pre-wrap max-h-32 overflow-y-auto custom-scrollbar bg-white/60 rounded p-2 border border-amber-100">
-              {selectedRoom.bookingTerms}
-            </div>
-            <label className="flex items-start gap-2 cursor-pointer text-xs font-medium text-slate-700">
-              <input
-                type="checkbox"
-                checked={termsAccepted}
-                onChange={(e) => setTermsAccepted(e.target.checked)}
-                className="mt-0.5 rounded border-slate-300 text-primary focus:ring-primary/20"
-              />
-              <span>{t('booking.termsAccept')}</span>
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              {t('booking.purpose')}
             </label>
+            <input
+              type="text"
+              value={purpose}
+              onChange={(e) => setPurpose(e.target.value)}
+              placeholder={t('booking.purposePlaceholder')}
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-primary"
+            />
           </div>
-        )}
-      </form>
+
+          {termsRooms.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
+              <div className="flex items-center gap-2 text-sm font-semibold text-amber-800">
+                <AlertTriangleIcon className="w-4 h-4" />
+                {t('booking.terms')}
+              </div>
+              {termsRooms.map((room) => (
+                <div
+                  key={room.id}
+                  className="text-xs text-slate-700 whitespace-pre-wrap max-h-32 overflow-y-auto custom-scrollbar bg-white/60 rounded p-2 border border-amber-100"
+                >
+                  {isEvent && (
+                    <div className="font-semibold mb-1">{room.name}</div>
+                  )}
+                  {room.bookingTerms}
+                </div>
+              ))}
+              <label className="flex items-start gap-2 cursor-pointer text-xs font-medium text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={termsAccepted}
+                  onChange={(e) => setTermsAccepted(e.target.checked)}
+                  className="mt-0.5 rounded border-slate-300 text-primary focus:ring-primary/20"
+                />
+                <span>{t('booking.termsAccept')}</span>
+              </label>
+            </div>
+          )}
+        </form>
+      )}
 
       <div className="p-4 bg-slate-50 border-t border-slate-200 flex gap-3 shrink-0 pb-safe">
-        <button
-          type="button"
-          onClick={onCancel}
-          className="flex-1 py-2 text-sm font-medium text-slate-600 hover:bg-white border border-transparent hover:border-slate-300 rounded-lg transition-colors"
-        >
-          {t('common.cancel')}
-        </button>
-        <button
-          onClick={handleSubmit}
-          disabled={
-            !isCountValid ||
-            isSubmitting ||
-            hasConflict ||
-            checkingConflict ||
-            violatesLeadTime ||
-            (!!selectedRoom.bookingTerms && !termsAccepted)
-          }
-          className="flex-1 py-2 text-sm font-medium text-white bg-primary hover:bg-primary-light rounded-lg shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
-        >
-          {isSubmitting && <LoadingSpinner size="sm" color="white" />}
-          {isSubmitting
-            ? t('booking.booking')
-            : hasConflict
-              ? t('booking.timeUnavailable')
-              : t('common.confirm')}
-        </button>
+        {seriesReport ? (
+          <button
+            type="button"
+            onClick={onSuccess}
+            className="flex-1 py-2 text-sm font-medium text-white bg-primary hover:bg-primary-light rounded-lg shadow-sm transition-colors"
+          >
+            {t('booking.done')}
+          </button>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 py-2 text-sm font-medium text-slate-600 hover:bg-white border border-transparent hover:border-slate-300 rounded-lg transition-colors"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={
+                !isCountValid ||
+                isSubmitting ||
+                checkingConflict ||
+                violatesLeadTime ||
+                (termsRooms.length > 0 && !termsAccepted)
+              }
+              className="flex-1 py-2 text-sm font-medium text-white bg-primary hover:bg-primary-light rounded-lg shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
+            >
+              {isSubmitting && <LoadingSpinner size="sm" color="white" />}
+              {isSubmitting
+                ? t('booking.booking')
+                : hasConflict && repeat === 'NONE' && !onBehalf && !isEvent
+                  ? t('booking.joinWaitlist')
+                  : t('common.confirm')}
+            </button>
+          </>
+        )}
       </div>
     </div>
   );
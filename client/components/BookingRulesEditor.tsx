@@ -0,0 +1,118 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { QuotaScope } from '../types';
+import { QUOTA_SCOPES } from '../utils/quotas';
+import {
+  BookingRulesDraft,
+  MAX_ADVANCE_DAYS,
+  MAX_RULE_DURATION_MINUTES,
+  SLOT_MINUTES_OPTIONS,
+} from '../utils/bookingRules';
+
+interface BookingRulesEditorProps {
+  value: BookingRulesDraft;
+  onChange: (draft: BookingRulesDraft) => void;
+  disabled?: boolean;
+}
+
+const inputClass =
+  'w-full px-2 py-1 border border-slate-200 rounded text-sm focus:ring-2 focus:ring-primary/20 focus:border-primary';
+
+// Durations and slot length on one row, the horizon per scope below it.
+// Blank fields are not set, and fall through to the next level.
+const BookingRulesEditor: React.FC<BookingRulesEditorProps> = ({
+  value,
+  onChange,
+  disabled,
+}) => {
+  const { t } = useTranslation();
+
+  const setAdvance = (scope: QuotaScope, v: string) => {
+    onChange({ ...value, maxAdvanceDays: { ...value.maxAdvanceDays, [scope]: v } });
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-lg p-3 space-y-3 text-sm">
+      <div className="grid grid-cols-3 gap-3">
+        <label className="block">
+          <span className="block text-xs font-semibold text-slate-500 mb-1">
+            {t('bookingRules.minDuration')}
+          </span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_RULE_DURATION_MINUTES}
+            value={value.minDurationMinutes}
+            onChange={(e) =>
+              onChange({ ...value, minDurationMinutes: e.target.value })
+            }
+            placeholder="—"
+            className={inputClass}
+            disabled={disabled}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs font-semibold text-slate-500 mb-1">
+            {t('bookingRules.maxDuration')}
+          </span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_RULE_DURATION_MINUTES}
+            value={value.maxDurationMinutes}
+            onChange={(e) =>
+              onChange({ ...value, maxDurationMinutes: e.target.value })
+            }
+            placeholder="—"
+            className={inputClass}
+            disabled={disabled}
+          />
+        </label>
+        <label className="block">
+          <span className="block text-xs font-semibold text-slate-500 mb-1">
+            {t('bookingRules.slot')}
+          </span>
+          <select
+            value={value.slotMinutes}
+            onChange={(e) => onChange({ ...value, slotMinutes: e.target.value })}
+            className={`${inputClass} bg-white`}
+            disabled={disabled}
+          >
+            <option value="">—</option>
+            {SLOT_MINUTES_OPTIONS.map((m) => (
+              <option key={m} value={m}>
+                {t('bookingRules.slotOption', { count: m })}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div>
+        <span className="block text-xs font-semibold text-slate-500 mb-1">
+          {t('bookingRules.maxAdvanceDays')}
+        </span>
+        <div className="grid grid-cols-3 gap-3">
+          {QUOTA_SCOPES.map((scope) => (
+            <label key={scope} className="block">
+              <span className="block text-xs text-slate-500 mb-1">
+                {t(`quotas.scopes.${scope}`)}
+              </span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_ADVANCE_DAYS}
+                value={value.maxAdvanceDays[scope]}
+                onChange={(e) => setAdvance(scope, e.target.value)}
+                placeholder="—"
+                className={inputClass}
+                disabled={disabled}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BookingRulesEditor;
@@ -1,26 +1,46 @@
 import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import { CancelScope } from '../types';
+import { useSettings } from '../contexts/SettingsContext';
 
 interface CancelBookingModalProps {
   isOpen: boolean;
-  onConfirm: (reason: string) => void;
+  isSeries?: boolean; // the booking is one occurrence of a recurring series
+  cancelsEvent?: boolean; // the booking is a room of an event, which is cancelled whole
+  ownConfirmedStart?: string; // start of the user's own confirmed booking, which a late cancellation strikes
+  onConfirm: (reason: string, scope: CancelScope) => void;
   onCancel: () => void;
 }
 
+const SCOPES: CancelScope[] = ['occurrence', 'future', 'series'];
+
 const CancelBookingModal: React.FC<CancelBookingModalProps> = ({
   isOpen,
+  isSeries = false,
+  cancelsEvent = false,
+  ownConfirmedStart,
   onConfirm,
   onCancel,
 }) => {
   const { t } = useTranslation();
+  const { settings } = useSettings();
   const [reason, setReason] = useState('');
+  const [scope, setScope] = useState<CancelScope>('occurrence');
 
   if (!isOpen) return null;
 
+  const lateCancelHours = settings?.lateCancelHours ?? 0;
+  const isLate =
+    !!ownConfirmedStart &&
+    lateCancelHours > 0 &&
+    new Date(ownConfirmedStart).getTime() - Date.now() <
+      lateCancelHours * 3600000;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onConfirm(reason);
+    onConfirm(reason, isSeries ? scope : 'occurrence');
     setReason(''); // Reset for next time
+    setScope('occurrence');
   };
 
   return (
@@ -40,6 +60,42 @@ const CancelBookingModal: React.FC<CancelBookingModalProps> = ({
               {t('confirmDialog.cancelBookingMessage')}
             </p>
 
+            {cancelsEvent && (
+              <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                {t('confirmDialog.cancelsEvent')}
+              </p>
+            )}
+
+            {isLate && (
+              <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                {t('confirmDialog.lateCancel', { hours: lateCancelHours })}
+              </p>
+            )}
+
+            {isSeries && (
+              <fieldset className="space-y-2">
+                <legend className="block text-sm font-medium text-slate-700 mb-1">
+                  {t('confirmDialog.cancelScope')}
+                </legend>
+                {SCOPES.map((value) => (
+                  <label
+                    key={value}
+                    className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer"
+                  >
+                    <input
+                      type="radio"
+                      name="cancel-scope"
+                      value={value}
+                      checked={scope === value}
+                      onChange={() => setScope(value)}
+                      className="text-primary focus:ring-primary/20"
+                    />
+                    {t(`confirmDialog.scope.${value}`)}
+                  </label>
+                ))}
+              </fieldset>
+            )}
+
             <div>
               <label
                 htmlFor="reason"
@@ -4,7 +4,10 @@ import { dateLocale } from '../i18n';
 import { api } from '../services/api';
 import {
   ScheduleException,
+  SavedScheduleException,
+  ClosureAffectedBooking,
   Department,
+  Room,
   User,
   isGlobalAdminRole,
 } from '../types';
@@ -31,11 +34,41 @@ interface ClosureFormState {
   startDate: string;
   endDate: string;
   departmentId: string; // '' = service-wide
+  roomId: string; // '' = every room in the department (or service)
   closed: boolean;
   openHour: number;
   closeHour: number;
+  // A closure for part of each day only, as "HH:MM" times
+  partOfDay: boolean;
+  blockStart: string;
+  blockEnd: string;
 }
 
+const pad = (n: number) => String(n).padStart(2, '0');
+const minuteToTime = (m: number) => `${pad(Math.floor(m / 60))}:${pad(m % 60)}`;
+const timeToMinute = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+// Bookings a saved closure rules out, awaiting a decision on cancelling them
+interface ClosureImpact {
+  closureId: string;
+  closureName: string;
+  bookings: ClosureAffectedBooking[];
+}
+
+const toImpact = (saved: SavedScheduleException): ClosureImpact[] =>
+  saved.affectedBookings.length > 0
+    ? [
+        {
+          closureId: saved.id,
+          closureName: saved.name,
+          bookings: saved.affectedBookings,
+        },
+      ]
+    : [];
+
 interface ClosuresManagerProps {
   currentUser: User;
 }
@@ -49,6 +82,7 @@ const ClosuresManager: React.FC<ClosuresManagerProps> = ({ currentUser }) => {
 
   const [closures, setClosures] = useState<ScheduleException[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
   const [loading, setLoading] = useState(true);
   const [editing, setEditing] = useState<ScheduleException | 'new' | null>(
     null,
@@ -62,25 +96,32 @@ const ClosuresManager: React.FC<ClosuresManagerProps> = ({ currentUser }) => {
   // Bulk selection for mass cleanup
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [confirmBulkDelete, setConfirmBulkDelete] = useState(false);
+  const [impact, setImpact] = useState<ClosureImpact[] | null>(null);
   const [form, setForm] = useState<ClosureFormState>({
     name: '',
     startDate: '',
     endDate: '',
     departmentId: '',
+    roomId: '',
     closed: true,
     openHour: 8,
     closeHour: 22,
+    partOfDay: false,
+    blockStart: '09:00',
+    blockEnd: '12:00',
   });
 
   const load = async () => {
     try {
       setLoading(true);
-      const [ex, depts] = await Promise.all([
+      const [ex, depts, allRooms] = await Promise.all([
         api.getScheduleExceptions(),
         api.getDepartments(),
+        api.getRooms(),
       ]);
       setClosures(ex);
       setDepartments(depts);
+      setRooms(allRooms);
       setSelectedIds(new Set());
     } catch {
       toast.error(t('closures.loadFailed'));
@@ -93,8 +134,14 @@ const ClosuresManager: React.FC<ClosuresManagerProps> = ({ currentUser }) => {
     load();
   }, []);
 
-  const canManage = (ex: ScheduleException) =>
-    isAdmin || (!!ex.departmentId && managedIds.includes(ex.departmentId));
+  // A room closure belongs to the room's department
+  const scopeDepartmentId = (ex: ScheduleException) =>
+    ex.room ? ex.room.departmentId : ex.departmentId;
+
+  const canManage = (ex: ScheduleException) => {
+    const departmentId = scopeDepartmentId(ex);
+    return isAdmin || (!!departmentId && managedIds.includes(departmentId));
+  };
 
   const toDateInput = (iso: string) => {
     const d = new Date(iso);
@@ -108,19 +155,28 @@ const ClosuresManager: React.FC<ClosuresManagerProps> = ({ currentUser }) => {
         startDate: '',
         endDate: '',
         departmentId: isAdmin ? '' : managedIds[0] || '',
+        roomId: '',
         closed: true,
         openHour: 8,
         closeHour: 22,
+        partOfDay: false,
+        blockStart: '09:00',
+        blockEnd: '12:00',
       });
     } else {
+      const partOfDay = ex.blockStartMinute != null && ex.blockEndMinute != null;
       setForm({
         name: ex.name,
         startDate: toDateInput(ex.startDate),
         endDate: toDateInput(ex.endDate),
-        departmentId: ex.departmentId || '',
+        departmentId: scopeDepartmentId(ex) || '',
+        roomId: ex.roomId || '',
         closed: ex.closed,
         openHour: ex.openHour ?? 8,
         closeHour: ex.closeHour ?? 22,
+        partOfDay,
+        blockStart: partOfDay ? minuteToTime(ex.blockStartMinute!) : '09:00',
+        blockEnd: partOfDay ? minuteToTime(ex.blockEndMinute!) : '12:00',
       });
     }
     setEditing(ex);
@@ -135,27 +191,38 @@ const ClosuresManager: React.FC<ClosuresManagerProps> = ({ currentUser }) => {
       return toast.error(t('closures.endBeforeStart'));
     if (!form.closed && form.openHour >= form.closeHour)
       return toast.error(t('closures.openBeforeClose'));
+    const blocked = form.closed && form.partOfDay;
+    if (
+      blocked &&
+      (!form.blockStart || !form.blockEnd || form.blockStart >= form.blockEnd)
+    )
+      return toast.error(t('closures.blockStartBeforeEnd'));
 
     const payload = {
       name: form.name.trim(),
       startDate: form.startDate,
       endDate: form.endDate,
-      departmentId: form.departmentId || null,
+      departmentId: form.roomId ? null : form.departmentId || null,
+      roomId: form.roomId || null,
       closed: form.closed,
       openHour: form.closed ? null : form.openHour,
       closeHour: form.closed ? null : form.closeHour,
+      blockStartMinute: blocked ? timeToMinute(form.blockStart) : null,
+      blockEndMinute: blocked ? timeToMinute(form.blockEnd) : null,
     };
 
     setIsSubmitting(true);
     try {
+      let saved: SavedScheduleException | null = null;
       if (editing === 'new') {
-        await api.createScheduleException(payload);
+        saved = await api.createScheduleException(payload);
         toast.success(t('closures.created'));
       } else if (editing) {
-        await api.updateScheduleException(editing.id, payload);
+        saved = await api.updateScheduleException(editing.id, payload);
         toast.success(t('closures.updated'));
       }
       setEditing(null);
+      if (saved && saved.affectedBookings.length > 0) setImpact(toImpact(saved));
       await load();
     } catch (err) {
       toast.error(err instanceof Error ? err.message : t('closures.saveFailed'));
@@ -230,6 +297,7 @@ const ClosuresManager: React.FC<ClosuresManagerProps> = ({ currentUser }) => {
     }
     setIsSubmitting(true);
     const createdIds: string[] = [];
+    const affected: ClosureImpact[] = [];
     let failed = 0;
     for (const ev of selected) {
       try {
@@ -243,6 +311,7 @@ const ClosuresManager: React.FC<ClosuresManagerProps> = ({ currentUser }) => {
           closeHour: null,
         });
         createdIds.push(created.id);
+        affected.push(...toImpact(created));
       } catch {
         failed++;
       }
@@ -250,6 +319,7 @@ const ClosuresManager: React.FC<ClosuresManagerProps> = ({ currentUser }) => {
     setIsSubmitting(false);
     setImportState(null);
     setLastImportIds(createdIds.length > 0 ? createdIds : null);
+    if (affected.length > 0) setImpact(affected);
     toast.success(
       failed
         ? t('closures.importedWithFailures', {
@@ -296,6 +366,47 @@ const ClosuresManager: React.FC<ClosuresManagerProps> = ({ currentUser }) => {
     await load();
   };
 
+  const handleCancelAffected = async () => {
+    if (!impact) return;
+    setIsSubmitting(true);
+    let cancelled = 0;
+    try {
+      for (const closure of impact) {
+        const result = await api.cancelClosureBookings(
+          closure.closureId,
+          closure.bookings.map((b) => b.id),
+        );
+        cancelled += result.cancelled;
+      }
+      toast.success(t('closures.affectedCancelled', { count: cancelled }));
+      setImpact(null);
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : t('closures.affectedCancelFailed'),
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatBookingTime = (b: ClosureAffectedBooking) => {
+    const start = new Date(b.startTime);
+    const end = new Date(b.endTime);
+    const time: Intl.DateTimeFormatOptions = {
+      hour: '2-digit',
+      minute: '2-digit',
+    };
+    return `${start.toLocaleDateString(dateLocale(), {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    })} ${start.toLocaleTimeString(dateLocale(), time)}–${end.toLocaleTimeString(dateLocale(), time)}`;
+  };
+
+  const affectedCount = impact
+    ? impact.reduce((n, c) => n + c.bookings.length, 0)
+    : 0;
+
   const toggleSelected = (id: string) => {
     setSelectedIds((prev) => {
       const next = new Set(prev);
@@ -321,6 +432,12 @@ const ClosuresManager: React.FC<ClosuresManagerProps> = ({ currentUser }) => {
     ? departments
     : departments.filter((d) => managedIds.includes(d.id));
 
+  // Rooms the chosen scope can narrow to: the department's, or any for the
+  // whole service
+  const roomOptions = rooms.filter((r) =>
+    form.departmentId ? r.departmentId === form.departmentId : isAdmin,
+  );
+
   return (
     <div className="max-w-3xl mx-auto animate-slide-up space-y-4">
       <div className="flex items-center justify-between">
@@ -431,8 +548,20 @@ const ClosuresManager: React.FC<ClosuresManagerProps> = ({ currentUser }) => {
                 <p className="font-bold text-slate-800 truncate">{ex.name}</p>
                 <p className="text-xs text-slate-500 mt-0.5">
                   {formatRange(ex)} ·{' '}
-                  {ex.department?.name || t('closures.serviceWide')} ·{' '}
-                  {ex.closed ? (
+                  {ex.room?.name ||
+                    ex.department?.name ||
+                    t('closures.serviceWide')}{' '}
+                  ·{' '}
+                  {ex.closed &&
+                  ex.blockStartMinute != null &&
+                  ex.blockEndMinute != null ? (
+                    <span className="text-red-600 font-semibold">
+                      {t('closures.closedBetween', {
+                        start: minuteToTime(ex.blockStartMinute),
+                        end: minuteToTime(ex.blockEndMinute),
+                      })}
+                    </span>
+                  ) : ex.closed ? (
                     <span className="text-red-600 font-semibold">
                       {t('common.closed')}
                     </span>
@@ -537,7 +666,11 @@ const ClosuresManager: React.FC<ClosuresManagerProps> = ({ currentUser }) => {
                   <select
                     value={form.departmentId}
                     onChange={(e) =>
-                      setForm({ ...form, departmentId: e.target.value })
+                      setForm({
+                        ...form,
+                        departmentId: e.target.value,
+                        roomId: '',
+                      })
                     }
                     className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
                     disabled={isSubmitting}
@@ -552,6 +685,31 @@ const ClosuresManager: React.FC<ClosuresManagerProps> = ({ currentUser }) => {
                     ))}
                   </select>
                 </div>
+                {roomOptions.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-1">
+                      {t('closures.room')}
+                    </label>
+                    <select
+                      value={form.roomId}
+                      onChange={(e) =>
+                        setForm({ ...form, roomId: e.target.value })
+                      }
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                      disabled={isSubmitting}
+                    >
+                      <option value="">{t('closures.allRooms')}</option>
+                      {roomOptions.map((r) => (
+                        <option key={r.id} value={r.id}>
+                          {r.name}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {t('closures.roomHint')}
+                    </p>
+                  </div>
+                )}
                 <div>
                   <label className="flex items-center gap-2 cursor-pointer">
                     <input
@@ -564,9 +722,48 @@ const ClosuresManager: React.FC<ClosuresManagerProps> = ({ currentUser }) => {
                       disabled={isSubmitting}
                     />
                     <span className="text-sm font-medium text-slate-700">
-                      {t('closures.closedAllDay')}
+                      {t('closures.closedLabel')}
                     </span>
                   </label>
+                  {form.closed && (
+                    <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600 mt-2 ml-6">
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={form.partOfDay}
+                          onChange={(e) =>
+                            setForm({ ...form, partOfDay: e.target.checked })
+                          }
+                          className="rounded border-slate-300 text-primary focus:ring-primary/20"
+                          disabled={isSubmitting}
+                        />
+                        <span>{t('closures.partOfDay')}</span>
+                      </label>
+                      {form.partOfDay && (
+                        <>
+                          <input
+                            type="time"
+                            value={form.blockStart}
+                            onChange={(e) =>
+                              setForm({ ...form, blockStart: e.target.value })
+                            }
+                            className="px-2 py-1 border border-slate-200 rounded focus:ring-2 focus:ring-primary/20 focus:border-primary"
+                            disabled={isSubmitting}
+                          />
+                          <span>{t('closures.blockTo')}</span>
+                          <input
+                            type="time"
+                            value={form.blockEnd}
+                            onChange={(e) =>
+                              setForm({ ...form, blockEnd: e.target.value })
+                            }
+                            className="px-2 py-1 border border-slate-200 rounded focus:ring-2 focus:ring-primary/20 focus:border-primary"
+                            disabled={isSubmitting}
+                          />
+                        </>
+                      )}
+                    </div>
+                  )}
                   {!form.closed && (
                     <div className="flex items-center gap-2 text-sm text-slate-600 mt-2 ml-6">
                       <span>{t('closures.specialHours')}</span>
@@ -766,6 +963,69 @@ const ClosuresManager: React.FC<ClosuresManagerProps> = ({ currentUser }) => {
         </div>
       )}
 
+      {/* Bookings the saved closure rules out */}
+      {impact && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50 animate-fade-in">
+          <div className="bg-white rounded-xl max-w-lg w-full animate-scale-in max-h-[90vh] flex flex-col border border-slate-200">
+            <div className="p-6 border-b border-slate-200">
+              <h3 className="text-lg font-semibold text-slate-900">
+                {t('closures.affectedTitle')}
+              </h3>
+              <p className="text-sm text-slate-500 mt-1">
+                {t('closures.affectedMessage', { count: affectedCount })}
+              </p>
+            </div>
+
+            <div className="p-6 space-y-4 overflow-y-auto custom-scrollbar flex-1">
+              {impact.map((closure) => (
+                <div key={closure.closureId}>
+                  {impact.length > 1 && (
+                    <p className="text-xs font-semibold uppercase text-slate-500 mb-1">
+                      {closure.closureName}
+                    </p>
+                  )}
+                  <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+                    {closure.bookings.map((b) => (
+                      <div key={b.id} className="px-3 py-2">
+                        <p className="text-sm font-medium text-slate-800 truncate">
+                          {b.roomName} · {formatBookingTime(b)}
+                        </p>
+                        <p className="text-xs text-slate-500 truncate">
+                          {b.userName}
+                          {b.userEmail && ` (${b.userEmail})`}
+                          {b.status === 'PENDING' &&
+                            ` · ${t('closures.affectedPending')}`}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="p-6 border-t border-slate-200 flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setImpact(null)}
+                className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+                disabled={isSubmitting}
+              >
+                {t('closures.keepBookings')}
+              </button>
+              <button
+                onClick={handleCancelAffected}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:opacity-50"
+                disabled={isSubmitting}
+              >
+                {isSubmitting
+                  ? t('closures.cancellingBookings')
+                  : t('closures.cancelAffected', { count: affectedCount })}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation */}
       {deleting && (
         <ConfirmDeleteModal
@@ -6,23 +6,34 @@ import {
   Room,
   User,
   UserRole,
-  ScheduleException,
+  RoomFreeBusy,
   isGlobalAdminRole,
 } from '../types';
 import { useSettings } from '../contexts/SettingsContext';
+import { getCheckInState } from '../utils/checkIn';
+import { getBufferBands } from '../utils/buffer';
+import {
+  getEffectiveBookingRules,
+  getRuleViolation,
+  snapToRules,
+} from '../utils/bookingRules';
 import {
   getGridBounds,
-  getClosedRanges,
-  isRangeClosed,
   getEffectiveOperatingHours,
 } from '../utils/operatingHours';
+import {
+  describeClosedSpan,
+  getClosedSpans,
+  isRangeFree,
+} from '../utils/freeBusy';
 
 interface DayViewProps {
   selectedDate: Date;
   bookings: Booking[];
   room: Room;
   currentUser: User;
-  exceptions?: ScheduleException[];
+  // The room's open, closed and busy time from the server; null while loading
+  freeBusy: RoomFreeBusy | null;
   onRangeSelect: (start: Date, end: Date) => void;
   onBookingClick: (booking: Booking) => void;
   selectedRange?: { start: Date; end: Date } | null;
@@ -33,17 +44,24 @@ const DayView: React.FC<DayViewProps> = ({
   bookings,
   room,
   currentUser,
-  exceptions = [],
+  freeBusy,
   onRangeSelect,
   onBookingClick,
   selectedRange,
 }) => {
   const { t } = useTranslation();
-  const { operatingHours: globalHours } = useSettings();
+  const { settings, operatingHours: globalHours } = useSettings();
+  // The weekly schedule only sizes the grid; what is closed on a given day
+  // comes from freeBusy
   const operatingHours = useMemo(
     () => getEffectiveOperatingHours(room, room.department, globalHours),
     [room.department, globalHours],
   );
+  const rules = useMemo(
+    () =>
+      getEffectiveBookingRules(room, room.department, settings, currentUser.role),
+    [room, settings, currentUser.role],
+  );
   const { open: gridOpen, close: gridClose } = useMemo(
     () => getGridBounds(operatingHours),
     [operatingHours],
@@ -72,21 +90,18 @@ const DayView: React.FC<DayViewProps> = ({
     });
   }, [bookings, selectedDate, room.id]);
 
-  const checkOverlap = (start: Date, end: Date) => {
-    // Check if time falls outside configured operating hours
-    if (
-      isRangeClosed(start, end, operatingHours, room.departmentId, exceptions)
-    ) {
-      return true;
-    }
+  // The dragged cells as a range fitted to the room's booking rules, as in
+  // the week view
+  const getDragRange = (startCell: number, currentCell: number) =>
+    snapToRules(
+      Math.min(startCell, currentCell),
+      Math.max(startCell, currentCell) + 15,
+      rules,
+    );
 
-    // Check for booking conflicts
-    return dayBookings.some((b) => {
-      const bStart = new Date(b.startTime);
-      const bEnd = new Date(b.endTime);
-      return start < bEnd && end > bStart;
-    });
-  };
+  // Closed or taken, as in the week view
+  const checkOverlap = (start: Date, end: Date) =>
+    !!freeBusy && !isRangeFree(start, end, freeBusy);
 
   const getPositionStyle = (start: Date, end: Date) => {
     const startMinutes =
@@ -103,6 +118,18 @@ const DayView: React.FC<DayViewProps> = ({
     };
   };
 
+  // A turnover band, cut to the grid as in the week view
+  const getBandStyle = (start: Date, end: Date) => {
+    const gridStart = new Date(selectedDate);
+    gridStart.setHours(gridOpen, 0, 0, 0);
+    const gridEnd = new Date(selectedDate);
+    gridEnd.setHours(gridClose, 0, 0, 0);
+    return getPositionStyle(
+      start < gridStart ? gridStart : start,
+      end > gridEnd ? gridEnd : end,
+    );
+  };
+
   const handleMouseDown = (minutes: number, e: React.MouseEvent) => {
     if (e.button !== 0) return;
 
@@ -125,8 +152,7 @@ const DayView: React.FC<DayViewProps> = ({
 
   const handleMouseUp = () => {
     if (isDragging && dragStart !== null && dragCurrent !== null) {
-      const startMin = Math.min(dragStart, dragCurrent - 15);
-      const endMin = Math.max(dragStart, dragCurrent - 15) + 15;
+      const { startMin, endMin } = getDragRange(dragStart, dragCurrent - 15);
 
       const startTime = new Date(selectedDate);
       startTime.setHours(gridOpen, startMin, 0, 0);
@@ -134,7 +160,10 @@ const DayView: React.FC<DayViewProps> = ({
       const endTime = new Date(selectedDate);
       endTime.setHours(gridOpen, endMin, 0, 0);
 
-      if (!checkOverlap(startTime, endTime)) {
+      if (
+        !checkOverlap(startTime, endTime) &&
+        !getRuleViolation(startTime, endTime, rules)
+      ) {
         onRangeSelect(startTime, endTime);
       }
     }
@@ -146,9 +175,9 @@ const DayView: React.FC<DayViewProps> = ({
   // Calculate drag preview style
   let dragStyle = {};
   let isDragValid = true;
+  let breaksRules = false;
   if (isDragging && dragStart !== null && dragCurrent !== null) {
-    const startMin = Math.min(dragStart, dragCurrent - 15);
-    const endMin = Math.max(dragStart, dragCurrent - 15) + 15;
+    const { startMin, endMin } = getDragRange(dragStart, dragCurrent - 15);
 
     const s = new Date(selectedDate);
     s.setHours(gridOpen, startMin, 0, 0);
@@ -156,7 +185,8 @@ const DayView: React.FC<DayViewProps> = ({
     e.setHours(gridOpen, endMin, 0, 0);
 
     dragStyle = getPositionStyle(s, e);
-    isDragValid = !checkOverlap(s, e);
+    breaksRules = !!getRuleViolation(s, e, rules);
+    isDragValid = !checkOverlap(s, e) && !breaksRules;
   }
 
   // Selection style
@@ -173,17 +203,13 @@ const DayView: React.FC<DayViewProps> = ({
     }
   }
 
-  // Calculate closed hours overlays from configured operating hours
+  // Closed overlays: hours, closures and the semester, as the server works
+  // them out
   const totalGridMinutes = (gridClose - gridOpen) * 60;
-  const closedOverlays = getClosedRanges(
-    selectedDate,
-    operatingHours,
-    gridOpen,
-    gridClose,
-    room.departmentId,
-    exceptions,
+  const closedOverlays = (
+    freeBusy ? getClosedSpans(selectedDate, freeBusy, gridOpen, gridClose) : []
   ).map((r) => ({
-    label: r.label,
+    label: describeClosedSpan(r, t),
     style: {
       top: `${(((r.startHour - gridOpen) * 60) / totalGridMinutes) * 100}%`,
       height: `${(((r.endHour - r.startHour) * 60) / totalGridMinutes) * 100}%`,
@@ -273,7 +299,11 @@ const DayView: React.FC<DayViewProps> = ({
                 style={{ ...dragStyle, left: '8px', right: '8px' }}
               >
                 <div className="text-white text-xs font-bold p-2">
-                  {isDragValid ? t('common.newBooking') : t('common.conflict')}
+                  {isDragValid
+                    ? t('common.newBooking')
+                    : breaksRules
+                      ? t('bookingRules.notAllowed')
+                      : t('common.conflict')}
                 </div>
               </div>
             )}
@@ -290,6 +320,26 @@ const DayView: React.FC<DayViewProps> = ({
               </div>
             )}
 
+            {/* Turnover buffers around bookings */}
+            {dayBookings.flatMap((b) =>
+              getBufferBands(
+                new Date(b.startTime),
+                new Date(b.endTime),
+                room.bufferMinutes ?? 0,
+              ).map((band, i) => (
+                <div
+                  key={`${b.id}-buffer-${i}`}
+                  className="absolute z-10 rounded-sm bg-hatched opacity-70"
+                  style={{
+                    ...getBandStyle(band.start, band.end),
+                    left: '8px',
+                    right: '8px',
+                  }}
+                  title={t('calendar.turnover', { count: room.bufferMinutes })}
+                />
+              )),
+            )}
+
             {/* Bookings */}
             {dayBookings.map((b) => {
               const style = getPositionStyle(
@@ -306,6 +356,7 @@ const DayView: React.FC<DayViewProps> = ({
                   ));
               const canView = isOwner || canViewAll;
               const isPending = b.status === 'PENDING';
+              const checkIn = getCheckInState(b);
 
               return (
                 <div
@@ -351,6 +402,16 @@ const DayView: React.FC<DayViewProps> = ({
                       {t('common.pending')}
                     </div>
                   )}
+                  {checkIn === 'CHECKED_IN' && (
+                    <div className="text-[9px] font-bold uppercase tracking-wide text-green-700">
+                      {t('checkIn.checkedIn')}
+                    </div>
+                  )}
+                  {checkIn === 'OPEN' && (
+                    <div className="text-[9px] font-bold uppercase tracking-wide opacity-90">
+                      {t('checkIn.awaiting')}
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -376,9 +437,7 @@ const DayView: React.FC<DayViewProps> = ({
                       d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"
                     />
                   </svg>
-                  {overlay.label
-                    ? t('common.closedFor', { name: overlay.label })
-                    : t('common.closed')}
+                  {overlay.label}
                 </div>
               </div>
             ))}
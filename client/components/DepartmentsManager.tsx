@@ -4,11 +4,32 @@ import { api } from '../services/api';
 import { Department, OperatingHours, User, isGlobalAdminRole } from '../types';
 import { useSettings } from '../contexts/SettingsContext';
 import { parseOperatingHoursOrNull } from '../utils/operatingHours';
+import { parseCheckInInput } from '../utils/checkIn';
+import {
+  QuotaDraft,
+  quotaDraftFromJson,
+  quotaJsonFromDraft,
+} from '../utils/quotas';
+import QuotaEditor from './QuotaEditor';
+import {
+  BookingRulesDraft,
+  rulesDraftFromJson,
+  rulesJsonFromDraft,
+} from '../utils/bookingRules';
+import BookingRulesEditor from './BookingRulesEditor';
+import {
+  AutoApprovalRuleDraft,
+  autoApprovalDraftFromJson,
+  autoApprovalJsonFromDraft,
+} from '../utils/autoApproval';
+import AutoApprovalRulesEditor from './AutoApprovalRulesEditor';
 import OperatingHoursEditor, {
   validateOperatingHours,
 } from './OperatingHoursEditor';
 import ConfirmDeleteModal from './ConfirmDeleteModal';
 import DepartmentDetailsModal from './DepartmentDetailsModal';
+import PolicyImpactPanel from './PolicyImpactPanel';
+import { usePolicyImpact } from '../hooks/usePolicyImpact';
 import { useToast } from '../contexts/ToastContext';
 import { XIcon, PlusIcon } from './Icons';
 
@@ -17,6 +38,10 @@ interface DepartmentFormState {
   contactEmail: string;
   useCustomHours: boolean;
   hours: OperatingHours;
+  checkInGrace: string; // blank = inherit the global setting
+  quotas: QuotaDraft; // blank fields inherit the global quotas
+  rules: BookingRulesDraft; // blank fields inherit the global rules
+  autoRules: AutoApprovalRuleDraft[]; // apply to its rooms that require approval
 }
 
 interface DepartmentsManagerProps {
@@ -39,6 +64,7 @@ const DepartmentsManager: React.FC<DepartmentsManagerProps> = ({
   const [deleting, setDeleting] = useState<Department | null>(null);
   const [viewing, setViewing] = useState<Department | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const impact = usePolicyImpact();
   // Manager assignment (global admin only)
   const [managerIds, setManagerIds] = useState<string[]>([]);
   const [allUsers, setAllUsers] = useState<User[]>([]);
@@ -66,6 +92,10 @@ const DepartmentsManager: React.FC<DepartmentsManagerProps> = ({
     contactEmail: '',
     useCustomHours: false,
     hours: globalHours,
+    checkInGrace: '',
+    quotas: quotaDraftFromJson(null),
+    rules: rulesDraftFromJson(null),
+    autoRules: [],
   });
 
   const loadDepartments = async () => {
@@ -90,6 +120,10 @@ const DepartmentsManager: React.FC<DepartmentsManagerProps> = ({
         contactEmail: '',
         useCustomHours: false,
         hours: globalHours,
+        checkInGrace: '',
+        quotas: quotaDraftFromJson(null),
+        rules: rulesDraftFromJson(null),
+        autoRules: [],
       });
     } else {
       const customHours = parseOperatingHoursOrNull(dept.operatingHours);
@@ -98,10 +132,16 @@ const DepartmentsManager: React.FC<DepartmentsManagerProps> = ({
         contactEmail: dept.contactEmail || '',
         useCustomHours: customHours !== null,
         hours: customHours || globalHours,
+        checkInGrace:
+          dept.checkInGraceMinutes == null ? '' : String(dept.checkInGraceMinutes),
+        quotas: quotaDraftFromJson(dept.bookingQuotas),
+        rules: rulesDraftFromJson(dept.bookingRules),
+        autoRules: autoApprovalDraftFromJson(dept.autoApprovalRules),
       });
     }
     setManagerIds([]);
     setManagerSearch('');
+    impact.reset();
     setEditing(dept);
     if (isAdmin && dept !== 'new') {
       try {
@@ -131,10 +171,35 @@ const DepartmentsManager: React.FC<DepartmentsManagerProps> = ({
       }
     }
 
+    const checkInGraceMinutes = parseCheckInInput(form.checkInGrace);
+    if (checkInGraceMinutes === false) {
+      toast.error(t('departments.checkInGraceInvalid'));
+      return;
+    }
+    const bookingQuotas = quotaJsonFromDraft(form.quotas);
+    if (bookingQuotas === false) {
+      toast.error(t('quotas.invalid'));
+      return;
+    }
+    const bookingRules = rulesJsonFromDraft(form.rules);
+    if (bookingRules === false) {
+      toast.error(t('bookingRules.invalid'));
+      return;
+    }
+    const autoApprovalRules = autoApprovalJsonFromDraft(form.autoRules);
+    if (autoApprovalRules === false) {
+      toast.error(t('autoApproval.invalid'));
+      return;
+    }
+
     const payload = {
       name: form.name.trim(),
       contactEmail: form.contactEmail.trim() || null,
       operatingHours: form.useCustomHours ? JSON.stringify(form.hours) : null,
+      checkInGraceMinutes,
+      bookingQuotas,
+      bookingRules,
+      autoApprovalRules,
       ...(isAdmin && editing !== 'new' ? { adminUserIds: managerIds } : {}),
     };
 
@@ -144,7 +209,14 @@ const DepartmentsManager: React.FC<DepartmentsManagerProps> = ({
         await api.createDepartment(payload);
         toast.success(t('departments.created'));
       } else if (editing) {
-        await api.updateDepartment(editing.id, payload);
+        const resolution = await impact.check(payload, () =>
+          api.previewDepartmentImpact(editing.id, payload),
+        );
+        if (!resolution) {
+          toast.warning(t('policyImpact.review'));
+          return;
+        }
+        await api.updateDepartment(editing.id, { ...payload, ...resolution });
         toast.success(t('departments.updated'));
       }
       setEditing(null);
@@ -361,6 +433,64 @@ const DepartmentsManager: React.FC<DepartmentsManagerProps> = ({
                     </p>
                   )}
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    {t('departments.checkInGrace')}
+                  </label>
+                  <input
+                    type="number"
+                    value={form.checkInGrace}
+                    onChange={(e) =>
+                      setForm({ ...form, checkInGrace: e.target.value })
+                    }
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                    placeholder={t('departments.checkInGracePlaceholder')}
+                    min="0"
+                    disabled={isSubmitting}
+                  />
+                  <p className="text-xs text-slate-500 mt-1">
+                    {t('departments.checkInGraceHint')}
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    {t('quotas.title')}
+                  </label>
+                  <QuotaEditor
+                    value={form.quotas}
+                    onChange={(quotas) => setForm({ ...form, quotas })}
+                    disabled={isSubmitting}
+                  />
+                  <p className="text-xs text-slate-500 mt-1">
+                    {t('departments.quotasHint')}
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    {t('bookingRules.title')}
+                  </label>
+                  <BookingRulesEditor
+                    value={form.rules}
+                    onChange={(rules) => setForm({ ...form, rules })}
+                    disabled={isSubmitting}
+                  />
+                  <p className="text-xs text-slate-500 mt-1">
+                    {t('departments.bookingRulesHint')}
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    {t('autoApproval.title')}
+                  </label>
+                  <AutoApprovalRulesEditor
+                    value={form.autoRules}
+                    onChange={(autoRules) => setForm({ ...form, autoRules })}
+                    disabled={isSubmitting}
+                  />
+                  <p className="text-xs text-slate-500 mt-1">
+                    {t('autoApproval.departmentHint')}
+                  </p>
+                </div>
                 {isAdmin && editing !== 'new' && (
                   <div>
                     <label className="block text-sm font-medium text-slate-700 mb-1">
@@ -445,6 +575,14 @@ const DepartmentsManager: React.FC<DepartmentsManagerProps> = ({
                     </div>
                   </div>
                 )}
+                {impact.bookings && (
+                  <PolicyImpactPanel
+                    bookings={impact.bookings}
+                    choice={impact.choice}
+                    onChange={impact.setChoice}
+                    disabled={isSubmitting}
+                  />
+                )}
               </div>
               <div className="p-6 border-t border-slate-200 flex justify-end gap-3 sticky bottom-0 bg-white">
                 <button
@@ -0,0 +1,287 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Booking, Room } from '../types';
+import { api } from '../services/api';
+import { useToast } from '../contexts/ToastContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { getEffectiveBookingRules } from '../utils/bookingRules';
+import LoadingSpinner from './LoadingSpinner';
+
+interface EditBookingModalProps {
+  booking: Booking | null;
+  rooms: Room[];
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+const toDateInput = (d: Date) =>
+  `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+const toTimeInput = (d: Date) => `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+
+// Reschedule or edit a booking in place. The server re-runs every booking rule,
+// so this form only gathers the new values and shows whatever it refuses.
+const EditBookingModal: React.FC<EditBookingModalProps> = ({
+  booking,
+  rooms,
+  onSaved,
+  onCancel,
+}) => {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const { settings } = useSettings();
+  const [roomId, setRoomId] = useState('');
+  const [date, setDate] = useState('');
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [purpose, setPurpose] = useState('');
+  const [companions, setCompanions] = useState('');
+  const [termsAccepted, setTermsAccepted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the booking as it is now each time the modal opens
+  useEffect(() => {
+    if (!booking) return;
+    const s = new Date(booking.startTime);
+    const e = new Date(booking.endTime);
+    setRoomId(booking.roomId);
+    setDate(toDateInput(s));
+    setStart(toTimeInput(s));
+    setEnd(toTimeInput(e));
+    setPurpose(booking.purpose || '');
+    setCompanions(
+      booking.attendees
+        .filter((a) => a.isCompanion)
+        .map((a) => a.name)
+        .join('\n'),
+    );
+    setTermsAccepted(false);
+    setError(null);
+  }, [booking]);
+
+  if (!booking) return null;
+
+  const targetRoom = rooms.find((r) => r.id === roomId);
+  const roomChanged = roomId !== booking.roomId;
+  const newStart = new Date(`${date}T${start}`);
+  const newEnd = new Date(`${date}T${end}`);
+  const timeChanged =
+    newStart.getTime() !== new Date(booking.startTime).getTime() ||
+    newEnd.getTime() !== new Date(booking.endTime).getTime();
+  // Time pickers step in the target room's start-time slots
+  const slotSeconds =
+    getEffectiveBookingRules(targetRoom, targetRoom?.department, settings, undefined)
+      .slotMinutes * 60;
+  const needsTerms = roomChanged && !!targetRoom?.bookingTerms;
+  const backToPending = (roomChanged || timeChanged) && !!targetRoom?.requiresApproval;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (newEnd <= newStart) {
+      setError(t('booking.endAfterStart'));
+      return;
+    }
+    if (needsTerms && !termsAccepted) {
+      setError(t('booking.termsRequired'));
+      return;
+    }
+
+    // The booker's own entry is kept as is; only the companions are editable
+    const names = Array.from(
+      new Set(
+        companions
+          .split(/[\n,]/)
+          .map((s) => s.trim())
+          .filter(Boolean),
+      ),
+    );
+    const attendees = [
+      ...booking.attendees.filter((a) => !a.isCompanion),
+      ...names.map((name) => ({ name, isCompanion: true })),
+    ];
+
+    setIsSaving(true);
+    try {
+      const updated = await api.updateBooking(booking.id, {
+        roomId,
+        startTime: newStart,
+        endTime: newEnd,
+        purpose,
+        attendees,
+        termsAccepted: needsTerms ? termsAccepted : undefined,
+      });
+      toast.success(
+        updated.status === 'PENDING'
+          ? t('editBooking.savedPending')
+          : t('editBooking.saved'),
+      );
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('editBooking.failed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full p-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-primary';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50 animate-fade-in">
+      <div className="bg-white rounded-xl max-w-md w-full animate-scale-in max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="p-6 border-b border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900">
+            {t('editBooking.title')}
+          </h3>
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSubmit} className="flex flex-col min-h-0">
+          <div className="p-6 space-y-4 overflow-y-auto custom-scrollbar">
+            {error && (
+              <div className="bg-red-50 p-2 text-xs text-red-600 rounded border border-red-200">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                {t('editBooking.room')}
+              </label>
+              <select
+                value={roomId}
+                onChange={(e) => setRoomId(e.target.value)}
+                className={inputClass}
+              >
+                {rooms.map((r) => (
+                  <option key={r.id} value={r.id}>
+                    {r.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-3 sm:col-span-1">
+                <label className="block text-xs font-semibold text-slate-500 mb-1">
+                  {t('editBooking.date')}
+                </label>
+                <input
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 mb-1">
+                  {t('booking.startTime')}
+                </label>
+                <input
+                  type="time"
+                  step={slotSeconds}
+                  value={start}
+                  onChange={(e) => setStart(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-semibold text-slate-500 mb-1">
+                  {t('booking.endTime')}
+                </label>
+                <input
+                  type="time"
+                  step={slotSeconds}
+                  value={end}
+                  onChange={(e) => setEnd(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {backToPending && (
+              <div className="p-3 text-xs rounded border bg-amber-50 text-amber-800 border-amber-200">
+                {t('editBooking.backToPending')}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                {t('booking.otherAttendeesOptional')}
+              </label>
+              <textarea
+                rows={3}
+                value={companions}
+                onChange={(e) => setCompanions(e.target.value)}
+                placeholder={t('booking.enterNames')}
+                className={inputClass}
+              />
+              {targetRoom && (
+                <div className="text-xs text-slate-400 mt-1">
+                  {t('booking.roomSeats', {
+                    min: targetRoom.minCapacity,
+                    max: targetRoom.maxCapacity,
+                  })}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                {t('booking.purpose')}
+              </label>
+              <input
+                type="text"
+                value={purpose}
+                onChange={(e) => setPurpose(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+
+            {needsTerms && targetRoom && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
+                <div className="text-xs text-slate-700 whitespace-pre-wrap max-h-32 overflow-y-auto custom-scrollbar bg-white/60 rounded p-2 border border-amber-100">
+                  {targetRoom.bookingTerms}
+                </div>
+                <label className="flex items-start gap-2 cursor-pointer text-xs font-medium text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={termsAccepted}
+                    onChange={(e) => setTermsAccepted(e.target.checked)}
+                    className="mt-0.5 rounded border-slate-300 text-primary focus:ring-primary/20"
+                  />
+                  <span>{t('booking.termsAccept')}</span>
+                </label>
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="p-6 border-t border-slate-200 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              {t('confirmDialog.back')}
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !purpose.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-primary rounded-lg hover:bg-primary-light disabled:opacity-50 transition-colors flex items-center gap-2"
+            >
+              {isSaving && <LoadingSpinner size="sm" color="white" />}
+              {t('editBooking.save')}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditBookingModal;
@@ -9,9 +9,25 @@ import {
   getEffectiveOperatingHours,
   parseOperatingHoursOrNull,
 } from '../utils/operatingHours';
+import { parseCheckInInput } from '../utils/checkIn';
+import { MAX_BUFFER_MINUTES, parseBufferInput } from '../utils/buffer';
+import { rulesDraftFromJson, rulesJsonFromDraft } from '../utils/bookingRules';
+import BookingRulesEditor from './BookingRulesEditor';
+import {
+  autoApprovalDraftFromJson,
+  autoApprovalJsonFromDraft,
+} from '../utils/autoApproval';
+import AutoApprovalRulesEditor from './AutoApprovalRulesEditor';
+import {
+  approvalChainDraftFromJson,
+  approvalChainJsonFromDraft,
+} from '../utils/approvalChain';
+import ApprovalChainEditor from './ApprovalChainEditor';
 import OperatingHoursEditor, {
   validateOperatingHours,
 } from './OperatingHoursEditor';
+import PolicyImpactPanel from './PolicyImpactPanel';
+import { usePolicyImpact } from '../hooks/usePolicyImpact';
 
 interface EditRoomModalProps {
   room: Room;
@@ -40,6 +56,17 @@ const EditRoomModal: React.FC<EditRoomModalProps> = ({
   const [requiresApproval, setRequiresApproval] = useState(
     !!room.requiresApproval,
   );
+  const [checkInGrace, setCheckInGrace] = useState(
+    room.checkInGraceMinutes == null ? '' : String(room.checkInGraceMinutes),
+  );
+  const [buffer, setBuffer] = useState(String(room.bufferMinutes ?? 0));
+  const [rules, setRules] = useState(rulesDraftFromJson(room.bookingRules));
+  const [autoRules, setAutoRules] = useState(
+    autoApprovalDraftFromJson(room.autoApprovalRules),
+  );
+  const [chain, setChain] = useState(
+    approvalChainDraftFromJson(room.approvalChain),
+  );
   const { operatingHours: globalHours } = useSettings();
   const roomHours = parseOperatingHoursOrNull(room.operatingHours);
   const [useCustomHours, setUseCustomHours] = useState(roomHours !== null);
@@ -49,6 +76,7 @@ const EditRoomModal: React.FC<EditRoomModalProps> = ({
     roomHours || getEffectiveOperatingHours(null, room.department, globalHours),
   );
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const impact = usePolicyImpact();
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -125,20 +153,67 @@ const EditRoomModal: React.FC<EditRoomModalProps> = ({
       }
     }
 
+    const checkInGraceMinutes = parseCheckInInput(checkInGrace);
+    if (checkInGraceMinutes === false) {
+      setError(t('roomForm.errorCheckIn'));
+      return;
+    }
+
+    const bufferMinutes = parseBufferInput(buffer);
+    if (bufferMinutes === false) {
+      setError(t('roomForm.errorBuffer'));
+      return;
+    }
+
+    const bookingRules = rulesJsonFromDraft(rules);
+    if (bookingRules === false) {
+      setError(t('bookingRules.invalid'));
+      return;
+    }
+
+    const autoApprovalRules = autoApprovalJsonFromDraft(autoRules);
+    if (autoApprovalRules === false) {
+      setError(t('autoApproval.invalid'));
+      return;
+    }
+
+    const approvalChain = approvalChainJsonFromDraft(chain);
+    if (approvalChain === false) {
+      setError(t('approvalChain.invalid'));
+      return;
+    }
+
+    const roomData = {
+      name: name.trim(),
+      description: description.trim(),
+      minCapacity: minCapacityNum,
+      maxCapacity: maxCapacityNum,
+      features,
+      departmentId: departmentId || null,
+      bookingTerms: bookingTerms.trim() || null,
+      requiresApproval,
+      // null = inherit the department's schedule (or the global one)
+      operatingHours: useCustomHours ? JSON.stringify(hours) : null,
+      // null = inherit the department's check-in grace (or the global one)
+      checkInGraceMinutes,
+      // null = follow the department's rules (or the global ones)
+      bookingRules,
+      // only consulted while the room requires approval
+      autoApprovalRules,
+      approvalChain,
+      bufferMinutes,
+    };
+
     setIsSubmitting(true);
     try {
-      await api.updateRoom(room.id, {
-        name: name.trim(),
-        description: description.trim(),
-        minCapacity: minCapacityNum,
-        maxCapacity: maxCapacityNum,
-        features,
-        departmentId: departmentId || null,
-        bookingTerms: bookingTerms.trim() || null,
-        requiresApproval,
-        // null = inherit the department's schedule (or the global one)
-        operatingHours: useCustomHours ? JSON.stringify(hours) : null,
-      });
+      const resolution = await impact.check(roomData, () =>
+        api.previewRoomImpact(room.id, roomData),
+      );
+      if (!resolution) {
+        toast.warning(t('policyImpact.review'));
+        return;
+      }
+      await api.updateRoom(room.id, { ...roomData, ...resolution });
       toast.success(t('roomForm.updated'));
       onSuccess();
       onClose();
@@ -310,6 +385,83 @@ const EditRoomModal: React.FC<EditRoomModalProps> = ({
               <p className="text-xs text-slate-500 mt-1 ml-6">
                 {t('roomForm.requireApprovalHint')}
               </p>
+              {requiresApproval && (
+                <div className="mt-3 ml-6">
+                  <label className="block text-sm font-medium text-slate-700 mb-1">
+                    {t('autoApproval.title')}
+                  </label>
+                  <AutoApprovalRulesEditor
+                    value={autoRules}
+                    onChange={setAutoRules}
+                    disabled={isSubmitting}
+                  />
+                  <p className="text-xs text-slate-500 mt-1">
+                    {t('autoApproval.roomHint')}
+                  </p>
+                  <label className="block text-sm font-medium text-slate-700 mt-3 mb-1">
+                    {t('approvalChain.title')}
+                  </label>
+                  <ApprovalChainEditor
+                    value={chain}
+                    onChange={setChain}
+                    departments={departments}
+                    disabled={isSubmitting}
+                  />
+                  <p className="text-xs text-slate-500 mt-1">
+                    {t('approvalChain.hint')}
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                {t('roomForm.checkInGrace')}
+              </label>
+              <input
+                type="number"
+                value={checkInGrace}
+                onChange={(e) => setCheckInGrace(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                placeholder={t('roomForm.checkInGracePlaceholder')}
+                min="0"
+                disabled={isSubmitting}
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                {t('roomForm.checkInGraceHint')}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                {t('roomForm.buffer')}
+              </label>
+              <input
+                type="number"
+                value={buffer}
+                onChange={(e) => setBuffer(e.target.value)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                min="0"
+                max={MAX_BUFFER_MINUTES}
+                disabled={isSubmitting}
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                {t('roomForm.bufferHint')}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                {t('bookingRules.title')}
+              </label>
+              <BookingRulesEditor
+                value={rules}
+                onChange={setRules}
+                disabled={isSubmitting}
+              />
+              <p className="text-xs text-slate-500 mt-1">
+                {t('roomForm.bookingRulesHint')}
+              </p>
             </div>
 
             <div>
@@ -373,6 +525,17 @@ const EditRoomModal: React.FC<EditRoomModalProps> = ({
             </div>
           </div>
 
+          {impact.bookings && (
+            <div className="px-6 pb-6">
+              <PolicyImpactPanel
+                bookings={impact.bookings}
+                choice={impact.choice}
+                onChange={impact.setChoice}
+                disabled={isSubmitting}
+              />
+            </div>
+          )}
+
           {/* Footer */}
           <div className="p-6 border-t border-slate-200 flex justify-end gap-3 sticky bottom-0 bg-white">
             <button
@@ -1,7 +1,7 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { XIcon, AlertTriangleIcon } from './Icons';
-import { User, UserRole } from '../types';
+import { Department, User, UserRole } from '../types';
 import LoadingSpinner from './LoadingSpinner';
 import { api } from '../services/api';
 
@@ -21,11 +21,17 @@ const EditUserModal: React.FC<EditUserModalProps> = ({
     name: user.name,
     email: user.email,
     role: user.role,
+    departmentId: user.departmentId || '',
     password: '',
     confirmPassword: '',
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [departments, setDepartments] = useState<Department[]>([]);
+
+  useEffect(() => {
+    api.getDepartments().then(setDepartments).catch(() => {});
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -56,6 +62,7 @@ const EditUserModal: React.FC<EditUserModalProps> = ({
         name: formData.name,
         email: formData.email,
         role: formData.role,
+        departmentId: formData.departmentId || null,
       };
 
       // Only include password if it's being changed
@@ -161,6 +168,30 @@ const EditUserModal: React.FC<EditUserModalProps> = ({
             </select>
           </div>
 
+          {/* Department */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">
+              {t('userForm.department')}
+            </label>
+            <select
+              value={formData.departmentId}
+              onChange={(e) =>
+                setFormData({ ...formData, departmentId: e.target.value })
+              }
+              className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary"
+            >
+              <option value="">{t('userForm.noDepartment')}</option>
+              {departments.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-slate-500 mt-1">
+              {t('userForm.departmentHint')}
+            </p>
+          </div>
+
           {/* Password Section */}
           <div className="pt-4 border-t border-slate-200">
             <p className="text-sm font-medium text-slate-700 mb-3">
@@ -1,14 +1,16 @@
 import React, { useState, useRef, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
 import { dateLocale } from '../i18n';
-import { Booking, User, Room } from '../types';
+import { User, Room } from '../types';
 import { useReactToPrint } from 'react-to-print';
 import { useSettings } from '../contexts/SettingsContext';
+import { useBookings } from '../hooks/useBookings';
 
 interface ExportReportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  bookings: Booking[];
+  refreshKey: number;
+  departmentIds?: string[]; // a department admin's report covers only theirs
   users: User[];
   rooms: Room[];
 }
@@ -18,7 +20,8 @@ type ReportType = 'bookings' | 'users' | 'rooms';
 const ExportReportModal: React.FC<ExportReportModalProps> = ({
   isOpen,
   onClose,
-  bookings,
+  refreshKey,
+  departmentIds,
   users,
   rooms,
 }) => {
@@ -42,22 +45,32 @@ const ExportReportModal: React.FC<ExportReportModalProps> = ({
   });
 
   // --- Filtering Logic ---
-  const filteredBookings = useMemo(() => {
-    if (reportType !== 'bookings') return [];
+  // The report covers bookings starting in the chosen range; only that range
+  // is fetched, and only while the report is open
+  const range = useMemo(() => {
     const start = new Date(startDate);
     const end = new Date(endDate);
     end.setHours(23, 59, 59, 999);
+    return { start, end };
+  }, [startDate, endDate]);
+  const { bookings } = useBookings(
+    isOpen && reportType === 'bookings'
+      ? {
+          from: range.start,
+          to: range.end,
+          departmentId: departmentIds,
+          order: 'desc',
+        }
+      : null,
+    refreshKey,
+  );
 
-    return bookings
-      .filter((b) => {
-        const bDate = new Date(b.startTime);
-        return bDate >= start && bDate <= end;
-      })
-      .sort(
-        (a, b) =>
-          new Date(b.startTime).getTime() - new Date(a.startTime).getTime(),
-      );
-  }, [bookings, startDate, endDate, reportType]);
+  const filteredBookings = useMemo(() => {
+    if (reportType !== 'bookings') return [];
+    // The range query also returns bookings that started before it and run
+    // into it
+    return bookings.filter((b) => new Date(b.startTime) >= range.start);
+  }, [bookings, range, reportType]);
 
   const filteredUsers = useMemo(() => {
     if (reportType !== 'users') return [];
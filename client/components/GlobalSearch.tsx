@@ -19,8 +19,9 @@ interface SearchResult {
   action: () => void;
 }
 
-// Header search across rooms, own bookings and (for staff) users/departments.
-// Entirely client-side: rooms/bookings are already in memory from polling.
+// Header search across rooms, own upcoming bookings and (for staff)
+// users/departments. Entirely client-side: App already polls rooms and the
+// header's bookings.
 const GlobalSearch: React.FC<GlobalSearchProps> = ({
   user,
   rooms,
@@ -0,0 +1,466 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { dateLocale } from '../i18n';
+import { api } from '../services/api';
+import { Booking, ModerationAction, Room } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { CheckCircleIcon, XIcon } from './Icons';
+import ProposeSlotModal from './ProposeSlotModal';
+
+interface ModerationInboxProps {
+  // Every pending request the viewer may decide, as the dashboard loaded it
+  bookings: Booking[];
+  rooms: Room[];
+  onRefresh: () => void;
+}
+
+// Matches the server's cap on one bulk request; larger selections go in batches
+const BATCH_SIZE = 100;
+
+// Under this long before the start a request is about to be auto-cancelled
+const URGENT_MS = 2 * 3600000;
+const SOON_MS = 24 * 3600000;
+
+type SortOrder = 'deadline' | 'waited';
+
+// Requests that failed in the last bulk action, with the server's reason
+type FailedItem = { id: string; error: string };
+
+// The approval queue as a worklist: every pending request with how long it
+// has waited and how long is left before it auto-cancels at its start time,
+// filtered by department or room and decided several at a time.
+const ModerationInbox: React.FC<ModerationInboxProps> = ({
+  bookings,
+  rooms,
+  onRefresh,
+}) => {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [filterDepartment, setFilterDepartment] = useState('all');
+  const [filterRoom, setFilterRoom] = useState('all');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('deadline');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [rejecting, setRejecting] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [failed, setFailed] = useState<FailedItem[]>([]);
+  // The request being answered with another time or room instead
+  const [proposing, setProposing] = useState<Booking | null>(null);
+  // The timers count down without a reload
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const roomById = useMemo(() => new Map(rooms.map((r) => [r.id, r])), [rooms]);
+  const departments = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const room of rooms) {
+      if (room.department) byId.set(room.department.id, room.department.name);
+    }
+    return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+  }, [rooms]);
+  const roomOptions = rooms.filter(
+    (r) => filterDepartment === 'all' || r.departmentId === filterDepartment,
+  );
+
+  const visible = useMemo(() => {
+    const matching = bookings.filter((b) => {
+      const room = roomById.get(b.roomId);
+      if (filterRoom !== 'all') return b.roomId === filterRoom;
+      return filterDepartment === 'all' || room?.departmentId === filterDepartment;
+    });
+    return matching.sort((a, b) =>
+      sortOrder === 'deadline'
+        ? a.startTime.localeCompare(b.startTime)
+        : a.createdAt.localeCompare(b.createdAt),
+    );
+  }, [bookings, roomById, filterDepartment, filterRoom, sortOrder]);
+
+  // A selection only ever covers requests still waiting and still shown
+  useEffect(() => {
+    const shown = new Set(visible.map((b) => b.id));
+    setSelectedIds((prev) => {
+      const kept = new Set([...prev].filter((id) => shown.has(id)));
+      return kept.size === prev.size ? prev : kept;
+    });
+  }, [visible]);
+
+  const allSelected =
+    visible.length > 0 && visible.every((b) => selectedIds.has(b.id));
+  const toggleAll = () =>
+    setSelectedIds(allSelected ? new Set() : new Set(visible.map((b) => b.id)));
+  const toggle = (id: string) =>
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const formatSpan = (ms: number) => {
+    const minutes = Math.max(0, Math.floor(ms / 60000));
+    const d = Math.floor(minutes / 1440);
+    const h = Math.floor((minutes % 1440) / 60);
+    const m = minutes % 60;
+    if (d > 0) return t('moderation.spanDays', { d, h });
+    if (h > 0) return t('moderation.spanHours', { h, m });
+    return t('moderation.spanMinutes', { m });
+  };
+
+  const formatBookingTime = (b: Pick<Booking, 'startTime' | 'endTime'>) => {
+    const start = new Date(b.startTime);
+    const end = new Date(b.endTime);
+    const time: Intl.DateTimeFormatOptions = {
+      hour: '2-digit',
+      minute: '2-digit',
+    };
+    return `${start.toLocaleDateString(dateLocale(), {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    })} ${start.toLocaleTimeString(dateLocale(), time)}–${end.toLocaleTimeString(dateLocale(), time)}`;
+  };
+
+  const deadlineTone = (msLeft: number) =>
+    msLeft < URGENT_MS
+      ? 'bg-red-50 border-red-200 text-red-700'
+      : msLeft < SOON_MS
+        ? 'bg-amber-50 border-amber-200 text-amber-700'
+        : 'bg-slate-50 border-slate-200 text-slate-600';
+
+  const moderate = async (action: ModerationAction) => {
+    const ids = visible.filter((b) => selectedIds.has(b.id)).map((b) => b.id);
+    if (ids.length === 0) return;
+    setIsSubmitting(true);
+    const failures: FailedItem[] = [];
+    let succeeded = 0;
+    try {
+      for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        const result = await api.moderateBookings(
+          action,
+          ids.slice(i, i + BATCH_SIZE),
+          action === 'REJECT' ? reason.trim() || undefined : undefined,
+        );
+        succeeded += result.succeeded;
+        for (const r of result.results) {
+          if (!r.ok) failures.push({ id: r.id, error: r.error || '' });
+        }
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t('moderation.failed'),
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+
+    if (succeeded > 0) {
+      toast.success(
+        t(action === 'APPROVE' ? 'moderation.approved' : 'moderation.rejected', {
+          count: succeeded,
+        }),
+      );
+    }
+    if (failures.length > 0) {
+      toast.warning(t('moderation.someFailed', { count: failures.length }));
+    }
+    setFailed(failures);
+    setSelectedIds(new Set(failures.map((f) => f.id)));
+    setRejecting(false);
+    setReason('');
+    onRefresh();
+  };
+
+  const bookingLabel = (id: string) => {
+    const booking = bookings.find((b) => b.id === id);
+    if (!booking) return id;
+    return `${roomById.get(booking.roomId)?.name ?? ''} · ${formatBookingTime(booking)}`;
+  };
+
+  return (
+    <div className="space-y-4 animate-slide-up">
+      <div>
+        <h3 className="text-xl font-bold text-slate-800">
+          {t('moderation.title')}
+        </h3>
+        <p className="text-sm text-slate-500 mt-1">
+          {t('moderation.subtitle')}
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="glass rounded-lg border border-slate-200 p-4 flex flex-wrap gap-3">
+        {departments.length > 0 && (
+          <select
+            value={filterDepartment}
+            onChange={(e) => {
+              setFilterDepartment(e.target.value);
+              setFilterRoom('all');
+            }}
+            className="px-4 py-2.5 border border-slate-200 rounded-md focus:ring-2 focus:ring-primary/20 focus:border-primary bg-white transition-all-smooth font-medium"
+          >
+            <option value="all">{t('moderation.allDepartments')}</option>
+            {departments.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <select
+          value={filterRoom}
+          onChange={(e) => setFilterRoom(e.target.value)}
+          className="px-4 py-2.5 border border-slate-200 rounded-md focus:ring-2 focus:ring-primary/20 focus:border-primary bg-white transition-all-smooth font-medium"
+        >
+          <option value="all">{t('moderation.allRooms')}</option>
+          {roomOptions.map((r) => (
+            <option key={r.id} value={r.id}>
+              {r.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={sortOrder}
+          onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+          className="px-4 py-2.5 border border-slate-200 rounded-md focus:ring-2 focus:ring-primary/20 focus:border-primary bg-white transition-all-smooth font-medium"
+        >
+          <option value="deadline">{t('moderation.sortDeadline')}</option>
+          <option value="waited">{t('moderation.sortWaited')}</option>
+        </select>
+      </div>
+
+      {/* Bulk actions */}
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={toggleAll}
+            className="rounded border-slate-300 text-primary focus:ring-primary/20"
+            disabled={visible.length === 0 || isSubmitting}
+          />
+          {t('moderation.selectAll', { count: visible.length })}
+        </label>
+        <div className="flex gap-2 sm:ml-auto">
+          <button
+            onClick={() => moderate('APPROVE')}
+            className="px-4 py-2 text-sm font-bold text-white bg-green-600 hover:bg-green-700 rounded-md transition-colors disabled:opacity-50 flex items-center gap-2"
+            disabled={selectedIds.size === 0 || isSubmitting}
+          >
+            <CheckCircleIcon className="w-4 h-4" />
+            {t('moderation.approveSelected', { count: selectedIds.size })}
+          </button>
+          <button
+            onClick={() => setRejecting(true)}
+            className="px-4 py-2 text-sm font-bold text-white bg-red-600 hover:bg-red-700 rounded-md transition-colors disabled:opacity-50 flex items-center gap-2"
+            disabled={selectedIds.size === 0 || isSubmitting}
+          >
+            <XIcon className="w-4 h-4" />
+            {t('moderation.rejectSelected', { count: selectedIds.size })}
+          </button>
+        </div>
+      </div>
+
+      {/* What the last bulk action could not do */}
+      {failed.length > 0 && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4">
+          <div className="flex items-start justify-between gap-3">
+            <p className="text-sm font-semibold text-red-800">
+              {t('moderation.failedTitle', { count: failed.length })}
+            </p>
+            <button
+              onClick={() => setFailed([])}
+              className="text-red-500 hover:text-red-700"
+              aria-label={t('common.close')}
+            >
+              <XIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1">
+            {failed.map((f) => (
+              <li key={f.id} className="text-xs text-red-700">
+                {bookingLabel(f.id)} — {f.error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Queue */}
+      {visible.length === 0 ? (
+        <div className="glass rounded-lg border border-slate-200 p-12 text-center">
+          <CheckCircleIcon className="w-14 h-14 mx-auto mb-4 text-slate-300" />
+          <p className="text-slate-500 font-semibold">
+            {t('moderation.empty')}
+          </p>
+        </div>
+      ) : (
+        <div className="glass rounded-lg border border-slate-200 divide-y divide-slate-100">
+          {visible.map((booking) => {
+            const room = roomById.get(booking.roomId);
+            const waited = now - new Date(booking.createdAt).getTime();
+            const left = new Date(booking.startTime).getTime() - now;
+            // The chain step it waits on; a chain shortened since ends at its last
+            const step = booking.approval
+              ? Math.min(booking.approval.signed, booking.approval.steps.length - 1)
+              : 0;
+            return (
+              <label
+                key={booking.id}
+                className={`flex items-start gap-3 p-4 cursor-pointer transition-colors ${
+                  selectedIds.has(booking.id)
+                    ? 'bg-primary/5'
+                    : 'hover:bg-slate-50'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(booking.id)}
+                  onChange={() => toggle(booking.id)}
+                  className="mt-1 rounded border-slate-300 text-primary focus:ring-primary/20"
+                  disabled={isSubmitting}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-bold text-slate-800 truncate">
+                    {room?.name}
+                    {room?.department && (
+                      <span className="text-xs font-medium text-slate-500 ml-2">
+                        {room.department.name}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-slate-600">
+                    {formatBookingTime(booking)}
+                  </p>
+                  <p className="text-xs text-slate-500 truncate">
+                    {booking.userDisplay}
+                    {booking.userEmail && ` (${booking.userEmail})`}
+                    {booking.purpose && ` · ${booking.purpose}`}
+                  </p>
+                  {booking.proposal && (
+                    <p className="text-xs mt-1 text-primary-dark">
+                      {t('moderation.proposed', {
+                        room: booking.proposal.roomName,
+                        time: formatBookingTime(booking.proposal),
+                      })}
+                    </p>
+                  )}
+                  {booking.approval && (
+                    <p className="text-xs mt-1">
+                      <span className="text-slate-600">
+                        {t('moderation.step', {
+                          n: step + 1,
+                          count: booking.approval.steps.length,
+                          name: booking.approval.steps[step],
+                        })}
+                      </span>
+                      <span
+                        className={`ml-2 px-1.5 py-0.5 rounded font-semibold ${
+                          booking.awaitsYou
+                            ? 'bg-primary/10 text-primary-dark'
+                            : 'bg-slate-100 text-slate-500'
+                        }`}
+                      >
+                        {t(
+                          booking.awaitsYou
+                            ? 'moderation.awaitsYou'
+                            : 'moderation.awaitsOthers',
+                        )}
+                      </span>
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-col items-end gap-1 shrink-0 text-xs">
+                  <span
+                    className={`px-2 py-0.5 rounded-md border font-bold ${deadlineTone(left)}`}
+                  >
+                    {t('moderation.timeLeft', { time: formatSpan(left) })}
+                  </span>
+                  <span className="text-slate-500">
+                    {t('moderation.waited', { time: formatSpan(waited) })}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setProposing(booking);
+                    }}
+                    className="mt-1 font-semibold text-primary hover:underline disabled:opacity-50"
+                    disabled={isSubmitting}
+                  >
+                    {t(booking.proposal ? 'moderation.proposeAgain' : 'moderation.propose')}
+                  </button>
+                </div>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {proposing && (
+        <ProposeSlotModal
+          booking={proposing}
+          rooms={rooms}
+          onClose={() => setProposing(null)}
+          onProposed={() => {
+            setProposing(null);
+            onRefresh();
+          }}
+        />
+      )}
+
+      {/* One reason for every selected rejection */}
+      {rejecting && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50 animate-fade-in">
+          <div className="bg-white rounded-xl max-w-md w-full animate-scale-in border border-slate-200">
+            <div className="p-6 border-b border-slate-200">
+              <h3 className="text-lg font-semibold text-slate-900">
+                {t('moderation.rejectTitle', { count: selectedIds.size })}
+              </h3>
+              <p className="text-sm text-slate-500 mt-1">
+                {t('moderation.rejectHint')}
+              </p>
+            </div>
+            <div className="p-6">
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+                placeholder={t('moderation.reasonPlaceholder')}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="p-6 border-t border-slate-200 flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setRejecting(false)}
+                className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+                disabled={isSubmitting}
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                onClick={() => moderate('REJECT')}
+                className="px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:opacity-50"
+                disabled={isSubmitting}
+              >
+                {isSubmitting
+                  ? t('moderation.working')
+                  : t('moderation.rejectSelected', {
+                      count: selectedIds.size,
+                    })}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModerationInbox;
@@ -23,6 +23,7 @@ const MonthView: React.FC<MonthViewProps> = ({
   const { t, i18n } = useTranslation();
   const currentMonth = selectedDate.getMonth();
   const currentYear = selectedDate.getFullYear();
+  const buffer = room.bufferMinutes ?? 0;
 
   // Localized weekday names (Sun..Sat). Jan 7, 2024 is a Sunday.
   const weekdays = useMemo(
@@ -147,36 +148,44 @@ const MonthView: React.FC<MonthViewProps> = ({
                       const canView = isOwner || isAdmin;
                       const startTime = new Date(booking.startTime);
 
+                      // Hatched above and below when the room keeps
+                      // turnover time around each booking
                       return (
                         <div
                           key={booking.id}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            if (canView) onBookingClick(booking);
-                          }}
-                          className={`text-[10px] sm:text-xs px-1 sm:px-2 py-0.5 sm:py-1 rounded cursor-pointer truncate border-l-2 transition-all touch-manipulation ${
-                            canView
-                              ? 'bg-indigo-100 border-primary text-primary hover:bg-indigo-200 active:bg-indigo-300'
-                              : 'bg-slate-100 border-slate-400 text-slate-600'
-                          }`}
-                          title={`${startTime.getHours()}:${startTime
-                            .getMinutes()
-                            .toString()
-                            .padStart(
-                              2,
-                              '0',
-                            )} - ${canView ? booking.userDisplay : t('common.reserved')}`}
+                          className={
+                            buffer > 0 ? 'bg-hatched rounded py-0.5' : undefined
+                          }
                         >
-                          <span className="font-semibold">
-                            {startTime.getHours()}:
-                            {startTime.getMinutes().toString().padStart(2, '0')}
-                          </span>
-                          <span className="hidden sm:inline">
-                            {' '}
-                            {canView
-                              ? booking.userDisplay
-                              : t('common.reserved')}
-                          </span>
+                          <div
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              if (canView) onBookingClick(booking);
+                            }}
+                            className={`text-[10px] sm:text-xs px-1 sm:px-2 py-0.5 sm:py-1 rounded cursor-pointer truncate border-l-2 transition-all touch-manipulation ${
+                              canView
+                                ? 'bg-indigo-100 border-primary text-primary hover:bg-indigo-200 active:bg-indigo-300'
+                                : 'bg-slate-100 border-slate-400 text-slate-600'
+                            }`}
+                            title={`${startTime.getHours()}:${startTime
+                              .getMinutes()
+                              .toString()
+                              .padStart(
+                                2,
+                                '0',
+                              )} - ${canView ? booking.userDisplay : t('common.reserved')}${buffer > 0 ? ` (${t('calendar.turnover', { count: buffer })})` : ''}`}
+                          >
+                            <span className="font-semibold">
+                              {startTime.getHours()}:
+                              {startTime.getMinutes().toString().padStart(2, '0')}
+                            </span>
+                            <span className="hidden sm:inline">
+                              {' '}
+                              {canView
+                                ? booking.userDisplay
+                                : t('common.reserved')}
+                            </span>
+                          </div>
                         </div>
                       );
                     })}
@@ -28,8 +28,8 @@ const NotificationBell: React.FC<NotificationBellProps> = ({
   const [lastSeenAt, setLastSeenAt] = useState(getLastSeenAt);
 
   const notifications = useMemo(
-    () => buildNotifications(user, rooms, bookings),
-    [user, rooms, bookings],
+    () => buildNotifications(rooms, bookings),
+    [rooms, bookings],
   );
 
   // Nothing to moderate means no bell at all, rather than a control that can
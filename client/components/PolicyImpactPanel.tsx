@@ -0,0 +1,94 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { dateLocale } from '../i18n';
+import { PolicyAffectedBooking } from '../types';
+import { PolicyImpactChoice } from '../hooks/usePolicyImpact';
+
+interface PolicyImpactPanelProps {
+  bookings: PolicyAffectedBooking[];
+  choice: PolicyImpactChoice;
+  onChange: (choice: PolicyImpactChoice) => void;
+  disabled?: boolean;
+}
+
+const CHOICES: PolicyImpactChoice[] = ['KEEP', 'NOTIFY', 'CANCEL'];
+
+const formatBookingTime = (b: PolicyAffectedBooking) => {
+  const start = new Date(b.startTime);
+  const end = new Date(b.endTime);
+  const time: Intl.DateTimeFormatOptions = {
+    hour: '2-digit',
+    minute: '2-digit',
+  };
+  return `${start.toLocaleDateString(dateLocale(), {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  })} ${start.toLocaleTimeString(dateLocale(), time)}–${end.toLocaleTimeString(dateLocale(), time)}`;
+};
+
+// The upcoming bookings an unsaved edit would break, and what to do about
+// them when it is saved
+const PolicyImpactPanel: React.FC<PolicyImpactPanelProps> = ({
+  bookings,
+  choice,
+  onChange,
+  disabled,
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="rounded-lg border border-amber-300 bg-amber-50 p-4 space-y-3">
+      <div>
+        <p className="text-sm font-semibold text-amber-800">
+          {t('policyImpact.title', { count: bookings.length })}
+        </p>
+        <p className="text-xs text-amber-700 mt-1">
+          {t('policyImpact.message')}
+        </p>
+      </div>
+
+      <div className="border border-amber-200 bg-white rounded-lg divide-y divide-slate-100 max-h-60 overflow-y-auto custom-scrollbar">
+        {bookings.map((b) => (
+          <div key={b.id} className="px-3 py-2">
+            <p className="text-sm font-medium text-slate-800 truncate">
+              {b.roomName} · {formatBookingTime(b)}
+            </p>
+            <p className="text-xs text-slate-500 truncate">
+              {b.userName}
+              {b.userEmail && ` (${b.userEmail})`}
+              {b.status === 'PENDING' && ` · ${t('policyImpact.pending')}`}
+            </p>
+            {b.violations.map((v) => (
+              <p key={v.code} className="text-xs text-amber-700 mt-0.5">
+                {v.message}
+              </p>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        {CHOICES.map((c) => (
+          <label
+            key={c}
+            className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer"
+          >
+            <input
+              type="radio"
+              name="policy-impact-choice"
+              checked={choice === c}
+              onChange={() => onChange(c)}
+              className="border-slate-300 text-primary focus:ring-primary/20"
+              disabled={disabled}
+            />
+            {t(`policyImpact.choice.${c}`)}
+          </label>
+        ))}
+      </div>
+      <p className="text-xs text-amber-700">{t('policyImpact.saveAgain')}</p>
+    </div>
+  );
+};
+
+export default PolicyImpactPanel;
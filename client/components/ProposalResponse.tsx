@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { dateLocale } from '../i18n';
+import { api } from '../services/api';
+import { Booking, Room } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { AlertTriangleIcon } from './Icons';
+
+interface ProposalResponseProps {
+  booking: Booking;
+  // The room proposed, for its terms when it is not the one requested
+  room?: Room;
+}
+
+// The other slot an approver offered for one of the user's requests, with
+// their answer. Accepting moves the request there; declining withdraws it.
+const ProposalResponse: React.FC<ProposalResponseProps> = ({ booking, room }) => {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const proposal = booking.proposal!;
+  const [termsAccepted, setTermsAccepted] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Terms were accepted for the room requested, not for another one
+  const needsTerms = proposal.roomId !== booking.roomId && !!room?.bookingTerms;
+
+  const start = new Date(proposal.startTime);
+  const end = new Date(proposal.endTime);
+  const time: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+
+  const accept = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await api.acceptProposal(
+        booking.id,
+        needsTerms ? termsAccepted : undefined,
+      );
+      toast.success(
+        t(result.status === 'PENDING' ? 'proposal.acceptedPending' : 'proposal.accepted'),
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t('proposal.respondFailed'),
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const decline = async () => {
+    if (!window.confirm(t('proposal.declineConfirm'))) return;
+    setIsSubmitting(true);
+    try {
+      await api.declineProposal(booking.id);
+      toast.success(t('proposal.declined'));
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t('proposal.respondFailed'),
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-primary/5 border border-primary/20 rounded-lg text-sm space-y-2 text-left">
+      <p className="font-bold text-primary-dark">
+        {t('proposal.offered', { name: proposal.proposedByName ?? '' })}
+      </p>
+      <p className="text-slate-700 font-medium">
+        {proposal.roomName} ·{' '}
+        {start.toLocaleDateString(dateLocale(), {
+          weekday: 'short',
+          month: 'short',
+          day: 'numeric',
+        })}{' '}
+        {start.toLocaleTimeString(dateLocale(), time)} -{' '}
+        {end.toLocaleTimeString(dateLocale(), time)}
+      </p>
+      {proposal.message && (
+        <p className="text-slate-600 italic">"{proposal.message}"</p>
+      )}
+      <p className="text-xs text-slate-500">
+        {t('proposal.answerBy', {
+          time: new Date(proposal.expiresAt).toLocaleString(dateLocale(), {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+          }),
+        })}
+      </p>
+      {needsTerms && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
+          <div className="flex items-center gap-2 text-sm font-semibold text-amber-800">
+            <AlertTriangleIcon className="w-4 h-4" />
+            {t('booking.terms')}
+          </div>
+          <div className="text-xs text-slate-700 whitespace-pre-wrap max-h-32 overflow-y-auto custom-scrollbar bg-white/60 rounded p-2 border border-amber-100">
+            {room!.bookingTerms}
+          </div>
+          <label className="flex items-start gap-2 cursor-pointer text-xs font-medium text-slate-700">
+            <input
+              type="checkbox"
+              checked={termsAccepted}
+              onChange={(e) => setTermsAccepted(e.target.checked)}
+              className="mt-0.5 rounded border-slate-300 text-primary focus:ring-primary/20"
+            />
+            <span>{t('booking.termsAccept')}</span>
+          </label>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={accept}
+          className="px-3 py-1.5 text-sm font-bold text-white bg-primary hover:bg-primary-light rounded-md transition-colors disabled:opacity-50"
+          disabled={isSubmitting || (needsTerms && !termsAccepted)}
+        >
+          {t('proposal.accept')}
+        </button>
+        <button
+          onClick={decline}
+          className="px-3 py-1.5 text-sm font-bold text-red-600 bg-white border border-red-200 hover:bg-red-50 rounded-md transition-colors disabled:opacity-50"
+          disabled={isSubmitting}
+        >
+          {t('proposal.decline')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ProposalResponse;
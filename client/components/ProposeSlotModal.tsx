@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { api } from '../services/api';
+import { Booking, Room } from '../types';
+import { useToast } from '../contexts/ToastContext';
+
+interface ProposeSlotModalProps {
+  booking: Booking;
+  rooms: Room[];
+  onClose: () => void;
+  onProposed: () => void;
+}
+
+// Same limit as server/src/middleware/validation.ts
+const MAX_PROPOSAL_MESSAGE = 500;
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+const toDateInput = (d: Date) =>
+  `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+const toTimeInput = (d: Date) => `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+
+const inputClass =
+  'w-full px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent bg-white';
+
+// Answer a pending request with another time or room instead of rejecting it.
+// Starts from the slot asked for; the server checks the new one as it would a
+// booking by the requester and holds it for them until they answer.
+const ProposeSlotModal: React.FC<ProposeSlotModalProps> = ({
+  booking,
+  rooms,
+  onClose,
+  onProposed,
+}) => {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const requestedStart = new Date(booking.startTime);
+  const requestedEnd = new Date(booking.endTime);
+  const [roomId, setRoomId] = useState(booking.roomId);
+  const [date, setDate] = useState(() => toDateInput(requestedStart));
+  const [startTime, setStartTime] = useState(() => toTimeInput(requestedStart));
+  const [endTime, setEndTime] = useState(() => toTimeInput(requestedEnd));
+  const [message, setMessage] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async () => {
+    const start = new Date(`${date}T${startTime}`);
+    const end = new Date(`${date}T${endTime}`);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+      toast.error(t('proposal.invalidTime'));
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await api.proposeBooking(booking.id, {
+        roomId: roomId !== booking.roomId ? roomId : undefined,
+        startTime: start.toISOString(),
+        endTime: end.toISOString(),
+        message: message.trim() || undefined,
+      });
+      toast.success(t('proposal.sent'));
+      onProposed();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t('proposal.sendFailed'),
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50 animate-fade-in">
+      <div className="bg-white rounded-xl max-w-md w-full animate-scale-in border border-slate-200">
+        <div className="p-6 border-b border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900">
+            {t('proposal.title')}
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">
+            {t('proposal.hint', { name: booking.userDisplay ?? '' })}
+          </p>
+        </div>
+        <div className="p-6 space-y-3">
+          <label className="block">
+            <span className="block text-xs font-semibold text-slate-500 mb-1">
+              {t('proposal.room')}
+            </span>
+            <select
+              value={roomId}
+              onChange={(e) => setRoomId(e.target.value)}
+              className={inputClass}
+              disabled={isSubmitting}
+            >
+              {rooms.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {r.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block text-xs font-semibold text-slate-500 mb-1">
+              {t('proposal.date')}
+            </span>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className={inputClass}
+              disabled={isSubmitting}
+            />
+          </label>
+          <div className="flex gap-3">
+            <label className="block flex-1">
+              <span className="block text-xs font-semibold text-slate-500 mb-1">
+                {t('proposal.start')}
+              </span>
+              <input
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                className={inputClass}
+                disabled={isSubmitting}
+              />
+            </label>
+            <label className="block flex-1">
+              <span className="block text-xs font-semibold text-slate-500 mb-1">
+                {t('proposal.end')}
+              </span>
+              <input
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                className={inputClass}
+                disabled={isSubmitting}
+              />
+            </label>
+          </div>
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            rows={3}
+            maxLength={MAX_PROPOSAL_MESSAGE}
+            className={inputClass}
+            placeholder={t('proposal.messagePlaceholder')}
+            disabled={isSubmitting}
+          />
+        </div>
+        <div className="p-6 border-t border-slate-200 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors"
+            disabled={isSubmitting}
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={submit}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-dark hover:bg-primary rounded-lg transition-colors disabled:opacity-50"
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? t('proposal.sending') : t('proposal.send')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProposeSlotModal;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { QuotaLimits, QuotaScope } from '../types';
+import {
+  QUOTA_LIMITS,
+  QUOTA_MAX,
+  QUOTA_SCOPES,
+  QuotaDraft,
+  isHourLimit,
+} from '../utils/quotas';
+
+interface QuotaEditorProps {
+  value: QuotaDraft;
+  onChange: (draft: QuotaDraft) => void;
+  disabled?: boolean;
+}
+
+// One row per scope (everyone, students, faculty), one column per limit.
+// Blank fields are not set, and fall through to the next level.
+const QuotaEditor: React.FC<QuotaEditorProps> = ({
+  value,
+  onChange,
+  disabled,
+}) => {
+  const { t } = useTranslation();
+
+  const setField = (
+    scope: QuotaScope,
+    limit: keyof QuotaLimits,
+    v: string,
+  ) => {
+    onChange({ ...value, [scope]: { ...value[scope], [limit]: v } });
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-lg overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="bg-slate-50 text-xs text-slate-500">
+            <th className="px-3 py-2 text-left font-semibold" />
+            {QUOTA_LIMITS.map((limit) => (
+              <th key={limit} className="px-2 py-2 text-left font-semibold">
+                {t(`quotas.limits.${limit}`)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {QUOTA_SCOPES.map((scope) => (
+            <tr key={scope}>
+              <td className="px-3 py-2 font-medium text-slate-700 whitespace-nowrap">
+                {t(`quotas.scopes.${scope}`)}
+              </td>
+              {QUOTA_LIMITS.map((limit) => (
+                <td key={limit} className="px-2 py-2">
+                  <input
+                    type="number"
+                    min={isHourLimit(limit) ? 0.25 : 1}
+                    max={QUOTA_MAX[limit]}
+                    step={isHourLimit(limit) ? 0.25 : 1}
+                    value={value[scope][limit]}
+                    onChange={(e) => setField(scope, limit, e.target.value)}
+                    placeholder="—"
+                    className="w-20 px-2 py-1 border border-slate-200 rounded focus:ring-2 focus:ring-primary/20 focus:border-primary"
+                    disabled={disabled}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default QuotaEditor;
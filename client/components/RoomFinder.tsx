@@ -0,0 +1,253 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AvailableRoom, Room } from '../types';
+import { api } from '../services/api';
+import { XIcon } from './Icons';
+import LoadingSpinner from './LoadingSpinner';
+
+interface RoomFinderProps {
+  rooms: Room[];
+  onPick: (room: Room, start: Date, end: Date) => void;
+  onClose: () => void;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+const toDateInput = (d: Date) =>
+  `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+const toTimeInput = (d: Date) => `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+
+// "Find me a room": when, how many people and what the room needs, answered
+// with every room free for it, best fit first. The server runs the same checks
+// as a booking, so picking a result opens the booking form ready to submit.
+const RoomFinder: React.FC<RoomFinderProps> = ({ rooms, onPick, onClose }) => {
+  const { t } = useTranslation();
+  const [date, setDate] = useState(() => toDateInput(new Date()));
+  const [start, setStart] = useState(() => {
+    const next = new Date();
+    next.setHours(next.getHours() + 1, 0, 0, 0);
+    return toTimeInput(next);
+  });
+  const [end, setEnd] = useState(() => {
+    const next = new Date();
+    next.setHours(next.getHours() + 2, 0, 0, 0);
+    return toTimeInput(next);
+  });
+  const [people, setPeople] = useState('1');
+  const [features, setFeatures] = useState<string[]>([]);
+  const [results, setResults] = useState<AvailableRoom[] | null>(null);
+  const [searched, setSearched] = useState<{ start: Date; end: Date } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Every feature some room has, once each whatever its spelling
+  const allFeatures = useMemo(() => {
+    const byKey = new Map<string, string>();
+    for (const room of rooms) {
+      for (const feature of room.features) {
+        const key = feature.trim().toLowerCase();
+        if (key && !byKey.has(key)) byKey.set(key, feature.trim());
+      }
+    }
+    return Array.from(byKey.values()).sort((a, b) => a.localeCompare(b));
+  }, [rooms]);
+
+  const toggleFeature = (feature: string) =>
+    setFeatures((current) =>
+      current.includes(feature)
+        ? current.filter((f) => f !== feature)
+        : [...current, feature],
+    );
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const startAt = new Date(`${date}T${start}`);
+    const endAt = new Date(`${date}T${end}`);
+    const headcount = Number(people);
+    if (isNaN(startAt.getTime()) || isNaN(endAt.getTime())) {
+      setError(t('roomFinder.invalidTime'));
+      return;
+    }
+    if (!Number.isInteger(headcount) || headcount < 1) {
+      setError(t('roomFinder.invalidPeople'));
+      return;
+    }
+    setError(null);
+    setIsSearching(true);
+    try {
+      setResults(
+        await api.findAvailableRooms({
+          start: startAt,
+          end: endAt,
+          people: headcount,
+          features,
+        }),
+      );
+      setSearched({ start: startAt, end: endAt });
+    } catch (err) {
+      setResults(null);
+      setError(err instanceof Error ? err.message : t('roomFinder.searchFailed'));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const inputClass =
+    'w-full p-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-primary focus:border-primary';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50 animate-fade-in">
+      <div className="bg-white rounded-xl max-w-lg w-full animate-scale-in max-h-[90vh] overflow-y-auto border border-slate-200">
+        <div className="p-6 border-b border-slate-200 flex items-center justify-between sticky top-0 bg-white z-10">
+          <div>
+            <h3 className="text-lg font-semibold text-slate-900">
+              {t('roomFinder.title')}
+            </h3>
+            <p className="text-sm text-slate-500">{t('roomFinder.subtitle')}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <XIcon className="w-5 h-5 text-slate-600" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSearch} className="p-6 space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-3 sm:col-span-1">
+              <label className="block text-xs font-semibold text-slate-500 mb-1">
+                {t('roomFinder.date')}
+              </label>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">
+                {t('booking.startTime')}
+              </label>
+              <input
+                type="time"
+                value={start}
+                onChange={(e) => setStart(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 mb-1">
+                {t('booking.endTime')}
+              </label>
+              <input
+                type="time"
+                value={end}
+                onChange={(e) => setEnd(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-semibold text-slate-500 mb-1">
+              {t('roomFinder.people')}
+            </label>
+            <input
+              type="number"
+              min={1}
+              value={people}
+              onChange={(e) => setPeople(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+
+          {allFeatures.length > 0 && (
+            <div>
+              <p className="block text-xs font-semibold text-slate-500 mb-1">
+                {t('roomFinder.features')}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {allFeatures.map((feature) => {
+                  const selected = features.includes(feature);
+                  return (
+                    <button
+                      key={feature}
+                      type="button"
+                      onClick={() => toggleFeature(feature)}
+                      className={`px-2.5 py-1 rounded-md text-xs font-bold border transition-colors ${
+                        selected
+                          ? 'bg-primary text-white border-primary'
+                          : 'bg-white text-slate-600 border-slate-200 hover:border-primary/50 hover:text-primary'
+                      }`}
+                    >
+                      {feature}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 text-xs rounded border bg-red-50 text-red-700 border-red-200">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSearching}
+            className="w-full py-2 px-4 bg-primary-dark hover:bg-primary text-white rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+          >
+            {isSearching && <LoadingSpinner size="sm" color="white" />}
+            {t('roomFinder.search')}
+          </button>
+        </form>
+
+        {results && searched && (
+          <div className="px-6 pb-6">
+            {results.length === 0 ? (
+              <p className="text-sm text-slate-400 italic">
+                {t('roomFinder.noMatches')}
+              </p>
+            ) : (
+              <ul className="divide-y divide-slate-100 border-t border-slate-100">
+                {results.map((room) => (
+                  <li key={room.id}>
+                    <button
+                      onClick={() => onPick(room, searched.start, searched.end)}
+                      className="w-full py-3 text-left flex items-center justify-between gap-3 hover:bg-slate-50 transition-colors"
+                    >
+                      <div className="min-w-0">
+                        <div className="font-semibold text-slate-800 truncate">
+                          {room.name}
+                        </div>
+                        <div className="text-xs text-slate-500">
+                          {room.department?.name
+                            ? `${room.department.name} • `
+                            : ''}
+                          {t('roomDetails.capacityValue', {
+                            min: room.minCapacity,
+                            max: room.maxCapacity,
+                          })}
+                        </div>
+                      </div>
+                      {room.requiresApproval && (
+                        <span className="shrink-0 px-2 py-0.5 rounded-lg text-xs font-bold bg-amber-50 border border-amber-200 text-amber-700">
+                          {t('roomFinder.needsApproval')}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoomFinder;
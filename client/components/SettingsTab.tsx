@@ -2,16 +2,44 @@ import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useSettings } from '../contexts/SettingsContext';
 import { useToast } from '../contexts/ToastContext';
-import { OperatingHours } from '../types';
+import { api } from '../services/api';
+import { OperatingHours, ServiceSettings } from '../types';
 import { parseOperatingHours } from '../utils/operatingHours';
+import { parseCheckInInput } from '../utils/checkIn';
+import { quotaDraftFromJson, quotaJsonFromDraft } from '../utils/quotas';
+import QuotaEditor from './QuotaEditor';
+import { rulesDraftFromJson, rulesJsonFromDraft } from '../utils/bookingRules';
+import BookingRulesEditor from './BookingRulesEditor';
 import OperatingHoursEditor, {
   validateOperatingHours,
 } from './OperatingHoursEditor';
+import PolicyImpactPanel from './PolicyImpactPanel';
+import { usePolicyImpact } from '../hooks/usePolicyImpact';
+
+// Same bounds as STRIKE_SETTING_RANGES in server/src/services/settings.ts
+const STRIKE_RANGES = {
+  lateCancelHours: [0, 168],
+  strikeThreshold: [0, 20],
+  strikeWindowDays: [1, 365],
+  banDays: [1, 365],
+} as const;
+
+type StrikeField = keyof typeof STRIKE_RANGES;
+
+const strikePolicyDraft = (
+  settings: ServiceSettings | null | undefined,
+): Record<StrikeField, string> => ({
+  lateCancelHours: String(settings?.lateCancelHours ?? 0),
+  strikeThreshold: String(settings?.strikeThreshold ?? 3),
+  strikeWindowDays: String(settings?.strikeWindowDays ?? 30),
+  banDays: String(settings?.banDays ?? 7),
+});
 
 const SettingsTab: React.FC = () => {
   const { t } = useTranslation();
   const { settings, updateSettings } = useSettings();
   const toast = useToast();
+  const impact = usePolicyImpact();
   const [formData, setFormData] = useState({
     serviceName: settings?.serviceName || '',
     description: settings?.description || '',
@@ -23,10 +51,34 @@ const SettingsTab: React.FC = () => {
   const [allowSelfRegistration, setAllowSelfRegistration] = useState(
     !!settings?.allowSelfRegistration,
   );
+  const [waitlistAutoBook, setWaitlistAutoBook] = useState(
+    !!settings?.waitlistAutoBook,
+  );
   // Kept as a string so the field can be cleared while typing without snapping to 0
   const [approvalLeadTime, setApprovalLeadTime] = useState(
     String(settings?.approvalLeadTimeMinutes ?? 60),
   );
+  const [escalationHours, setEscalationHours] = useState(
+    String(settings?.approvalEscalationHours ?? 24),
+  );
+  const [escalationLead, setEscalationLead] = useState(
+    String(settings?.approvalEscalationLeadHours ?? 4),
+  );
+  const [checkInGrace, setCheckInGrace] = useState(
+    String(settings?.checkInGraceMinutes ?? 0),
+  );
+  const [checkInOpens, setCheckInOpens] = useState(
+    String(settings?.checkInOpensMinutes ?? 15),
+  );
+  const [strikePolicy, setStrikePolicy] = useState(() =>
+    strikePolicyDraft(settings),
+  );
+  const [quotas, setQuotas] = useState(
+    quotaDraftFromJson(settings?.bookingQuotas),
+  );
+  const [rules, setRules] = useState(
+    rulesDraftFromJson(settings?.bookingRules),
+  );
   const [hours, setHours] = useState<OperatingHours>(
     parseOperatingHours(settings?.operatingHours),
   );
@@ -44,9 +96,21 @@ const SettingsTab: React.FC = () => {
       setHours(parseOperatingHours(settings.operatingHours));
       setAllowSelfRegistration(!!settings.allowSelfRegistration);
       setApprovalLeadTime(String(settings.approvalLeadTimeMinutes ?? 60));
+      setEscalationHours(String(settings.approvalEscalationHours ?? 24));
+      setEscalationLead(String(settings.approvalEscalationLeadHours ?? 4));
+      setWaitlistAutoBook(!!settings.waitlistAutoBook);
+      setCheckInGrace(String(settings.checkInGraceMinutes ?? 0));
+      setCheckInOpens(String(settings.checkInOpensMinutes ?? 15));
+      setStrikePolicy(strikePolicyDraft(settings));
+      setQuotas(quotaDraftFromJson(settings.bookingQuotas));
+      setRules(rulesDraftFromJson(settings.bookingRules));
     }
   }, [settings]);
 
+  const setStrikeField = (field: StrikeField, value: string) => {
+    setStrikePolicy((prev) => ({ ...prev, [field]: value }));
+  };
+
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
   ) => {
@@ -71,13 +135,75 @@ const SettingsTab: React.FC = () => {
       toast.error(t('settingsTab.approvalLeadTimeInvalid'));
       return;
     }
+    // Whole hours up to a week, as the server allows; 0 turns a trigger off
+    const escalation = [escalationHours, escalationLead].map((v) =>
+      v.trim() === '' ? NaN : Number(v),
+    );
+    if (escalation.some((h) => !Number.isInteger(h) || h < 0 || h > 168)) {
+      toast.error(t('settingsTab.escalationInvalid'));
+      return;
+    }
+    // Blank is not "inherit" here: this is the global default everything falls back to
+    const graceMinutes = parseCheckInInput(checkInGrace);
+    const opensMinutes = parseCheckInInput(checkInOpens);
+    if (
+      graceMinutes === null ||
+      graceMinutes === false ||
+      opensMinutes === null ||
+      opensMinutes === false
+    ) {
+      toast.error(t('settingsTab.checkInInvalid'));
+      return;
+    }
+    const strikeFields = Object.keys(STRIKE_RANGES) as StrikeField[];
+    const strikeValues = strikeFields.map((field) =>
+      strikePolicy[field].trim() === '' ? NaN : Number(strikePolicy[field]),
+    );
+    if (
+      strikeValues.some(
+        (v, i) =>
+          !Number.isInteger(v) ||
+          v < STRIKE_RANGES[strikeFields[i]][0] ||
+          v > STRIKE_RANGES[strikeFields[i]][1],
+      )
+    ) {
+      toast.error(t('settingsTab.strikesInvalid'));
+      return;
+    }
+    const bookingQuotas = quotaJsonFromDraft(quotas);
+    if (bookingQuotas === false) {
+      toast.error(t('quotas.invalid'));
+      return;
+    }
+    const bookingRules = rulesJsonFromDraft(rules);
+    if (bookingRules === false) {
+      toast.error(t('bookingRules.invalid'));
+      return;
+    }
+    const newSettings = {
+      ...formData,
+      operatingHours: JSON.stringify(hours),
+      allowSelfRegistration,
+      approvalLeadTimeMinutes: leadMinutes,
+      approvalEscalationHours: escalation[0],
+      approvalEscalationLeadHours: escalation[1],
+      waitlistAutoBook,
+      checkInGraceMinutes: graceMinutes,
+      checkInOpensMinutes: opensMinutes,
+      ...Object.fromEntries(strikeFields.map((f, i) => [f, strikeValues[i]])),
+      bookingQuotas,
+      bookingRules,
+    };
     try {
-      await updateSettings({
-        ...formData,
-        operatingHours: JSON.stringify(hours),
-        allowSelfRegistration,
-        approvalLeadTimeMinutes: leadMinutes,
-      });
+      const resolution = await impact.check(newSettings, () =>
+        api.previewSettingsImpact(newSettings),
+      );
+      if (!resolution) {
+        toast.warning(t('policyImpact.review'));
+        return;
+      }
+      await updateSettings({ ...newSettings, ...resolution });
+      impact.reset();
       toast.success(t('settingsTab.updated'));
     } catch (error) {
       toast.error(t('settingsTab.updateFailed'));
@@ -218,6 +344,171 @@ const SettingsTab: React.FC = () => {
             {t('settingsTab.approvalLeadTimeHint')}
           </p>
         </div>
+        <div>
+          <label className="block text-sm font-bold text-slate-700 mb-2">
+            {t('settingsTab.escalation')}
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-slate-600 font-medium">
+              {t('settingsTab.escalationAfter')}
+            </span>
+            <input
+              type="number"
+              min={0}
+              max={168}
+              value={escalationHours}
+              onChange={(e) => setEscalationHours(e.target.value)}
+              className="w-24 px-4 py-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all"
+            />
+            <span className="text-sm text-slate-600 font-medium">
+              {t('settingsTab.escalationLead')}
+            </span>
+            <input
+              type="number"
+              min={0}
+              max={168}
+              value={escalationLead}
+              onChange={(e) => setEscalationLead(e.target.value)}
+              className="w-24 px-4 py-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all"
+            />
+            <span className="text-sm text-slate-600 font-medium">
+              {t('settingsTab.hours')}
+            </span>
+          </div>
+          <p className="text-xs text-slate-500 mt-1">
+            {t('settingsTab.escalationHint')}
+          </p>
+        </div>
+        <div>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={waitlistAutoBook}
+              onChange={(e) => setWaitlistAutoBook(e.target.checked)}
+              className="rounded border-slate-300 text-primary focus:ring-primary/20"
+            />
+            <span className="text-sm font-bold text-slate-700">
+              {t('settingsTab.waitlistAutoBook')}
+            </span>
+          </label>
+          <p className="text-xs text-slate-500 mt-1 ml-6">
+            {t('settingsTab.waitlistAutoBookHint')}
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-bold text-slate-700 mb-2">
+            {t('settingsTab.checkIn')}
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-slate-600 font-medium">
+              {t('settingsTab.checkInOpens')}
+            </span>
+            <input
+              type="number"
+              min={0}
+              max={240}
+              step={5}
+              value={checkInOpens}
+              onChange={(e) => setCheckInOpens(e.target.value)}
+              className="w-24 px-4 py-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all"
+            />
+            <span className="text-sm text-slate-600 font-medium">
+              {t('settingsTab.checkInGrace')}
+            </span>
+            <input
+              type="number"
+              min={0}
+              max={240}
+              step={5}
+              value={checkInGrace}
+              onChange={(e) => setCheckInGrace(e.target.value)}
+              className="w-24 px-4 py-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all"
+            />
+            <span className="text-sm text-slate-600 font-medium">
+              {t('settingsTab.minutes')}
+            </span>
+          </div>
+          <p className="text-xs text-slate-500 mt-1">
+            {t('settingsTab.checkInHint')}
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-bold text-slate-700 mb-2">
+            {t('settingsTab.strikes')}
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-slate-600 font-medium">
+              {t('settingsTab.strikesLateCancel')}
+            </span>
+            <input
+              type="number"
+              min={0}
+              max={168}
+              value={strikePolicy.lateCancelHours}
+              onChange={(e) => setStrikeField('lateCancelHours', e.target.value)}
+              className="w-24 px-4 py-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all"
+            />
+            <span className="text-sm text-slate-600 font-medium">
+              {t('settingsTab.hours')}
+            </span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mt-2">
+            <input
+              type="number"
+              min={0}
+              max={20}
+              value={strikePolicy.strikeThreshold}
+              onChange={(e) => setStrikeField('strikeThreshold', e.target.value)}
+              className="w-24 px-4 py-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all"
+            />
+            <span className="text-sm text-slate-600 font-medium">
+              {t('settingsTab.strikesWithin')}
+            </span>
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={strikePolicy.strikeWindowDays}
+              onChange={(e) => setStrikeField('strikeWindowDays', e.target.value)}
+              className="w-24 px-4 py-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all"
+            />
+            <span className="text-sm text-slate-600 font-medium">
+              {t('settingsTab.strikesBanFor')}
+            </span>
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={strikePolicy.banDays}
+              onChange={(e) => setStrikeField('banDays', e.target.value)}
+              className="w-24 px-4 py-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all"
+            />
+            <span className="text-sm text-slate-600 font-medium">
+              {t('settingsTab.days')}
+            </span>
+          </div>
+          <p className="text-xs text-slate-500 mt-1">
+            {t('settingsTab.strikesHint')}
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-bold text-slate-700 mb-2">
+            {t('quotas.title')}
+          </label>
+          <QuotaEditor value={quotas} onChange={setQuotas} />
+          <p className="text-xs text-slate-500 mt-1">
+            {t('settingsTab.quotasHint')}
+          </p>
+        </div>
+        <div>
+          <label className="block text-sm font-bold text-slate-700 mb-2">
+            {t('bookingRules.title')}
+          </label>
+          <BookingRulesEditor value={rules} onChange={setRules} />
+          <p className="text-xs text-slate-500 mt-1">
+            {t('settingsTab.bookingRulesHint')}
+          </p>
+        </div>
         <div>
           <label className="block text-sm font-bold text-slate-700 mb-2">
             {t('roomDetails.operatingHours')}
@@ -226,6 +517,15 @@ const SettingsTab: React.FC = () => {
           <p className="text-xs text-slate-500 mt-1">
             {t('settingsTab.operatingHoursHint')}
           </p>
+          {impact.bookings && (
+            <div className="mt-3">
+              <PolicyImpactPanel
+                bookings={impact.bookings}
+                choice={impact.choice}
+                onChange={impact.setChoice}
+              />
+            </div>
+          )}
         </div>
         <div className="pt-4">
           <button
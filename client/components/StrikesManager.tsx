@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { dateLocale } from '../i18n';
+import { api } from '../services/api';
+import { StrikePolicy, StruckUser } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import LoadingSpinner from './LoadingSpinner';
+import { AlertTriangleIcon } from './Icons';
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString(dateLocale(), {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Who has cancelled late or not turned up recently, and who is banned from
+// booking for it. Forgiving a strike stops it counting; a ban already running
+// is lifted separately.
+const StrikesManager: React.FC = () => {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [users, setUsers] = useState<StruckUser[]>([]);
+  const [policy, setPolicy] = useState<StrikePolicy | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = async () => {
+    try {
+      const result = await api.getStrikes();
+      setUsers(result.users);
+      setPolicy(result.policy);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t('strikes.loadFailed'),
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const forgive = async (strikeId: string) => {
+    setBusyId(strikeId);
+    try {
+      await api.forgiveStrike(strikeId);
+      toast.success(t('strikes.forgiven'));
+      await load();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t('strikes.forgiveFailed'),
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const liftBan = async (user: StruckUser) => {
+    if (!window.confirm(t('strikes.liftBanConfirm', { name: user.name })))
+      return;
+    setBusyId(user.id);
+    try {
+      await api.liftBookingBan(user.id);
+      toast.success(t('strikes.banLifted'));
+      await load();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : t('strikes.liftBanFailed'),
+      );
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-bold gradient-text">
+          {t('strikes.title')}
+        </h2>
+        {policy && (
+          <p className="text-sm text-slate-500 mt-1">
+            {policy.strikeThreshold > 0
+              ? t('strikes.policy', {
+                  threshold: policy.strikeThreshold,
+                  window: policy.strikeWindowDays,
+                  ban: policy.banDays,
+                })
+              : t('strikes.policyNoBans', { window: policy.strikeWindowDays })}{' '}
+            {policy.lateCancelHours > 0
+              ? t('strikes.policyLateCancel', { hours: policy.lateCancelHours })
+              : t('strikes.policyNoLateCancel')}
+          </p>
+        )}
+      </div>
+
+      {users.length === 0 ? (
+        <div className="glass rounded-lg border border-slate-200 px-6 py-8 text-center text-slate-500 font-medium">
+          {t('strikes.none')}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {users.map((user) => (
+            <div
+              key={user.id}
+              className="glass rounded-lg border border-slate-200 p-4 space-y-3"
+            >
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <p className="font-semibold text-slate-800">{user.name}</p>
+                  <p className="text-xs text-slate-500">{user.email}</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="px-3 py-1 bg-slate-100 text-slate-600 rounded-md text-xs font-bold border border-slate-200">
+                    {t('strikes.active', { count: user.activeStrikes })}
+                  </span>
+                  {user.bannedUntil && (
+                    <>
+                      <span className="flex items-center gap-1 px-3 py-1 bg-red-50 text-red-700 rounded-md text-xs font-bold border border-red-200">
+                        <AlertTriangleIcon className="w-3.5 h-3.5" />
+                        {t('strikes.bannedUntil', {
+                          time: formatDateTime(user.bannedUntil),
+                        })}
+                      </span>
+                      <button
+                        onClick={() => liftBan(user)}
+                        className="px-3 py-1 text-xs font-bold text-primary hover:text-primary-dark hover:bg-primary/5 rounded-md transition-colors disabled:opacity-50"
+                        disabled={busyId === user.id}
+                      >
+                        {t('strikes.liftBan')}
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              {user.strikes.length > 0 && (
+                <ul className="divide-y divide-slate-100 border border-slate-200 rounded-md bg-white">
+                  {user.strikes.map((strike) => (
+                    <li
+                      key={strike.id}
+                      className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-sm"
+                    >
+                      <div className={strike.forgivenAt ? 'opacity-60' : ''}>
+                        <span className="font-medium text-slate-700">
+                          {t(`strikes.reasons.${strike.reason}`)}
+                        </span>
+                        <span className="text-slate-500">
+                          {' · '}
+                          {strike.roomName
+                            ? `${strike.roomName} ${formatDateTime(strike.bookingStart!)}`
+                            : t('strikes.bookingDeleted')}
+                        </span>
+                        <p className="text-xs text-slate-400">
+                          {strike.forgivenAt
+                            ? t('strikes.forgivenBy', {
+                                name: strike.forgivenByName ?? '',
+                                time: formatDateTime(strike.forgivenAt),
+                              })
+                            : t('strikes.recorded', {
+                                time: formatDateTime(strike.createdAt),
+                              })}
+                        </p>
+                      </div>
+                      {!strike.forgivenAt && (
+                        <button
+                          onClick={() => forgive(strike.id)}
+                          className="px-3 py-1 text-xs font-bold text-slate-600 bg-white border border-slate-200 hover:bg-slate-50 rounded-md transition-colors disabled:opacity-50"
+                          disabled={busyId === strike.id}
+                        >
+                          {t('strikes.forgive')}
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StrikesManager;
@@ -6,16 +6,26 @@ import {
   Room,
   User,
   UserRole,
-  ScheduleException,
+  RoomFreeBusy,
   isGlobalAdminRole,
 } from '../types';
 import { useSettings } from '../contexts/SettingsContext';
+import { getCheckInState } from '../utils/checkIn';
+import { getBufferBands } from '../utils/buffer';
+import {
+  getEffectiveBookingRules,
+  getRuleViolation,
+  snapToRules,
+} from '../utils/bookingRules';
 import {
   getGridBounds,
-  getClosedRanges,
-  isRangeClosed,
   getEffectiveOperatingHours,
 } from '../utils/operatingHours';
+import {
+  describeClosedSpan,
+  getClosedSpans,
+  isRangeFree,
+} from '../utils/freeBusy';
 
 // Fixed height per hour: cells stay comfortable and the grid scrolls
 // vertically instead of compressing to fit the viewport (15-min slot = 14px)
@@ -26,7 +36,8 @@ interface TimelineProps {
   bookings: Booking[];
   room: Room;
   currentUser: User;
-  exceptions?: ScheduleException[];
+  // The room's open, closed and busy time from the server; null while loading
+  freeBusy: RoomFreeBusy | null;
   onRangeSelect: (start: Date, end: Date) => void;
   onBookingClick: (booking: Booking) => void;
   selectedRange?: { start: Date; end: Date } | null;
@@ -44,18 +55,25 @@ const Timeline: React.FC<TimelineProps> = ({
   bookings,
   room,
   currentUser,
-  exceptions = [],
+  freeBusy,
   onRangeSelect,
   onBookingClick,
   selectedRange,
   selectedDate,
 }) => {
   const { t } = useTranslation();
-  const { operatingHours: globalHours } = useSettings();
+  const { settings, operatingHours: globalHours } = useSettings();
+  // The weekly schedule only sizes the grid; what is closed on a given day
+  // comes from freeBusy
   const operatingHours = useMemo(
     () => getEffectiveOperatingHours(room, room.department, globalHours),
     [room, globalHours],
   );
+  const rules = useMemo(
+    () =>
+      getEffectiveBookingRules(room, room.department, settings, currentUser.role),
+    [room, settings, currentUser.role],
+  );
   const { open: boundsOpen, close: boundsClose } = useMemo(
     () => getGridBounds(operatingHours),
     [operatingHours],
@@ -106,22 +124,21 @@ const Timeline: React.FC<TimelineProps> = ({
     });
   }, [bookings, weekStart, room.id]);
 
-  // Check if a range overlaps with existing bookings OR closed hours
-  const checkOverlap = (start: Date, end: Date) => {
-    // Check if time falls outside the schedule (weekly hours + exceptions)
-    if (
-      isRangeClosed(start, end, operatingHours, room.departmentId, exceptions)
-    ) {
-      return true;
-    }
-
-    // Check for booking conflicts
-    return weekBookings.some((b) => {
-      const bStart = new Date(b.startTime);
-      const bEnd = new Date(b.endTime);
-      return start < bEnd && end > bStart;
-    });
-  };
+  // The dragged cells as a range fitted to the room's booking rules. The
+  // current cell is the one under the pointer; the range covers both it and
+  // the cell the drag started from, whichever way the drag went.
+  const getDragRange = (startCell: number, currentCell: number) =>
+    snapToRules(
+      Math.min(startCell, currentCell),
+      Math.max(startCell, currentCell) + 15,
+      rules,
+    );
+
+  // Whether a range is closed or taken (turnover time included), by the
+  // server's reckoning; anything goes until that has loaded, and the server
+  // has the last word on submit
+  const checkOverlap = (start: Date, end: Date) =>
+    !!freeBusy && !isRangeFree(start, end, freeBusy);
 
   // Drag Handlers
   const handleMouseDown = (
@@ -155,8 +172,11 @@ const Timeline: React.FC<TimelineProps> = ({
 
   const handleMouseUp = () => {
     if (isDragging && dragStart && dragCurrent) {
-      const startMin = Math.min(dragStart.minutes, dragCurrent.minutes - 15); // Adjust back because current is end of slot
-      const endMin = Math.max(dragStart.minutes, dragCurrent.minutes - 15) + 15;
+      // Adjust back because current is end of slot
+      const { startMin, endMin } = getDragRange(
+        dragStart.minutes,
+        dragCurrent.minutes - 15,
+      );
 
       // Construct Date objects
       const date = days[dragStart.dayIndex];
@@ -166,8 +186,11 @@ const Timeline: React.FC<TimelineProps> = ({
       const endTime = new Date(date);
       endTime.setHours(gridOpen, endMin, 0, 0);
 
-      // Validate overlap
-      if (!checkOverlap(startTime, endTime)) {
+      // Validate overlap and the rules the drag cannot fix (length, horizon)
+      if (
+        !checkOverlap(startTime, endTime) &&
+        !getRuleViolation(startTime, endTime, rules)
+      ) {
         onRangeSelect(startTime, endTime);
       }
     }
@@ -192,6 +215,19 @@ const Timeline: React.FC<TimelineProps> = ({
     };
   };
 
+  // A turnover band, cut to the grid so one next to opening or closing time
+  // does not spill past it
+  const getBandStyle = (start: Date, end: Date) => {
+    const gridStart = new Date(start);
+    gridStart.setHours(gridOpen, 0, 0, 0);
+    const gridEnd = new Date(start);
+    gridEnd.setHours(gridClose, 0, 0, 0);
+    return getPositionStyle(
+      start < gridStart ? gridStart : start,
+      end > gridEnd ? gridEnd : end,
+    );
+  };
+
   const isSameDay = (a: Date, b: Date) =>
     a.getDate() === b.getDate() &&
     a.getMonth() === b.getMonth() &&
@@ -320,14 +356,13 @@ const Timeline: React.FC<TimelineProps> = ({
                 isDragging && dragStart?.dayIndex === dayIndex;
               let dragStyle = {};
               let isDragValid = true;
+              let breaksRules = false;
 
               if (isDragColumn && dragStart && dragCurrent) {
-                const startMin = Math.min(
+                const { startMin, endMin } = getDragRange(
                   dragStart.minutes,
                   dragCurrent.minutes - 15,
                 );
-                const endMin =
-                  Math.max(dragStart.minutes, dragCurrent.minutes - 15) + 15;
 
                 const s = new Date(day);
                 s.setHours(gridOpen, startMin, 0, 0);
@@ -335,7 +370,8 @@ const Timeline: React.FC<TimelineProps> = ({
                 e.setHours(gridOpen, endMin, 0, 0);
 
                 dragStyle = getPositionStyle(s, e);
-                isDragValid = !checkOverlap(s, e);
+                breaksRules = !!getRuleViolation(s, e, rules);
+                isDragValid = !checkOverlap(s, e) && !breaksRules;
               }
 
               // Check if this day is the Selected Range (persisted)
@@ -352,17 +388,13 @@ const Timeline: React.FC<TimelineProps> = ({
                 }
               }
 
-              // Closed overlays from the weekly schedule and date exceptions
+              // Closed overlays: hours, closures and the semester, as the
+              // server works them out
               const totalGridMinutes = (gridClose - gridOpen) * 60;
-              const closedOverlays = getClosedRanges(
-                day,
-                operatingHours,
-                gridOpen,
-                gridClose,
-                room.departmentId,
-                exceptions,
+              const closedOverlays = (
+                freeBusy ? getClosedSpans(day, freeBusy, gridOpen, gridClose) : []
               ).map((r) => ({
-                label: r.label,
+                label: describeClosedSpan(r, t),
                 style: {
                   top: `${(((r.startHour - gridOpen) * 60) / totalGridMinutes) * 100}%`,
                   height: `${(((r.endHour - r.startHour) * 60) / totalGridMinutes) * 100}%`,
@@ -447,7 +479,9 @@ const Timeline: React.FC<TimelineProps> = ({
                                 d="M6 18L18 6M6 6l12 12"
                               />
                             </svg>
-                            {t('common.conflict')}
+                            {breaksRules
+                              ? t('bookingRules.notAllowed')
+                              : t('common.conflict')}
                           </>
                         )}
                       </div>
@@ -479,6 +513,28 @@ const Timeline: React.FC<TimelineProps> = ({
                     </div>
                   )}
 
+                  {/* Turnover buffers around existing events */}
+                  {dayEvents.flatMap((b) =>
+                    getBufferBands(
+                      new Date(b.startTime),
+                      new Date(b.endTime),
+                      room.bufferMinutes ?? 0,
+                    ).map((band, i) => (
+                      <div
+                        key={`${b.id}-buffer-${i}`}
+                        className="absolute z-10 rounded-sm bg-hatched opacity-70"
+                        style={{
+                          ...getBandStyle(band.start, band.end),
+                          left: '4px',
+                          right: '4px',
+                        }}
+                        title={t('calendar.turnover', {
+                          count: room.bufferMinutes,
+                        })}
+                      />
+                    )),
+                  )}
+
                   {/* Existing Events */}
                   {dayEvents.map((b) => {
                     const style = getPositionStyle(
@@ -495,6 +551,7 @@ const Timeline: React.FC<TimelineProps> = ({
                         ));
                     const canView = isOwner || canViewAll;
                     const isPending = b.status === 'PENDING';
+                    const checkIn = getCheckInState(b);
 
                     return (
                       <div
@@ -541,6 +598,16 @@ const Timeline: React.FC<TimelineProps> = ({
                             {t('common.pending')}
                           </div>
                         )}
+                        {checkIn === 'CHECKED_IN' && (
+                          <div className="text-[9px] font-bold uppercase tracking-wide text-green-700">
+                            {t('checkIn.checkedIn')}
+                          </div>
+                        )}
+                        {checkIn === 'OPEN' && (
+                          <div className="text-[9px] font-bold uppercase tracking-wide opacity-90">
+                            {t('checkIn.awaiting')}
+                          </div>
+                        )}
                       </div>
                     );
                   })}
@@ -567,9 +634,7 @@ const Timeline: React.FC<TimelineProps> = ({
                           />
                         </svg>
                         <span>
-                          {overlay.label
-                            ? t('common.closedFor', { name: overlay.label })
-                            : t('common.closed')}
+                          {overlay.label}
                         </span>
                       </div>
                     </div>
@@ -0,0 +1,159 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { dateLocale } from '../i18n';
+import { WaitlistEntry } from '../types';
+import { api } from '../services/api';
+import { useToast } from '../contexts/ToastContext';
+import LoadingSpinner from './LoadingSpinner';
+
+// Offers are time-limited, so look for them more often than the page polls
+// anything else that could wait
+const REFRESH_MS = 15000;
+
+// The user's place in the queue for slots that were taken when they asked.
+// Only entries still in play are listed: waiting ones, and freed slots held
+// for the user to claim.
+const WaitlistPanel: React.FC = () => {
+  const { t } = useTranslation();
+  const toast = useToast();
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setEntries(await api.getMyWaitlist());
+    } catch (err) {
+      console.error('Error fetching waitlist:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const now = new Date();
+  const active = entries.filter(
+    (e) =>
+      (e.status === 'WAITING' || e.status === 'OFFERED') &&
+      new Date(e.startTime) > now,
+  );
+
+  if (active.length === 0) return null;
+
+  const handleClaim = async (entry: WaitlistEntry) => {
+    setBusyId(entry.id);
+    try {
+      const booking = await api.claimWaitlistOffer(entry.id);
+      toast.success(
+        booking.status === 'PENDING'
+          ? t('waitlist.claimedPending', { room: entry.roomName })
+          : t('waitlist.claimed', { room: entry.roomName }),
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('waitlist.claimFailed'));
+    } finally {
+      setBusyId(null);
+      load();
+    }
+  };
+
+  const handleLeave = async (entry: WaitlistEntry) => {
+    setBusyId(entry.id);
+    try {
+      await api.leaveWaitlist(entry.id);
+      toast.success(t('waitlist.left'));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : t('waitlist.leaveFailed'));
+    } finally {
+      setBusyId(null);
+      load();
+    }
+  };
+
+  const formatTime = (iso: string) =>
+    new Date(iso).toLocaleTimeString(dateLocale(), {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  return (
+    <div className="glass rounded-lg border border-slate-200 p-5 animate-slide-up">
+      <div className="mb-3">
+        <h3 className="text-lg font-bold text-slate-800">
+          {t('waitlist.title')}
+        </h3>
+        <p className="text-xs text-slate-500 font-medium">
+          {t('waitlist.subtitle')}
+        </p>
+      </div>
+      <ul className="divide-y divide-slate-100">
+        {active.map((entry) => {
+          const offered = entry.status === 'OFFERED';
+          const busy = busyId === entry.id;
+          return (
+            <li
+              key={entry.id}
+              className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-slate-800">
+                    {entry.roomName}
+                  </span>
+                  <span
+                    className={`px-2 py-0.5 rounded-lg text-xs font-bold ${
+                      offered
+                        ? 'bg-green-50 border border-green-200 text-green-700'
+                        : 'bg-slate-50 border border-slate-200 text-slate-600'
+                    }`}
+                  >
+                    {t(`waitlist.status.${entry.status}`)}
+                  </span>
+                </div>
+                <div className="text-sm text-slate-600">
+                  {new Date(entry.startTime).toLocaleDateString(dateLocale(), {
+                    weekday: 'short',
+                    month: 'short',
+                    day: 'numeric',
+                  })}
+                  {' • '}
+                  {formatTime(entry.startTime)} - {formatTime(entry.endTime)}
+                </div>
+                {offered && entry.offerExpiresAt && (
+                  <div className="text-xs font-medium text-green-700 mt-1">
+                    {t('waitlist.offerHeldUntil', {
+                      time: formatTime(entry.offerExpiresAt),
+                    })}
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-2 shrink-0">
+                {offered && (
+                  <button
+                    onClick={() => handleClaim(entry)}
+                    disabled={busy}
+                    className="px-3 py-1.5 text-sm font-bold text-white bg-primary hover:bg-primary-light rounded-md shadow-sm disabled:opacity-50 transition-colors flex items-center gap-2"
+                  >
+                    {busy && <LoadingSpinner size="sm" color="white" />}
+                    {t('waitlist.claim')}
+                  </button>
+                )}
+                <button
+                  onClick={() => handleLeave(entry)}
+                  disabled={busy}
+                  className="px-3 py-1.5 text-sm font-bold text-red-600 bg-red-50 hover:bg-red-500 hover:text-white border border-red-200 hover:border-red-500 rounded-md disabled:opacity-50 transition-colors"
+                >
+                  {offered ? t('waitlist.decline') : t('waitlist.leave')}
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default WaitlistPanel;
@@ -6,14 +6,21 @@ import React, {
   ReactNode,
   useMemo,
 } from 'react';
-import { ServiceSettings, OperatingHours } from '../types';
+import {
+  ServiceSettings,
+  OperatingHours,
+  PolicyImpactResolution,
+} from '../types';
 import { api } from '../services/api';
+import { subscribeLiveEvents } from '../services/liveUpdates';
 import { parseOperatingHours } from '../utils/operatingHours';
 
 interface SettingsContextType {
   settings: ServiceSettings | null;
   operatingHours: OperatingHours;
-  updateSettings: (newSettings: Partial<ServiceSettings>) => Promise<void>;
+  updateSettings: (
+    newSettings: Partial<ServiceSettings> & PolicyImpactResolution,
+  ) => Promise<void>;
   loading: boolean;
   error: string | null;
 }
@@ -64,7 +71,9 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({
     }
   };
 
-  const updateSettings = async (newSettings: Partial<ServiceSettings>) => {
+  const updateSettings = async (
+    newSettings: Partial<ServiceSettings> & PolicyImpactResolution,
+  ) => {
     try {
       const updated = await api.updateSettings(newSettings);
       setSettings(updated);
@@ -78,6 +87,19 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({
     fetchSettings();
   }, []);
 
+  // A change saved elsewhere arrives over the live stream; reload quietly
+  useEffect(
+    () =>
+      subscribeLiveEvents((event) => {
+        if (event.type !== 'settings') return;
+        api
+          .getSettings()
+          .then(setSettings)
+          .catch((err) => console.error('Error fetching settings:', err));
+      }),
+    [],
+  );
+
   const operatingHours = useMemo(
     () => parseOperatingHours(settings?.operatingHours),
     [settings?.operatingHours],
@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { Booking, BookingQuery } from '../types';
+import { api } from '../services/api';
+import { LiveEvent, subscribeLiveEvents } from '../services/liveUpdates';
+
+const NONE: Booking[] = [];
+
+// Whether a booking belongs in the results of `query`, by the same rules the
+// server filters on. Bookings do not say their department, so a query by
+// department cannot be answered here.
+const matchesQuery = (booking: Booking, query: BookingQuery): boolean =>
+  (!query.from || new Date(booking.endTime) > query.from) &&
+  (!query.to || new Date(booking.startTime) < query.to) &&
+  (!query.roomId || booking.roomId === query.roomId) &&
+  (!query.status || query.status.includes(booking.status)) &&
+  (!query.userId || booking.userId === query.userId);
+
+// `current` with a live booking change applied: changed bookings replace their
+// old copies or join in date order when they now match, and leave when they
+// no longer do
+const applyBookingChange = (
+  current: Booking[],
+  event: Extract<LiveEvent, { type: 'booking' }>,
+  query: BookingQuery,
+): Booking[] => {
+  const changedIds = new Set(
+    event.change === 'deleted'
+      ? event.bookingIds
+      : event.bookings.map((b) => b.id),
+  );
+  const kept = current.filter((b) => !changedIds.has(b.id));
+  if (event.change === 'deleted') return kept;
+  const sign = query.order === 'desc' ? -1 : 1;
+  return [...kept, ...event.bookings.filter((b) => matchesQuery(b, query))].sort(
+    (a, b) =>
+      sign *
+      (a.startTime.localeCompare(b.startTime) || a.id.localeCompare(b.id)),
+  );
+};
+
+// The bookings a view displays: every page matching `query`, fetched again
+// whenever `refreshKey` changes (App bumps it after anything it changes, and
+// every 5 seconds while the live stream is down). Changes pushed over the
+// stream are applied in place. A null query fetches nothing, for views still
+// waiting on what to show. Switching to a different query drops the old
+// results at once rather than showing another week's or room's bookings until
+// the new ones arrive.
+export const useBookings = (
+  query: BookingQuery | null,
+  refreshKey: number,
+): { bookings: Booking[]; loading: boolean } => {
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [refetches, setRefetches] = useState(0);
+  const key = query ? JSON.stringify(query) : null;
+
+  useEffect(() => {
+    if (!query) {
+      setBookings([]);
+      setLoadedKey(null);
+      return;
+    }
+    let stale = false;
+    api
+      .getAllBookings(query)
+      .then((loaded) => {
+        if (stale) return;
+        setBookings(loaded);
+        setLoadedKey(key);
+      })
+      .catch((error) => console.error('Failed to load bookings:', error));
+    return () => {
+      stale = true;
+    };
+  }, [key, refreshKey, refetches]);
+
+  useEffect(() => {
+    if (!query) return;
+    return subscribeLiveEvents((event) => {
+      if (event.type !== 'booking') return;
+      if (query.departmentId) setRefetches((n) => n + 1);
+      else setBookings((current) => applyBookingChange(current, event, query));
+    });
+  }, [key]);
+
+  return {
+    bookings: loadedKey === key ? bookings : NONE,
+    loading: !!key && loadedKey !== key,
+  };
+};
+
+// Same ceiling the server puts on one page
+const MAX_PAGE_SIZE = 500;
+
+// A list that grows a page at a time, for views that show bookings without a
+// natural window: the first `pageSize` bookings matching `query`, plus every
+// page loadMore has asked for since. A refresh, or any booking change pushed
+// over the live stream, reloads all of them, so nothing on screen goes missing
+// at a page boundary.
+export const useBookingPages = (
+  query: Omit<BookingQuery, 'cursor' | 'limit'> | null,
+  refreshKey: number,
+  pageSize: number,
+): {
+  bookings: Booking[];
+  loading: boolean;
+  hasMore: boolean;
+  loadMore: () => void;
+} => {
+  const key = query ? JSON.stringify(query) : null;
+  const [wanted, setWanted] = useState({ key, count: pageSize });
+  const count = wanted.key === key ? wanted.count : pageSize;
+  const [refetches, setRefetches] = useState(0);
+  const [loaded, setLoaded] = useState<{
+    key: string | null;
+    count: number;
+    bookings: Booking[];
+    hasMore: boolean;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!query) {
+      setLoaded(null);
+      return;
+    }
+    let stale = false;
+    (async () => {
+      const all: Booking[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await api.getBookings({
+          ...query,
+          cursor,
+          limit: Math.min(count - all.length, MAX_PAGE_SIZE),
+        });
+        all.push(...page.bookings);
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor && all.length < count);
+      if (!stale) setLoaded({ key, count, bookings: all, hasMore: !!cursor });
+    })().catch((error) => console.error('Failed to load bookings:', error));
+    return () => {
+      stale = true;
+    };
+  }, [key, count, refreshKey, refetches]);
+
+  useEffect(() => {
+    if (!query) return;
+    return subscribeLiveEvents((event) => {
+      if (event.type === 'booking') setRefetches((n) => n + 1);
+    });
+  }, [key]);
+
+  const current = loaded && loaded.key === key ? loaded : null;
+  return {
+    bookings: current ? current.bookings : NONE,
+    loading: !!key && (!current || current.count !== count),
+    hasMore: !!current?.hasMore,
+    loadMore: () => setWanted({ key, count: count + pageSize }),
+  };
+};
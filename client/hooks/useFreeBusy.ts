@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { FreeBusyQuery, RoomFreeBusy } from '../types';
+import { api } from '../services/api';
+import { subscribeLiveEvents } from '../services/liveUpdates';
+
+// The open, closed and busy time of the rooms a view shows, from the server,
+// fetched again whenever `refreshKey` changes and whenever the live stream
+// says a booking, room, closure or setting changed. Null until the first
+// answer for the current query arrives, and for a null query.
+export const useFreeBusy = (
+  query: FreeBusyQuery | null,
+  refreshKey: number,
+): RoomFreeBusy[] | null => {
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    rooms: RoomFreeBusy[];
+  } | null>(null);
+  const [refetches, setRefetches] = useState(0);
+  const key = query ? JSON.stringify(query) : null;
+
+  useEffect(() => {
+    if (!query || !key) {
+      setLoaded(null);
+      return;
+    }
+    let stale = false;
+    api
+      .getFreeBusy(query)
+      .then((rooms) => {
+        if (!stale) setLoaded({ key, rooms });
+      })
+      .catch((error) => console.error('Failed to load free/busy:', error));
+    return () => {
+      stale = true;
+    };
+  }, [key, refreshKey, refetches]);
+
+  useEffect(() => {
+    if (!query) return;
+    return subscribeLiveEvents(() => setRefetches((n) => n + 1));
+  }, [key]);
+
+  return loaded && loaded.key === key ? loaded.rooms : null;
+};
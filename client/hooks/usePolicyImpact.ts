@@ -0,0 +1,50 @@
+import { useState } from 'react';
+import { PolicyAffectedBooking, PolicyImpactResolution } from '../types';
+
+// What the editor chose to do about the bookings an edit would break
+export type PolicyImpactChoice = 'KEEP' | 'NOTIFY' | 'CANCEL';
+
+// The review step between an hours or capacity edit and its save. `check`
+// asks the server what the edit would break; the first time it breaks
+// something the list is held for the editor and the save waits. Saving the
+// same edit again goes ahead, with the fields that act on the editor's choice.
+// Any other edit is checked afresh.
+export const usePolicyImpact = () => {
+  const [review, setReview] = useState<{
+    key: string;
+    bookings: PolicyAffectedBooking[];
+  } | null>(null);
+  const [choice, setChoice] = useState<PolicyImpactChoice>('NOTIFY');
+
+  // Resolves to the fields to add to the save, or null to hold it for review
+  const check = async (
+    edit: object,
+    preview: () => Promise<{ affectedBookings: PolicyAffectedBooking[] }>,
+  ): Promise<PolicyImpactResolution | null> => {
+    const key = JSON.stringify(edit);
+    if (review && review.key === key) {
+      return choice === 'KEEP'
+        ? {}
+        : {
+            impactAction: choice,
+            impactBookingIds: review.bookings.map((b) => b.id),
+          };
+    }
+    const { affectedBookings } = await preview();
+    if (affectedBookings.length === 0) {
+      setReview(null);
+      return {};
+    }
+    setReview({ key, bookings: affectedBookings });
+    setChoice('NOTIFY');
+    return null;
+  };
+
+  return {
+    bookings: review?.bookings ?? null,
+    choice,
+    setChoice,
+    check,
+    reset: () => setReview(null),
+  };
+};
@@ -1,11 +1,11 @@
 import React from 'react';
 import AdminDashboard from '../components/AdminDashboard';
-import { User, Room, Booking } from '../types';
+import { User, Room } from '../types';
 
 interface AdminPageProps {
   user: User;
   rooms: Room[];
-  bookings: Booking[];
+  refreshKey: number;
   onExportCSV: () => void;
   onCancelBooking: (id: string) => void;
   onRefresh: () => void;
@@ -14,7 +14,7 @@ interface AdminPageProps {
 const AdminPage: React.FC<AdminPageProps> = ({
   user,
   rooms,
-  bookings,
+  refreshKey,
   onExportCSV,
   onCancelBooking,
   onRefresh,
@@ -22,7 +22,7 @@ const AdminPage: React.FC<AdminPageProps> = ({
   return (
     <AdminDashboard
       currentUser={user}
-      bookings={bookings}
+      refreshKey={refreshKey}
       rooms={rooms}
       onExportCSV={onExportCSV}
       onCancelBooking={onCancelBooking}
@@ -10,34 +10,43 @@ import MiniCalendar from '../components/MiniCalendar';
 import BookingForm from '../components/BookingForm';
 import BookingDetails from '../components/BookingDetails';
 import RoomDetailsModal from '../components/RoomDetailsModal';
+import RoomFinder from '../components/RoomFinder';
 import {
   User,
   Room,
   Booking,
+  BookingStatus,
   Department,
-  ScheduleException,
 } from '../types';
 import { api } from '../services/api';
+import { useBookings } from '../hooks/useBookings';
+import { useFreeBusy } from '../hooks/useFreeBusy';
 import { useSettings } from '../contexts/SettingsContext';
 import {
-  getEffectiveOperatingHours,
-  isRangeClosed,
-} from '../utils/operatingHours';
+  getEffectiveBookingRules,
+  getRuleViolation,
+  snapToRules,
+} from '../utils/bookingRules';
+import { isRangeFree } from '../utils/freeBusy';
 
 interface HomePageProps {
   user: User;
   rooms: Room[];
-  bookings: Booking[];
+  refreshKey: number;
   onRefresh: () => void;
   onCancelBooking: (id: string) => void;
+  onEditBooking: (id: string) => void;
+  onCheckIn: (id: string) => void;
 }
 
 const HomePage: React.FC<HomePageProps> = ({
   user,
   rooms,
-  bookings,
+  refreshKey,
   onRefresh,
   onCancelBooking,
+  onEditBooking,
+  onCheckIn,
 }) => {
   const { t } = useTranslation();
   const [currentDate, setCurrentDate] = useState(new Date());
@@ -114,18 +123,10 @@ const HomePage: React.FC<HomePageProps> = ({
     end: Date;
   } | null>(null);
   const [detailsRoom, setDetailsRoom] = useState<Room | null>(null);
+  const [showFinder, setShowFinder] = useState(false);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
-  const { operatingHours: globalHours } = useSettings();
+  const { settings } = useSettings();
   const [searchParams, setSearchParams] = useSearchParams();
-  const [exceptions, setExceptions] = useState<ScheduleException[]>([]);
-
-  // Closures/special hours change rarely; one fetch per page load is enough
-  useEffect(() => {
-    api
-      .getScheduleExceptions()
-      .then(setExceptions)
-      .catch(() => {});
-  }, []);
 
   // Global search navigates here with ?room=<id> to select a room
   useEffect(() => {
@@ -138,33 +139,58 @@ const HomePage: React.FC<HomePageProps> = ({
     }
   }, [searchParams, rooms, setSearchParams]);
 
+  // Show a room on the day of [start, end) with the booking form open for it,
+  // for a room picked from the finder or a suggestion in another room (month
+  // view has no form, so go to day)
+  const openBookingFormAt = (room: Room, start: Date, end: Date) => {
+    if (selectedDeptId !== 'all' && room.departmentId !== selectedDeptId) {
+      setSelectedDeptId('all');
+    }
+    setSelectedRoomId(room.id);
+    setSelectedBooking(null);
+    setSelectedRange({ start, end });
+    setCurrentDate(start);
+    if (calendarView === 'month') setCalendarView('day');
+  };
+
+  const handleFinderPick = (room: Room, start: Date, end: Date) => {
+    setShowFinder(false);
+    openBookingFormAt(room, start, end);
+  };
+
   // Open the booking form pre-filled with the next FREE one-hour slot:
-  // within the room's operating hours and clear of existing bookings.
-  const handleNewBooking = () => {
+  // open by the server's free/busy, within the room's booking rules, and
+  // clear of existing bookings and their turnover time. Rooms that do not
+  // allow an hour get the nearest length they do.
+  const handleNewBooking = async () => {
     if (!activeRoom) return;
-    const hours = getEffectiveOperatingHours(activeRoom, activeRoom.department, globalHours);
-    const roomBookings = bookings.filter(
-      (b) =>
-        b.roomId === activeRoom.id &&
-        (b.status === 'CONFIRMED' || b.status === 'PENDING'),
+    const rules = getEffectiveBookingRules(
+      activeRoom,
+      activeRoom.department,
+      settings,
+      user.role,
     );
-    const overlaps = (s: Date, e: Date) =>
-      roomBookings.some(
-        (b) => s < new Date(b.endTime) && e > new Date(b.startTime),
-      );
+    // The calendar only holds the window on screen; the scan needs its own
+    const scanEnd = new Date();
+    scanEnd.setDate(scanEnd.getDate() + 15);
+    const [roomFreeBusy] = await api
+      .getFreeBusy({ from: new Date(), to: scanEnd, roomIds: [activeRoom.id] })
+      .catch(() => []);
 
-    const DURATION_MS = 60 * 60000;
+    const DURATION_MS =
+      Math.min(snapToRules(0, 60, rules).endMin, rules.maxDurationMinutes) *
+      60000;
+    const step = Math.max(30, rules.slotMinutes);
     const first = new Date();
-    first.setMinutes(first.getMinutes() + (30 - (first.getMinutes() % 30)), 0, 0);
+    first.setMinutes(first.getMinutes() + (step - (first.getMinutes() % step)), 0, 0);
 
-    // Scan forward in 30-minute steps, up to 14 days out
-    for (let i = 0; i < 14 * 48; i++) {
-      const s = new Date(first.getTime() + i * 30 * 60000);
+    // Scan forward in 30-minute (or slot-length) steps, up to 14 days out
+    for (let i = 0; i < (14 * 24 * 60) / step; i++) {
+      const s = new Date(first.getTime() + i * step * 60000);
       const e = new Date(s.getTime() + DURATION_MS);
       if (s.toDateString() !== e.toDateString()) continue; // stay within one day
-      if (isRangeClosed(s, e, hours, activeRoom.departmentId, exceptions))
-        continue;
-      if (overlaps(s, e)) continue;
+      if (getRuleViolation(s, e, rules)) continue;
+      if (roomFreeBusy && !isRangeFree(s, e, roomFreeBusy)) continue;
       setSelectedBooking(null);
       setSelectedRange({ start: s, end: e });
       setCurrentDate(new Date(s)); // bring the found day into view
@@ -216,6 +242,43 @@ const HomePage: React.FC<HomePageProps> = ({
 
   const activeRoom = rooms.find((r) => r.id === selectedRoomId);
   const weekStart = getStartOfWeek(currentDate);
+
+  // Only the bookings the current view shows: its day, its week, or its
+  // month with a week either side for the days the month grid shows around it
+  const windowStart = new Date(currentDate);
+  const windowEnd = new Date(currentDate);
+  if (calendarView === 'day') {
+    windowStart.setHours(0, 0, 0, 0);
+    windowEnd.setHours(24, 0, 0, 0);
+  } else if (calendarView === 'week') {
+    windowStart.setTime(weekStart.getTime());
+    windowEnd.setTime(weekStart.getTime());
+    windowEnd.setDate(windowEnd.getDate() + 7);
+  } else {
+    windowStart.setHours(0, 0, 0, 0);
+    windowStart.setDate(1 - 7);
+    windowEnd.setHours(0, 0, 0, 0);
+    windowEnd.setMonth(windowEnd.getMonth() + 1, 1 + 7);
+  }
+  const { bookings } = useBookings(
+    activeRoom
+      ? {
+          roomId: activeRoom.id,
+          from: windowStart,
+          to: windowEnd,
+          status: [BookingStatus.CONFIRMED, BookingStatus.PENDING],
+        }
+      : null,
+    refreshKey,
+  );
+  // Open, closed and busy time for the day and week grids to draw
+  const freeBusy = useFreeBusy(
+    activeRoom && calendarView !== 'month'
+      ? { from: windowStart, to: windowEnd, roomIds: [activeRoom.id] }
+      : null,
+    refreshKey,
+  );
+  const roomFreeBusy = freeBusy?.[0] ?? null;
   const showSidePanel = selectedRange || selectedBooking;
 
   const viewLabel = t(`calendar.${calendarView}`);
@@ -324,27 +387,35 @@ const HomePage: React.FC<HomePageProps> = ({
 
       {/* Mobile-only room browsing (desktop uses the sidebar) */}
       <div className="lg:hidden space-y-2">
-        <div className="relative">
-          <svg
-            className="w-4 h-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <svg
+              className="w-4 h-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+              />
+            </svg>
+            <input
+              type="text"
+              value={roomSearch}
+              onChange={(e) => setRoomSearch(e.target.value)}
+              placeholder={t('calendar.searchRooms')}
+              className="w-full pl-8 pr-3 py-1.5 text-sm bg-white border border-slate-200 rounded-md focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary"
             />
-          </svg>
-          <input
-            type="text"
-            value={roomSearch}
-            onChange={(e) => setRoomSearch(e.target.value)}
-            placeholder={t('calendar.searchRooms')}
-            className="w-full pl-8 pr-3 py-1.5 text-sm bg-white border border-slate-200 rounded-md focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary"
-          />
+          </div>
+          <button
+            onClick={() => setShowFinder(true)}
+            className="px-3 py-1.5 text-xs font-bold text-slate-600 bg-white border border-slate-200 hover:border-primary/40 hover:text-primary rounded-md whitespace-nowrap transition-colors"
+          >
+            {t('calendar.findRoom')}
+          </button>
         </div>
         {/* Department Filter (only when departments are in use) */}
         {departments.length > 0 && (
@@ -468,6 +539,25 @@ const HomePage: React.FC<HomePageProps> = ({
               </svg>
               {t('common.newBooking')}
             </button>
+            <button
+              onClick={() => setShowFinder(true)}
+              className="mt-2 w-full py-2 px-4 bg-white border border-slate-200 hover:border-primary/40 hover:text-primary text-slate-600 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-colors"
+            >
+              <svg
+                className="w-4 h-4"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+                />
+              </svg>
+              {t('calendar.findRoom')}
+            </button>
           </div>
           <div className="px-3 pb-3 border-b border-slate-200">
             <MiniCalendar
@@ -610,7 +700,7 @@ const HomePage: React.FC<HomePageProps> = ({
                   bookings={bookings}
                   room={activeRoom}
                   currentUser={user}
-                  exceptions={exceptions}
+                  freeBusy={roomFreeBusy}
                   onRangeSelect={handleRangeSelect}
                   onBookingClick={handleBookingClick}
                   selectedRange={selectedRange}
@@ -623,7 +713,7 @@ const HomePage: React.FC<HomePageProps> = ({
                   bookings={bookings}
                   room={activeRoom}
                   currentUser={user}
-                  exceptions={exceptions}
+                  freeBusy={roomFreeBusy}
                   onRangeSelect={handleRangeSelect}
                   onBookingClick={handleBookingClick}
                   selectedRange={selectedRange}
@@ -655,10 +745,16 @@ const HomePage: React.FC<HomePageProps> = ({
               {selectedRange && (
                 <BookingForm
                   selectedRoom={activeRoom}
+                  rooms={rooms}
+                  currentUser={user}
                   startTime={selectedRange.start}
                   endTime={selectedRange.end}
                   onSuccess={handleBookingSuccess}
                   onCancel={() => setSelectedRange(null)}
+                  onSwitchRoom={(roomId, start, end) => {
+                    const room = rooms.find((r) => r.id === roomId);
+                    if (room) openBookingFormAt(room, start, end);
+                  }}
                 />
               )}
 
@@ -668,6 +764,8 @@ const HomePage: React.FC<HomePageProps> = ({
                   room={activeRoom}
                   currentUser={user}
                   onCancelBooking={onCancelBooking}
+                  onEditBooking={onEditBooking}
+                  onCheckIn={onCheckIn}
                   onClose={() => setSelectedBooking(null)}
                 />
               )}
@@ -703,6 +801,14 @@ const HomePage: React.FC<HomePageProps> = ({
         </svg>
       </button>
 
+      {showFinder && (
+        <RoomFinder
+          rooms={rooms}
+          onPick={handleFinderPick}
+          onClose={() => setShowFinder(false)}
+        />
+      )}
+
       {/* Read-only Room Details */}
       {detailsRoom && (
         <RoomDetailsModal
@@ -2,16 +2,22 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { dateLocale } from '../i18n';
-import { User, Room, Booking } from '../types';
-import { TrashIcon } from '../components/Icons';
+import { User, Room } from '../types';
+import { TrashIcon, PencilIcon, CheckCircleIcon } from '../components/Icons';
+import { getCheckInState } from '../utils/checkIn';
+import WaitlistPanel from '../components/WaitlistPanel';
+import ProposalResponse from '../components/ProposalResponse';
+import { useBookings } from '../hooks/useBookings';
 
 type TabType = 'upcoming' | 'past' | 'cancelled';
 
 interface MyBookingsPageProps {
   user: User;
   rooms: Room[];
-  bookings: Booking[];
+  refreshKey: number;
   onCancelBooking: (id: string) => void;
+  onEditBooking: (id: string) => void;
+  onCheckIn: (id: string) => void;
 }
 
 const ITEMS_PER_PAGE = 5;
@@ -19,8 +25,10 @@ const ITEMS_PER_PAGE = 5;
 const MyBookingsPage: React.FC<MyBookingsPageProps> = ({
   user,
   rooms,
-  bookings,
+  refreshKey,
   onCancelBooking,
+  onEditBooking,
+  onCheckIn,
 }) => {
   const { t } = useTranslation();
   const [activeTab, setActiveTab] = useState<TabType>('upcoming');
@@ -28,7 +36,9 @@ const MyBookingsPage: React.FC<MyBookingsPageProps> = ({
   const [searchParams, setSearchParams] = useSearchParams();
   const [flashId, setFlashId] = useState<string | null>(null);
 
-  const myBookings = bookings.filter((b) => b.userId === user.id);
+  // Every tab and count on this page is about the user's own bookings, so
+  // that is all it asks the server for
+  const { bookings: myBookings } = useBookings({ userId: user.id }, refreshKey);
 
   // Categorize bookings
   const categorizedBookings = useMemo(() => {
@@ -37,18 +47,22 @@ const MyBookingsPage: React.FC<MyBookingsPageProps> = ({
       upcoming: myBookings
         .filter(
           (b) =>
-            (b.status === 'CONFIRMED' || b.status === 'PENDING') &&
-            new Date(b.endTime) > now,
+            ((b.status === 'CONFIRMED' || b.status === 'PENDING') &&
+              new Date(b.endTime) > now) ||
+            // Still open to another slot offered, even once the one asked for passed
+            (b.status === 'PENDING' && !!b.proposal),
         )
         .sort(
           (a, b) =>
             new Date(a.startTime).getTime() - new Date(b.startTime).getTime(),
         ),
+      // A no-show is released before its end, but it is history all the same
       past: myBookings
         .filter(
           (b) =>
-            (b.status === 'CONFIRMED' || b.status === 'COMPLETED') &&
-            new Date(b.endTime) <= now,
+            b.status === 'NO_SHOW' ||
+            ((b.status === 'CONFIRMED' || b.status === 'COMPLETED') &&
+              new Date(b.endTime) <= now),
         )
         .sort(
           (a, b) =>
@@ -76,10 +90,12 @@ const MyBookingsPage: React.FC<MyBookingsPageProps> = ({
     setCurrentPage(1);
   };
 
-  // Global search navigates here with ?highlight=<id>: open the right
-  // tab/page, scroll to the booking and flash it briefly.
+  // Global search navigates here with ?highlight=<id>, and the email about
+  // another slot offered with ?proposal=<id>: open the right tab/page, scroll
+  // to the booking and flash it briefly.
   useEffect(() => {
-    const highlightId = searchParams.get('highlight');
+    const highlightId =
+      searchParams.get('highlight') ?? searchParams.get('proposal');
     if (!highlightId) return;
     const b = myBookings.find((x) => x.id === highlightId);
     if (!b) return; // bookings may not be loaded yet; retry on next poll
@@ -87,7 +103,7 @@ const MyBookingsPage: React.FC<MyBookingsPageProps> = ({
     const tab: TabType =
       b.status === 'CANCELLED'
         ? 'cancelled'
-        : new Date(b.endTime) <= new Date()
+        : new Date(b.endTime) <= new Date() && !b.proposal
           ? 'past'
           : 'upcoming';
     setActiveTab(tab);
@@ -145,6 +161,8 @@ const MyBookingsPage: React.FC<MyBookingsPageProps> = ({
         )}
       </div>
 
+      <WaitlistPanel />
+
       {/* Tabs */}
       {myBookings.length > 0 && (
         <div className="border-b border-slate-200 overflow-x-auto scrollbar-hide">
@@ -245,6 +263,7 @@ const MyBookingsPage: React.FC<MyBookingsPageProps> = ({
                 (b.status === 'CONFIRMED' || b.status === 'PENDING') &&
                 !hasEnded;
               const room = rooms.find((r) => r.id === b.roomId);
+              const checkIn = getCheckInState(b);
 
               return (
                 <div
@@ -287,7 +306,8 @@ const MyBookingsPage: React.FC<MyBookingsPageProps> = ({
                                     ? 'bg-green-50 border border-green-200 text-green-700'
                                     : b.status === 'PENDING'
                                       ? 'bg-amber-50 border border-amber-200 text-amber-700'
-                                      : b.status === 'CANCELLED'
+                                      : b.status === 'CANCELLED' ||
+                                          b.status === 'NO_SHOW'
                                         ? 'bg-red-50 border border-red-200 text-red-700'
                                         : 'bg-slate-50 border border-slate-200 text-slate-700'
                                 }`}
@@ -302,6 +322,11 @@ const MyBookingsPage: React.FC<MyBookingsPageProps> = ({
                                     {t('myBookings.active')}
                                   </span>
                                 )}
+                              {checkIn === 'CHECKED_IN' && (
+                                <span className="px-2 py-1 bg-green-50 border border-green-200 rounded-lg text-xs font-bold text-green-700">
+                                  {t('checkIn.checkedIn')}
+                                </span>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -367,7 +392,29 @@ const MyBookingsPage: React.FC<MyBookingsPageProps> = ({
                               </span>
                             </div>
                           )}
-                          {b.status === 'CANCELLED' && b.cancellationReason && (
+                          {(checkIn === 'UPCOMING' || checkIn === 'OPEN') && (
+                            <div className="text-xs font-medium text-amber-700">
+                              {checkIn === 'UPCOMING'
+                                ? t('checkIn.opensAt', {
+                                    time: new Date(
+                                      b.checkInOpensAt!,
+                                    ).toLocaleTimeString(dateLocale(), {
+                                      hour: '2-digit',
+                                      minute: '2-digit',
+                                    }),
+                                  })
+                                : t('checkIn.closesAt', {
+                                    time: new Date(
+                                      b.checkInClosesAt!,
+                                    ).toLocaleTimeString(dateLocale(), {
+                                      hour: '2-digit',
+                                      minute: '2-digit',
+                                    }),
+                                  })}
+                            </div>
+                          )}
+                          {(b.status === 'CANCELLED' || b.status === 'NO_SHOW') &&
+                            b.cancellationReason && (
                             <div className="flex items-start gap-2 text-sm mt-3 p-3 bg-red-50 border border-red-200 rounded-lg animate-fade-in text-left">
                               <div className="min-w-4 pt-0.5">
                                 <svg
@@ -394,20 +441,52 @@ const MyBookingsPage: React.FC<MyBookingsPageProps> = ({
                               </div>
                             </div>
                           )}{' '}
+                          {b.status === 'PENDING' && b.proposal && (
+                            <ProposalResponse
+                              booking={b}
+                              room={rooms.find(
+                                (r) => r.id === b.proposal!.roomId,
+                              )}
+                            />
+                          )}
                         </div>
                       </div>
 
                       {canCancel && (
-                        <button
-                          onClick={() => onCancelBooking(b.id)}
-                          className="group px-3 py-2 bg-red-50 hover:bg-red-500 border border-red-200 hover:border-red-500 text-red-600 hover:text-white font-bold rounded-md transition-all-smooth shadow-sm flex items-center gap-2"
-                          title={t('myBookings.cancelBooking')}
-                        >
-                          <TrashIcon className="w-4 h-4 transition-transform" />
-                          <span className="hidden sm:inline">
-                            {t('common.cancel')}
-                          </span>
-                        </button>
+                        <div className="flex flex-col gap-2">
+                          {checkIn === 'OPEN' && (
+                            <button
+                              onClick={() => onCheckIn(b.id)}
+                              className="group px-3 py-2 bg-primary hover:bg-primary-light border border-primary text-white font-bold rounded-md transition-all-smooth shadow-sm flex items-center gap-2"
+                              title={t('checkIn.action')}
+                            >
+                              <CheckCircleIcon className="w-4 h-4 transition-transform" />
+                              <span className="hidden sm:inline">
+                                {t('checkIn.action')}
+                              </span>
+                            </button>
+                          )}
+                          <button
+                            onClick={() => onEditBooking(b.id)}
+                            className="group px-3 py-2 bg-primary/5 hover:bg-primary border border-primary/20 hover:border-primary text-primary hover:text-white font-bold rounded-md transition-all-smooth shadow-sm flex items-center gap-2"
+                            title={t('myBookings.editBooking')}
+                          >
+                            <PencilIcon className="w-4 h-4 transition-transform" />
+                            <span className="hidden sm:inline">
+                              {t('myBookings.edit')}
+                            </span>
+                          </button>
+                          <button
+                            onClick={() => onCancelBooking(b.id)}
+                            className="group px-3 py-2 bg-red-50 hover:bg-red-500 border border-red-200 hover:border-red-500 text-red-600 hover:text-white font-bold rounded-md transition-all-smooth shadow-sm flex items-center gap-2"
+                            title={t('myBookings.cancelBooking')}
+                          >
+                            <TrashIcon className="w-4 h-4 transition-transform" />
+                            <span className="hidden sm:inline">
+                              {t('common.cancel')}
+                            </span>
+                          </button>
+                        </div>
                       )}
                     </div>
                   </div>
@@ -2,11 +2,36 @@ import i18n from '../i18n';
 import {
   User,
   Room,
+  AvailableRoom,
+  AvailabilityQuery,
+  SlotSuggestions,
+  RoomFreeBusy,
+  FreeBusyQuery,
   Booking,
+  BookingComment,
+  BookingEvent,
+  BookingPage,
+  BookingQuery,
   Semester,
   Department,
   ScheduleException,
+  SavedScheduleException,
+  PolicyAffectedBooking,
+  PolicyImpactResolution,
   AuditPage,
+  AdminStats,
+  RecurrenceFrequency,
+  CancelScope,
+  ModerationAction,
+  ModerationResult,
+  Approver,
+  ApprovalDelegation,
+  StrikePolicy,
+  StruckUser,
+  BookingSeriesReport,
+  WaitlistEntry,
+  QuotaLimits,
+  QuotaUsage,
 } from '../types';
 
 // Use environment variable or fallback to relative path (for dev proxy)
@@ -27,6 +52,18 @@ const removeToken = () => {
   localStorage.removeItem('token');
 };
 
+// A refused request: the server's message, plus the rest of its error body for
+// callers that can use more than the message (e.g. suggestions on a taken slot)
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public body: Record<string, unknown>,
+  ) {
+    super(message);
+  }
+}
+
 // Helper function for API calls
 async function fetchAPI<T>(endpoint: string, options?: RequestInit): Promise<T> {
   const token = getToken();
@@ -45,7 +82,7 @@ async function fetchAPI<T>(endpoint: string, options?: RequestInit): Promise<T>
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Request failed' }));
-    throw new Error(error.error || `HTTP ${response.status}`);
+    throw new ApiError(error.error || `HTTP ${response.status}`, response.status, error);
   }
 
   return response.json();
@@ -131,7 +168,7 @@ export const api = {
     });
   },
 
-  updateUser: async (id: string, userData: { name?: string; email?: string; role?: string; password?: string, status?: string }): Promise<User> => {
+  updateUser: async (id: string, userData: { name?: string; email?: string; role?: string; password?: string, status?: string; departmentId?: string | null }): Promise<User> => {
     return fetchAPI<User>(`/users/${id}`, {
       method: 'PUT',
       body: JSON.stringify(userData),
@@ -167,20 +204,52 @@ export const api = {
     return fetchAPI<Room>(`/rooms/${id}`);
   },
 
-  createRoom: async (roomData: { name: string; description: string; minCapacity: number; maxCapacity: number; features: string[]; departmentId?: string | null; bookingTerms?: string | null; requiresApproval?: boolean; operatingHours?: string | null }): Promise<Room> => {
+  // Open, closed and busy time per room over [from, to), at most 62 days
+  getFreeBusy: async (query: FreeBusyQuery): Promise<RoomFreeBusy[]> => {
+    const qs = new URLSearchParams({
+      from: query.from.toISOString(),
+      to: query.to.toISOString(),
+    });
+    if (query.roomIds) qs.set('roomIds', query.roomIds.join(','));
+    const result = await fetchAPI<{ rooms: RoomFreeBusy[] }>(`/rooms/free-busy?${qs}`);
+    return result.rooms;
+  },
+
+  // Rooms free and open for the whole range that fit the headcount and have
+  // every feature asked for, best fit first
+  findAvailableRooms: async (query: AvailabilityQuery): Promise<AvailableRoom[]> => {
+    const qs = new URLSearchParams({
+      start: query.start.toISOString(),
+      end: query.end.toISOString(),
+      people: String(query.people),
+    });
+    if (query.features.length > 0) qs.set('features', query.features.join(','));
+    const result = await fetchAPI<{ rooms: AvailableRoom[] }>(`/rooms/available?${qs}`);
+    return result.rooms;
+  },
+
+  createRoom: async (roomData: { name: string; description: string; minCapacity: number; maxCapacity: number; features: string[]; departmentId?: string | null; bookingTerms?: string | null; requiresApproval?: boolean; operatingHours?: string | null; checkInGraceMinutes?: number | null; bookingRules?: string | null; autoApprovalRules?: string | null; approvalChain?: string | null; bufferMinutes?: number }): Promise<Room> => {
     return fetchAPI<Room>('/rooms', {
       method: 'POST',
       body: JSON.stringify(roomData),
     });
   },
 
-  updateRoom: async (id: string, roomData: { name: string; description: string; minCapacity: number; maxCapacity: number; features: string[]; departmentId?: string | null; bookingTerms?: string | null; requiresApproval?: boolean; operatingHours?: string | null }): Promise<Room> => {
+  updateRoom: async (id: string, roomData: { name: string; description: string; minCapacity: number; maxCapacity: number; features: string[]; departmentId?: string | null; bookingTerms?: string | null; requiresApproval?: boolean; operatingHours?: string | null; checkInGraceMinutes?: number | null; bookingRules?: string | null; autoApprovalRules?: string | null; approvalChain?: string | null; bufferMinutes?: number } & PolicyImpactResolution): Promise<Room> => {
     return fetchAPI<Room>(`/rooms/${id}`, {
       method: 'PUT',
       body: JSON.stringify(roomData),
     });
   },
 
+  // The same edit as updateRoom, not saved: the future bookings it would break
+  previewRoomImpact: async (id: string, roomData: object): Promise<{ affectedBookings: PolicyAffectedBooking[] }> => {
+    return fetchAPI(`/rooms/${id}?dryRun=true`, {
+      method: 'PUT',
+      body: JSON.stringify(roomData),
+    });
+  },
+
   deleteRoom: async (id: string): Promise<{ message: string }> => {
     return fetchAPI(`/rooms/${id}`, {
       method: 'DELETE',
@@ -188,16 +257,45 @@ export const api = {
   },
 
   // Bookings
-  getBookings: async (): Promise<Booking[]> => {
-    return fetchAPI<Booking[]>('/bookings');
+  getBookings: async (query: BookingQuery = {}): Promise<BookingPage> => {
+    const qs = new URLSearchParams();
+    Object.entries(query).forEach(([k, v]) => {
+      if (v === undefined || v === null || v === '') return;
+      if (v instanceof Date) qs.set(k, v.toISOString());
+      else if (Array.isArray(v)) qs.set(k, v.join(','));
+      else qs.set(k, String(v));
+    });
+    const q = qs.toString();
+    return fetchAPI<BookingPage>(`/bookings${q ? `?${q}` : ''}`);
+  },
+
+  // Every booking matching the query, following the pages to the end. For
+  // bounded windows and explicit exports, not for unfiltered polling.
+  getAllBookings: async (query: Omit<BookingQuery, 'cursor'> = {}): Promise<Booking[]> => {
+    const all: Booking[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await api.getBookings({ ...query, cursor });
+      all.push(...page.bookings);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return all;
   },
 
   getBooking: async (id: string): Promise<Booking> => {
     return fetchAPI<Booking>(`/bookings/${id}`);
   },
 
-  getAllBookingsForAdmin: async (): Promise<Booking[]> => {
-    return fetchAPI<Booking[]>('/bookings');
+  // The booking's comment thread, oldest first
+  getBookingComments: async (id: string): Promise<BookingComment[]> => {
+    return fetchAPI<BookingComment[]>(`/bookings/${id}/comments`);
+  },
+
+  addBookingComment: async (id: string, body: string): Promise<BookingComment> => {
+    return fetchAPI<BookingComment>(`/bookings/${id}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ body }),
+    });
   },
 
   checkConflicts: async (data: {
@@ -206,11 +304,13 @@ export const api = {
     endTime: Date;
   }): Promise<{
     hasConflict: boolean;
+    bufferMinutes?: number;
     conflicts: Array<{
       id: string;
       startTime: string;
       endTime: string;
       userDisplay: string;
+      bufferOnly?: boolean; // clashes only with the turnover time around it
     }>;
   }> => {
     return fetchAPI('/bookings/check-conflicts', {
@@ -219,6 +319,19 @@ export const api = {
     });
   },
 
+  // Other times and rooms for a slot that is taken; `people` counts the booker
+  suggestSlots: async (data: {
+    roomId: string;
+    startTime: Date;
+    endTime: Date;
+    people: number;
+  }): Promise<SlotSuggestions> => {
+    return fetchAPI<SlotSuggestions>('/bookings/suggestions', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
   createBooking: async (data: {
     roomId: string;
     startTime: Date;
@@ -226,6 +339,12 @@ export const api = {
     purpose: string;
     attendees: Array<{ name: string; studentId?: string; isCompanion: boolean }>;
     termsAccepted?: boolean;
+    // Staff and department admins booking for someone else: an existing
+    // user, or a guest by name and email, optionally waiving their limits
+    userId?: string;
+    guest?: { name: string; email: string };
+    overrideLeadTime?: boolean;
+    overrideQuota?: boolean;
   }): Promise<Booking> => {
     return fetchAPI<Booking>('/bookings', {
       method: 'POST',
@@ -233,11 +352,66 @@ export const api = {
     });
   },
 
-  cancelBooking: async (id: string, reason?: string): Promise<boolean> => {
+  // Reschedule or edit in place; only the fields sent are changed
+  updateBooking: async (id: string, data: {
+    roomId?: string;
+    startTime?: Date;
+    endTime?: Date;
+    purpose?: string;
+    attendees?: Array<{ name: string; studentId?: string; isCompanion: boolean }>;
+    termsAccepted?: boolean;
+  }): Promise<Booking> => {
+    return fetchAPI<Booking>(`/bookings/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Books every date the server accepts and reports on the rest
+  createBookingSeries: async (data: {
+    roomId: string;
+    startTime: Date;
+    endTime: Date;
+    purpose: string;
+    attendees: Array<{ name: string; studentId?: string; isCompanion: boolean }>;
+    termsAccepted?: boolean;
+    frequency: RecurrenceFrequency;
+    until?: string | null;
+    count?: number | null;
+  }): Promise<BookingSeriesReport> => {
+    return fetchAPI<BookingSeriesReport>('/bookings/series', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Books every room or none; a refusal carries a per-room report as `rooms`
+  // on the ApiError body
+  createBookingEvent: async (data: {
+    purpose: string;
+    bookings: Array<{
+      roomId: string;
+      startTime: Date;
+      endTime: Date;
+      attendees: Array<{ name: string; studentId?: string; isCompanion: boolean }>;
+      termsAccepted?: boolean;
+    }>;
+  }): Promise<BookingEvent> => {
+    return fetchAPI<BookingEvent>('/bookings/events', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  getBookingEvent: async (id: string): Promise<BookingEvent> => {
+    return fetchAPI<BookingEvent>(`/bookings/events/${id}`);
+  },
+
+  cancelBooking: async (id: string, reason?: string, scope: CancelScope = 'occurrence'): Promise<boolean> => {
     try {
       await fetchAPI(`/bookings/${id}`, {
         method: 'DELETE',
-        body: JSON.stringify({ reason }),
+        body: JSON.stringify({ reason, scope }),
       });
       return true;
     } catch {
@@ -245,6 +419,44 @@ export const api = {
     }
   },
 
+  // The current user's limits in a room and what they have used around `start`
+  getQuota: async (roomId: string, start: Date): Promise<{ limits: QuotaLimits; usage: QuotaUsage }> => {
+    const params = new URLSearchParams({ roomId, start: start.toISOString() });
+    return fetchAPI(`/bookings/quota?${params}`);
+  },
+
+  // Confirms the booker turned up; the booking is released as NO_SHOW without it
+  checkInBooking: async (id: string): Promise<Booking> => {
+    return fetchAPI<Booking>(`/bookings/${id}/check-in`, { method: 'POST' });
+  },
+
+  // Waitlist: queue for a taken slot, and claim it if it is offered
+  getMyWaitlist: async (): Promise<WaitlistEntry[]> => {
+    return fetchAPI<WaitlistEntry[]>('/waitlist');
+  },
+
+  joinWaitlist: async (data: {
+    roomId: string;
+    startTime: Date;
+    endTime: Date;
+    purpose: string;
+    attendees: Array<{ name: string; studentId?: string; isCompanion: boolean }>;
+    termsAccepted?: boolean;
+  }): Promise<WaitlistEntry> => {
+    return fetchAPI<WaitlistEntry>('/waitlist', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  claimWaitlistOffer: async (id: string): Promise<Booking> => {
+    return fetchAPI<Booking>(`/waitlist/${id}/claim`, { method: 'POST' });
+  },
+
+  leaveWaitlist: async (id: string): Promise<void> => {
+    await fetchAPI(`/waitlist/${id}`, { method: 'DELETE' });
+  },
+
   approveBooking: async (id: string): Promise<{ id: string; status: string }> => {
     return fetchAPI(`/bookings/${id}/approve`, { method: 'POST' });
   },
@@ -256,6 +468,62 @@ export const api = {
     });
   },
 
+  // Counter a pending request with another slot instead of rejecting it
+  proposeBooking: async (
+    id: string,
+    data: { roomId?: string; startTime: string; endTime: string; message?: string },
+  ): Promise<{ id: string; status: string; proposalId: string }> => {
+    return fetchAPI(`/bookings/${id}/propose`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // The booker's answer; declining withdraws the request
+  acceptProposal: async (id: string, termsAccepted?: boolean): Promise<{ id: string; status: string }> => {
+    return fetchAPI(`/bookings/${id}/proposal/accept`, {
+      method: 'POST',
+      body: JSON.stringify({ termsAccepted }),
+    });
+  },
+
+  declineProposal: async (id: string): Promise<{ id: string; status: string }> => {
+    return fetchAPI(`/bookings/${id}/proposal/decline`, { method: 'POST' });
+  },
+
+  // One reason covers every rejection; each id succeeds or fails on its own
+  moderateBookings: async (
+    action: ModerationAction,
+    bookingIds: string[],
+    reason?: string,
+  ): Promise<{ results: ModerationResult[]; succeeded: number; failed: number }> => {
+    return fetchAPI('/bookings/moderate', {
+      method: 'POST',
+      body: JSON.stringify({ action, bookingIds, reason }),
+    });
+  },
+
+  // Staff and department managers: who an approval step can name or a delegation go to
+  getApprovers: async (): Promise<Approver[]> => {
+    return fetchAPI<Approver[]>('/approvers');
+  },
+
+  // The signed-in user's delegations, given and held, not yet over
+  getDelegations: async (): Promise<ApprovalDelegation[]> => {
+    return fetchAPI<ApprovalDelegation[]>('/approvers/delegations');
+  },
+
+  createDelegation: async (data: { delegateId: string; startsAt: string; endsAt: string }): Promise<ApprovalDelegation> => {
+    return fetchAPI<ApprovalDelegation>('/approvers/delegations', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  deleteDelegation: async (id: string): Promise<void> => {
+    await fetchAPI(`/approvers/delegations/${id}`, { method: 'DELETE' });
+  },
+
   remindBooking: async (id: string): Promise<void> => {
     return fetchAPI('/bookings/' + id + '/remind', {
       method: 'POST'
@@ -300,20 +568,27 @@ export const api = {
     return fetchAPI<Department[]>('/departments');
   },
 
-  createDepartment: async (data: { name: string; contactEmail?: string | null; operatingHours?: string | null }): Promise<Department> => {
+  createDepartment: async (data: { name: string; contactEmail?: string | null; operatingHours?: string | null; checkInGraceMinutes?: number | null; bookingQuotas?: string | null; bookingRules?: string | null; autoApprovalRules?: string | null }): Promise<Department> => {
     return fetchAPI<Department>('/departments', {
       method: 'POST',
       body: JSON.stringify(data),
     });
   },
 
-  updateDepartment: async (id: string, data: { name: string; contactEmail?: string | null; operatingHours?: string | null; adminUserIds?: string[] }): Promise<Department> => {
+  updateDepartment: async (id: string, data: { name: string; contactEmail?: string | null; operatingHours?: string | null; checkInGraceMinutes?: number | null; bookingQuotas?: string | null; bookingRules?: string | null; autoApprovalRules?: string | null; adminUserIds?: string[] } & PolicyImpactResolution): Promise<Department> => {
     return fetchAPI<Department>(`/departments/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     });
   },
 
+  previewDepartmentImpact: async (id: string, data: object): Promise<{ affectedBookings: PolicyAffectedBooking[] }> => {
+    return fetchAPI(`/departments/${id}?dryRun=true`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
   getDepartmentAdmins: async (id: string): Promise<Array<{ id: string; name: string; email: string }>> => {
     return fetchAPI(`/departments/${id}/admins`);
   },
@@ -348,9 +623,9 @@ export const api = {
   },
 
   createScheduleException: async (
-    data: Omit<ScheduleException, 'id' | 'department'>,
-  ): Promise<ScheduleException> => {
-    return fetchAPI<ScheduleException>('/schedule-exceptions', {
+    data: Omit<ScheduleException, 'id' | 'department' | 'room'>,
+  ): Promise<SavedScheduleException> => {
+    return fetchAPI<SavedScheduleException>('/schedule-exceptions', {
       method: 'POST',
       body: JSON.stringify(data),
     });
@@ -358,18 +633,60 @@ export const api = {
 
   updateScheduleException: async (
     id: string,
-    data: Omit<ScheduleException, 'id' | 'department'>,
-  ): Promise<ScheduleException> => {
-    return fetchAPI<ScheduleException>(`/schedule-exceptions/${id}`, {
+    data: Omit<ScheduleException, 'id' | 'department' | 'room'>,
+  ): Promise<SavedScheduleException> => {
+    return fetchAPI<SavedScheduleException>(`/schedule-exceptions/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     });
   },
 
+  // Cancel bookings a closure rules out, from the list returned when it was saved
+  cancelClosureBookings: async (
+    id: string,
+    bookingIds: string[],
+  ): Promise<{ cancelled: number; skipped: number }> => {
+    return fetchAPI(`/schedule-exceptions/${id}/cancel-affected`, {
+      method: 'POST',
+      body: JSON.stringify({ bookingIds }),
+    });
+  },
+
   deleteScheduleException: async (id: string): Promise<{ message: string }> => {
     return fetchAPI(`/schedule-exceptions/${id}`, { method: 'DELETE' });
   },
 
+  // Live updates: the open event stream, read by services/liveUpdates.ts
+  openEventStream: (signal: AbortSignal): Promise<Response> => {
+    const token = getToken();
+    return fetch(`${API_BASE_URL}/events`, {
+      cache: 'no-store',
+      signal,
+      headers: {
+        Accept: 'text/event-stream',
+        ...(token && { 'Authorization': `Bearer ${token}` }),
+      },
+    });
+  },
+
+  // Admin overview: totals, confirmed bookings per room, latest requests
+  getAdminStats: async (): Promise<AdminStats> => {
+    return fetchAPI<AdminStats>('/admin/stats');
+  },
+
+  // Strikes for late cancellations and no-shows, and the bans they lead to
+  getStrikes: async (): Promise<{ users: StruckUser[]; policy: StrikePolicy }> => {
+    return fetchAPI('/admin/strikes');
+  },
+
+  forgiveStrike: async (id: string): Promise<void> => {
+    await fetchAPI(`/admin/strikes/${id}/forgive`, { method: 'POST' });
+  },
+
+  liftBookingBan: async (userId: string): Promise<void> => {
+    await fetchAPI(`/admin/users/${userId}/ban`, { method: 'DELETE' });
+  },
+
   // Settings
   getSettings: async (): Promise<any> => {
     return fetchAPI('/settings');
@@ -381,4 +698,11 @@ export const api = {
       body: JSON.stringify(settings),
     });
   },
+
+  previewSettingsImpact: async (settings: any): Promise<{ affectedBookings: PolicyAffectedBooking[] }> => {
+    return fetchAPI('/settings?dryRun=true', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    });
+  },
 };
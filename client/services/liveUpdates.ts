@@ -0,0 +1,106 @@
+import { Booking } from '../types';
+import { api } from './api';
+
+// What the server's event stream (GET /api/events) sends. Bookings come
+// redacted for this user, like GET /bookings; deleted ones as ids only. Rooms,
+// closures and settings carry nothing: whoever shows them reloads them.
+export type LiveEvent =
+  | {
+      type: 'booking';
+      change: 'created' | 'updated' | 'cancelled' | 'approved' | 'rejected';
+      bookings: Booking[];
+    }
+  | { type: 'booking'; change: 'deleted'; bookingIds: string[] }
+  | { type: 'rooms' | 'closures' | 'settings' };
+
+type Listener = (event: LiveEvent) => void;
+
+const listeners = new Set<Listener>();
+
+// Reconnect quickly after a blip, then back off while the server stays away
+const RETRY_MIN_MS = 2000;
+const RETRY_MAX_MS = 60000;
+
+export const subscribeLiveEvents = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const dispatch = (event: string, data: string) => {
+  let payload: any;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    return;
+  }
+  let live: LiveEvent;
+  if (event === 'booking') live = { type: 'booking', ...payload };
+  else if (event === 'rooms' || event === 'closures' || event === 'settings') {
+    live = { type: event };
+  } else return;
+  listeners.forEach((listener) => listener(live));
+};
+
+// Keep the event stream open, reconnecting whenever it drops, until the
+// returned function is called. onStatus hears true once the server has
+// accepted the stream and false each time it is lost.
+export const connectLiveUpdates = (
+  onStatus: (connected: boolean) => void,
+): (() => void) => {
+  let stopped = false;
+  let controller: AbortController | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let delay = RETRY_MIN_MS;
+
+  const connect = async () => {
+    controller = new AbortController();
+    try {
+      const response = await api.openEventStream(controller.signal);
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const reader = response.body
+        .pipeThrough(new TextDecoderStream())
+        .getReader();
+      let buffer = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        // Events end with a blank line; lines starting with ':' are comments
+        let end: number;
+        while ((end = buffer.indexOf('\n\n')) >= 0) {
+          const frame = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          let event = 'message';
+          const data: string[] = [];
+          for (const line of frame.split('\n')) {
+            if (line.startsWith('event:')) event = line.slice(6).trim();
+            else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+          }
+          if (event === 'ready') {
+            delay = RETRY_MIN_MS;
+            onStatus(true);
+          } else if (data.length > 0) {
+            dispatch(event, data.join('\n'));
+          }
+        }
+      }
+    } catch {
+      // Refused, dropped or aborted; retried below unless stopped
+    }
+    if (stopped) return;
+    onStatus(false);
+    retryTimer = setTimeout(connect, delay);
+    delay = Math.min(delay * 2, RETRY_MAX_MS);
+  };
+
+  connect();
+  return () => {
+    stopped = true;
+    clearTimeout(retryTimer);
+    controller?.abort();
+  };
+};
@@ -17,12 +17,13 @@ export interface User {
   email: string;
   role: UserRole;
   status?: 'PENDING' | 'ACTIVE' | 'SUSPENDED';
-  provider?: 'LOCAL' | 'MICROSOFT';
+  provider?: 'LOCAL' | 'MICROSOFT' | 'GUEST'; // GUEST: made by staff at the desk, cannot sign in
   language?: 'en' | 'th'; // notification email preference (UI language is per-device)
   avatarUrl?: string;
   createdAt?: string;
   managedDepartmentIds?: string[]; // departments this user administers (any role); sent for the signed-in user
   managedDepartments?: { id: string; name: string }[]; // same grant, named, as listed by GET /users for admin screens
+  departmentId?: string | null; // the department the user belongs to, for "booker in department" auto-approval
 }
 
 // One recorded privileged action. Append-only: the API exposes no way to
@@ -51,8 +52,46 @@ export interface AuditPage {
   entries: AuditEntry[];
 }
 
+// Filters for GET /bookings; every one is optional. from/to select the
+// bookings overlapping that range. userId other than your own is staff only.
+export interface BookingQuery {
+  from?: Date;
+  to?: Date;
+  roomId?: string;
+  departmentId?: string[];
+  status?: BookingStatus[];
+  userId?: string;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+// One page of bookings; nextCursor = null on the last page
+export interface BookingPage {
+  bookings: Booking[];
+  nextCursor: string | null;
+}
+
+// Service-wide numbers for the admin overview, counted server-side
+export interface AdminStats {
+  totalUsers: number;
+  totalBookings: number;
+  activeBookings: number;
+  totalRooms: number;
+  roomUtilization: Record<string, number>; // confirmed bookings per room id
+  recentBookings: Array<{
+    id: string;
+    userName: string;
+    roomName: string;
+    startTime: string;
+    endTime: string;
+    status: BookingStatus;
+    createdAt: string;
+  }>;
+}
+
 // Date-specific schedule override: a closure (holiday, maintenance) or
-// special hours; departmentId null = applies service-wide
+// special hours, for one room, a department, or (neither set) the whole service
 export interface ScheduleException {
   id: string;
   name: string;
@@ -61,8 +100,44 @@ export interface ScheduleException {
   closed: boolean;
   openHour?: number | null;
   closeHour?: number | null;
+  // Set together on a closure that shuts only these minutes of each day
+  blockStartMinute?: number | null;
+  blockEndMinute?: number | null;
   departmentId?: string | null;
   department?: { id: string; name: string } | null;
+  roomId?: string | null;
+  room?: { id: string; name: string; departmentId: string | null } | null;
+}
+
+// An upcoming booking a closure rules out, as returned when the closure is
+// saved; nothing happens to it until the closure's manager cancels it
+export interface ClosureAffectedBooking {
+  id: string;
+  roomId: string;
+  roomName: string;
+  userName: string;
+  userEmail: string | null;
+  startTime: string;
+  endTime: string;
+  status: BookingStatus;
+}
+
+export type SavedScheduleException = ScheduleException & {
+  affectedBookings: ClosureAffectedBooking[];
+};
+
+// A future booking an unsaved hours or capacity edit would break, with each
+// rule it would break explained for the editor
+export interface PolicyAffectedBooking extends ClosureAffectedBooking {
+  violations: Array<{ code: 'HOURS' | 'CAPACITY'; message: string }>;
+}
+
+export type PolicyImpactAction = 'NOTIFY' | 'CANCEL';
+
+// Sent with an edit to act on the bookings its dry run listed
+export interface PolicyImpactResolution {
+  impactAction?: PolicyImpactAction;
+  impactBookingIds?: string[];
 }
 
 export interface Department {
@@ -70,6 +145,10 @@ export interface Department {
   name: string;
   contactEmail?: string | null;
   operatingHours?: string | null; // JSON-encoded OperatingHours; null = inherit global schedule
+  checkInGraceMinutes?: number | null; // 0 = no check-in; null = inherit the global setting
+  bookingQuotas?: string | null; // JSON-encoded QuotaConfig; null = inherit the global quotas
+  bookingRules?: string | null; // JSON-encoded BookingRules; a rule set here wins over the global one
+  autoApprovalRules?: string | null; // JSON-encoded AutoApprovalRule[] for its approval-gated rooms
   roomCount?: number;
 }
 
@@ -83,15 +162,71 @@ export interface Room {
   bookingTerms?: string | null; // terms & conditions; null = no acceptance required
   requiresApproval?: boolean; // bookings start as PENDING until approved
   operatingHours?: string | null; // JSON-encoded OperatingHours; null = inherit the department (or global) schedule
+  checkInGraceMinutes?: number | null; // 0 = no check-in; null = inherit the department (or global) setting
+  bookingRules?: string | null; // JSON-encoded BookingRules; a rule set here wins over the department's
+  autoApprovalRules?: string | null; // JSON-encoded AutoApprovalRule[]; the department's rules apply as well
+  approvalChain?: string | null; // JSON-encoded ApprovalStep[]; null = one approval by any moderator
+  bufferMinutes?: number; // turnover time kept free before and after every booking
   departmentId?: string | null;
   department?: Department | null;
 }
 
+// A room free for the range searched, with how well it fits the request
+export interface AvailableRoom extends Room {
+  spareSeats: number; // seats left empty by the headcount
+  extraFeatures: number; // features the room has that were not asked for
+}
+
+// A room's open, closed and busy time over a range, as the server works it
+// out from hours, closures, the semester and what holds the room
+export interface RoomFreeBusy {
+  roomId: string;
+  open: Array<{ start: string; end: string }>;
+  closed: Array<{
+    start: string;
+    end: string;
+    reason: 'HOURS' | 'EXCEPTION' | 'SEMESTER';
+    name: string | null; // the closure or semester responsible
+  }>;
+  busy: Array<{
+    start: string;
+    end: string;
+    kind: 'BOOKING' | 'OFFER' | 'BUFFER';
+  }>;
+}
+
+export interface FreeBusyQuery {
+  from: Date;
+  to: Date;
+  roomIds?: string[];
+}
+
+// Where else a taken or closed slot could go: free times of the same length in
+// the same room that day, and the same time in other rooms of its department
+export interface SlotSuggestions {
+  sameRoom: Array<{ startTime: string; endTime: string }>;
+  otherRooms: Array<{
+    roomId: string;
+    roomName: string;
+    startTime: string;
+    endTime: string;
+    requiresApproval: boolean;
+  }>;
+}
+
+export interface AvailabilityQuery {
+  start: Date;
+  end: Date;
+  people: number;
+  features: string[];
+}
+
 export enum BookingStatus {
   PENDING = 'PENDING',
   CONFIRMED = 'CONFIRMED',
   CANCELLED = 'CANCELLED',
-  COMPLETED = 'COMPLETED'
+  COMPLETED = 'COMPLETED',
+  NO_SHOW = 'NO_SHOW' // released because nobody checked in
 }
 
 export interface Attendee {
@@ -121,9 +256,248 @@ export interface Booking {
   status: BookingStatus;
   cancellationReason?: string;
   termsAcceptedAt?: string | null;
+  seriesId?: string | null; // set when this is one occurrence of a recurring series
+  eventId?: string | null; // set when this is one room of a multi-room event
+  createdByName?: string | null; // staff who booked it for the user; null when they booked it themselves
+  // Check-in window for confirmed bookings in rooms that require it; both null otherwise
+  checkedInAt?: string | null;
+  checkInOpensAt?: string | null;
+  checkInClosesAt?: string | null;
+  approval?: ApprovalProgress | null; // set in rooms with an approval chain
+  awaitsYou?: boolean; // pending, and the approval it waits on is the viewer's to give
+  // Undecided too long: 1 = approvers reminded, 2 = service contact told. Only
+  // sent to those who moderate it; 0 for everyone else.
+  escalationLevel?: number;
+  escalatedAt?: string | null;
+  proposal?: BookingProposal | null; // another slot an approver offered, awaiting the booker's answer
+  commentCount?: number; // messages in its comment thread; 0 when the viewer cannot see it
+  createdAt: string;
+}
+
+// One message in the thread between a booker and those who moderate the booking
+export interface BookingComment {
+  id: string;
+  authorId: string | null;
+  authorName: string | null; // null once the author's account is deleted
+  fromBooker: boolean;
+  body: string;
+  createdAt: string;
+}
+
+// The time or room an approver offered instead of the one requested. The slot
+// is held for the booker until expiresAt.
+export interface BookingProposal {
+  id: string;
+  roomId: string;
+  roomName: string;
+  startTime: string;
+  endTime: string;
+  message: string | null;
+  expiresAt: string;
+  proposedByName: string | null;
+}
+
+// One sign-off of a room's approval chain: any of the named users, or whoever
+// manages the department
+export interface ApprovalStep {
+  name: string;
+  approverIds?: string[];
+  departmentId?: string;
+}
+
+// How far a request in a chained room has got, and who signed each step
+export interface ApprovalProgress {
+  steps: string[];
+  signed: number;
+  approvals: {
+    step: number;
+    approverName: string | null;
+    onBehalfOfName: string | null; // set when signed by a delegate
+    approvedAt: string;
+  }[];
+}
+
+// Someone who can give approvals: staff, or a department manager
+export interface Approver {
+  id: string;
+  name: string;
+  email: string;
+}
+
+// Approvals passed from one approver to another over [startsAt, endsAt)
+export interface ApprovalDelegation {
+  id: string;
+  delegator: Approver;
+  delegate: Approver;
+  startsAt: string;
+  endsAt: string;
   createdAt: string;
 }
 
+export type StrikeReason = 'LATE_CANCEL' | 'NO_SHOW';
+
+// A late cancellation or no-show held against a user
+export interface BookingStrike {
+  id: string;
+  reason: StrikeReason;
+  bookingId: string | null;
+  roomName: string | null; // null once the booking is deleted
+  bookingStart: string | null;
+  createdAt: string;
+  forgivenAt: string | null;
+  forgivenByName: string | null;
+}
+
+// A user with strikes inside the window or a ban still running
+export interface StruckUser {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  bannedUntil: string | null;
+  activeStrikes: number; // counting towards the next ban
+  strikes: BookingStrike[];
+}
+
+export interface StrikePolicy {
+  lateCancelHours: number;
+  strikeThreshold: number;
+  strikeWindowDays: number;
+  banDays: number;
+}
+
+export type ModerationAction = 'APPROVE' | 'REJECT';
+
+// The outcome for one id of a bulk approve or reject
+export interface ModerationResult {
+  id: string;
+  ok: boolean;
+  status?: BookingStatus;
+  error?: string;
+}
+
+export type RecurrenceFrequency = 'WEEKLY' | 'BIWEEKLY';
+
+// Which occurrences of a series a cancel applies to
+export type CancelScope = 'occurrence' | 'future' | 'series';
+
+// One date of a requested series: booked, clashed with another booking, fell
+// on a closure (schedule exception), or refused for another rule
+export interface SeriesOccurrence {
+  startTime: string;
+  endTime: string;
+  result: 'CREATED' | 'CONFLICT' | 'CLOSED' | 'UNAVAILABLE';
+  error?: string;
+  exceptionName?: string;
+  bookingId?: string;
+  status?: BookingStatus;
+}
+
+export interface BookingSeriesReport {
+  series: {
+    id: string;
+    roomId: string;
+    frequency: RecurrenceFrequency;
+    untilDate: string | null;
+    occurrenceCount: number | null;
+  };
+  created: number;
+  occurrences: SeriesOccurrence[];
+}
+
+// Several rooms booked together under one purpose, all or nothing
+export interface BookingEvent {
+  id: string;
+  purpose: string;
+  userId: string;
+  organizer: string;
+  createdAt: string;
+  bookings: Array<{
+    id: string;
+    roomId: string;
+    roomName: string | null;
+    startTime: string;
+    endTime: string;
+    status: BookingStatus;
+  }>;
+}
+
+// One room of a refused event: `error` says why it could not be booked; rooms
+// without one were fine but are not booked either
+export interface EventRoomReport {
+  roomId: string;
+  roomName: string;
+  startTime: string;
+  endTime: string;
+  error?: string;
+}
+
+// OFFERED = the slot came free and is held for this user until offerExpiresAt
+export type WaitlistStatus = 'WAITING' | 'OFFERED' | 'BOOKED' | 'EXPIRED' | 'CANCELLED';
+
+export interface WaitlistEntry {
+  id: string;
+  roomId: string;
+  roomName: string;
+  startTime: string;
+  endTime: string;
+  purpose: string;
+  attendees: Attendee[];
+  status: WaitlistStatus;
+  offerExpiresAt: string | null;
+  bookingId: string | null;
+  createdAt: string;
+}
+
+// Per-user booking limits. Hours go in quarter-hour steps; a limit left out is unlimited.
+export interface QuotaLimits {
+  maxActiveBookings?: number;
+  maxHoursPerDay?: number;
+  maxHoursPerWeek?: number;
+  maxRoomBookingsPerWeek?: number;
+}
+
+// Limits for everyone ("default") and per base role; a role's entry wins.
+// Staff are never limited.
+export type QuotaScope = 'default' | 'STUDENT' | 'FACULTY';
+export type QuotaConfig = Partial<Record<QuotaScope, QuotaLimits>>;
+
+// What a user already holds, on the day and in the week (Monday to Sunday) of a date
+export interface QuotaUsage {
+  activeBookings: number;
+  hoursOnDay: number;
+  hoursInWeek: number;
+  roomBookingsInWeek: number;
+}
+
+// Duration, start-time step and horizon for bookings. Set at any of room,
+// department and global level; each rule resolves on its own, most specific first.
+export interface BookingRules {
+  minDurationMinutes?: number;
+  maxDurationMinutes?: number;
+  slotMinutes?: number; // starts fall on multiples of this from midnight
+  maxAdvanceDays?: Partial<Record<QuotaScope, number>>;
+}
+
+// Confirms a request in an approval-gated room without review when every
+// condition it sets holds. Times of day are minutes from midnight.
+export interface AutoApprovalRule {
+  name: string;
+  roles?: UserRole[];
+  maxDurationMinutes?: number;
+  fromMinute?: number; // starts at or after...
+  toMinute?: number; // ...and ends by, on the same day
+  bookerInDepartment?: true;
+  maxAttendees?: number;
+}
+
+export interface EffectiveBookingRules {
+  minDurationMinutes: number;
+  maxDurationMinutes: number;
+  slotMinutes: number;
+  maxAdvanceDays: number | null; // null = no horizon
+}
+
 // One entry per weekday (0 = Sunday .. 6 = Saturday); null = closed all day
 export type DayHours = { open: number; close: number } | null;
 export type OperatingHours = DayHours[];
@@ -139,6 +513,17 @@ export interface ServiceSettings {
   operatingHours?: string; // JSON-encoded OperatingHours
   allowSelfRegistration?: boolean; // false = accounts only via SSO, admin creation, or import
   approvalLeadTimeMinutes?: number; // minimum notice for rooms needing approval; 0 = no minimum
+  approvalEscalationHours?: number; // chase a request undecided this long; 0 = off
+  approvalEscalationLeadHours?: number; // chase a request starting within this; 0 = off
+  waitlistAutoBook?: boolean; // true = book freed slots for the waitlist directly instead of offering them
+  checkInGraceMinutes?: number; // minutes after start to check in before release; 0 = no check-in
+  checkInOpensMinutes?: number; // how early before the start check-in opens
+  bookingQuotas?: string | null; // JSON-encoded QuotaConfig; null = no quotas
+  bookingRules?: string | null; // JSON-encoded BookingRules; null = built-in defaults
+  lateCancelHours?: number; // cancelling a confirmed booking closer to its start earns a strike; 0 = off
+  strikeThreshold?: number; // strikes within strikeWindowDays that ban booking; 0 = no bans
+  strikeWindowDays?: number;
+  banDays?: number;
   updatedAt?: string;
 }
 
@@ -0,0 +1,66 @@
+import { ApprovalStep } from '../types';
+
+// Same limits as server/src/services/approvals.ts
+export const MAX_APPROVAL_STEPS = 5;
+export const MAX_STEP_NAME = 80;
+export const MAX_STEP_APPROVERS = 20;
+
+// What the chain editor works on: each step names users or a department
+export interface ApprovalStepDraft {
+  name: string;
+  by: 'users' | 'department';
+  approverIds: string[];
+  departmentId: string;
+}
+
+export const emptyApprovalStep = (): ApprovalStepDraft => ({
+  name: '',
+  by: 'department',
+  approverIds: [],
+  departmentId: '',
+});
+
+export const parseApprovalChain = (
+  json: string | null | undefined,
+): ApprovalStep[] => {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const approvalChainDraftFromJson = (
+  json: string | null | undefined,
+): ApprovalStepDraft[] =>
+  parseApprovalChain(json).map((step) => ({
+    name: step.name ?? '',
+    by: step.approverIds ? 'users' : 'department',
+    approverIds: step.approverIds ?? [],
+    departmentId: step.departmentId ?? '',
+  }));
+
+// The JSON to save: null when there are no steps (one approval by any
+// moderator), false when a step is unnamed or names nobody
+export const approvalChainJsonFromDraft = (
+  drafts: ApprovalStepDraft[],
+): string | null | false => {
+  if (drafts.length === 0) return null;
+  if (drafts.length > MAX_APPROVAL_STEPS) return false;
+  const steps: ApprovalStep[] = [];
+  for (const draft of drafts) {
+    const name = draft.name.trim();
+    if (!name || name.length > MAX_STEP_NAME) return false;
+    if (draft.by === 'users') {
+      if (draft.approverIds.length === 0) return false;
+      if (draft.approverIds.length > MAX_STEP_APPROVERS) return false;
+      steps.push({ name, approverIds: draft.approverIds });
+    } else {
+      if (!draft.departmentId) return false;
+      steps.push({ name, departmentId: draft.departmentId });
+    }
+  }
+  return JSON.stringify(steps);
+};
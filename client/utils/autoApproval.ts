@@ -0,0 +1,105 @@
+import { AutoApprovalRule, UserRole } from '../types';
+
+// Same limits as server/src/services/autoApproval.ts
+export const MAX_AUTO_APPROVAL_RULES = 20;
+export const MAX_RULE_NAME = 80;
+export const MAX_RULE_ATTENDEES = 1000;
+const MINUTES_PER_DAY = 24 * 60;
+
+// What the auto-approval editor works on: every field as typed, blank = not set
+export interface AutoApprovalRuleDraft {
+  name: string;
+  roles: UserRole[];
+  maxDurationMinutes: string;
+  fromTime: string; // HH:MM
+  toTime: string; // HH:MM; 00:00 is the end of the day
+  bookerInDepartment: boolean;
+  maxAttendees: string;
+}
+
+export const emptyAutoApprovalRule = (): AutoApprovalRuleDraft => ({
+  name: '',
+  roles: [],
+  maxDurationMinutes: '',
+  fromTime: '',
+  toTime: '',
+  bookerInDepartment: false,
+  maxAttendees: '',
+});
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+const timeFromMinute = (minute: number | undefined) =>
+  minute === undefined
+    ? ''
+    : `${pad(Math.floor(minute / 60) % 24)}:${pad(minute % 60)}`;
+const minuteFromTime = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export const parseAutoApprovalRules = (
+  json: string | null | undefined,
+): AutoApprovalRule[] => {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const autoApprovalDraftFromJson = (
+  json: string | null | undefined,
+): AutoApprovalRuleDraft[] =>
+  parseAutoApprovalRules(json).map((rule) => ({
+    name: rule.name ?? '',
+    roles: rule.roles ?? [],
+    maxDurationMinutes: rule.maxDurationMinutes?.toString() ?? '',
+    fromTime: timeFromMinute(rule.fromMinute),
+    toTime: timeFromMinute(rule.toMinute),
+    bookerInDepartment: !!rule.bookerInDepartment,
+    maxAttendees: rule.maxAttendees?.toString() ?? '',
+  }));
+
+const parseWhole = (raw: string, max: number): number | null | false => {
+  if (raw.trim() === '') return null;
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= 1 && value <= max ? value : false;
+};
+
+const ruleFromDraft = (draft: AutoApprovalRuleDraft): AutoApprovalRule | false => {
+  const name = draft.name.trim();
+  if (!name || name.length > MAX_RULE_NAME) return false;
+  const rule: AutoApprovalRule = { name };
+  if (draft.roles.length > 0) rule.roles = draft.roles;
+  const duration = parseWhole(draft.maxDurationMinutes, MINUTES_PER_DAY);
+  const attendees = parseWhole(draft.maxAttendees, MAX_RULE_ATTENDEES);
+  if (duration === false || attendees === false) return false;
+  if (duration !== null) rule.maxDurationMinutes = duration;
+  if (attendees !== null) rule.maxAttendees = attendees;
+  if (!!draft.fromTime !== !!draft.toTime) return false;
+  if (draft.fromTime) {
+    const from = minuteFromTime(draft.fromTime);
+    const to = minuteFromTime(draft.toTime) || MINUTES_PER_DAY;
+    if (from >= to) return false;
+    rule.fromMinute = from;
+    rule.toMinute = to;
+  }
+  if (draft.bookerInDepartment) rule.bookerInDepartment = true;
+  // A rule with no condition would turn approval off
+  return Object.keys(rule).length > 1 ? rule : false;
+};
+
+// The JSON to save: null when there are no rules, false when one is unnamed,
+// has no condition, a field out of range or a time window that ends before it starts
+export const autoApprovalJsonFromDraft = (
+  drafts: AutoApprovalRuleDraft[],
+): string | null | false => {
+  if (drafts.length === 0) return null;
+  if (drafts.length > MAX_AUTO_APPROVAL_RULES) return false;
+  const rules = drafts.map(ruleFromDraft);
+  return rules.every((r): r is AutoApprovalRule => r !== false)
+    ? JSON.stringify(rules)
+    : false;
+};
@@ -0,0 +1,191 @@
+import {
+  BookingRules,
+  Department,
+  EffectiveBookingRules,
+  QuotaScope,
+  Room,
+  ServiceSettings,
+  UserRole,
+} from '../types';
+import { QUOTA_SCOPES } from './quotas';
+import { MAX_DURATION_MINUTES, MIN_DURATION_MINUTES } from '../constants';
+
+// Same defaults and ranges as server/src/services/bookingRules.ts
+export const DEFAULT_BOOKING_RULES: EffectiveBookingRules = {
+  minDurationMinutes: MIN_DURATION_MINUTES,
+  maxDurationMinutes: MAX_DURATION_MINUTES,
+  slotMinutes: 15,
+  maxAdvanceDays: null,
+};
+
+export const SLOT_MINUTES_OPTIONS = [15, 30, 60];
+export const MAX_RULE_DURATION_MINUTES = 24 * 60;
+export const MAX_ADVANCE_DAYS = 365;
+
+const parseBookingRules = (json: string | null | undefined): BookingRules | null => {
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? parsed
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Mirrors getEffectiveBookingRules in server/src/services/bookingRules.ts:
+// room, then department, then global, rule by rule. Only students and faculty
+// have a horizon.
+export const getEffectiveBookingRules = (
+  room: Room | null | undefined,
+  department: Department | null | undefined,
+  settings: ServiceSettings | null | undefined,
+  role: UserRole | undefined,
+): EffectiveBookingRules => {
+  const levels = [
+    parseBookingRules(room?.bookingRules),
+    parseBookingRules(department?.bookingRules),
+    parseBookingRules(settings?.bookingRules),
+  ].filter((r): r is BookingRules => r !== null);
+  const pick = <K extends 'minDurationMinutes' | 'maxDurationMinutes' | 'slotMinutes'>(
+    key: K,
+  ) => levels.find((r) => r[key] !== undefined)?.[key] ?? DEFAULT_BOOKING_RULES[key];
+
+  let maxAdvanceDays: number | null = null;
+  if (role === UserRole.STUDENT || role === UserRole.FACULTY) {
+    for (const r of levels) {
+      const days =
+        r.maxAdvanceDays?.[role as QuotaScope] ?? r.maxAdvanceDays?.default;
+      if (days) {
+        maxAdvanceDays = days;
+        break;
+      }
+    }
+  }
+
+  return {
+    minDurationMinutes: pick('minDurationMinutes'),
+    maxDurationMinutes: pick('maxDurationMinutes'),
+    slotMinutes: pick('slotMinutes'),
+    maxAdvanceDays,
+  };
+};
+
+// A dragged range, in minutes from the top of the grid, fitted to the rules:
+// the start moves back to a slot boundary and the length grows to whole slots
+// and at least the minimum. The grid starts on the hour and every slot length
+// divides an hour, so its boundaries are the same as counted from midnight.
+// Too long is left as it is, for the grid to show as refused.
+export const snapToRules = (
+  startMin: number,
+  endMin: number,
+  rules: EffectiveBookingRules,
+): { startMin: number; endMin: number } => {
+  const slot = rules.slotMinutes;
+  const start = Math.floor(startMin / slot) * slot;
+  const length = Math.max(endMin - start, rules.minDurationMinutes);
+  return { startMin: start, endMin: start + Math.ceil(length / slot) * slot };
+};
+
+// The last day bookable under the horizon, or null when there is none
+export const getLastBookableDay = (
+  rules: EffectiveBookingRules,
+  now: Date = new Date(),
+): Date | null => {
+  if (!rules.maxAdvanceDays) return null;
+  const day = new Date(now);
+  day.setHours(0, 0, 0, 0);
+  day.setDate(day.getDate() + rules.maxAdvanceDays);
+  return day;
+};
+
+export type RuleViolation =
+  | { rule: 'tooShort' | 'tooLong' | 'slot'; minutes: number }
+  | { rule: 'tooFarAhead'; days: number; date: Date };
+
+// Which rule [start, end) breaks first, in the order the server checks them
+export const getRuleViolation = (
+  start: Date,
+  end: Date,
+  rules: EffectiveBookingRules,
+  now: Date = new Date(),
+): RuleViolation | null => {
+  const minutes = (end.getTime() - start.getTime()) / 60000;
+  if (minutes < rules.minDurationMinutes) {
+    return { rule: 'tooShort', minutes: rules.minDurationMinutes };
+  }
+  if (minutes > rules.maxDurationMinutes) {
+    return { rule: 'tooLong', minutes: rules.maxDurationMinutes };
+  }
+  if ((start.getHours() * 60 + start.getMinutes()) % rules.slotMinutes !== 0) {
+    return { rule: 'slot', minutes: rules.slotMinutes };
+  }
+  const lastDay = getLastBookableDay(rules, now);
+  if (lastDay && rules.maxAdvanceDays) {
+    const after = new Date(lastDay);
+    after.setDate(after.getDate() + 1);
+    if (start >= after) {
+      return { rule: 'tooFarAhead', days: rules.maxAdvanceDays, date: lastDay };
+    }
+  }
+  return null;
+};
+
+// What the rules editor works on: every field as typed, blank = not set
+export interface BookingRulesDraft {
+  minDurationMinutes: string;
+  maxDurationMinutes: string;
+  slotMinutes: string;
+  maxAdvanceDays: Record<QuotaScope, string>;
+}
+
+const asText = (value: number | undefined) =>
+  value === undefined ? '' : String(value);
+
+export const rulesDraftFromJson = (
+  json: string | null | undefined,
+): BookingRulesDraft => {
+  const rules = parseBookingRules(json) || {};
+  return {
+    minDurationMinutes: asText(rules.minDurationMinutes),
+    maxDurationMinutes: asText(rules.maxDurationMinutes),
+    slotMinutes: asText(rules.slotMinutes),
+    maxAdvanceDays: Object.fromEntries(
+      QUOTA_SCOPES.map((scope) => [scope, asText(rules.maxAdvanceDays?.[scope])]),
+    ) as Record<QuotaScope, string>,
+  };
+};
+
+const parseWhole = (raw: string, max: number): number | null | false => {
+  if (raw.trim() === '') return null;
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= 1 && value <= max ? value : false;
+};
+
+// The JSON to save: null when nothing is set, false when a field is out of
+// range or the minimum is above the maximum
+export const rulesJsonFromDraft = (
+  draft: BookingRulesDraft,
+): string | null | false => {
+  const rules: BookingRules = {};
+  const min = parseWhole(draft.minDurationMinutes, MAX_RULE_DURATION_MINUTES);
+  const max = parseWhole(draft.maxDurationMinutes, MAX_RULE_DURATION_MINUTES);
+  if (min === false || max === false) return false;
+  if (min !== null && max !== null && min > max) return false;
+  if (min !== null) rules.minDurationMinutes = min;
+  if (max !== null) rules.maxDurationMinutes = max;
+  if (draft.slotMinutes !== '') {
+    const slot = Number(draft.slotMinutes);
+    if (!SLOT_MINUTES_OPTIONS.includes(slot)) return false;
+    rules.slotMinutes = slot;
+  }
+  const advance: Partial<Record<QuotaScope, number>> = {};
+  for (const scope of QUOTA_SCOPES) {
+    const days = parseWhole(draft.maxAdvanceDays[scope], MAX_ADVANCE_DAYS);
+    if (days === false) return false;
+    if (days !== null) advance[scope] = days;
+  }
+  if (Object.keys(advance).length > 0) rules.maxAdvanceDays = advance;
+  return Object.keys(rules).length > 0 ? JSON.stringify(rules) : null;
+};
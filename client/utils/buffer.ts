@@ -0,0 +1,28 @@
+// Same ceiling the server enforces on a room's turnover buffer
+export const MAX_BUFFER_MINUTES = 120;
+
+// A buffer as typed into a room form: blank means none, false means it is not
+// a valid number of minutes
+export const parseBufferInput = (value: string): number | false => {
+  if (value.trim() === '') return 0;
+  const minutes = Number(value);
+  return Number.isInteger(minutes) &&
+    minutes >= 0 &&
+    minutes <= MAX_BUFFER_MINUTES
+    ? minutes
+    : false;
+};
+
+// The turnover bands drawn before and after a booking, none without a buffer
+export const getBufferBands = (
+  bookingStart: Date,
+  bookingEnd: Date,
+  bufferMinutes: number,
+): Array<{ start: Date; end: Date }> => {
+  if (bufferMinutes <= 0) return [];
+  const buffer = bufferMinutes * 60000;
+  return [
+    { start: new Date(bookingStart.getTime() - buffer), end: bookingStart },
+    { start: bookingEnd, end: new Date(bookingEnd.getTime() + buffer) },
+  ];
+};
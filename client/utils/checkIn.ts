@@ -0,0 +1,35 @@
+import { Booking } from '../types';
+
+// Where a booking stands with check-in, from the window the server sends.
+// NONE covers rooms without check-in, bookings that no longer hold the room,
+// and windows that have closed (the scheduler releases those on its next run).
+export type CheckInState = 'NONE' | 'UPCOMING' | 'OPEN' | 'CHECKED_IN';
+
+export const getCheckInState = (booking: Booking, now: Date = new Date()): CheckInState => {
+  if (
+    booking.status !== 'CONFIRMED' ||
+    !booking.checkInOpensAt ||
+    !booking.checkInClosesAt
+  ) {
+    return 'NONE';
+  }
+  if (booking.checkedInAt) return 'CHECKED_IN';
+  if (now < new Date(booking.checkInOpensAt)) return 'UPCOMING';
+  if (now < new Date(booking.checkInClosesAt)) return 'OPEN';
+  return 'NONE';
+};
+
+// Same ceiling the server enforces on any grace or opening window
+export const MAX_CHECK_IN_MINUTES = 240;
+
+// A room or department grace override as typed into a form: blank means
+// inherit (null), false means it is not a valid number of minutes.
+export const parseCheckInInput = (value: string): number | null | false => {
+  if (value.trim() === '') return null;
+  const minutes = Number(value);
+  return Number.isInteger(minutes) &&
+    minutes >= 0 &&
+    minutes <= MAX_CHECK_IN_MINUTES
+    ? minutes
+    : false;
+};
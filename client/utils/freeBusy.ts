@@ -0,0 +1,63 @@
+import { RoomFreeBusy } from '../types';
+
+// Whether [start, end) can be booked as far as the room's time goes: inside
+// one open stretch and clear of every booking, held offer and turnover band.
+// Touching edges do not count, as on the server.
+export const isRangeFree = (
+  start: Date,
+  end: Date,
+  freeBusy: RoomFreeBusy,
+): boolean => {
+  const s = start.getTime();
+  const e = end.getTime();
+  const inside = freeBusy.open.some(
+    (o) => new Date(o.start).getTime() <= s && e <= new Date(o.end).getTime(),
+  );
+  return (
+    inside &&
+    !freeBusy.busy.some(
+      (b) => s < new Date(b.end).getTime() && e > new Date(b.start).getTime(),
+    )
+  );
+};
+
+// A closed stretch of one day, in hours from midnight, cut to the grid
+export interface ClosedSpan {
+  startHour: number;
+  endHour: number;
+  reason: RoomFreeBusy['closed'][number]['reason'];
+  name: string | null;
+}
+
+export const getClosedSpans = (
+  day: Date,
+  freeBusy: RoomFreeBusy,
+  gridOpen: number,
+  gridClose: number,
+): ClosedSpan[] => {
+  const midnight = new Date(day);
+  midnight.setHours(0, 0, 0, 0);
+  const hourOf = (iso: string) =>
+    (new Date(iso).getTime() - midnight.getTime()) / 3600000;
+  return freeBusy.closed
+    .map((c) => ({
+      startHour: Math.max(hourOf(c.start), gridOpen),
+      endHour: Math.min(hourOf(c.end), gridClose),
+      reason: c.reason,
+      name: c.name,
+    }))
+    .filter((c) => c.startHour < c.endHour);
+};
+
+// The words on a closed overlay
+export const describeClosedSpan = (
+  span: ClosedSpan,
+  t: (k: string, o?: any) => string,
+): string => {
+  if (span.reason === 'SEMESTER' && span.name) {
+    return t('calendar.outsideSemester', { name: span.name });
+  }
+  return span.reason === 'EXCEPTION' && span.name
+    ? t('common.closedFor', { name: span.name })
+    : t('common.closed');
+};
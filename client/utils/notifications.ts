@@ -16,7 +16,7 @@ export interface AppNotification {
   urgent: boolean;
 }
 
-// Mirrors canModerateBooking in server/src/routes/bookings.ts. The server is
+// Mirrors canModerateBooking in server/src/services/moderation.ts. The server is
 // still the authority - this only decides what to show.
 export const canModerateRoom = (user: User, room: Room | undefined): boolean => {
   if (isGlobalAdminRole(user.role) || user.role === UserRole.STUDENT_WORKER) {
@@ -33,15 +33,16 @@ export const canModerateAnything = (user: User, rooms: Room[]): boolean =>
 
 const URGENT_WINDOW_MS = 60 * 60 * 1000;
 
+// Only requests waiting on the user: in a room with an approval chain, those
+// at a step they (or someone they stand in for) sign. The server works that
+// out per viewer and marks the booking `awaitsYou`.
 export const buildNotifications = (
-  user: User,
   rooms: Room[],
   bookings: Booking[],
 ): AppNotification[] => {
   const now = Date.now();
   return bookings
-    .filter((b) => b.status === 'PENDING')
-    .filter((b) => canModerateRoom(user, rooms.find((r) => r.id === b.roomId)))
+    .filter((b) => b.status === 'PENDING' && b.awaitsYou)
     .map((b) => ({
       id: `approval-${b.id}`,
       bookingId: b.id,
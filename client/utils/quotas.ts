@@ -0,0 +1,68 @@
+import { QuotaConfig, QuotaLimits, QuotaScope } from '../types';
+
+export const QUOTA_SCOPES: QuotaScope[] = ['default', 'STUDENT', 'FACULTY'];
+
+export const QUOTA_LIMITS: (keyof QuotaLimits)[] = [
+  'maxActiveBookings',
+  'maxHoursPerDay',
+  'maxHoursPerWeek',
+  'maxRoomBookingsPerWeek',
+];
+
+// Same ranges as server/src/services/quotas.ts
+export const QUOTA_MAX: Record<keyof QuotaLimits, number> = {
+  maxActiveBookings: 100,
+  maxHoursPerDay: 24,
+  maxHoursPerWeek: 168,
+  maxRoomBookingsPerWeek: 50,
+};
+
+const HOUR_LIMITS: (keyof QuotaLimits)[] = ['maxHoursPerDay', 'maxHoursPerWeek'];
+
+export const isHourLimit = (limit: keyof QuotaLimits) =>
+  HOUR_LIMITS.includes(limit);
+
+// What the quota editor works on: every field as typed, blank = not set
+export type QuotaDraft = Record<QuotaScope, Record<keyof QuotaLimits, string>>;
+
+export const quotaDraftFromJson = (
+  json: string | null | undefined,
+): QuotaDraft => {
+  let config: QuotaConfig = {};
+  try {
+    config = json ? JSON.parse(json) : {};
+  } catch {
+    // A malformed value is shown as unset rather than breaking the form
+  }
+  return Object.fromEntries(
+    QUOTA_SCOPES.map((scope) => [
+      scope,
+      Object.fromEntries(
+        QUOTA_LIMITS.map((limit) => {
+          const value = config[scope]?.[limit];
+          return [limit, value === undefined ? '' : String(value)];
+        }),
+      ),
+    ]),
+  ) as QuotaDraft;
+};
+
+// The JSON to save: null when nothing is set, false when a field is out of range
+export const quotaJsonFromDraft = (draft: QuotaDraft): string | null | false => {
+  const config: QuotaConfig = {};
+  for (const scope of QUOTA_SCOPES) {
+    const limits: QuotaLimits = {};
+    for (const limit of QUOTA_LIMITS) {
+      const raw = draft[scope][limit].trim();
+      if (raw === '') continue;
+      const value = Number(raw);
+      const stepOk = isHourLimit(limit)
+        ? Number.isInteger(value * 4)
+        : Number.isInteger(value);
+      if (!stepOk || value <= 0 || value > QUOTA_MAX[limit]) return false;
+      limits[limit] = value;
+    }
+    if (Object.keys(limits).length > 0) config[scope] = limits;
+  }
+  return Object.keys(config).length > 0 ? JSON.stringify(config) : null;
+};
@@ -1,10 +1,20 @@
 
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
-import { getServiceSettings, parseOperatingHoursJson, MAX_APPROVAL_LEAD_MINUTES } from '../services/settings.js';
-import { trReq } from '../services/i18n.js';
+import { getServiceSettings, parseOperatingHoursJson, MAX_APPROVAL_LEAD_MINUTES, isValidCheckInMinutes, isValidEscalationHours, isValidStrikeSetting, STRIKE_SETTING_RANGES, StrikeSetting } from '../services/settings.js';
+import { parseQuotaJson } from '../services/quotas.js';
+import { parseBookingRulesJson } from '../services/bookingRules.js';
+import { getLang, trReq } from '../services/i18n.js';
 import { recordAudit } from '../services/audit.js';
 import { AuthRequest } from '../middleware/auth.js';
+import { publishChange } from '../services/liveEvents.js';
+import {
+    PolicyImpact,
+    findPolicyImpact,
+    formatPolicyImpact,
+    parseImpactRequest,
+    resolvePolicyImpact,
+} from '../services/bookingImpact.js';
 
 const prisma = new PrismaClient();
 
@@ -18,9 +28,13 @@ export const getSettings = async (req: Request, res: Response): Promise<void> =>
     }
 };
 
+// With ?dryRun=true nothing is saved: the response lists the future bookings
+// new global hours would break, in rooms that follow them. impactAction and
+// impactBookingIds act on those bookings as for PUT /rooms/:id.
 export const updateSettings = async (req: Request, res: Response): Promise<void> => {
     try {
-        const { serviceName, logoUrl, contactEmail, websiteUrl, description, allowedEmailDomains, operatingHours, allowSelfRegistration, approvalLeadTimeMinutes } = req.body;
+        const { serviceName, logoUrl, contactEmail, websiteUrl, description, allowedEmailDomains, operatingHours, allowSelfRegistration, approvalLeadTimeMinutes, approvalEscalationHours, approvalEscalationLeadHours, waitlistAutoBook, checkInGraceMinutes, checkInOpensMinutes, bookingQuotas, bookingRules } = req.body;
+        const strikeFields = Object.keys(STRIKE_SETTING_RANGES) as StrikeSetting[];
 
         // Reject malformed operating hours instead of silently breaking the schedule
         if (operatingHours && !parseOperatingHoursJson(operatingHours)) {
@@ -38,6 +52,35 @@ export const updateSettings = async (req: Request, res: Response): Promise<void>
             }
         }
 
+        for (const hours of [approvalEscalationHours, approvalEscalationLeadHours]) {
+            if (hours !== undefined && !isValidEscalationHours(Number(hours))) {
+                res.status(400).json({ message: trReq(req, 'invalidEscalationHours') });
+                return;
+            }
+        }
+
+        for (const minutes of [checkInGraceMinutes, checkInOpensMinutes]) {
+            if (minutes !== undefined && !isValidCheckInMinutes(Number(minutes))) {
+                res.status(400).json({ message: trReq(req, 'invalidCheckInMinutes') });
+                return;
+            }
+        }
+
+        if (strikeFields.some((field) => req.body[field] !== undefined && !isValidStrikeSetting(field, Number(req.body[field])))) {
+            res.status(400).json({ message: trReq(req, 'invalidStrikeSettings') });
+            return;
+        }
+
+        if (bookingQuotas && !parseQuotaJson(bookingQuotas)) {
+            res.status(400).json({ message: trReq(req, 'invalidBookingQuotas') });
+            return;
+        }
+
+        if (bookingRules && !parseBookingRulesJson(bookingRules)) {
+            res.status(400).json({ message: trReq(req, 'invalidBookingRules') });
+            return;
+        }
+
         const data = {
             serviceName,
             logoUrl,
@@ -47,11 +90,48 @@ export const updateSettings = async (req: Request, res: Response): Promise<void>
             allowedEmailDomains,
             operatingHours,
             ...(typeof allowSelfRegistration === 'boolean' ? { allowSelfRegistration } : {}),
+            ...(typeof waitlistAutoBook === 'boolean' ? { waitlistAutoBook } : {}),
+            ...(checkInGraceMinutes !== undefined ? { checkInGraceMinutes: Number(checkInGraceMinutes) } : {}),
+            ...(checkInOpensMinutes !== undefined ? { checkInOpensMinutes: Number(checkInOpensMinutes) } : {}),
+            ...(bookingQuotas !== undefined ? { bookingQuotas: bookingQuotas || null } : {}),
+            ...(bookingRules !== undefined ? { bookingRules: bookingRules || null } : {}),
             ...(approvalLeadTimeMinutes !== undefined
                 ? { approvalLeadTimeMinutes: Number(approvalLeadTimeMinutes) }
                 : {}),
+            ...(approvalEscalationHours !== undefined
+                ? { approvalEscalationHours: Number(approvalEscalationHours) }
+                : {}),
+            ...(approvalEscalationLeadHours !== undefined
+                ? { approvalEscalationLeadHours: Number(approvalEscalationLeadHours) }
+                : {}),
+            ...Object.fromEntries(
+                strikeFields.filter((field) => req.body[field] !== undefined).map((field) => [field, Number(req.body[field])])
+            ),
         };
 
+        const impactRequest = parseImpactRequest(req.body);
+        if (impactRequest === null) {
+            res.status(400).json({ message: trReq(req, 'invalidImpactAction') });
+            return;
+        }
+        const dryRun = req.query.dryRun === 'true';
+        let impacts: PolicyImpact[] = [];
+        if ((dryRun || impactRequest) && operatingHours !== undefined) {
+            const current = await getServiceSettings();
+            impacts = await findPolicyImpact(
+                {
+                    rooms: await prisma.room.findMany({ include: { department: true } }),
+                    apply: (room) => room,
+                    settings: { ...current, operatingHours },
+                },
+                getLang(req)
+            );
+        }
+        if (dryRun) {
+            res.json({ dryRun: true, affectedBookings: impacts.map(formatPolicyImpact) });
+            return;
+        }
+
         const existing = await prisma.serviceSettings.findFirst();
 
         let settings;
@@ -73,6 +153,16 @@ export const updateSettings = async (req: Request, res: Response): Promise<void>
             if (existing.operatingHours !== settings.operatingHours) changed.push('operatingHours');
             if (existing.allowSelfRegistration !== settings.allowSelfRegistration) changed.push('allowSelfRegistration');
             if (existing.approvalLeadTimeMinutes !== settings.approvalLeadTimeMinutes) changed.push('approvalLeadTimeMinutes');
+            if (existing.approvalEscalationHours !== settings.approvalEscalationHours) changed.push('approvalEscalationHours');
+            if (existing.approvalEscalationLeadHours !== settings.approvalEscalationLeadHours) changed.push('approvalEscalationLeadHours');
+            if (existing.waitlistAutoBook !== settings.waitlistAutoBook) changed.push('waitlistAutoBook');
+            if (existing.checkInGraceMinutes !== settings.checkInGraceMinutes) changed.push('checkInGraceMinutes');
+            if (existing.checkInOpensMinutes !== settings.checkInOpensMinutes) changed.push('checkInOpensMinutes');
+            if (existing.bookingQuotas !== settings.bookingQuotas) changed.push('bookingQuotas');
+            if (existing.bookingRules !== settings.bookingRules) changed.push('bookingRules');
+            for (const field of strikeFields) {
+                if (existing[field] !== settings[field]) changed.push(field);
+            }
         }
         await recordAudit(req as AuthRequest, {
             action: 'SETTINGS_UPDATE',
@@ -89,6 +179,16 @@ export const updateSettings = async (req: Request, res: Response): Promise<void>
             },
         });
 
+        if (impactRequest) {
+            await resolvePolicyImpact(
+                req as AuthRequest,
+                impacts.filter((i) => impactRequest.bookingIds.has(i.booking.id)),
+                impactRequest.action,
+                { targetType: 'ServiceSettings', targetId: settings.id, targetLabel: settings.serviceName }
+            );
+        }
+
+        publishChange('settings');
         res.json(settings);
     } catch (error) {
         console.error('Error updating settings:', error);
@@ -12,6 +12,9 @@ import { settingsRouter } from './routes/settingsRoutes.js';
 import { departmentRouter } from './routes/departments.js';
 import { scheduleExceptionRouter } from './routes/scheduleExceptions.js';
 import { auditRouter } from './routes/audit.js';
+import { waitlistRouter } from './routes/waitlist.js';
+import { eventRouter } from './routes/events.js';
+import { approverRouter } from './routes/approvers.js';
 import { apiLimiter } from './middleware/security.js';
 import { startBookingScheduler } from './services/bookingScheduler.js';
 import logger from './utils/logger.js';
@@ -55,12 +58,15 @@ app.use('/api/auth', authRouter);
 app.use('/api/users', userRouter);
 app.use('/api/rooms', roomRouter);
 app.use('/api/bookings', bookingRouter);
+app.use('/api/waitlist', waitlistRouter);
 app.use('/api/admin', adminRouter);
 app.use('/api/semesters', semesterRouter);
 app.use('/api/settings', settingsRouter);
 app.use('/api/departments', departmentRouter);
 app.use('/api/schedule-exceptions', scheduleExceptionRouter);
 app.use('/api/audit', auditRouter);
+app.use('/api/events', eventRouter);
+app.use('/api/approvers', approverRouter);
 
 // Health check
 app.get('/api/health', (req, res) => {
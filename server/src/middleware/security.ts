@@ -21,7 +21,7 @@ export const authLimiter = rateLimit({
 // General API rate limiter
 export const apiLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 3000, // Increased to 3000 to accommodate client-side polling (approx 2 requests every 5s = ~360 requests/15min per client tab)
+  max: 3000, // Room for a tab that lost its event stream and fell back to polling every 5s (a few requests per poll)
   message: limitMessage('tooManyRequests'),
   standardHeaders: true,
   legacyHeaders: false,
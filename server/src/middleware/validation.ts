@@ -1,5 +1,6 @@
-import { body, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
+import { BookingStatus } from '@prisma/client';
 import { isMessageKey, trReq } from '../services/i18n.js';
 
 // Validators carry a message KEY rather than English prose, so the text is
@@ -36,5 +37,133 @@ export const validateBooking = [
   body('endTime').isISO8601().withMessage('invalidEndTime'),
   body('purpose').trim().notEmpty().withMessage('purposeRequired'),
   body('attendees').isArray({ min: 1 }).withMessage('attendeeRequired'),
+  // Booking for someone else (staff and department admins): an existing user,
+  // or a guest made from a name and email, plus optional rule overrides
+  body('userId').optional({ values: 'null' }).isString().notEmpty().withMessage('invalidBookingFor'),
+  body('guest').optional({ values: 'null' }).isObject().withMessage('invalidGuest'),
+  body('guest.name').if(body('guest').isObject()).trim().notEmpty().withMessage('guestNameRequired'),
+  body('guest.email').if(body('guest').isObject()).trim().isEmail().withMessage('invalidEmail'),
+  body('overrideLeadTime').optional().isBoolean().withMessage('invalidOverride'),
+  body('overrideQuota').optional().isBoolean().withMessage('invalidOverride'),
+  handleValidationErrors,
+];
+
+// Editing a booking: every field is optional, but any that is sent must be valid
+export const validateBookingUpdate = [
+  body('roomId').optional().notEmpty().withMessage('roomIdRequired'),
+  body('startTime').optional().isISO8601().withMessage('invalidStartTime'),
+  body('endTime').optional().isISO8601().withMessage('invalidEndTime'),
+  body('purpose').optional().trim().notEmpty().withMessage('purposeRequired'),
+  body('attendees').optional().isArray({ min: 1 }).withMessage('attendeeRequired'),
+  handleValidationErrors,
+];
+
+// Countering a pending request: another time, optionally in another room, with
+// an optional note to the booker
+export const MAX_PROPOSAL_MESSAGE = 500;
+
+export const validateBookingProposal = [
+  body('roomId').optional().notEmpty().withMessage('roomIdRequired'),
+  body('startTime').isISO8601().withMessage('invalidStartTime'),
+  body('endTime').isISO8601().withMessage('invalidEndTime'),
+  body('message')
+    .optional({ values: 'null' })
+    .isString()
+    .isLength({ max: MAX_PROPOSAL_MESSAGE })
+    .withMessage('proposalMessageTooLong'),
+  handleValidationErrors,
+];
+
+// One message in a booking's comment thread
+export const MAX_COMMENT_LENGTH = 2000;
+
+export const validateBookingComment = [
+  body('body').isString().withMessage('commentRequired').bail().trim().notEmpty().withMessage('commentRequired'),
+  body('body').isLength({ max: MAX_COMMENT_LENGTH }).withMessage('commentTooLong'),
+  handleValidationErrors,
+];
+
+// A recurring series takes the first occurrence plus a repeat rule; the end is
+// an inclusive date, an occurrence count, or (with neither) the active semester
+export const validateBookingSeries = [
+  body('roomId').notEmpty().withMessage('roomIdRequired'),
+  body('startTime').isISO8601().withMessage('invalidStartTime'),
+  body('endTime').isISO8601().withMessage('invalidEndTime'),
+  body('purpose').trim().notEmpty().withMessage('purposeRequired'),
+  body('attendees').isArray({ min: 1 }).withMessage('attendeeRequired'),
+  body('frequency').isIn(['WEEKLY', 'BIWEEKLY']).withMessage('invalidRecurrence'),
+  body('until').optional({ values: 'null' }).isISO8601().withMessage('invalidRecurrenceEnd'),
+  body('count').optional({ values: 'null' }).isInt({ min: 2, max: 52 }).withMessage('invalidOccurrenceCount'),
+  handleValidationErrors,
+];
+
+// An event books several rooms together under one purpose; each room has its
+// own time and attendees
+export const MAX_EVENT_ROOMS = 10;
+
+export const validateBookingEvent = [
+  body('purpose').trim().notEmpty().withMessage('purposeRequired'),
+  body('bookings').isArray({ min: 2, max: MAX_EVENT_ROOMS }).withMessage('eventRoomCount'),
+  body('bookings.*.roomId').notEmpty().withMessage('roomIdRequired'),
+  body('bookings.*.startTime').isISO8601().withMessage('invalidStartTime'),
+  body('bookings.*.endTime').isISO8601().withMessage('invalidEndTime'),
+  body('bookings.*.attendees').isArray({ min: 1 }).withMessage('attendeeRequired'),
+  handleValidationErrors,
+];
+
+// Listing bookings: every filter is optional and given once - a repeated
+// parameter arrives as an array. `status` is a comma-separated list; the
+// cursor is the nextCursor of the page before, opaque to the client.
+export const validateBookingQuery = [
+  query('from')
+    .optional()
+    .isString()
+    .withMessage('invalidRangeStart')
+    .bail()
+    .isISO8601()
+    .withMessage('invalidRangeStart'),
+  query('to')
+    .optional()
+    .isString()
+    .withMessage('invalidRangeEnd')
+    .bail()
+    .isISO8601()
+    .withMessage('invalidRangeEnd'),
+  query('roomId').optional().isString().withMessage('invalidRoomFilter'),
+  query('departmentId').optional().isString().withMessage('invalidDepartmentFilter'),
+  query('userId').optional().isString().withMessage('invalidUserFilter'),
+  query('cursor').optional().isString().withMessage('invalidCursor'),
+  query('status')
+    .optional()
+    .isString()
+    .withMessage('invalidStatusFilter')
+    .bail()
+    .custom((value: string) =>
+      String(value)
+        .split(',')
+        .every((s) => (Object.values(BookingStatus) as string[]).includes(s))
+    )
+    .withMessage('invalidStatusFilter'),
+  query('limit').optional().isInt({ min: 1, max: 500 }).withMessage('invalidPageSize'),
+  query('order').optional().isIn(['asc', 'desc']).withMessage('invalidSortOrder'),
+  handleValidationErrors,
+];
+
+// Free/busy for a range: `roomIds` is a comma-separated list, all rooms when
+// left out
+export const validateFreeBusyQuery = [
+  query('from').isISO8601().withMessage('invalidRangeStart'),
+  query('to').isISO8601().withMessage('invalidRangeEnd'),
+  query('roomIds').optional().isString().withMessage('invalidRoomFilter'),
+  handleValidationErrors,
+];
+
+// Finding a free room: a time range, how many people, and optionally the
+// features the room must have as a comma-separated list
+export const validateAvailabilityQuery = [
+  query('start').isISO8601().withMessage('invalidStartTime'),
+  query('end').isISO8601().withMessage('invalidEndTime'),
+  query('people').isInt({ min: 1 }).withMessage('invalidHeadcount'),
+  query('features').optional().isString().withMessage('invalidFeatureFilter'),
   handleValidationErrors,
 ];
@@ -0,0 +1,144 @@
+import { Router, Response } from 'express';
+import { ApprovalDelegation, PrismaClient } from '@prisma/client';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import { isGlobalAdmin } from '../services/permissions.js';
+import { isEligibleApprover, listEligibleApprovers } from '../services/approvals.js';
+import { recordAudit } from '../services/audit.js';
+import { getLang, tr, trReq } from '../services/i18n.js';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+router.use(authenticateToken);
+
+// Long enough for a sabbatical, short enough not to be forgotten
+const MAX_DELEGATION_DAYS = 366;
+
+type Person = { id: string; name: string; email: string };
+
+const person = { select: { id: true, name: true, email: true } } as const;
+
+const formatDelegation = (d: ApprovalDelegation & { delegator: Person; delegate: Person }) => ({
+  id: d.id,
+  delegator: d.delegator,
+  delegate: d.delegate,
+  startsAt: d.startsAt.toISOString(),
+  endsAt: d.endsAt.toISOString(),
+  createdAt: d.createdAt.toISOString(),
+});
+
+// Everyone who can give approvals: the people an approval chain step can
+// name and a delegation can go to
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    if (!(await isEligibleApprover(req.userId!))) {
+      return res.status(403).json({ error: trReq(req, 'notAnApprover') });
+    }
+    res.json(await listEligibleApprovers());
+  } catch (error) {
+    logger.error('Error fetching approvers:', error);
+    res.status(500).json({ error: trReq(req, 'fetchApproversFailed') });
+  }
+});
+
+// The signed-in user's delegations not yet over: those they gave and those
+// they hold, soonest first
+router.get('/delegations', async (req: AuthRequest, res) => {
+  try {
+    const delegations = await prisma.approvalDelegation.findMany({
+      where: {
+        OR: [{ delegatorId: req.userId }, { delegateId: req.userId }],
+        endsAt: { gt: new Date() },
+      },
+      include: { delegator: person, delegate: person },
+      orderBy: { startsAt: 'asc' },
+    });
+    res.json(delegations.map(formatDelegation));
+  } catch (error) {
+    logger.error('Error fetching delegations:', error);
+    res.status(500).json({ error: trReq(req, 'fetchDelegationsFailed') });
+  }
+});
+
+// Pass the signed-in user's approvals to someone else over [startsAt, endsAt)
+router.post('/delegations', async (req: AuthRequest, res: Response) => {
+  try {
+    const lang = getLang(req);
+    const { delegateId, startsAt, endsAt } = req.body;
+    const userId = req.userId!;
+
+    if (!(await isEligibleApprover(userId))) {
+      return res.status(403).json({ error: tr(lang, 'notAnApprover') });
+    }
+
+    const start = new Date(startsAt);
+    const end = new Date(endsAt);
+    const valid =
+      typeof delegateId === 'string' &&
+      delegateId !== userId &&
+      !isNaN(start.getTime()) &&
+      !isNaN(end.getTime()) &&
+      start < end &&
+      end > new Date() &&
+      end.getTime() - start.getTime() <= MAX_DELEGATION_DAYS * 24 * 3600000;
+    if (!valid || !(await isEligibleApprover(delegateId))) {
+      return res.status(400).json({ error: tr(lang, 'invalidDelegation') });
+    }
+
+    const delegation = await prisma.approvalDelegation.create({
+      data: { delegatorId: userId, delegateId, startsAt: start, endsAt: end },
+      include: { delegator: person, delegate: person },
+    });
+
+    logger.info(`User ${userId} delegated approvals to ${delegateId} until ${end.toISOString()}`);
+    await recordAudit(req, {
+      action: 'DELEGATION_CREATE',
+      targetType: 'ApprovalDelegation',
+      targetId: delegation.id,
+      targetLabel: `${delegation.delegator.name} → ${delegation.delegate.name}`,
+      summary: `Delegated approvals to ${delegation.delegate.email}`,
+      metadata: { startsAt: start.toISOString(), endsAt: end.toISOString() },
+    });
+
+    res.status(201).json(formatDelegation(delegation));
+  } catch (error) {
+    logger.error('Error creating delegation:', error);
+    res.status(500).json({ error: trReq(req, 'createDelegationFailed') });
+  }
+});
+
+// End a delegation early, or withdraw one not yet started. The delegator or a
+// global admin may; the delegate cannot hand it back by themselves.
+router.delete('/delegations/:id', async (req: AuthRequest, res) => {
+  try {
+    const lang = getLang(req);
+    const delegation = await prisma.approvalDelegation.findUnique({
+      where: { id: req.params.id },
+      include: { delegator: person, delegate: person },
+    });
+
+    if (!delegation || (delegation.delegatorId !== req.userId && !isGlobalAdmin(req.userRole))) {
+      return res.status(404).json({ error: tr(lang, 'delegationNotFound') });
+    }
+
+    await prisma.approvalDelegation.delete({ where: { id: delegation.id } });
+
+    logger.info(`User ${req.userId} ended delegation ${delegation.id}`);
+    await recordAudit(req, {
+      action: 'DELEGATION_DELETE',
+      targetType: 'ApprovalDelegation',
+      targetId: delegation.id,
+      targetLabel: `${delegation.delegator.name} → ${delegation.delegate.name}`,
+      summary: `Ended the delegation of approvals to ${delegation.delegate.email}`,
+      metadata: { startsAt: delegation.startsAt.toISOString(), endsAt: delegation.endsAt.toISOString() },
+    });
+
+    res.json({ id: delegation.id });
+  } catch (error) {
+    logger.error('Error deleting delegation:', error);
+    res.status(500).json({ error: trReq(req, 'deleteDelegationFailed') });
+  }
+});
+
+export { router as approverRouter };
@@ -131,8 +131,9 @@ router.post('/microsoft/login', async (req: Request, res: Response) => {
     } else {
       const updates: { provider?: string; role?: 'SUPERADMIN' } = {};
 
-      // Note that they used SSO if the account was created locally
-      if (user.provider === 'LOCAL') {
+      // Note that they used SSO if the account was created locally, or claim
+      // a guest account staff made for this email at the desk
+      if (user.provider === 'LOCAL' || user.provider === 'GUEST') {
         updates.provider = 'MICROSOFT';
       }
 
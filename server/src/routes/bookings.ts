@@ -1,13 +1,63 @@
 import { Router, Response } from 'express';
-import { PrismaClient, BookingStatus } from '@prisma/client';
+import { PrismaClient, Prisma, BookingStatus, ProposalStatus, RecurrenceFrequency, User } from '@prisma/client';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
-import { validateBooking } from '../middleware/validation.js';
+import {
+  validateBooking,
+  validateBookingComment,
+  validateBookingEvent,
+  validateBookingProposal,
+  validateBookingQuery,
+  validateBookingSeries,
+  validateBookingUpdate,
+} from '../middleware/validation.js';
 import logger from '../utils/logger.js';
-import { sendCancellationEmail, sendReminderEmail, sendApprovalEmail, sendApprovalRequestEmail, parseEmails } from '../services/email.js';
-import { getServiceSettings, getEffectiveOperatingHours, checkBookingSchedule, getApprovalLeadMinutes, formatLeadTime } from '../services/settings.js';
+import {
+  sendCancellationEmail,
+  sendReminderEmail,
+  sendBookingUpdatedEmail,
+  sendBookedOnBehalfEmail,
+} from '../services/email.js';
+import { notifyApprovers } from '../services/approvals.js';
+import { promoteWaitlist } from '../services/waitlist.js';
+import { getCheckInWindow, getServiceSettings } from '../services/settings.js';
+import {
+  BLOCKING_STATUSES,
+  checkBookingSlot,
+  checkRoomPolicy,
+  expandRecurrence,
+  findSlotClash,
+  heldOffersWhere,
+  heldProposalsWhere,
+  isBufferOnlyClash,
+  overlappingBookingsWhere,
+} from '../services/bookingValidation.js';
 import { getManagedDepartmentIds, isStaff } from '../services/permissions.js';
+import { PlannedSlot, checkBookingQuota, getEffectiveQuota, getQuotaUsage } from '../services/quotas.js';
+import { checkBookingBan, isLateCancellation, recordStrike } from '../services/strikes.js';
 import { recordAudit } from '../services/audit.js';
-import {getLang, asLang, tr, statusName, dateLocaleTag, trReq } from '../services/i18n.js';
+import { withRoomLocks } from '../services/bookingLocks.js';
+import { decideInitialStatus, recordAutoApproval } from '../services/autoApproval.js';
+import {
+  MAX_BULK_MODERATION,
+  approvePendingBooking,
+  canModerateBooking,
+  rejectPendingBooking,
+} from '../services/moderation.js';
+import { suggestAlternativeSlots } from '../services/slotSuggestions.js';
+import { publishBookingChange } from '../services/liveEvents.js';
+import {
+  BOOKING_LIST_INCLUDE,
+  approvalProgress,
+  awaitsViewer,
+  checkInFields,
+  escalationFields,
+  formatBookingForViewer,
+  getBookingViewer,
+  openProposal,
+} from '../services/bookingView.js';
+import { acceptProposal, declineProposal, proposeAlternative } from '../services/proposals.js';
+import { addBookingComment, listBookingComments } from '../services/bookingComments.js';
+import { Lang, getLang, asLang, tr, statusName, trReq, dateLocaleTag } from '../services/i18n.js';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -15,64 +65,135 @@ const prisma = new PrismaClient();
 // Apply authentication to all booking routes
 router.use(authenticateToken);
 
-// PENDING requests hold their slot, so both statuses block overlapping bookings
-const BLOCKING_STATUSES = [BookingStatus.CONFIRMED, BookingStatus.PENDING];
+// Who a new booking is for: the caller, or - for staff, and department admins
+// booking a room of theirs - another user named by id, or a guest given by
+// name and email. A guest email that already has an account books for that
+// account; otherwise `newGuest` is returned and the account is only created
+// once the booking is written.
+const resolveBooker = async (
+  req: AuthRequest,
+  departmentId: string | null,
+  lang: Lang
+): Promise<
+  | { ok: true; booker: User | null; newGuest: { name: string; email: string } | null; onBehalf: boolean }
+  | { ok: false; status: number; error: string }
+> => {
+  const { userId, guest } = req.body;
+  if (userId && guest) {
+    return { ok: false, status: 400, error: tr(lang, 'bookForUserOrGuest') };
+  }
+  if (!guest && (!userId || userId === req.userId)) {
+    const self = await prisma.user.findUnique({ where: { id: req.userId! } });
+    return { ok: true, booker: self, newGuest: null, onBehalf: false };
+  }
+  if (!(await canModerateBooking(req, departmentId))) {
+    return { ok: false, status: 403, error: tr(lang, 'bookForOthersDenied') };
+  }
 
-// Staff, or a department admin of the room's department, may approve/reject/cancel
-const canModerateBooking = async (req: AuthRequest, departmentId: string | null): Promise<boolean> => {
-  if (isStaff(req.userRole)) return true;
-  const managed = await getManagedDepartmentIds(req.userId);
-  return !!departmentId && managed.includes(departmentId);
+  const email = guest ? String(guest.email).trim().toLowerCase() : null;
+  const booker = await prisma.user.findUnique({ where: email ? { email } : { id: userId } });
+  if (!booker) {
+    return email
+      ? { ok: true, booker: null, newGuest: { name: String(guest.name).trim(), email }, onBehalf: true }
+      : { ok: false, status: 404, error: tr(lang, 'bookForUserNotFound') };
+  }
+  if (booker.status !== 'ACTIVE') {
+    return { ok: false, status: 400, error: tr(lang, 'bookForUserInactive') };
+  }
+  return { ok: true, booker, newGuest: null, onBehalf: booker.id !== req.userId };
 };
 
-// Get all bookings with user and room details
-router.get('/', async (req: AuthRequest, res) => {
+// An event as the API returns it: the organizer and every room in it
+const formatBookingEvent = (
+  event: Prisma.BookingEventGetPayload<{ include: { user: true; bookings: true } }>,
+  roomById: Map<string, { name: string }>
+) => ({
+  id: event.id,
+  purpose: event.purpose,
+  userId: event.userId,
+  organizer: event.user.name,
+  createdAt: event.createdAt.toISOString(),
+  bookings: event.bookings.map((b) => ({
+    id: b.id,
+    roomId: b.roomId,
+    roomName: roomById.get(b.roomId)?.name ?? null,
+    startTime: b.startTime.toISOString(),
+    endTime: b.endTime.toISOString(),
+    status: b.status,
+  })),
+});
+
+// Page size when the caller does not ask for one
+const DEFAULT_PAGE_SIZE = 200;
+
+// A page ends on a booking; the next one starts right after it in the same
+// order. The cursor is its start time and id, so it still works when that
+// booking has since been cancelled or deleted.
+const encodeCursor = (booking: { startTime: Date; id: string }) =>
+  Buffer.from(`${booking.startTime.toISOString()}|${booking.id}`).toString('base64url');
+
+const decodeCursor = (cursor: string): { startTime: Date; id: string } | null => {
+  const [time, id] = Buffer.from(cursor, 'base64url').toString().split('|');
+  const startTime = new Date(time);
+  return id && !isNaN(startTime.getTime()) ? { startTime, id } : null;
+};
+
+// List bookings with user and room details, one page at a time. Filters:
+// from/to (bookings overlapping that range), roomId, departmentId (of the
+// room), status (comma-separated) and userId - anyone may ask for their own,
+// only staff for someone else's. Ordered by start time (order=desc for newest
+// first); pass the returned nextCursor back as `cursor` for the next page.
+router.get('/', validateBookingQuery, async (req: AuthRequest, res: Response) => {
   try {
-    const bookings = await prisma.booking.findMany({
-      include: {
-        user: true,
-        room: true,
-        attendees: true,
-      },
-      orderBy: {
-        startTime: 'asc',
-      },
-    });
+    const { from, to, roomId, departmentId, status, userId, cursor } = req.query as Record<string, string | undefined>;
+    const order: Prisma.SortOrder = req.query.order === 'desc' ? 'desc' : 'asc';
+    const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_PAGE_SIZE;
 
-    // Staff see everything. Everyone else - STUDENT, FACULTY, or any base role
-    // added later - gets details only for their own bookings and for the
-    // departments they were explicitly granted; the rest are redacted to a
-    // busy slot. Mirrors the check on GET /bookings/:id.
-    const staff = isStaff(req.userRole);
-    const managedDepartmentIds = staff ? [] : await getManagedDepartmentIds(req.userId);
-
-    // Format bookings to match client expectations
-    const formattedBookings = bookings.map((booking: any) => {
-      const isOwner = booking.userId === req.userId;
-      const managesRoom = !!booking.room.departmentId && managedDepartmentIds.includes(booking.room.departmentId);
-      const canViewDetails = staff || isOwner || managesRoom;
-
-      return {
-        id: booking.id,
-        roomId: booking.roomId,
-        userId: booking.userId,
-        userDisplay: canViewDetails ? booking.user.name : null,
-        userEmail: canViewDetails ? booking.user.email : null,
-        startTime: booking.startTime.toISOString(),
-        endTime: booking.endTime.toISOString(),
-        purpose: canViewDetails ? booking.purpose : null,
-        attendees: canViewDetails ? booking.attendees.map((a: any) => ({
-          name: a.name,
-          studentId: a.studentId,
-          isCompanion: a.isCompanion,
-        })) : [],
-        status: booking.status,
-        cancellationReason: canViewDetails ? booking.cancellationReason : null,
-        createdAt: booking.createdAt.toISOString(),
-      };
+    if (userId && userId !== req.userId && !isStaff(req.userRole)) {
+      return res.status(403).json({ error: trReq(req, 'permissionDenied') });
+    }
+
+    const after = cursor ? decodeCursor(cursor) : null;
+    if (cursor && !after) {
+      return res.status(400).json({ error: trReq(req, 'invalidCursor') });
+    }
+    const beyond = order === 'asc' ? 'gt' : 'lt';
+
+    const where: Prisma.BookingWhereInput = {
+      ...(from && { endTime: { gt: new Date(from) } }),
+      ...(to && { startTime: { lt: new Date(to) } }),
+      ...(roomId && { roomId }),
+      ...(departmentId && { room: { departmentId: { in: departmentId.split(',') } } }),
+      ...(status && { status: { in: status.split(',') as BookingStatus[] } }),
+      ...(userId && { userId }),
+      ...(after && {
+        AND: [
+          {
+            OR: [
+              { startTime: { [beyond]: after.startTime } },
+              { startTime: after.startTime, id: { [beyond]: after.id } },
+            ],
+          },
+        ],
+      }),
+    };
+
+    // One extra row says whether there is a page after this one
+    const rows = await prisma.booking.findMany({
+      where,
+      include: BOOKING_LIST_INCLUDE,
+      orderBy: [{ startTime: order }, { id: order }],
+      take: limit + 1,
     });
+    const bookings = rows.slice(0, limit);
+    const nextCursor = rows.length > limit ? encodeCursor(bookings[bookings.length - 1]) : null;
 
-    res.json(formattedBookings);
+    const viewer = await getBookingViewer(req.userId!, req.userRole);
+    const settings = await getServiceSettings();
+    res.json({
+      bookings: bookings.map((booking) => formatBookingForViewer(booking, viewer, settings)),
+      nextCursor,
+    });
   } catch (error) {
     console.error('Error fetching bookings:', error);
     res.status(500).json({ error: trReq(req, 'fetchBookingsFailed') });
@@ -88,44 +209,39 @@ router.post('/check-conflicts', async (req: AuthRequest, res) => {
       return res.status(400).json({ error: trReq(req, 'missingFields') });
     }
 
-    // Find all overlapping bookings
-    const conflicts = await prisma.booking.findMany({
-      where: {
-        roomId,
-        status: { in: BLOCKING_STATUSES },
-        OR: [
-          {
-            AND: [
-              { startTime: { lte: new Date(startTime) } },
-              { endTime: { gt: new Date(startTime) } },
-            ],
-          },
-          {
-            AND: [
-              { startTime: { lt: new Date(endTime) } },
-              { endTime: { gte: new Date(endTime) } },
-            ],
-          },
-          {
-            AND: [
-              { startTime: { gte: new Date(startTime) } },
-              { endTime: { lte: new Date(endTime) } },
-            ],
-          },
-        ],
-      },
+    // Find all overlapping bookings, plus freed slots held for the waitlist
+    // and slots held by open proposals, counting the room's turnover buffer
+    // around each
+    const start = new Date(startTime);
+    const end = new Date(endTime);
+    const room = await prisma.room.findUnique({ where: { id: roomId }, select: { bufferMinutes: true } });
+    const bufferMinutes = room?.bufferMinutes ?? 0;
+    const bookings = await prisma.booking.findMany({
+      where: overlappingBookingsWhere(roomId, start, end, undefined, bufferMinutes),
       include: {
         user: true,
       },
     });
+    const offers = await prisma.waitlistEntry.findMany({
+      where: heldOffersWhere(roomId, start, end, new Date(), undefined, bufferMinutes),
+      include: { user: true },
+    });
+    // A proposal holds its slot for the request's owner
+    const proposals = await prisma.bookingProposal.findMany({
+      where: heldProposalsWhere(roomId, start, end, new Date(), undefined, bufferMinutes),
+      include: { booking: { include: { user: true } } },
+    });
+    const conflicts = [...bookings, ...offers, ...proposals.map((p) => ({ ...p, user: p.booking.user }))];
 
     res.json({
       hasConflict: conflicts.length > 0,
+      bufferMinutes,
       conflicts: conflicts.map((c: any) => ({
         id: c.id,
         startTime: c.startTime.toISOString(),
         endTime: c.endTime.toISOString(),
         userDisplay: c.user.name,
+        bufferOnly: isBufferOnlyClash(start, end, c),
       })),
     });
   } catch (error) {
@@ -134,29 +250,91 @@ router.post('/check-conflicts', async (req: AuthRequest, res) => {
   }
 });
 
+// Other times and rooms for a slot the booking form shows as taken, the same
+// suggestions a refused create carries. `people` counts the booker.
+router.post('/suggestions', async (req: AuthRequest, res) => {
+  try {
+    const { roomId, startTime, endTime, people } = req.body;
+    const lang = getLang(req);
+
+    if (!roomId || !startTime || !endTime) {
+      return res.status(400).json({ error: tr(lang, 'missingFields') });
+    }
+    const start = new Date(startTime);
+    const end = new Date(endTime);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      return res.status(400).json({ error: tr(lang, 'endAfterStart') });
+    }
+    const headcount = Number(people);
+    if (!Number.isInteger(headcount) || headcount < 1) {
+      return res.status(400).json({ error: tr(lang, 'invalidHeadcount') });
+    }
+
+    const room = await prisma.room.findUnique({ where: { id: roomId }, include: { department: true } });
+    if (!room) {
+      return res.status(404).json({ error: tr(lang, 'roomNotFound') });
+    }
+
+    const settings = await getServiceSettings();
+    res.json(await suggestAlternativeSlots(room, start, end, headcount, settings, lang, { role: req.userRole }));
+  } catch (error) {
+    logger.error('Error suggesting alternative slots:', error);
+    res.status(500).json({ error: trReq(req, 'suggestSlotsFailed') });
+  }
+});
+
+// The current user's quota for a room, and how much of it they have used on
+// the day and in the week of `start`, for the booking form to show up front.
+// Limits that are not set are left out; staff get an empty set.
+router.get('/quota', async (req: AuthRequest, res) => {
+  try {
+    const { roomId, start } = req.query;
+    const date = typeof start === 'string' ? new Date(start) : new Date();
+    if (typeof roomId !== 'string') {
+      return res.status(400).json({ error: trReq(req, 'roomIdRequired') });
+    }
+    if (isNaN(date.getTime())) {
+      return res.status(400).json({ error: trReq(req, 'invalidStartTime') });
+    }
+
+    const room = await prisma.room.findUnique({ where: { id: roomId }, include: { department: true } });
+    if (!room) {
+      return res.status(404).json({ error: trReq(req, 'roomNotFound') });
+    }
+
+    const settings = await getServiceSettings();
+    const limits = isStaff(req.userRole)
+      ? {}
+      : getEffectiveQuota(settings, room.department?.bookingQuotas, req.userRole);
+    const usage = await getQuotaUsage(req.userId!, room.id, date);
+
+    res.json({ limits, usage });
+  } catch (error) {
+    logger.error('Error fetching quota:', error);
+    res.status(500).json({ error: trReq(req, 'fetchQuotaFailed') });
+  }
+});
+
 // Get booking by ID
 router.get('/:id', async (req: AuthRequest, res) => {
   try {
     const booking = await prisma.booking.findUnique({
       where: { id: req.params.id },
-      include: {
-        user: true,
-        room: true,
-        attendees: true,
-      },
+      include: BOOKING_LIST_INCLUDE,
     });
 
     if (!booking) {
       return res.status(404).json({ error: trReq(req, 'bookingNotFound') });
     }
 
-    // Full details only for the owner, staff, or a department admin of the room
+    // Full details only for the owner, staff, a department admin of the room,
+    // or whoever its approval now waits on
     const isOwner = booking.userId === req.userId;
-    if (!isOwner && !isStaff(req.userRole)) {
-      const managed = await getManagedDepartmentIds(req.userId);
-      if (!booking.room.departmentId || !managed.includes(booking.room.departmentId)) {
-        return res.status(403).json({ error: trReq(req, 'permissionDenied') });
-      }
+    const viewer = await getBookingViewer(req.userId!, req.userRole);
+    const awaitsYou = awaitsViewer(booking, viewer);
+    const managesRoom = !!booking.room.departmentId && viewer.managedDepartmentIds.includes(booking.room.departmentId);
+    if (!isOwner && !viewer.staff && !awaitsYou && !managesRoom) {
+      return res.status(403).json({ error: trReq(req, 'permissionDenied') });
     }
 
     res.json({
@@ -172,6 +350,16 @@ router.get('/:id', async (req: AuthRequest, res) => {
       status: booking.status,
       cancellationReason: booking.cancellationReason,
       termsAcceptedAt: booking.termsAcceptedAt ? booking.termsAcceptedAt.toISOString() : null,
+      seriesId: booking.seriesId,
+      eventId: booking.eventId,
+      createdById: booking.createdById,
+      createdByName: booking.createdBy?.name ?? null,
+      approval: approvalProgress(booking, true),
+      proposal: openProposal(booking, true),
+      commentCount: booking._count.comments,
+      awaitsYou,
+      ...escalationFields(booking, viewer.staff || managesRoom || awaitsYou),
+      ...checkInFields(booking, booking.room, await getServiceSettings()),
       createdAt: booking.createdAt.toISOString(),
     });
   } catch (error) {
@@ -179,27 +367,44 @@ router.get('/:id', async (req: AuthRequest, res) => {
   }
 });
 
+// The comment thread between a booker and those who moderate the booking,
+// oldest first. Open to whoever may see the booking in full.
+router.get('/:id/comments', async (req: AuthRequest, res) => {
+  try {
+    const outcome = await listBookingComments(req, req.params.id, getLang(req));
+    if (!outcome.ok) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+    res.json(outcome.comments);
+  } catch (error) {
+    logger.error('Error fetching booking comments:', error);
+    res.status(500).json({ error: trReq(req, 'fetchCommentsFailed') });
+  }
+});
+
+// Post to the thread: { body }. The other side is emailed.
+router.post('/:id/comments', validateBookingComment, async (req: AuthRequest, res: Response) => {
+  try {
+    const outcome = await addBookingComment(req, req.params.id, req.body.body, getLang(req));
+    if (!outcome.ok) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+    res.status(201).json(outcome.comment);
+  } catch (error) {
+    logger.error('Error posting booking comment:', error);
+    res.status(500).json({ error: trReq(req, 'commentFailed') });
+  }
+});
+
 // Create booking
 router.post('/', validateBooking, async (req: AuthRequest, res: Response) => {
   try {
-    const { roomId, startTime, endTime, purpose, attendees, termsAccepted } = req.body;
-    const userId = req.userId!; // From JWT token
+    const { roomId, startTime, endTime, purpose, attendees, termsAccepted, overrideLeadTime, overrideQuota } = req.body;
     const lang = getLang(req);
 
-    // Validate booking is not in the past
-    const now = new Date();
     const bookingStart = new Date(startTime);
     const bookingEnd = new Date(endTime);
 
-    if (bookingStart <= now) {
-      return res.status(400).json({ error: tr(lang, 'pastStart') });
-    }
-
-    if (bookingEnd <= now) {
-      return res.status(400).json({ error: tr(lang, 'pastEnd') });
-    }
-
-    // Check operating hours: the room's department schedule wins, else the global one
     const room = await prisma.room.findUnique({
       where: { id: roomId },
       include: { department: true },
@@ -209,175 +414,130 @@ router.post('/', validateBooking, async (req: AuthRequest, res: Response) => {
       return res.status(404).json({ error: tr(lang, 'roomNotFound') });
     }
 
-    // Enforce the room's capacity range (attendees list includes the booker)
-    const attendeeCount = Array.isArray(attendees) ? attendees.length : 0;
-    if (attendeeCount < room.minCapacity || attendeeCount > room.maxCapacity) {
-      return res.status(400).json({
-        error: tr(lang, 'capacityRange', {
-          min: room.minCapacity,
-          max: room.maxCapacity,
-        }),
-      });
+    const resolved = await resolveBooker(req, room.departmentId, lang);
+    if (!resolved.ok) {
+      return res.status(resolved.status).json({ error: resolved.error });
     }
-
-    // Rooms with terms & conditions require explicit acceptance
-    if (room.bookingTerms && termsAccepted !== true) {
-      return res.status(400).json({ error: tr(lang, 'termsRequired') });
+    const { booker, newGuest, onBehalf } = resolved;
+    if (!booker && !newGuest) {
+      return res.status(404).json({ error: tr(lang, 'userNotFound') });
     }
-
-    const settings = await getServiceSettings();
-
-    // Approval-gated rooms need enough notice for a human to actually respond.
-    // Without this a request can start minutes from now, and the scheduler will
-    // auto-cancel it before anyone sees it - a booking that was never going to
-    // succeed. Refuse it up front instead, while the booker can still re-pick.
-    if (room.requiresApproval) {
-      const leadMinutes = getApprovalLeadMinutes(settings);
-      if (leadMinutes > 0) {
-        const earliestStart = new Date(now.getTime() + leadMinutes * 60000);
-        if (bookingStart < earliestStart) {
-          return res.status(400).json({
-            error: tr(lang, 'approvalLeadTime', {
-              duration: formatLeadTime(leadMinutes, lang),
-            }),
-          });
-        }
-      }
+    // The rules are the booker's, not the staff member's. A new guest has no
+    // role yet and is held to the student rules they will get.
+    const bookerRole = booker?.role ?? 'STUDENT';
+    const skipLeadTime = onBehalf && overrideLeadTime === true;
+    const skipQuota = onBehalf && overrideQuota === true;
+
+    const policyError = checkRoomPolicy(room, attendees, termsAccepted, lang);
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
     }
 
-    const effectiveHours = getEffectiveOperatingHours(
-      settings,
-      room.department?.operatingHours,
-      room.operatingHours,
-    );
+    const settings = await getServiceSettings();
 
-    // Date-specific closures/special hours for this day and department
-    const dayStart = new Date(bookingStart);
-    dayStart.setHours(0, 0, 0, 0);
-    const dayEnd = new Date(bookingStart);
-    dayEnd.setHours(23, 59, 59, 999);
-    const exceptions = await prisma.scheduleException.findMany({
-      where: {
-        startDate: { lte: dayEnd },
-        endDate: { gte: dayStart },
-        OR: [{ departmentId: null }, { departmentId: room.departmentId }],
-      },
+    // A request an auto-approval rule confirms needs no notice for reviewers
+    const { status: initialStatus, autoApproval } = await decideInitialStatus(room, {
+      start: bookingStart,
+      end: bookingEnd,
+      attendees: attendees.length,
+      booker: { id: booker?.id ?? null, role: bookerRole, departmentId: booker?.departmentId ?? null },
     });
 
-    const hoursCheck = checkBookingSchedule(
-      bookingStart,
-      bookingEnd,
-      effectiveHours,
-      room.departmentId,
-      exceptions,
-      lang,
-    );
-    if (!hoursCheck.ok) {
-      return res.status(400).json({ error: hoursCheck.error });
-    }
-
-    // Check Semester Validity
-    const activeSemester = await prisma.semester.findFirst({
-       where: { isActive: true },
-    });
-
-    if (activeSemester) {
-       if (bookingStart < activeSemester.startDate || bookingEnd > activeSemester.endDate) {
-           const dateTag = dateLocaleTag(lang);
-           return res.status(400).json({
-               error: tr(lang, 'semesterOnly', {
-                 name: activeSemester.name,
-                 start: activeSemester.startDate.toLocaleDateString(dateTag),
-                 end: activeSemester.endDate.toLocaleDateString(dateTag),
-               }),
-           });
-       }
-    }
-
-    // Check for overlapping bookings
-    const overlapping = await prisma.booking.findFirst({
-      where: {
-        roomId,
-        status: { in: BLOCKING_STATUSES },
-        OR: [
-          {
-            AND: [
-              { startTime: { lte: new Date(startTime) } },
-              { endTime: { gt: new Date(startTime) } },
-            ],
-          },
-          {
-            AND: [
-              { startTime: { lt: new Date(endTime) } },
-              { endTime: { gte: new Date(endTime) } },
-            ],
-          },
-          {
-            AND: [
-              { startTime: { gte: new Date(startTime) } },
-              { endTime: { lte: new Date(endTime) } },
-            ],
-          },
-        ],
-      },
-      include: {
-        user: true,
-      },
+    const slot = await checkBookingSlot(room, bookingStart, bookingEnd, settings, lang, {
+      role: bookerRole,
+      skipLeadTime: skipLeadTime || !!autoApproval,
     });
-
-    if (overlapping) {
-      logger.warn(`Booking conflict detected for room ${roomId} at ${startTime}-${endTime}`);
-      return res.status(409).json({
-        error: tr(lang, 'slotConflict'),
-        conflict: {
-          startTime: overlapping.startTime.toISOString(),
-          endTime: overlapping.endTime.toISOString(),
-          bookedBy: overlapping.user.name,
-        }
+    if (!slot.ok) {
+      if (slot.reason === 'CONFLICT') {
+        logger.warn(`Booking conflict detected for room ${roomId} at ${startTime}-${endTime}`);
+      }
+      // Taken or closed: another time or room may well do. Other refusals
+      // (rules, notice, semester) would refuse most alternatives too.
+      const suggestions = ['CONFLICT', 'HOURS', 'EXCEPTION'].includes(slot.reason)
+        ? await suggestAlternativeSlots(room, bookingStart, bookingEnd, attendees.length, settings, lang, {
+            role: bookerRole,
+          })
+        : undefined;
+      return res.status(slot.status).json({
+        error: slot.error,
+        ...(slot.conflict && { conflict: slot.conflict }),
+        ...(suggestions && { suggestions }),
       });
     }
 
+    // Staff may waive the booker's limits, but not a ban for strikes
+    if (booker) {
+      const banError = checkBookingBan(booker, lang);
+      if (banError) {
+        return res.status(403).json({ error: banError });
+      }
+    }
+
+    // A new guest has no bookings to count yet
+    if (booker && !skipQuota) {
+      const quotaError = await checkBookingQuota(
+        { id: booker.id, role: booker.role },
+        room,
+        bookingStart,
+        bookingEnd,
+        settings,
+        lang
+      );
+      if (quotaError) {
+        return res.status(400).json({ error: quotaError });
+      }
+    }
+
     // Create booking with attendees; approval-gated rooms start as PENDING
-    const initialStatus = room.requiresApproval ? BookingStatus.PENDING : BookingStatus.CONFIRMED;
-    const booking = await prisma.booking.create({
-      data: {
-        roomId,
-        userId,
-        startTime: new Date(startTime),
-        endTime: new Date(endTime),
-        purpose,
-        status: initialStatus,
-        termsAcceptedAt: room.bookingTerms ? new Date() : null,
-        attendees: {
-          create: attendees,
+    // unless a rule confirmed the request. The slot is checked again under the
+    // room's lock, in case someone else took it since the check above.
+    const written = await withRoomLocks([roomId], async (tx) => {
+      const clash = await findSlotClash(tx, room, bookingStart, bookingEnd, lang, new Date());
+      if (clash) return { clash };
+      // Guests get an account that cannot sign in; signing in with Microsoft
+      // under the same email later claims it, bookings and all
+      const userId = booker
+        ? booker.id
+        : (await tx.user.create({ data: { ...newGuest!, provider: 'GUEST', role: 'STUDENT' } })).id;
+      const booking = await tx.booking.create({
+        data: {
+          roomId,
+          userId,
+          startTime: bookingStart,
+          endTime: bookingEnd,
+          purpose,
+          status: initialStatus,
+          termsAcceptedAt: room.bookingTerms ? new Date() : null,
+          createdById: onBehalf ? req.userId! : null,
+          attendees: {
+            create: attendees,
+          },
         },
-      },
-      include: {
-        user: true,
-        attendees: true,
-      },
+        include: {
+          user: true,
+          createdBy: { select: { id: true, name: true } },
+          attendees: true,
+        },
+      });
+      return { booking };
     });
+    if (written.clash) {
+      logger.warn(`Booking conflict detected for room ${roomId} at ${startTime}-${endTime} (lost a race)`);
+      const suggestions = await suggestAlternativeSlots(room, bookingStart, bookingEnd, attendees.length, settings, lang, {
+        role: bookerRole,
+      });
+      return res
+        .status(written.clash.status)
+        .json({ error: written.clash.error, conflict: written.clash.conflict, suggestions });
+    }
+    const { booking } = written;
+    await publishBookingChange('created', [booking.id]);
 
-    // Notify everyone responsible: the department's admins and its contact address(es).
-    // Fall back to the service contact(s) so requests are never silently unwatched.
+    if (autoApproval) {
+      await recordAutoApproval(booking, room, autoApproval);
+    }
     if (initialStatus === BookingStatus.PENDING) {
-      const departmentAdmins = room.departmentId
-        ? await prisma.departmentAdmin.findMany({
-            where: { departmentId: room.departmentId },
-            include: { user: { select: { email: true } } },
-          })
-        : [];
-
-      const recipients = [...new Set([
-        ...parseEmails(room.department?.contactEmail),
-        ...departmentAdmins.map((a: any) => a.user.email).filter(Boolean),
-      ])];
-
-      if (recipients.length === 0) {
-        recipients.push(...parseEmails(settings.contactEmail));
-      }
-
-      await sendApprovalRequestEmail(recipients, {
+      await notifyApprovers(room, settings, {
         roomName: room.name,
         userName: booking.user.name,
         startTime: booking.startTime,
@@ -385,6 +545,35 @@ router.post('/', validateBooking, async (req: AuthRequest, res: Response) => {
       });
     }
 
+    if (onBehalf) {
+      await recordAudit(req, {
+        action: 'BOOKING_CREATE_ON_BEHALF',
+        targetType: 'Booking',
+        targetId: booking.id,
+        targetLabel: `${room.name} - ${booking.user.name}`,
+        departmentId: room.departmentId,
+        summary: `Booked for ${newGuest ? 'new guest ' : ''}${booking.user.email}`,
+        metadata: {
+          start: booking.startTime.toISOString(),
+          end: booking.endTime.toISOString(),
+          bookerId: booking.userId,
+          ...(skipLeadTime && { overrodeLeadTime: true }),
+          ...(skipQuota && { overrodeQuota: true }),
+        },
+      });
+      if (booking.user.email) {
+        await sendBookedOnBehalfEmail(booking.user.email, booking.user.name, {
+          roomName: room.name,
+          startTime: booking.startTime,
+          endTime: booking.endTime,
+          purpose: booking.purpose,
+          bookedBy: booking.createdBy?.name ?? '',
+          pending: initialStatus === BookingStatus.PENDING,
+          guest: booking.user.provider === 'GUEST',
+        }, asLang(booking.user.language));
+      }
+    }
+
     res.status(201).json({
       id: booking.id,
       roomId: booking.roomId,
@@ -397,6 +586,8 @@ router.post('/', validateBooking, async (req: AuthRequest, res: Response) => {
       attendees: booking.attendees,
       status: booking.status,
       termsAcceptedAt: booking.termsAcceptedAt ? booking.termsAcceptedAt.toISOString() : null,
+      createdById: booking.createdById,
+      createdByName: booking.createdBy?.name ?? null,
       createdAt: booking.createdAt.toISOString(),
     });
   } catch (error) {
@@ -405,55 +596,643 @@ router.post('/', validateBooking, async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Approve a pending booking (staff or the room's department admin)
-router.post('/:id/approve', async (req: AuthRequest, res) => {
+// Create a recurring series: the first slot repeated weekly or every two weeks.
+// Each occurrence goes through the same checks as a single booking; the ones
+// that pass are created, and the caller gets a per-date report of the rest.
+router.post('/series', validateBookingSeries, async (req: AuthRequest, res: Response) => {
+  try {
+    const { roomId, startTime, endTime, purpose, attendees, termsAccepted, frequency, until, count } = req.body;
+    const userId = req.userId!;
+    const lang = getLang(req);
+
+    const room = await prisma.room.findUnique({
+      where: { id: roomId },
+      include: { department: true },
+    });
+
+    if (!room) {
+      return res.status(404).json({ error: tr(lang, 'roomNotFound') });
+    }
+
+    const policyError = checkRoomPolicy(room, attendees, termsAccepted, lang);
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
+    }
+
+    const firstStart = new Date(startTime);
+    const firstEnd = new Date(endTime);
+    const untilDate = until ? new Date(until) : null;
+    const occurrenceCount = count ? Number(count) : null;
+
+    // Without an explicit end the semester bounds the series; with neither,
+    // there is nothing to stop it
+    const activeSemester = await prisma.semester.findFirst({ where: { isActive: true } });
+    if (!untilDate && !occurrenceCount && !activeSemester) {
+      return res.status(400).json({ error: tr(lang, 'recurrenceEndRequired') });
+    }
+    if (untilDate && untilDate < firstStart) {
+      return res.status(400).json({ error: tr(lang, 'recurrenceEndBeforeStart') });
+    }
+
+    const slots = expandRecurrence(firstStart, firstEnd, frequency as RecurrenceFrequency, {
+      count: occurrenceCount,
+      until: untilDate,
+      semesterEnd: activeSemester?.endDate,
+    });
+
+    const settings = await getServiceSettings();
+    // Every date is the same length at the same time of day, so the first one
+    // decides for the series
+    const booker = await prisma.user.findUnique({ where: { id: userId } });
+    const banError = booker && checkBookingBan(booker, lang);
+    if (banError) {
+      return res.status(403).json({ error: banError });
+    }
+    const { status: initialStatus, autoApproval } = await decideInitialStatus(room, {
+      start: firstStart,
+      end: firstEnd,
+      attendees: attendees.length,
+      booker: { id: userId, role: req.userRole!, departmentId: booker?.departmentId ?? null },
+    });
+
+    // Validate every date before writing anything, so the series is created
+    // with exactly the occurrences the report says were booked
+    const report: Array<{
+      startTime: string;
+      endTime: string;
+      result: 'CREATED' | 'CONFLICT' | 'CLOSED' | 'UNAVAILABLE';
+      error?: string;
+      exceptionName?: string;
+      bookingId?: string;
+      status?: BookingStatus;
+    }> = [];
+    const bookable: PlannedSlot[] = [];
+
+    for (const slot of slots) {
+      const check = await checkBookingSlot(room, slot.start, slot.end, settings, lang, {
+        role: req.userRole,
+        skipLeadTime: !!autoApproval,
+      });
+      // The dates already accepted count towards the quota of the ones after them
+      const quotaError = check.ok
+        ? await checkBookingQuota({ id: userId, role: req.userRole! }, room, slot.start, slot.end, settings, lang, {
+            planned: bookable,
+          })
+        : null;
+      if (quotaError) {
+        report.push({
+          startTime: slot.start.toISOString(),
+          endTime: slot.end.toISOString(),
+          result: 'UNAVAILABLE',
+          error: quotaError,
+        });
+      } else if (check.ok) {
+        bookable.push({ roomId, start: slot.start, end: slot.end });
+        report.push({ startTime: slot.start.toISOString(), endTime: slot.end.toISOString(), result: 'CREATED' });
+      } else {
+        report.push({
+          startTime: slot.start.toISOString(),
+          endTime: slot.end.toISOString(),
+          result:
+            check.reason === 'CONFLICT' ? 'CONFLICT' : check.reason === 'EXCEPTION' ? 'CLOSED' : 'UNAVAILABLE',
+          error: check.error,
+          exceptionName: check.exceptionName,
+        });
+      }
+    }
+
+    if (bookable.length === 0) {
+      return res.status(409).json({ error: tr(lang, 'seriesNothingBooked'), occurrences: report });
+    }
+
+    // Under the room's lock, dates someone else took since they were checked
+    // move to the report as conflicts and the rest are written together
+    const termsAcceptedAt = room.bookingTerms ? new Date() : null;
+    const series = await withRoomLocks([roomId], async (tx) => {
+      const now = new Date();
+      const free: PlannedSlot[] = [];
+      for (const slot of bookable) {
+        const clash = await findSlotClash(tx, room, slot.start, slot.end, lang, now);
+        const entry = report.find((r) => r.startTime === slot.start.toISOString())!;
+        if (clash) {
+          entry.result = 'CONFLICT';
+          entry.error = clash.error;
+        } else {
+          free.push(slot);
+        }
+      }
+      if (free.length === 0) return null;
+
+      return tx.bookingSeries.create({
+        data: {
+          roomId,
+          userId,
+          frequency,
+          untilDate,
+          occurrenceCount,
+          bookings: {
+            create: free.map((slot) => ({
+              roomId,
+              userId,
+              startTime: slot.start,
+              endTime: slot.end,
+              purpose,
+              status: initialStatus,
+              termsAcceptedAt,
+              attendees: { create: attendees },
+            })),
+          },
+        },
+        include: {
+          user: true,
+          bookings: { orderBy: { startTime: 'asc' } },
+        },
+      });
+    });
+    if (!series) {
+      return res.status(409).json({ error: tr(lang, 'seriesNothingBooked'), occurrences: report });
+    }
+
+    await publishBookingChange('created', series.bookings.map((b) => b.id));
+
+    if (autoApproval) {
+      for (const booking of series.bookings) {
+        await recordAutoApproval({ ...booking, user: series.user }, room, autoApproval);
+      }
+    }
+
+    const createdByStart = new Map(series.bookings.map((b) => [b.startTime.toISOString(), b]));
+    for (const entry of report) {
+      const created = createdByStart.get(entry.startTime);
+      if (entry.result === 'CREATED' && created) {
+        entry.bookingId = created.id;
+        entry.status = created.status;
+      }
+    }
+
+    // One request email for the whole series rather than one per week
+    if (initialStatus === BookingStatus.PENDING) {
+      await notifyApprovers(room, settings, {
+        roomName: room.name,
+        userName: series.user.name,
+        startTime: series.bookings[0].startTime,
+        endTime: series.bookings[0].endTime,
+        occurrences: series.bookings.length,
+      });
+    }
+
+    logger.info(`Booking series ${series.id} created by user ${userId}: ${series.bookings.length}/${slots.length} occurrences booked`);
+    res.status(201).json({
+      series: {
+        id: series.id,
+        roomId: series.roomId,
+        frequency: series.frequency,
+        untilDate: series.untilDate ? series.untilDate.toISOString() : null,
+        occurrenceCount: series.occurrenceCount,
+      },
+      created: series.bookings.length,
+      occurrences: report,
+    });
+  } catch (error) {
+    console.error('Error creating booking series:', error);
+    res.status(500).json({ error: trReq(req, 'createSeriesFailed') });
+  }
+});
+
+// Book several rooms for one event, all or nothing: every room goes through
+// the same checks as a single booking, and if any fails nothing is written and
+// the caller gets a per-room report. Each room is created CONFIRMED or PENDING
+// by its own approval setting and rules, and approved by its own department.
+router.post('/events', validateBookingEvent, async (req: AuthRequest, res: Response) => {
   try {
+    const { purpose } = req.body;
+    const items: Array<{ roomId: string; startTime: string; endTime: string; attendees: any[]; termsAccepted?: boolean }> =
+      req.body.bookings;
+    const userId = req.userId!;
+    const lang = getLang(req);
+
+    const roomIds = items.map((item) => item.roomId);
+    if (new Set(roomIds).size !== roomIds.length) {
+      return res.status(400).json({ error: tr(lang, 'eventRoomsDistinct') });
+    }
+    const rooms = await prisma.room.findMany({
+      where: { id: { in: roomIds } },
+      include: { department: true },
+    });
+    if (rooms.length !== roomIds.length) {
+      return res.status(404).json({ error: tr(lang, 'roomNotFound') });
+    }
+    const roomById = new Map(rooms.map((r) => [r.id, r]));
+    const settings = await getServiceSettings();
+    const booker = await prisma.user.findUnique({ where: { id: userId } });
+    const banError = booker && checkBookingBan(booker, lang);
+    if (banError) {
+      return res.status(403).json({ error: banError });
+    }
+    const decisions = new Map<string, Awaited<ReturnType<typeof decideInitialStatus>>>();
+
+    // Every room is checked before anything is written; the rooms already
+    // accepted count towards the quota of the ones after them
+    const report: Array<{ roomId: string; roomName: string; startTime: string; endTime: string; error?: string }> = [];
+    const planned: PlannedSlot[] = [];
+    for (const item of items) {
+      const room = roomById.get(item.roomId)!;
+      const start = new Date(item.startTime);
+      const end = new Date(item.endTime);
+      const entry: (typeof report)[number] = {
+        roomId: room.id,
+        roomName: room.name,
+        startTime: start.toISOString(),
+        endTime: end.toISOString(),
+      };
+      report.push(entry);
+
+      const policyError = checkRoomPolicy(room, item.attendees, item.termsAccepted, lang);
+      if (policyError) {
+        entry.error = policyError;
+        continue;
+      }
+      const decision = await decideInitialStatus(room, {
+        start,
+        end,
+        attendees: item.attendees.length,
+        booker: { id: userId, role: req.userRole!, departmentId: booker?.departmentId ?? null },
+      });
+      decisions.set(room.id, decision);
+      const slot = await checkBookingSlot(room, start, end, settings, lang, {
+        role: req.userRole,
+        skipLeadTime: !!decision.autoApproval,
+      });
+      if (!slot.ok) {
+        entry.error = slot.error;
+        continue;
+      }
+      const quotaError = await checkBookingQuota({ id: userId, role: req.userRole! }, room, start, end, settings, lang, {
+        planned,
+      });
+      if (quotaError) {
+        entry.error = quotaError;
+        continue;
+      }
+      planned.push({ roomId: room.id, start, end });
+    }
+
+    const refusedCount = report.filter((r) => r.error).length;
+    if (refusedCount > 0) {
+      return res.status(409).json({ error: tr(lang, 'eventNotBooked', { count: refusedCount }), rooms: report });
+    }
+
+    // Under every room's lock: one room taken since it was checked and the
+    // whole event is refused, as above
+    const written = await withRoomLocks(roomIds, async (tx) => {
+      const now = new Date();
+      let clashed = false;
+      for (const entry of report) {
+        const clash = await findSlotClash(
+          tx,
+          roomById.get(entry.roomId)!,
+          new Date(entry.startTime),
+          new Date(entry.endTime),
+          lang,
+          now
+        );
+        if (clash) {
+          entry.error = clash.error;
+          clashed = true;
+        }
+      }
+      if (clashed) return null;
+
+      return tx.bookingEvent.create({
+        data: {
+          userId,
+          purpose,
+          bookings: {
+            create: items.map((item) => {
+              const room = roomById.get(item.roomId)!;
+              return {
+                roomId: room.id,
+                userId,
+                startTime: new Date(item.startTime),
+                endTime: new Date(item.endTime),
+                purpose,
+                status: decisions.get(room.id)!.status,
+                termsAcceptedAt: room.bookingTerms ? now : null,
+                attendees: { create: item.attendees },
+              };
+            }),
+          },
+        },
+        include: { user: true, bookings: { orderBy: { startTime: 'asc' } } },
+      });
+    });
+    if (!written) {
+      return res.status(409).json({
+        error: tr(lang, 'eventNotBooked', { count: report.filter((r) => r.error).length }),
+        rooms: report,
+      });
+    }
+
+    await publishBookingChange('created', written.bookings.map((b) => b.id));
+
+    // Each pending room goes to its own department's approvers
+    for (const booking of written.bookings) {
+      const room = roomById.get(booking.roomId)!;
+      const { autoApproval } = decisions.get(room.id)!;
+      if (autoApproval) {
+        await recordAutoApproval({ ...booking, user: written.user }, room, autoApproval);
+      }
+      if (booking.status !== BookingStatus.PENDING) continue;
+      await notifyApprovers(room, settings, {
+        roomName: room.name,
+        userName: written.user.name,
+        startTime: booking.startTime,
+        endTime: booking.endTime,
+      });
+    }
+
+    logger.info(`Booking event ${written.id} created by user ${userId}: ${written.bookings.length} rooms`);
+    res.status(201).json(formatBookingEvent(written, roomById));
+  } catch (error) {
+    console.error('Error creating booking event:', error);
+    res.status(500).json({ error: trReq(req, 'createEventFailed') });
+  }
+});
+
+// An event and its rooms, for the organizer, staff, and managers of any of
+// its rooms
+router.get('/events/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const event = await prisma.bookingEvent.findUnique({
+      where: { id: req.params.id },
+      include: {
+        user: true,
+        bookings: { include: { room: true }, orderBy: { startTime: 'asc' } },
+      },
+    });
+    if (!event) {
+      return res.status(404).json({ error: trReq(req, 'eventNotFound') });
+    }
+
+    if (event.userId !== req.userId && !isStaff(req.userRole)) {
+      const managed = await getManagedDepartmentIds(req.userId);
+      if (!event.bookings.some((b) => !!b.room.departmentId && managed.includes(b.room.departmentId))) {
+        return res.status(403).json({ error: trReq(req, 'permissionDenied') });
+      }
+    }
+
+    res.json(formatBookingEvent(event, new Map(event.bookings.map((b) => [b.roomId, b.room]))));
+  } catch (error) {
+    res.status(500).json({ error: trReq(req, 'fetchEventFailed') });
+  }
+});
+
+// Compact timestamp for audit metadata, which has to fit in one VARCHAR column
+const auditTime = (date: Date) => date.toISOString().slice(0, 16);
+
+// Reschedule or edit a booking in place: time, room, purpose and attendees.
+// Keeps the slot held throughout, unlike cancelling and booking again.
+router.patch('/:id', validateBookingUpdate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { roomId, startTime, endTime, purpose, attendees, termsAccepted } = req.body;
     const lang = getLang(req);
     const booking = await prisma.booking.findUnique({
       where: { id: req.params.id },
-      include: { user: true, room: true },
+      include: { user: true, room: { include: { department: true } }, attendees: true },
     });
 
     if (!booking) {
       return res.status(404).json({ error: tr(lang, 'bookingNotFound') });
     }
 
-    if (!(await canModerateBooking(req, booking.room.departmentId))) {
+    // Same rule as cancelling: the owner, staff, or a manager of the room's department
+    const isOwner = booking.userId === req.userId;
+    if (!isOwner && !(await canModerateBooking(req, booking.room.departmentId))) {
       return res.status(403).json({ error: tr(lang, 'permissionDenied') });
     }
 
-    if (booking.status !== BookingStatus.PENDING) {
-      return res.status(400).json({ error: tr(lang, 'onlyPendingApprove') });
+    if (booking.status !== BookingStatus.CONFIRMED && booking.status !== BookingStatus.PENDING) {
+      return res.status(400).json({
+        error: tr(lang, 'cannotEditStatus', { status: statusName(lang, booking.status) }),
+      });
     }
 
     if (booking.endTime <= new Date()) {
-      return res.status(400).json({ error: tr(lang, 'alreadyPassed') });
+      return res.status(400).json({ error: tr(lang, 'editEnded') });
     }
 
-    const updated = await prisma.booking.update({
-      where: { id: booking.id },
-      data: { status: BookingStatus.CONFIRMED },
+    const targetRoom =
+      roomId && roomId !== booking.roomId
+        ? await prisma.room.findUnique({ where: { id: roomId }, include: { department: true } })
+        : booking.room;
+
+    if (!targetRoom) {
+      return res.status(404).json({ error: tr(lang, 'roomNotFound') });
+    }
+
+    const roomChanged = targetRoom.id !== booking.roomId;
+
+    // Moving someone else's booking into another department's room needs rights there too
+    if (roomChanged && !isOwner && !(await canModerateBooking(req, targetRoom.departmentId))) {
+      return res.status(403).json({ error: tr(lang, 'permissionDenied') });
+    }
+
+    const newStart = startTime ? new Date(startTime) : booking.startTime;
+    const newEnd = endTime ? new Date(endTime) : booking.endTime;
+    const timeChanged =
+      newStart.getTime() !== booking.startTime.getTime() || newEnd.getTime() !== booking.endTime.getTime();
+    const newAttendees = Array.isArray(attendees)
+      ? attendees
+      : booking.attendees.map((a) => ({ name: a.name, studentId: a.studentId, isCompanion: a.isCompanion }));
+
+    // Capacity always applies; terms were accepted for the current room already,
+    // so acceptance is only asked for again when moving into a different one
+    const policyError = checkRoomPolicy(targetRoom, newAttendees, roomChanged ? termsAccepted : true, lang);
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
+    }
+
+    const settings = await getServiceSettings();
+
+    // An approval covers a specific room and time; changing either needs a
+    // fresh one, from a reviewer or from the rules of the room it ends up in
+    const decision =
+      timeChanged || roomChanged
+        ? await decideInitialStatus(targetRoom, {
+            start: newStart,
+            end: newEnd,
+            attendees: newAttendees.length,
+            booker: { id: booking.userId, role: booking.user.role, departmentId: booking.user.departmentId },
+          })
+        : null;
+
+    if (timeChanged || roomChanged) {
+      // Like quotas, the booking horizon binds the booker and not a manager
+      const slot = await checkBookingSlot(targetRoom, newStart, newEnd, settings, lang, {
+        excludeBookingId: booking.id,
+        role: isOwner ? booking.user.role : undefined,
+        skipLeadTime: !!decision?.autoApproval,
+      });
+      if (!slot.ok) {
+        return res.status(slot.status).json({
+          error: slot.error,
+          ...(slot.conflict && { conflict: slot.conflict }),
+        });
+      }
+
+      // Quotas and bans bind the booker; a manager moving it on their behalf is not held to them
+      if (isOwner) {
+        const banError = checkBookingBan(booking.user, lang);
+        if (banError) {
+          return res.status(403).json({ error: banError });
+        }
+        const quotaError = await checkBookingQuota(booking.user, targetRoom, newStart, newEnd, settings, lang, {
+          excludeBookingId: booking.id,
+        });
+        if (quotaError) {
+          return res.status(400).json({ error: quotaError });
+        }
+      }
+    }
+
+    const status = decision ? decision.status : booking.status;
+
+    // A move is written under the lock of both rooms, and its new slot checked
+    // again there, in case someone else took it since the check above
+    const written = await withRoomLocks([booking.roomId, targetRoom.id], async (tx) => {
+      if (timeChanged || roomChanged) {
+        const clash = await findSlotClash(tx, targetRoom, newStart, newEnd, lang, new Date(), {
+          excludeBookingId: booking.id,
+        });
+        if (clash) return { clash };
+      }
+      // The booker chose another slot themselves: any proposal for this one lapses
+      const withdrawn = timeChanged || roomChanged
+        ? await tx.bookingProposal.findMany({ where: { bookingId: booking.id, status: ProposalStatus.OPEN } })
+        : [];
+      const updated = await tx.booking.update({
+        where: { id: booking.id },
+        data: {
+          roomId: targetRoom.id,
+          startTime: newStart,
+          endTime: newEnd,
+          ...(purpose !== undefined && { purpose }),
+          status,
+          // A moved booking deserves its own reminder and its own check-in
+          ...(timeChanged && { reminderSent: false, checkedInAt: null, checkedInById: null }),
+          ...(roomChanged && { termsAcceptedAt: targetRoom.bookingTerms ? new Date() : null }),
+          // A request moved back into the queue is signed off, and chased, afresh
+          ...((timeChanged || roomChanged) && status === BookingStatus.PENDING && {
+            approvals: { deleteMany: {} },
+            escalationLevel: 0,
+            escalatedAt: null,
+          }),
+          ...(Array.isArray(attendees) && {
+            attendees: { deleteMany: {}, create: attendees },
+          }),
+          ...(withdrawn.length > 0 && {
+            proposals: {
+              updateMany: {
+                where: { status: ProposalStatus.OPEN },
+                data: { status: ProposalStatus.WITHDRAWN, respondedAt: new Date() },
+              },
+            },
+          }),
+        },
+        include: { user: true, attendees: true },
+      });
+      return { updated, withdrawn };
     });
+    if (written.clash) {
+      return res.status(written.clash.status).json({ error: written.clash.error, conflict: written.clash.conflict });
+    }
+    const { updated, withdrawn } = written;
+    await publishBookingChange('updated', [updated.id]);
 
-    if (booking.user.email) {
-      await sendApprovalEmail(booking.user.email, booking.user.name, {
-        roomName: booking.room.name,
-        startTime: booking.startTime,
-        endTime: booking.endTime,
-      }, asLang(booking.user.language));
+    if (decision?.autoApproval) {
+      await recordAutoApproval(updated, targetRoom, decision.autoApproval);
+    }
+
+    // The slot the booking moved out of is free for the waitlist
+    if (timeChanged || roomChanged) {
+      await promoteWaitlist(booking.roomId, booking.startTime, booking.endTime);
+    }
+    for (const proposal of withdrawn) {
+      await promoteWaitlist(proposal.roomId, proposal.startTime, proposal.endTime);
+    }
+
+    if (updated.user.email) {
+      await sendBookingUpdatedEmail(updated.user.email, updated.user.name, {
+        roomName: targetRoom.name,
+        startTime: updated.startTime,
+        endTime: updated.endTime,
+        pending: updated.status === BookingStatus.PENDING,
+      }, asLang(updated.user.language));
+    }
+
+    if (updated.status === BookingStatus.PENDING && (timeChanged || roomChanged)) {
+      await notifyApprovers(targetRoom, settings, {
+        roomName: targetRoom.name,
+        userName: updated.user.name,
+        startTime: updated.startTime,
+        endTime: updated.endTime,
+      });
     }
 
-    logger.info(`Booking ${booking.id} approved by user ${req.userId}`);
+    logger.info(`Booking ${updated.id} updated by user ${req.userId}`);
     await recordAudit(req, {
-      action: 'BOOKING_APPROVE',
+      action: 'BOOKING_UPDATE',
       targetType: 'Booking',
-      targetId: booking.id,
-      targetLabel: `${booking.room.name} - ${booking.user.name}`,
-      departmentId: booking.room.departmentId,
-      summary: `Approved booking for ${booking.user.email}`,
-      metadata: { start: booking.startTime.toISOString(), bookerId: booking.userId },
+      targetId: updated.id,
+      targetLabel: `${targetRoom.name} - ${updated.user.name}`,
+      departmentId: targetRoom.departmentId,
+      summary: isOwner ? 'Changed their own booking' : `Changed a booking belonging to ${updated.user.email}`,
+      // Only what changed, so the before/after pair fits the metadata column
+      metadata: {
+        before: {
+          ...(roomChanged && { room: booking.room.name }),
+          ...(timeChanged && { start: auditTime(booking.startTime), end: auditTime(booking.endTime) }),
+          ...(status !== booking.status && { status: booking.status }),
+        },
+        after: {
+          ...(roomChanged && { room: targetRoom.name }),
+          ...(timeChanged && { start: auditTime(updated.startTime), end: auditTime(updated.endTime) }),
+          ...(status !== booking.status && { status }),
+        },
+        ...(purpose !== undefined && purpose !== booking.purpose && { purposeChanged: true }),
+        ...(Array.isArray(attendees) && { attendees: attendees.length }),
+      },
+    });
+
+    res.json({
+      id: updated.id,
+      roomId: updated.roomId,
+      userId: updated.userId,
+      userDisplay: updated.user.name,
+      userEmail: updated.user.email,
+      startTime: updated.startTime.toISOString(),
+      endTime: updated.endTime.toISOString(),
+      purpose: updated.purpose,
+      attendees: updated.attendees,
+      status: updated.status,
+      termsAcceptedAt: updated.termsAcceptedAt ? updated.termsAcceptedAt.toISOString() : null,
+      seriesId: updated.seriesId,
+      createdAt: updated.createdAt.toISOString(),
     });
-    res.json({ id: updated.id, status: updated.status });
+  } catch (error) {
+    logger.error('Error updating booking:', error);
+    res.status(500).json({ error: trReq(req, 'updateFailed') });
+  }
+});
+
+// Approve a pending booking (staff or the room's department admin)
+router.post('/:id/approve', async (req: AuthRequest, res) => {
+  try {
+    const outcome = await approvePendingBooking(req, req.params.id, getLang(req));
+    if (!outcome.ok) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+    res.json({ id: outcome.id, status: outcome.status });
   } catch (error) {
     logger.error('Error approving booking:', error);
     res.status(500).json({ error: trReq(req, 'approveFailed') });
@@ -463,57 +1242,182 @@ router.post('/:id/approve', async (req: AuthRequest, res) => {
 // Reject a pending booking (staff or the room's department admin)
 router.post('/:id/reject', async (req: AuthRequest, res) => {
   try {
-    const { reason } = req.body;
+    const outcome = await rejectPendingBooking(req, req.params.id, req.body.reason, getLang(req));
+    if (!outcome.ok) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+    res.json({ id: outcome.id, status: outcome.status, cancellationReason: outcome.cancellationReason });
+  } catch (error) {
+    logger.error('Error rejecting booking:', error);
+    res.status(500).json({ error: trReq(req, 'rejectFailed') });
+  }
+});
+
+// Counter a pending request with another time or room instead of rejecting
+// it: { roomId?, startTime, endTime, message? }. Whoever may reject it may
+// propose; the slot is checked as a new booking by the booker would be and is
+// held for them until they answer or it expires.
+router.post('/:id/propose', validateBookingProposal, async (req: AuthRequest, res: Response) => {
+  try {
+    const { roomId, startTime, endTime, message } = req.body;
+    const outcome = await proposeAlternative(req, req.params.id, { roomId, startTime, endTime, message }, getLang(req));
+    if (!outcome.ok) {
+      return res
+        .status(outcome.status)
+        .json({ error: outcome.error, ...(outcome.conflict && { conflict: outcome.conflict }) });
+    }
+    res.status(201).json({ id: outcome.id, status: outcome.status, proposalId: outcome.proposalId });
+  } catch (error) {
+    logger.error('Error proposing another slot:', error);
+    res.status(500).json({ error: trReq(req, 'proposeFailed') });
+  }
+});
+
+// The booker takes up the slot proposed instead: { termsAccepted } when it is
+// in another room with terms of use
+router.post('/:id/proposal/accept', async (req: AuthRequest, res) => {
+  try {
+    const outcome = await acceptProposal(req, req.params.id, req.body.termsAccepted, getLang(req));
+    if (!outcome.ok) {
+      return res
+        .status(outcome.status)
+        .json({ error: outcome.error, ...(outcome.conflict && { conflict: outcome.conflict }) });
+    }
+    res.json({ id: outcome.id, status: outcome.status });
+  } catch (error) {
+    logger.error('Error accepting booking proposal:', error);
+    res.status(500).json({ error: trReq(req, 'respondProposalFailed') });
+  }
+});
+
+// The booker turns the proposal down, which withdraws the request
+router.post('/:id/proposal/decline', async (req: AuthRequest, res) => {
+  try {
+    const outcome = await declineProposal(req, req.params.id, getLang(req));
+    if (!outcome.ok) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+    res.json({ id: outcome.id, status: outcome.status });
+  } catch (error) {
+    logger.error('Error declining booking proposal:', error);
+    res.status(500).json({ error: trReq(req, 'respondProposalFailed') });
+  }
+});
+
+// Approve or reject many pending requests at once: { action: 'APPROVE' |
+// 'REJECT', bookingIds, reason? }, one reason for every rejection. Each id is
+// handled as its own approve or reject would be, so one that is refused (gone,
+// already decided, another department's) leaves the rest to go ahead. Answers
+// with a result per id, in the order given.
+router.post('/moderate', async (req: AuthRequest, res) => {
+  try {
+    const { action, bookingIds, reason } = req.body;
+    const lang = getLang(req);
+    if (action !== 'APPROVE' && action !== 'REJECT') {
+      return res.status(400).json({ error: tr(lang, 'invalidModerationAction') });
+    }
+    if (
+      !Array.isArray(bookingIds) ||
+      bookingIds.length === 0 ||
+      bookingIds.length > MAX_BULK_MODERATION ||
+      bookingIds.some((id) => typeof id !== 'string')
+    ) {
+      return res.status(400).json({ error: tr(lang, 'moderationIdsRequired', { max: MAX_BULK_MODERATION }) });
+    }
+
+    const results = [];
+    for (const id of new Set<string>(bookingIds)) {
+      try {
+        const outcome =
+          action === 'APPROVE'
+            ? await approvePendingBooking(req, id, lang)
+            : await rejectPendingBooking(req, id, reason, lang);
+        results.push(outcome.ok ? { id, ok: true, status: outcome.status } : { id, ok: false, error: outcome.error });
+      } catch (error) {
+        logger.error(`Error moderating booking ${id}:`, error);
+        results.push({ id, ok: false, error: tr(lang, action === 'APPROVE' ? 'approveFailed' : 'rejectFailed') });
+      }
+    }
+    const succeeded = results.filter((r) => r.ok).length;
+    res.json({ results, succeeded, failed: results.length - succeeded });
+  } catch (error) {
+    logger.error('Error moderating bookings:', error);
+    res.status(500).json({ error: trReq(req, 'moderateFailed') });
+  }
+});
+
+// Check in: confirms the room is actually in use, so the scheduler does not
+// release it as a no-show. The booker, or staff / a department manager at the desk.
+router.post('/:id/check-in', async (req: AuthRequest, res) => {
+  try {
     const lang = getLang(req);
     const booking = await prisma.booking.findUnique({
       where: { id: req.params.id },
-      include: { user: true, room: true },
+      include: { user: true, room: { include: { department: true } } },
     });
 
     if (!booking) {
       return res.status(404).json({ error: tr(lang, 'bookingNotFound') });
     }
 
-    if (!(await canModerateBooking(req, booking.room.departmentId))) {
+    const isOwner = booking.userId === req.userId;
+    if (!isOwner && !(await canModerateBooking(req, booking.room.departmentId))) {
       return res.status(403).json({ error: tr(lang, 'permissionDenied') });
     }
 
-    if (booking.status !== BookingStatus.PENDING) {
-      return res.status(400).json({ error: tr(lang, 'onlyPendingReject') });
+    if (booking.status !== BookingStatus.CONFIRMED) {
+      return res.status(400).json({ error: tr(lang, 'checkInConfirmedOnly') });
+    }
+
+    if (booking.checkedInAt) {
+      return res.status(400).json({ error: tr(lang, 'alreadyCheckedIn') });
+    }
+
+    const settings = await getServiceSettings();
+    const checkIn = getCheckInWindow(
+      booking.startTime,
+      booking.endTime,
+      settings,
+      booking.room.department?.checkInGraceMinutes,
+      booking.room.checkInGraceMinutes,
+    );
+    if (!checkIn) {
+      return res.status(400).json({ error: tr(lang, 'checkInNotRequired') });
+    }
+
+    const now = new Date();
+    if (now < checkIn.opensAt) {
+      return res.status(400).json({
+        error: tr(lang, 'checkInNotOpen', {
+          time: checkIn.opensAt.toLocaleTimeString(dateLocaleTag(lang), { hour: '2-digit', minute: '2-digit' }),
+        }),
+      });
+    }
+    if (now >= checkIn.closesAt) {
+      return res.status(400).json({ error: tr(lang, 'checkInClosed') });
     }
 
-    // The default reason is stored and later shown to the booker — use their language
-    const rejectionReason = (reason && String(reason).trim()) || tr(asLang(booking.user.language), 'rejectedDefault');
     const updated = await prisma.booking.update({
       where: { id: booking.id },
-      data: {
-        status: BookingStatus.CANCELLED,
-        cancellationReason: rejectionReason,
-      },
+      data: { checkedInAt: now, checkedInById: req.userId },
     });
+    await publishBookingChange('updated', [booking.id]);
 
-    if (booking.user.email) {
-      await sendCancellationEmail(booking.user.email, booking.user.name, {
-        roomName: booking.room.name,
-        startTime: booking.startTime,
-        reason: rejectionReason,
-      }, asLang(booking.user.language));
-    }
-
-    logger.info(`Booking ${booking.id} rejected by user ${req.userId}. Reason: ${rejectionReason}`);
+    logger.info(`Booking ${booking.id} checked in by user ${req.userId}`);
     await recordAudit(req, {
-      action: 'BOOKING_REJECT',
+      action: 'BOOKING_CHECK_IN',
       targetType: 'Booking',
       targetId: booking.id,
       targetLabel: `${booking.room.name} - ${booking.user.name}`,
       departmentId: booking.room.departmentId,
-      summary: `Rejected booking for ${booking.user.email}`,
-      metadata: { reason: rejectionReason, start: booking.startTime.toISOString() },
+      summary: isOwner ? 'Checked in to their own booking' : `Checked in ${booking.user.email} at the desk`,
+      metadata: { start: booking.startTime.toISOString(), onBehalf: !isOwner },
     });
-    res.json({ id: updated.id, status: updated.status, cancellationReason: updated.cancellationReason });
+
+    res.json({ id: updated.id, status: updated.status, ...checkInFields(updated, booking.room, settings) });
   } catch (error) {
-    logger.error('Error rejecting booking:', error);
-    res.status(500).json({ error: trReq(req, 'rejectFailed') });
+    logger.error('Error checking in booking:', error);
+    res.status(500).json({ error: trReq(req, 'checkInFailed') });
   }
 });
 
@@ -581,11 +1485,22 @@ router.post('/:id/remind', async (req: AuthRequest, res) => {
   }
 });
 
-// Cancel booking
+// Cancel booking. For an occurrence of a series, `scope` widens the cancel to
+// every later occurrence ('future') or everything still upcoming ('series').
+// A room of an event cancels the whole event when the organizer or staff
+// cancel it; a department manager cancels only their own room.
+const CANCEL_SCOPES = ['occurrence', 'future', 'series'] as const;
+
 router.delete('/:id', async (req: AuthRequest, res) => {
   try {
     const { reason } = req.body; // Optional cancellation reason
+    const scope = req.body.scope ?? 'occurrence';
     const lang = getLang(req);
+
+    if (!CANCEL_SCOPES.includes(scope)) {
+      return res.status(400).json({ error: tr(lang, 'invalidCancelScope') });
+    }
+
     const booking = await prisma.booking.findUnique({
       where: { id: req.params.id },
       include: { room: true },
@@ -594,9 +1509,10 @@ router.delete('/:id', async (req: AuthRequest, res) => {
     if (!booking) {
       return res.status(404).json({ error: tr(lang, 'bookingNotFound') });
     }
+    const isOwner = booking.userId === req.userId;
 
     // Check if user owns the booking, is admin/worker, or manages the room's department
-    if (booking.userId !== req.userId && !isStaff(req.userRole)) {
+    if (!isOwner && !isStaff(req.userRole)) {
       const managed = await getManagedDepartmentIds(req.userId);
       if (!booking.room.departmentId || !managed.includes(booking.room.departmentId)) {
         return res.status(403).json({ error: tr(lang, 'cancelOwnOnly') });
@@ -618,6 +1534,41 @@ router.delete('/:id', async (req: AuthRequest, res) => {
       return res.status(400).json({ error: tr(lang, 'alreadyEnded') });
     }
 
+    // The other occurrences of the series caught by the scope, or the other
+    // rooms of the event, still upcoming and still holding their slot; the
+    // selected booking is always included
+    const cancelsEvent = !!booking.eventId && (isOwner || isStaff(req.userRole));
+    const siblingsWhere: Prisma.BookingWhereInput | null = cancelsEvent
+      ? { eventId: booking.eventId }
+      : booking.seriesId && scope !== 'occurrence'
+        ? {
+            seriesId: booking.seriesId,
+            ...(scope === 'future' && { startTime: { gte: booking.startTime } }),
+          }
+        : null;
+    const siblings = siblingsWhere
+      ? await prisma.booking.findMany({
+          where: {
+            ...siblingsWhere,
+            id: { not: booking.id },
+            status: { in: BLOCKING_STATUSES },
+            endTime: { gt: now },
+          },
+          select: { id: true, roomId: true, startTime: true, endTime: true, room: { select: { name: true } } },
+        })
+      : [];
+    const siblingIds = siblings.map((b) => b.id);
+
+    if (siblingIds.length > 0) {
+      await prisma.booking.updateMany({
+        where: { id: { in: siblingIds } },
+        data: {
+          status: BookingStatus.CANCELLED,
+          cancellationReason: reason || null,
+        },
+      });
+    }
+
     const updated = await prisma.booking.update({
       where: { id: req.params.id },
       data: { 
@@ -630,13 +1581,24 @@ router.delete('/:id', async (req: AuthRequest, res) => {
         room: true,
       },
     });
+    const cancelledCount = siblingIds.length + 1;
+    await publishBookingChange('cancelled', [updated.id, ...siblingIds]);
+
+    // Hand every freed slot to whoever is waiting for it
+    for (const freed of [updated, ...siblings]) {
+      await promoteWaitlist(freed.roomId, freed.startTime, freed.endTime);
+    }
 
-    // Send cancellation email (only if cancelled by someone valid)
+    // Send cancellation email (only if cancelled by someone valid); one email
+    // covers every occurrence, or every room of an event, cancelled together
     if (updated.user.email) {
       await sendCancellationEmail(updated.user.email, updated.user.name, {
-        roomName: updated.room.name,
+        roomName: cancelsEvent
+          ? [updated.room.name, ...siblings.map((b) => b.room.name)].join(', ')
+          : updated.room.name,
         startTime: updated.startTime,
         reason: reason,
+        occurrences: cancelsEvent ? 1 : cancelledCount,
       }, asLang(updated.user.language));
     }
 
@@ -656,9 +1618,21 @@ router.delete('/:id', async (req: AuthRequest, res) => {
         onBehalf: updated.userId !== req.userId,
         reason: reason || null,
         start: updated.startTime.toISOString(),
+        ...(updated.seriesId && { seriesId: updated.seriesId, scope, occurrences: cancelledCount }),
+        ...(updated.eventId && { eventId: updated.eventId, rooms: cancelsEvent ? cancelledCount : 1 }),
       },
     });
 
+    // Giving up a confirmed booking close to its start leaves the room empty
+    // when others could have had it. One strike per cancellation, however many
+    // occurrences or rooms it took with it; withdrawn requests never count.
+    if (isOwner && booking.status === BookingStatus.CONFIRMED) {
+      const settings = await getServiceSettings();
+      if (isLateCancellation(booking.startTime, settings, now)) {
+        await recordStrike(updated.user, updated, 'LATE_CANCEL', settings, req);
+      }
+    }
+
     res.json({
       id: updated.id,
       roomId: updated.roomId,
@@ -671,6 +1645,9 @@ router.delete('/:id', async (req: AuthRequest, res) => {
       attendees: updated.attendees,
       status: updated.status,
       cancellationReason: updated.cancellationReason,
+      seriesId: updated.seriesId,
+      eventId: updated.eventId,
+      cancelledCount,
       createdAt: updated.createdAt.toISOString(),
     });
   } catch (error) {
@@ -1,11 +1,22 @@
 import { Router } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken, requireAdmin, AuthRequest } from '../middleware/auth.js';
-import { parseOperatingHoursJson } from '../services/settings.js';
+import { parseCheckInOverride, parseOperatingHoursJson } from '../services/settings.js';
+import { parseQuotaJson } from '../services/quotas.js';
+import { parseBookingRulesJson } from '../services/bookingRules.js';
+import { parseAutoApprovalRulesJson } from '../services/autoApproval.js';
 import { getManagedDepartmentIds, canManageDepartment, isGlobalAdmin } from '../services/permissions.js';
 import { recordAudit } from '../services/audit.js';
 import logger from '../utils/logger.js';
-import { trReq } from '../services/i18n.js';
+import { getLang, trReq } from '../services/i18n.js';
+import { publishChange } from '../services/liveEvents.js';
+import {
+  PolicyImpact,
+  findPolicyImpact,
+  formatPolicyImpact,
+  parseImpactRequest,
+  resolvePolicyImpact,
+} from '../services/bookingImpact.js';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -23,6 +34,10 @@ router.get('/', async (req, res) => {
       name: d.name,
       contactEmail: d.contactEmail,
       operatingHours: d.operatingHours,
+      checkInGraceMinutes: d.checkInGraceMinutes,
+      bookingQuotas: d.bookingQuotas,
+      bookingRules: d.bookingRules,
+      autoApprovalRules: d.autoApprovalRules,
       roomCount: d._count.rooms,
     })));
   } catch (error) {
@@ -34,7 +49,7 @@ router.get('/', async (req, res) => {
 // Create department (admin only)
 router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res) => {
   try {
-    const { name, contactEmail, operatingHours } = req.body;
+    const { name, contactEmail, operatingHours, checkInGraceMinutes, bookingQuotas, bookingRules, autoApprovalRules } = req.body;
 
     if (!name || !name.trim()) {
       return res.status(400).json({ error: trReq(req, 'departmentNameRequired') });
@@ -44,11 +59,32 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res)
       return res.status(400).json({ error: trReq(req, 'invalidOperatingHours') });
     }
 
+    const checkInGrace = parseCheckInOverride(checkInGraceMinutes);
+    if (checkInGrace === false) {
+      return res.status(400).json({ error: trReq(req, 'invalidCheckInMinutes') });
+    }
+
+    if (bookingQuotas && !parseQuotaJson(bookingQuotas)) {
+      return res.status(400).json({ error: trReq(req, 'invalidBookingQuotas') });
+    }
+
+    if (bookingRules && !parseBookingRulesJson(bookingRules)) {
+      return res.status(400).json({ error: trReq(req, 'invalidBookingRules') });
+    }
+
+    if (autoApprovalRules && !parseAutoApprovalRulesJson(autoApprovalRules)) {
+      return res.status(400).json({ error: trReq(req, 'invalidAutoApprovalRules') });
+    }
+
     const department = await prisma.department.create({
       data: {
         name: name.trim(),
         contactEmail: contactEmail || null,
         operatingHours: operatingHours || null,
+        checkInGraceMinutes: checkInGrace,
+        bookingQuotas: bookingQuotas || null,
+        bookingRules: bookingRules || null,
+        autoApprovalRules: autoApprovalRules || null,
       },
     });
 
@@ -82,10 +118,12 @@ router.get('/:id/admins', authenticateToken, requireAdmin, async (req: AuthReque
   }
 });
 
-// Update department (global admin, or a manager of this department)
+// Update department (global admin, or a manager of this department). Takes
+// ?dryRun=true and impactAction/impactBookingIds as PUT /rooms/:id does, for
+// bookings in its rooms the new hours would break.
 router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const { name, contactEmail, operatingHours, adminUserIds } = req.body;
+    const { name, contactEmail, operatingHours, checkInGraceMinutes, bookingQuotas, bookingRules, autoApprovalRules, adminUserIds } = req.body;
 
     if (!name || !name.trim()) {
       return res.status(400).json({ error: trReq(req, 'departmentNameRequired') });
@@ -95,6 +133,23 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
       return res.status(400).json({ error: trReq(req, 'invalidOperatingHours') });
     }
 
+    const checkInGrace = parseCheckInOverride(checkInGraceMinutes);
+    if (checkInGrace === false) {
+      return res.status(400).json({ error: trReq(req, 'invalidCheckInMinutes') });
+    }
+
+    if (bookingQuotas && !parseQuotaJson(bookingQuotas)) {
+      return res.status(400).json({ error: trReq(req, 'invalidBookingQuotas') });
+    }
+
+    if (bookingRules && !parseBookingRulesJson(bookingRules)) {
+      return res.status(400).json({ error: trReq(req, 'invalidBookingRules') });
+    }
+
+    if (autoApprovalRules && !parseAutoApprovalRulesJson(autoApprovalRules)) {
+      return res.status(400).json({ error: trReq(req, 'invalidAutoApprovalRules') });
+    }
+
     const existing = await prisma.department.findUnique({ where: { id: req.params.id } });
     if (!existing) {
       return res.status(404).json({ error: trReq(req, 'departmentNotFound') });
@@ -107,12 +162,42 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
       }
     }
 
+    const impactRequest = parseImpactRequest(req.body);
+    if (impactRequest === null) {
+      return res.status(400).json({ error: trReq(req, 'invalidImpactAction') });
+    }
+    const dryRun = req.query.dryRun === 'true';
+    let impacts: PolicyImpact[] = [];
+    if (dryRun || impactRequest) {
+      const rooms = await prisma.room.findMany({
+        where: { departmentId: existing.id },
+        include: { department: true },
+      });
+      impacts = await findPolicyImpact(
+        {
+          rooms,
+          apply: (room) => ({
+            ...room,
+            department: room.department && { ...room.department, operatingHours: operatingHours || null },
+          }),
+        },
+        getLang(req)
+      );
+    }
+    if (dryRun) {
+      return res.json({ dryRun: true, affectedBookings: impacts.map(formatPolicyImpact) });
+    }
+
     const department = await prisma.department.update({
       where: { id: req.params.id },
       data: {
         name: name.trim(),
         contactEmail: contactEmail || null,
         operatingHours: operatingHours || null,
+        checkInGraceMinutes: checkInGrace,
+        bookingQuotas: bookingQuotas || null,
+        bookingRules: bookingRules || null,
+        autoApprovalRules: autoApprovalRules || null,
       },
     });
 
@@ -166,9 +251,23 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
       metadata: {
         renamedFrom: existing.name !== department.name ? existing.name : undefined,
         hoursChanged: existing.operatingHours !== department.operatingHours || undefined,
+        checkInChanged: existing.checkInGraceMinutes !== department.checkInGraceMinutes || undefined,
+        quotasChanged: existing.bookingQuotas !== department.bookingQuotas || undefined,
+        rulesChanged: existing.bookingRules !== department.bookingRules || undefined,
+        autoApprovalChanged: existing.autoApprovalRules !== department.autoApprovalRules || undefined,
       },
     });
 
+    if (impactRequest) {
+      await resolvePolicyImpact(
+        req,
+        impacts.filter((i) => impactRequest.bookingIds.has(i.booking.id)),
+        impactRequest.action,
+        { targetType: 'Department', targetId: department.id, targetLabel: department.name, departmentId: department.id }
+      );
+    }
+
+    publishChange('rooms');
     res.json(department);
   } catch (error) {
     console.error('Update department error:', error);
@@ -196,6 +295,7 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest,
     });
 
     logger.info(`Department ${existing.name} deleted by user ${req.userId}`);
+    publishChange('rooms');
     res.json({ message: trReq(req, 'departmentDeleted') });
   } catch (error) {
     console.error('Delete department error:', error);
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import { getBookingViewer } from '../services/bookingView.js';
+import { openEventStream } from '../services/liveEvents.js';
+import { trReq } from '../services/i18n.js';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// The caller's live update stream (Server-Sent Events): booking changes
+// redacted for them, and a bare event when rooms, closures or settings change
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    openEventStream(res, await getBookingViewer(req.userId!, req.userRole));
+  } catch (error) {
+    logger.error('Error opening event stream:', error);
+    res.status(500).json({ error: trReq(req, 'eventStreamFailed') });
+  }
+});
+
+export { router as eventRouter };
@@ -2,9 +2,24 @@ import { Router, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { authenticateToken, AuthRequest } from '../middleware/auth.js';
 import { getManagedDepartmentIds, canManageDepartment, isGlobalAdmin } from '../services/permissions.js';
-import { parseOperatingHoursJson } from '../services/settings.js';
-import { trReq } from '../services/i18n.js';
+import { getServiceSettings, isValidBufferMinutes, parseCheckInOverride, parseOperatingHoursJson } from '../services/settings.js';
+import { parseBookingRulesJson } from '../services/bookingRules.js';
+import { parseAutoApprovalRulesJson } from '../services/autoApproval.js';
+import { validateApprovalChain } from '../services/approvals.js';
+import { getLang, tr, trReq } from '../services/i18n.js';
 import { recordAudit } from '../services/audit.js';
+import { publishChange } from '../services/liveEvents.js';
+import { validateAvailabilityQuery, validateFreeBusyQuery } from '../middleware/validation.js';
+import { checkBookingSlot } from '../services/bookingValidation.js';
+import { MAX_FREE_BUSY_DAYS, getFreeBusy } from '../services/freeBusy.js';
+import {
+  PolicyImpact,
+  findPolicyImpact,
+  formatPolicyImpact,
+  parseImpactRequest,
+  resolvePolicyImpact,
+} from '../services/bookingImpact.js';
+import logger from '../utils/logger.js';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -26,6 +41,105 @@ router.get('/', async (req, res) => {
   }
 });
 
+// Find every room free for a time range that fits `people` and has all the
+// requested features. Each candidate goes through the same slot check as a
+// booking (hours, closures, semester, rules, clashes), so a room listed here
+// is one the caller can book as asked. Best fit first: rooms that confirm at
+// once before those needing approval, then the fewest empty seats, then the
+// fewest features nobody asked for.
+router.get('/available', authenticateToken, validateAvailabilityQuery, async (req: AuthRequest, res: Response) => {
+  try {
+    const lang = getLang(req);
+    const start = new Date(String(req.query.start));
+    const end = new Date(String(req.query.end));
+    const people = Number(req.query.people);
+    const wanted = String(req.query.features ?? '')
+      .split(',')
+      .map((f) => f.trim().toLowerCase())
+      .filter(Boolean);
+
+    // Refused the same way for every room, so say so once rather than
+    // returning an empty list
+    if (end <= start) {
+      return res.status(400).json({ error: tr(lang, 'endAfterStart') });
+    }
+    if (start <= new Date()) {
+      return res.status(400).json({ error: tr(lang, 'pastStart') });
+    }
+
+    const [rooms, settings] = await Promise.all([
+      prisma.room.findMany({ include: { department: true } }),
+      getServiceSettings(),
+    ]);
+
+    const matches = [];
+    for (const room of rooms) {
+      if (people < room.minCapacity || people > room.maxCapacity) continue;
+      const features: string[] = JSON.parse(room.features);
+      const has = new Set(features.map((f) => f.trim().toLowerCase()));
+      if (!wanted.every((f) => has.has(f))) continue;
+
+      const slot = await checkBookingSlot(room, start, end, settings, lang, { role: req.userRole });
+      if (!slot.ok) continue;
+
+      matches.push({
+        ...room,
+        features,
+        spareSeats: room.maxCapacity - people,
+        extraFeatures: has.size - new Set(wanted).size,
+      });
+    }
+
+    matches.sort(
+      (a, b) =>
+        Number(a.requiresApproval) - Number(b.requiresApproval) ||
+        a.spareSeats - b.spareSeats ||
+        a.extraFeatures - b.extraFeatures ||
+        a.name.localeCompare(b.name)
+    );
+
+    res.json({ rooms: matches });
+  } catch (error) {
+    logger.error('Room availability search failed:', error);
+    res.status(500).json({ error: trReq(req, 'searchRoomsFailed') });
+  }
+});
+
+// Open, closed and busy time per room over [from, to), for the calendars to
+// draw from rather than each working out hours and closures for itself
+router.get('/free-busy', authenticateToken, validateFreeBusyQuery, async (req: AuthRequest, res: Response) => {
+  try {
+    const lang = getLang(req);
+    const from = new Date(String(req.query.from));
+    const to = new Date(String(req.query.to));
+    if (to <= from) {
+      return res.status(400).json({ error: tr(lang, 'endAfterStart') });
+    }
+    if (to.getTime() - from.getTime() > MAX_FREE_BUSY_DAYS * 24 * 3600000) {
+      return res.status(400).json({ error: tr(lang, 'freeBusyRangeTooLong', { days: MAX_FREE_BUSY_DAYS }) });
+    }
+    const roomIds = req.query.roomIds ? String(req.query.roomIds).split(',').filter(Boolean) : null;
+
+    const [rooms, settings] = await Promise.all([
+      prisma.room.findMany({
+        where: roomIds ? { id: { in: roomIds } } : {},
+        include: { department: true },
+        orderBy: { name: 'asc' },
+      }),
+      getServiceSettings(),
+    ]);
+
+    res.json({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      rooms: await getFreeBusy(rooms, from, to, settings),
+    });
+  } catch (error) {
+    logger.error('Free/busy lookup failed:', error);
+    res.status(500).json({ error: trReq(req, 'fetchFreeBusyFailed') });
+  }
+});
+
 // Get room by ID
 router.get('/:id', async (req, res) => {
   try {
@@ -48,7 +162,7 @@ router.get('/:id', async (req, res) => {
 // Create new room (global admin, or a department admin within their department)
 router.post('/', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const { name, description, minCapacity, maxCapacity, features, departmentId, bookingTerms, requiresApproval, operatingHours } = req.body;
+    const { name, description, minCapacity, maxCapacity, features, departmentId, bookingTerms, requiresApproval, operatingHours, checkInGraceMinutes, bookingRules, autoApprovalRules, approvalChain, bufferMinutes } = req.body;
 
     if (!isGlobalAdmin(req.userRole)) {
       const managed = await getManagedDepartmentIds(req.userId);
@@ -90,6 +204,27 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
       return res.status(400).json({ error: trReq(req, 'invalidOperatingHours') });
     }
 
+    const checkInGrace = parseCheckInOverride(checkInGraceMinutes);
+    if (checkInGrace === false) {
+      return res.status(400).json({ error: trReq(req, 'invalidCheckInMinutes') });
+    }
+
+    if (bookingRules && !parseBookingRulesJson(bookingRules)) {
+      return res.status(400).json({ error: trReq(req, 'invalidBookingRules') });
+    }
+
+    if (autoApprovalRules && !parseAutoApprovalRulesJson(autoApprovalRules)) {
+      return res.status(400).json({ error: trReq(req, 'invalidAutoApprovalRules') });
+    }
+
+    if (approvalChain && !(await validateApprovalChain(approvalChain))) {
+      return res.status(400).json({ error: trReq(req, 'invalidApprovalChain') });
+    }
+
+    if (bufferMinutes !== undefined && !isValidBufferMinutes(Number(bufferMinutes))) {
+      return res.status(400).json({ error: trReq(req, 'invalidBufferMinutes') });
+    }
+
     // Create room with features as JSON string
     const room = await prisma.room.create({
       data: {
@@ -103,6 +238,15 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
         requiresApproval: requiresApproval === true,
         // null = inherit the department's schedule (or the global one)
         operatingHours: operatingHours || null,
+        // null = inherit the department's check-in grace (or the global one)
+        checkInGraceMinutes: checkInGrace,
+        // null = follow the department's rules (or the global ones)
+        bookingRules: bookingRules || null,
+        // null = only the department's auto-approval rules, if any
+        autoApprovalRules: autoApprovalRules || null,
+        // null = one approval by any of the department's moderators
+        approvalChain: approvalChain || null,
+        ...(bufferMinutes !== undefined && { bufferMinutes: Number(bufferMinutes) }),
       },
       include: { department: true },
     });
@@ -117,6 +261,7 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
       metadata: { capacity: `${room.minCapacity}-${room.maxCapacity}`, requiresApproval: room.requiresApproval },
     });
 
+    publishChange('rooms');
     res.status(201).json({
       ...room,
       features: JSON.parse(room.features),
@@ -127,10 +272,13 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
   }
 });
 
-// Update room (global admin, or a department admin for rooms in their department)
+// Update room (global admin, or a department admin for rooms in their department).
+// With ?dryRun=true nothing is saved: the response lists the future bookings the
+// new hours or capacity would break. A save may then carry impactAction
+// (NOTIFY or CANCEL) and impactBookingIds to act on those bookings.
 router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
-    const { name, description, minCapacity, maxCapacity, features, departmentId, bookingTerms, requiresApproval, operatingHours } = req.body;
+    const { name, description, minCapacity, maxCapacity, features, departmentId, bookingTerms, requiresApproval, operatingHours, checkInGraceMinutes, bookingRules, autoApprovalRules, approvalChain, bufferMinutes } = req.body;
 
     if (!isGlobalAdmin(req.userRole)) {
       const managed = await getManagedDepartmentIds(req.userId);
@@ -169,23 +317,71 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
     // Check if room exists
     const existingRoom = await prisma.room.findUnique({
       where: { id: req.params.id },
+      include: { department: true },
     });
 
     if (!existingRoom) {
       return res.status(404).json({ error: trReq(req, 'roomNotFound') });
     }
 
-    if (departmentId) {
-      const department = await prisma.department.findUnique({ where: { id: departmentId } });
-      if (!department) {
-        return res.status(400).json({ error: trReq(req, 'departmentNotFound') });
-      }
+    const department = departmentId
+      ? await prisma.department.findUnique({ where: { id: departmentId } })
+      : null;
+    if (departmentId && !department) {
+      return res.status(400).json({ error: trReq(req, 'departmentNotFound') });
     }
 
     if (operatingHours && !parseOperatingHoursJson(operatingHours)) {
       return res.status(400).json({ error: trReq(req, 'invalidOperatingHours') });
     }
 
+    const checkInGrace = parseCheckInOverride(checkInGraceMinutes);
+    if (checkInGrace === false) {
+      return res.status(400).json({ error: trReq(req, 'invalidCheckInMinutes') });
+    }
+
+    if (bookingRules && !parseBookingRulesJson(bookingRules)) {
+      return res.status(400).json({ error: trReq(req, 'invalidBookingRules') });
+    }
+
+    if (autoApprovalRules && !parseAutoApprovalRulesJson(autoApprovalRules)) {
+      return res.status(400).json({ error: trReq(req, 'invalidAutoApprovalRules') });
+    }
+
+    if (approvalChain && !(await validateApprovalChain(approvalChain))) {
+      return res.status(400).json({ error: trReq(req, 'invalidApprovalChain') });
+    }
+
+    if (bufferMinutes !== undefined && !isValidBufferMinutes(Number(bufferMinutes))) {
+      return res.status(400).json({ error: trReq(req, 'invalidBufferMinutes') });
+    }
+
+    const impactRequest = parseImpactRequest(req.body);
+    if (impactRequest === null) {
+      return res.status(400).json({ error: trReq(req, 'invalidImpactAction') });
+    }
+    const dryRun = req.query.dryRun === 'true';
+    let impacts: PolicyImpact[] = [];
+    if (dryRun || impactRequest) {
+      impacts = await findPolicyImpact(
+        {
+          rooms: [existingRoom],
+          apply: (room) => ({
+            ...room,
+            minCapacity: minCap,
+            maxCapacity: maxCap,
+            operatingHours: operatingHours || null,
+            departmentId: department?.id ?? null,
+            department,
+          }),
+        },
+        getLang(req)
+      );
+    }
+    if (dryRun) {
+      return res.json({ dryRun: true, affectedBookings: impacts.map(formatPolicyImpact) });
+    }
+
     // Update room
     const room = await prisma.room.update({
       where: { id: req.params.id },
@@ -200,6 +396,15 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
         requiresApproval: requiresApproval === true,
         // null = inherit the department's schedule (or the global one)
         operatingHours: operatingHours || null,
+        // null = inherit the department's check-in grace (or the global one)
+        checkInGraceMinutes: checkInGrace,
+        // null = follow the department's rules (or the global ones)
+        bookingRules: bookingRules || null,
+        // null = only the department's auto-approval rules, if any
+        autoApprovalRules: autoApprovalRules || null,
+        // null = one approval by any of the department's moderators
+        approvalChain: approvalChain || null,
+        ...(bufferMinutes !== undefined && { bufferMinutes: Number(bufferMinutes) }),
       },
       include: { department: true },
     });
@@ -215,9 +420,24 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
         renamedFrom: existingRoom.name !== room.name ? existingRoom.name : undefined,
         movedDepartment: existingRoom.departmentId !== room.departmentId || undefined,
         hoursChanged: existingRoom.operatingHours !== room.operatingHours || undefined,
+        checkInChanged: existingRoom.checkInGraceMinutes !== room.checkInGraceMinutes || undefined,
+        rulesChanged: existingRoom.bookingRules !== room.bookingRules || undefined,
+        autoApprovalChanged: existingRoom.autoApprovalRules !== room.autoApprovalRules || undefined,
+        approvalChainChanged: existingRoom.approvalChain !== room.approvalChain || undefined,
+        bufferChanged: existingRoom.bufferMinutes !== room.bufferMinutes || undefined,
       },
     });
 
+    if (impactRequest) {
+      await resolvePolicyImpact(
+        req,
+        impacts.filter((i) => impactRequest.bookingIds.has(i.booking.id)),
+        impactRequest.action,
+        { targetType: 'Room', targetId: room.id, targetLabel: room.name, departmentId: room.departmentId }
+      );
+    }
+
+    publishChange('rooms');
     res.json({
       ...room,
       features: JSON.parse(room.features),
@@ -283,6 +503,7 @@ router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
       metadata: { deletedBookings: removedBookings.count },
     });
 
+    publishChange('rooms');
     res.json({ message: trReq(req, 'roomDeleted') });
   } catch (error) {
     console.error('Delete room error:', error);
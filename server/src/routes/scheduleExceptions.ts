@@ -4,14 +4,16 @@ import { authenticateToken, AuthRequest } from '../middleware/auth.js';
 import { getManagedDepartmentIds, isGlobalAdmin } from '../services/permissions.js';
 import { recordAudit } from '../services/audit.js';
 import logger from '../utils/logger.js';
-import { trReq } from '../services/i18n.js';
+import { tr, trReq } from '../services/i18n.js';
+import { publishChange } from '../services/liveEvents.js';
+import { cancelAffectedBookings, findClosureImpact, formatAffectedBooking } from '../services/bookingImpact.js';
 
 const router = Router();
 const prisma = new PrismaClient();
 
 // Validate the shared fields; returns an error string or null
 const validateBody = (body: any): string | null => {
-  const { name, startDate, endDate, closed, openHour, closeHour } = body;
+  const { name, startDate, endDate, closed, openHour, closeHour, blockStartMinute, blockEndMinute } = body;
   if (!name || !String(name).trim()) return 'Name is required';
   const s = new Date(startDate);
   const e = new Date(endDate);
@@ -27,11 +29,68 @@ const validateBody = (body: any): string | null => {
     ) {
       return 'Special hours need an opening time before the closing time (0-24)';
     }
+  } else if (blockStartMinute != null || blockEndMinute != null) {
+    if (
+      !Number.isInteger(blockStartMinute) ||
+      !Number.isInteger(blockEndMinute) ||
+      blockStartMinute < 0 ||
+      blockEndMinute > 24 * 60 ||
+      blockStartMinute >= blockEndMinute
+    ) {
+      return 'A time block needs a start time before its end time';
+    }
   }
   return null;
 };
 
-// May this user manage an exception scoped to the given department?
+const EXCEPTION_INCLUDE = {
+  department: { select: { id: true, name: true } },
+  room: { select: { id: true, name: true, departmentId: true } },
+};
+
+// The department whose managers look after an exception: its room's, when it
+// covers one room
+const scopeDepartmentId = (ex: { departmentId: string | null; room: { departmentId: string | null } | null }) =>
+  ex.room ? ex.room.departmentId : ex.departmentId;
+
+const scopeLabel = (ex: { departmentId: string | null; roomId: string | null }) =>
+  ex.roomId ? 'room' : ex.departmentId ? 'department' : 'service-wide';
+
+// The scope a request body asks for: a room, a department, or the whole service.
+// A room's department is not stored on the exception, so moving the room moves
+// its closures with it.
+const resolveScope = async (body: any) => {
+  if (body.roomId) {
+    const room = await prisma.room.findUnique({
+      where: { id: String(body.roomId) },
+      select: { id: true, departmentId: true },
+    });
+    if (!room) return { ok: false as const, error: 'roomNotFound' as const };
+    return { ok: true as const, roomId: room.id, departmentId: null, manageDepartmentId: room.departmentId };
+  }
+  const departmentId: string | null = body.departmentId || null;
+  if (departmentId) {
+    const dept = await prisma.department.findUnique({ where: { id: departmentId } });
+    if (!dept) return { ok: false as const, error: 'departmentNotFound' as const };
+  }
+  return { ok: true as const, roomId: null, departmentId, manageDepartmentId: departmentId };
+};
+
+// The hours fields as stored: special hours only when open, a block only when closed
+const hoursData = (body: any) => {
+  const closed = body.closed !== false;
+  const blocked = closed && body.blockStartMinute != null;
+  return {
+    closed,
+    openHour: closed ? null : body.openHour,
+    closeHour: closed ? null : body.closeHour,
+    blockStartMinute: blocked ? body.blockStartMinute : null,
+    blockEndMinute: blocked ? body.blockEndMinute : null,
+  };
+};
+
+// May this user manage an exception scoped to the given department (a room's,
+// for a room closure)?
 const canManage = async (
   req: AuthRequest,
   departmentId: string | null
@@ -46,7 +105,7 @@ const canManage = async (
 router.get('/', async (req, res) => {
   try {
     const exceptions = await prisma.scheduleException.findMany({
-      include: { department: { select: { id: true, name: true } } },
+      include: EXCEPTION_INCLUDE,
       orderBy: { startDate: 'asc' },
     });
     res.json(exceptions);
@@ -62,27 +121,22 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
     const validationError = validateBody(req.body);
     if (validationError) return res.status(400).json({ error: validationError });
 
-    const departmentId = req.body.departmentId || null;
-    if (!(await canManage(req, departmentId))) {
+    const scope = await resolveScope(req.body);
+    if (!scope.ok) return res.status(400).json({ error: trReq(req, scope.error) });
+    if (!(await canManage(req, scope.manageDepartmentId))) {
       return res.status(403).json({ error: trReq(req, 'createOwnClosures') });
     }
-    if (departmentId) {
-      const dept = await prisma.department.findUnique({ where: { id: departmentId } });
-      if (!dept) return res.status(400).json({ error: trReq(req, 'departmentNotFound') });
-    }
 
-    const closed = req.body.closed !== false;
     const exception = await prisma.scheduleException.create({
       data: {
         name: String(req.body.name).trim(),
         startDate: new Date(req.body.startDate),
         endDate: new Date(req.body.endDate),
-        closed,
-        openHour: closed ? null : req.body.openHour,
-        closeHour: closed ? null : req.body.closeHour,
-        departmentId,
+        ...hoursData(req.body),
+        departmentId: scope.departmentId,
+        roomId: scope.roomId,
       },
-      include: { department: { select: { id: true, name: true } } },
+      include: EXCEPTION_INCLUDE,
     });
 
     logger.info(`Schedule exception "${exception.name}" created by user ${req.userId}`);
@@ -91,18 +145,27 @@ router.post('/', authenticateToken, async (req: AuthRequest, res) => {
       targetType: 'ScheduleException',
       targetId: exception.id,
       targetLabel: exception.name,
-      departmentId: exception.departmentId,
+      departmentId: scopeDepartmentId(exception),
       summary: exception.closed
         ? `Created closure "${exception.name}"`
         : `Created special hours "${exception.name}"`,
       metadata: {
         from: exception.startDate.toISOString().slice(0, 10),
         to: exception.endDate.toISOString().slice(0, 10),
-        scope: exception.departmentId ? 'department' : 'service-wide',
+        scope: scopeLabel(exception),
+        ...(exception.room && { room: exception.room.name }),
+        ...(exception.blockStartMinute !== null && {
+          blockStartMinute: exception.blockStartMinute,
+          blockEndMinute: exception.blockEndMinute,
+        }),
       },
     });
 
-    res.status(201).json(exception);
+    publishChange('closures');
+    // Bookings it now rules out stay as they are until the creator confirms
+    // cancelling them (POST /:id/cancel-affected)
+    const affected = await findClosureImpact(exception);
+    res.status(201).json({ ...exception, affectedBookings: affected.map(formatAffectedBooking) });
   } catch (error) {
     console.error('Create schedule exception error:', error);
     res.status(500).json({ error: trReq(req, 'createClosureFailed') });
@@ -114,30 +177,33 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const existing = await prisma.scheduleException.findUnique({
       where: { id: req.params.id },
+      include: EXCEPTION_INCLUDE,
     });
     if (!existing) return res.status(404).json({ error: trReq(req, 'closureNotFound') });
 
     const validationError = validateBody(req.body);
     if (validationError) return res.status(400).json({ error: validationError });
 
-    const departmentId = req.body.departmentId || null;
-    if (!(await canManage(req, existing.departmentId)) || !(await canManage(req, departmentId))) {
+    const scope = await resolveScope(req.body);
+    if (!scope.ok) return res.status(400).json({ error: trReq(req, scope.error) });
+    if (
+      !(await canManage(req, scopeDepartmentId(existing))) ||
+      !(await canManage(req, scope.manageDepartmentId))
+    ) {
       return res.status(403).json({ error: trReq(req, 'manageOwnClosures') });
     }
 
-    const closed = req.body.closed !== false;
     const exception = await prisma.scheduleException.update({
       where: { id: req.params.id },
       data: {
         name: String(req.body.name).trim(),
         startDate: new Date(req.body.startDate),
         endDate: new Date(req.body.endDate),
-        closed,
-        openHour: closed ? null : req.body.openHour,
-        closeHour: closed ? null : req.body.closeHour,
-        departmentId,
+        ...hoursData(req.body),
+        departmentId: scope.departmentId,
+        roomId: scope.roomId,
       },
-      include: { department: { select: { id: true, name: true } } },
+      include: EXCEPTION_INCLUDE,
     });
 
     await recordAudit(req, {
@@ -145,30 +211,82 @@ router.put('/:id', authenticateToken, async (req: AuthRequest, res) => {
       targetType: 'ScheduleException',
       targetId: exception.id,
       targetLabel: exception.name,
-      departmentId: exception.departmentId,
+      departmentId: scopeDepartmentId(exception),
       summary: `Updated closure "${exception.name}"`,
       metadata: {
         from: exception.startDate.toISOString().slice(0, 10),
         to: exception.endDate.toISOString().slice(0, 10),
+        scope: scopeLabel(exception),
+        ...(exception.room && { room: exception.room.name }),
       },
     });
 
-    res.json(exception);
+    publishChange('closures');
+    const affected = await findClosureImpact(exception);
+    res.json({ ...exception, affectedBookings: affected.map(formatAffectedBooking) });
   } catch (error) {
     console.error('Update schedule exception error:', error);
     res.status(500).json({ error: trReq(req, 'updateClosureFailed') });
   }
 });
 
+// Cancel the bookings a closure rules out, as previewed when it was saved. Only
+// ids still affected are cancelled, so a booking moved since the preview is
+// left alone. Each booker is emailed the closure's name in their language.
+router.post('/:id/cancel-affected', authenticateToken, async (req: AuthRequest, res) => {
+  try {
+    const { bookingIds } = req.body;
+    if (!Array.isArray(bookingIds) || bookingIds.length === 0) {
+      return res.status(400).json({ error: trReq(req, 'closureBookingIdsRequired') });
+    }
+
+    const exception = await prisma.scheduleException.findUnique({
+      where: { id: req.params.id },
+      include: EXCEPTION_INCLUDE,
+    });
+    if (!exception) return res.status(404).json({ error: trReq(req, 'closureNotFound') });
+    if (!(await canManage(req, scopeDepartmentId(exception)))) {
+      return res.status(403).json({ error: trReq(req, 'manageOwnClosures') });
+    }
+
+    const wanted = new Set(bookingIds.map(String));
+    const toCancel = (await findClosureImpact(exception)).filter((b) => wanted.has(b.id));
+    await cancelAffectedBookings(toCancel, (lang) => tr(lang, 'closureCancelReason', { name: exception.name }));
+
+    if (toCancel.length > 0) {
+      logger.info(`Closure "${exception.name}": ${toCancel.length} booking(s) cancelled by user ${req.userId}`);
+      await recordAudit(req, {
+        action: 'CLOSURE_CANCEL_BOOKINGS',
+        targetType: 'ScheduleException',
+        targetId: exception.id,
+        targetLabel: exception.name,
+        departmentId: scopeDepartmentId(exception),
+        summary: `Cancelled ${toCancel.length} booking(s) affected by closure "${exception.name}"`,
+        metadata: {
+          count: toCancel.length,
+          bookers: new Set(toCancel.map((b) => b.userId)).size,
+          skipped: wanted.size - toCancel.length,
+        },
+      });
+    }
+
+    res.json({ cancelled: toCancel.length, skipped: wanted.size - toCancel.length });
+  } catch (error) {
+    console.error('Cancel affected bookings error:', error);
+    res.status(500).json({ error: trReq(req, 'cancelAffectedFailed') });
+  }
+});
+
 // Delete
 router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
   try {
     const existing = await prisma.scheduleException.findUnique({
       where: { id: req.params.id },
+      include: EXCEPTION_INCLUDE,
     });
     if (!existing) return res.status(404).json({ error: trReq(req, 'closureNotFound') });
 
-    if (!(await canManage(req, existing.departmentId))) {
+    if (!(await canManage(req, scopeDepartmentId(existing)))) {
       return res.status(403).json({ error: trReq(req, 'manageOwnClosures') });
     }
 
@@ -179,10 +297,11 @@ router.delete('/:id', authenticateToken, async (req: AuthRequest, res) => {
       targetType: 'ScheduleException',
       targetId: existing.id,
       targetLabel: existing.name,
-      departmentId: existing.departmentId,
+      departmentId: scopeDepartmentId(existing),
       summary: `Deleted closure "${existing.name}"`,
     });
     logger.info(`Schedule exception "${existing.name}" deleted by user ${req.userId}`);
+    publishChange('closures');
     res.json({ message: trReq(req, 'closureDeleted') });
   } catch (error) {
     console.error('Delete schedule exception error:', error);
@@ -4,6 +4,7 @@ import bcrypt from 'bcrypt';
 import { authenticateToken, requireAdmin, requireAdminOrWorker, AuthRequest } from '../middleware/auth.js';
 import { trReq } from '../services/i18n.js';
 import { recordAudit } from '../services/audit.js';
+import { publishBookingChange } from '../services/liveEvents.js';
 
 const router = Router();
 const prisma = new PrismaClient();
@@ -30,6 +31,8 @@ const userSelect = {
   status: true,
   avatarUrl: true,
   createdAt: true,
+  // The department the user belongs to, as auto-approval rules see it
+  departmentId: true,
   // Department management is a grant, not a role, so it is invisible in `role`.
   // Ship it alongside so admin screens can show who manages what.
   managedDepartments: {
@@ -237,7 +240,7 @@ router.post('/import', requireAdmin, async (req: AuthRequest, res) => {
 router.put('/:id', requireAdmin, async (req: AuthRequest, res) => {
   try {
     const { id } = req.params;
-    const { name, email, role, password, status } = req.body;
+    const { name, email, role, password, status, departmentId } = req.body;
 
     // Check if user exists
     const existingUser = await prisma.user.findUnique({
@@ -270,12 +273,17 @@ router.put('/:id', requireAdmin, async (req: AuthRequest, res) => {
       }
     }
 
+    if (departmentId && !(await prisma.department.findUnique({ where: { id: departmentId } }))) {
+      return res.status(400).json({ error: trReq(req, 'departmentNotFound') });
+    }
+
     // Prepare update data
     const updateData: any = {};
     if (name) updateData.name = name;
     if (email) updateData.email = email;
     if (role) updateData.role = role;
     if (status) updateData.status = status;
+    if (departmentId !== undefined) updateData.departmentId = departmentId || null;
     if (password) {
       updateData.password = await bcrypt.hash(password, 10);
     }
@@ -308,6 +316,7 @@ router.put('/:id', requireAdmin, async (req: AuthRequest, res) => {
         statusFrom: statusChanged ? existingUser.status : undefined,
         statusTo: statusChanged ? updatedUser.status : undefined,
         passwordReset: req.body.password ? true : undefined,
+        departmentChanged: existingUser.departmentId !== updatedUser.departmentId || undefined,
       },
     });
 
@@ -338,18 +347,19 @@ router.delete('/:id', requireAdmin, async (req: AuthRequest, res) => {
     }
 
     // Delete user (this will cascade delete their bookings due to foreign key)
-    const lostBookings = await prisma.booking.count({ where: { userId: id } });
+    const lostBookings = await prisma.booking.findMany({ where: { userId: id }, select: { id: true } });
     await prisma.user.delete({
       where: { id },
     });
+    await publishBookingChange('deleted', lostBookings.map((b) => b.id));
 
     await recordAudit(req, {
       action: 'USER_DELETE',
       targetType: 'User',
       targetId: id,
       targetLabel: user.email,
-      summary: `Deleted user ${user.email} (${user.role}) and ${lostBookings} booking(s)`,
-      metadata: { role: user.role, cascadedBookings: lostBookings },
+      summary: `Deleted user ${user.email} (${user.role}) and ${lostBookings.length} booking(s)`,
+      metadata: { role: user.role, cascadedBookings: lostBookings.length },
     });
 
     res.json({ message: trReq(req, 'userDeleted') });
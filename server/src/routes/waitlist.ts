@@ -0,0 +1,272 @@
+import { Router, Response } from 'express';
+import { PrismaClient, WaitlistEntry, WaitlistStatus } from '@prisma/client';
+import { authenticateToken, AuthRequest } from '../middleware/auth.js';
+import { validateBooking } from '../middleware/validation.js';
+import logger from '../utils/logger.js';
+import { getServiceSettings } from '../services/settings.js';
+import { checkBookingSlot, checkRoomPolicy } from '../services/bookingValidation.js';
+import {
+  ACTIVE_WAITLIST_STATUSES,
+  bookWaitlistEntry,
+  parseWaitlistAttendees,
+  promoteWaitlist,
+} from '../services/waitlist.js';
+import { checkBookingQuota } from '../services/quotas.js';
+import { checkBookingBan } from '../services/strikes.js';
+import { recordAudit } from '../services/audit.js';
+import { getLang, tr, trReq } from '../services/i18n.js';
+
+const router = Router();
+const prisma = new PrismaClient();
+
+router.use(authenticateToken);
+
+const formatEntry = (entry: WaitlistEntry & { room: { name: string } }) => ({
+  id: entry.id,
+  roomId: entry.roomId,
+  roomName: entry.room.name,
+  startTime: entry.startTime.toISOString(),
+  endTime: entry.endTime.toISOString(),
+  purpose: entry.purpose,
+  attendees: parseWaitlistAttendees(entry),
+  status: entry.status,
+  offerExpiresAt: entry.offerExpiresAt ? entry.offerExpiresAt.toISOString() : null,
+  bookingId: entry.bookingId,
+  createdAt: entry.createdAt.toISOString(),
+});
+
+// The signed-in user's own waitlist entries, soonest slot first
+router.get('/', async (req: AuthRequest, res) => {
+  try {
+    const entries = await prisma.waitlistEntry.findMany({
+      where: { userId: req.userId },
+      include: { room: true },
+      orderBy: { startTime: 'asc' },
+    });
+    res.json(entries.map(formatEntry));
+  } catch (error) {
+    logger.error('Error fetching waitlist:', error);
+    res.status(500).json({ error: trReq(req, 'fetchWaitlistFailed') });
+  }
+});
+
+// Join the queue for a slot that is taken. Takes the same body as booking it,
+// and the request must pass every booking rule except the clash itself, so a
+// promotion later never offers something that could not have been booked.
+router.post('/', validateBooking, async (req: AuthRequest, res: Response) => {
+  try {
+    const { roomId, startTime, endTime, purpose, attendees, termsAccepted } = req.body;
+    const userId = req.userId!;
+    const lang = getLang(req);
+
+    const start = new Date(startTime);
+    const end = new Date(endTime);
+
+    const room = await prisma.room.findUnique({
+      where: { id: roomId },
+      include: { department: true },
+    });
+
+    if (!room) {
+      return res.status(404).json({ error: tr(lang, 'roomNotFound') });
+    }
+
+    const policyError = checkRoomPolicy(room, attendees, termsAccepted, lang);
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
+    }
+
+    const settings = await getServiceSettings();
+    const slot = await checkBookingSlot(room, start, end, settings, lang, { role: req.userRole });
+    if (slot.ok) {
+      return res.status(400).json({ error: tr(lang, 'waitlistSlotFree') });
+    }
+    if (slot.reason !== 'CONFLICT') {
+      return res.status(slot.status).json({ error: slot.error });
+    }
+
+    // A banned user would only be skipped when the slot frees up
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    const banError = user && checkBookingBan(user, lang);
+    if (banError) {
+      return res.status(403).json({ error: banError });
+    }
+
+    const quotaError = await checkBookingQuota({ id: userId, role: req.userRole! }, room, start, end, settings, lang);
+    if (quotaError) {
+      return res.status(400).json({ error: quotaError });
+    }
+
+    const duplicate = await prisma.waitlistEntry.findFirst({
+      where: {
+        userId,
+        roomId,
+        status: { in: ACTIVE_WAITLIST_STATUSES },
+        startTime: { lt: end },
+        endTime: { gt: start },
+      },
+    });
+    if (duplicate) {
+      return res.status(400).json({ error: tr(lang, 'waitlistDuplicate') });
+    }
+
+    const entry = await prisma.waitlistEntry.create({
+      data: {
+        roomId,
+        userId,
+        startTime: start,
+        endTime: end,
+        purpose,
+        attendees: JSON.stringify(
+          attendees.map((a: any) => ({ name: a.name, studentId: a.studentId, isCompanion: a.isCompanion }))
+        ),
+        termsAcceptedAt: room.bookingTerms ? new Date() : null,
+      },
+      include: { room: true, user: true },
+    });
+
+    logger.info(`User ${userId} joined the waitlist for room ${roomId} at ${startTime}-${endTime}`);
+    await recordAudit(req, {
+      action: 'WAITLIST_JOIN',
+      targetType: 'WaitlistEntry',
+      targetId: entry.id,
+      targetLabel: `${room.name} - ${entry.user.name}`,
+      departmentId: room.departmentId,
+      summary: 'Joined the waitlist for a taken slot',
+      metadata: { start: entry.startTime.toISOString(), end: entry.endTime.toISOString() },
+    });
+
+    res.status(201).json(formatEntry(entry));
+  } catch (error) {
+    logger.error('Error joining waitlist:', error);
+    res.status(500).json({ error: trReq(req, 'joinWaitlistFailed') });
+  }
+});
+
+// Take an offered slot. It is re-validated (the rules may have changed since it
+// was offered), but this entry's own hold on it does not count as a clash.
+router.post('/:id/claim', async (req: AuthRequest, res: Response) => {
+  try {
+    const lang = getLang(req);
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { id: req.params.id },
+      include: { user: true, room: { include: { department: true } } },
+    });
+
+    if (!entry || entry.userId !== req.userId) {
+      return res.status(404).json({ error: tr(lang, 'waitlistEntryNotFound') });
+    }
+
+    const now = new Date();
+    if (entry.status !== WaitlistStatus.OFFERED || !entry.offerExpiresAt || entry.offerExpiresAt <= now) {
+      return res.status(400).json({ error: tr(lang, 'waitlistOfferExpired') });
+    }
+
+    const policyError = checkRoomPolicy(entry.room, parseWaitlistAttendees(entry), true, lang);
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
+    }
+
+    const settings = await getServiceSettings();
+    const slot = await checkBookingSlot(entry.room, entry.startTime, entry.endTime, settings, lang, {
+      waitlistEntryId: entry.id,
+      now,
+      role: entry.user.role,
+    });
+    if (!slot.ok) {
+      return res.status(slot.status).json({
+        error: slot.error,
+        ...(slot.conflict && { conflict: slot.conflict }),
+      });
+    }
+
+    const banError = checkBookingBan(entry.user, lang, now);
+    if (banError) {
+      return res.status(403).json({ error: banError });
+    }
+
+    // The user may have booked other things while they waited
+    const quotaError = await checkBookingQuota(entry.user, entry.room, entry.startTime, entry.endTime, settings, lang, {
+      now,
+    });
+    if (quotaError) {
+      return res.status(400).json({ error: quotaError });
+    }
+
+    const { booking, clash } = await bookWaitlistEntry(entry, settings, lang);
+    if (clash) {
+      return res.status(clash.status).json({ error: clash.error, conflict: clash.conflict });
+    }
+
+    logger.info(`Waitlist entry ${entry.id} claimed as booking ${booking.id}`);
+    await recordAudit(req, {
+      action: 'WAITLIST_CLAIM',
+      targetType: 'WaitlistEntry',
+      targetId: entry.id,
+      targetLabel: `${entry.room.name} - ${entry.user.name}`,
+      departmentId: entry.room.departmentId,
+      summary: 'Claimed a slot offered from the waitlist',
+      metadata: { bookingId: booking.id, start: booking.startTime.toISOString() },
+    });
+
+    res.status(201).json({
+      id: booking.id,
+      roomId: booking.roomId,
+      userId: booking.userId,
+      startTime: booking.startTime.toISOString(),
+      endTime: booking.endTime.toISOString(),
+      purpose: booking.purpose,
+      status: booking.status,
+      createdAt: booking.createdAt.toISOString(),
+    });
+  } catch (error) {
+    logger.error('Error claiming waitlist offer:', error);
+    res.status(500).json({ error: trReq(req, 'claimWaitlistFailed') });
+  }
+});
+
+// Leave the queue. Declining an offer passes the slot straight to the next person.
+router.delete('/:id', async (req: AuthRequest, res) => {
+  try {
+    const lang = getLang(req);
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { id: req.params.id },
+      include: { user: true, room: true },
+    });
+
+    if (!entry || entry.userId !== req.userId) {
+      return res.status(404).json({ error: tr(lang, 'waitlistEntryNotFound') });
+    }
+
+    if (!ACTIVE_WAITLIST_STATUSES.includes(entry.status)) {
+      return res.status(400).json({ error: tr(lang, 'waitlistNotActive') });
+    }
+
+    const updated = await prisma.waitlistEntry.update({
+      where: { id: entry.id },
+      data: { status: WaitlistStatus.CANCELLED, offerExpiresAt: null },
+    });
+
+    if (entry.status === WaitlistStatus.OFFERED) {
+      await promoteWaitlist(entry.roomId, entry.startTime, entry.endTime);
+    }
+
+    logger.info(`User ${req.userId} left waitlist entry ${entry.id}`);
+    await recordAudit(req, {
+      action: 'WAITLIST_LEAVE',
+      targetType: 'WaitlistEntry',
+      targetId: entry.id,
+      targetLabel: `${entry.room.name} - ${entry.user.name}`,
+      departmentId: entry.room.departmentId,
+      summary: entry.status === WaitlistStatus.OFFERED ? 'Declined a slot offered from the waitlist' : 'Left the waitlist',
+      metadata: { start: entry.startTime.toISOString() },
+    });
+
+    res.json({ id: updated.id, status: updated.status });
+  } catch (error) {
+    logger.error('Error leaving waitlist:', error);
+    res.status(500).json({ error: trReq(req, 'leaveWaitlistFailed') });
+  }
+});
+
+export { router as waitlistRouter };
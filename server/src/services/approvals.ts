@@ -0,0 +1,253 @@
+import { Booking, Prisma, PrismaClient, ServiceSettings, User, UserRole, UserStatus } from '@prisma/client';
+import { parseEmails, sendApprovalRequestEmail } from './email.js';
+import { RoomWithDepartment } from './bookingValidation.js';
+import { isStaff } from './permissions.js';
+
+const prisma = new PrismaClient();
+
+// One sign-off in a room's approval chain: any of the named users, or whoever
+// manages the department. Steps are signed in order.
+export interface ApprovalStep {
+  name: string;
+  approverIds?: string[];
+  departmentId?: string;
+}
+
+// Long enough for any real sign-off policy
+export const MAX_APPROVAL_STEPS = 5;
+const MAX_STEP_APPROVERS = 20;
+const MAX_STEP_NAME = 80;
+
+const parseStep = (raw: unknown): ApprovalStep | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const { name, approverIds, departmentId, ...rest } = raw as Record<string, unknown>;
+  if (Object.keys(rest).length > 0) return null;
+  if (typeof name !== 'string' || !name.trim() || name.length > MAX_STEP_NAME) return null;
+  // Named users or a department, never both
+  if ((approverIds === undefined) === (departmentId === undefined)) return null;
+  if (approverIds !== undefined) {
+    if (!Array.isArray(approverIds) || approverIds.length === 0 || approverIds.length > MAX_STEP_APPROVERS) return null;
+    if (approverIds.some((id) => typeof id !== 'string' || !id)) return null;
+    return { name, approverIds: [...new Set(approverIds as string[])] };
+  }
+  if (typeof departmentId !== 'string' || !departmentId) return null;
+  return { name, departmentId };
+};
+
+// Parse a stored or submitted chain; null when unset or malformed
+export const parseApprovalChainJson = (json: string | null | undefined): ApprovalStep[] | null => {
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed) || parsed.length === 0 || parsed.length > MAX_APPROVAL_STEPS) return null;
+    const steps = parsed.map(parseStep);
+    return steps.every((s): s is ApprovalStep => s !== null) ? steps : null;
+  } catch {
+    return null;
+  }
+};
+
+// Staff, or anyone managing a department: the people who can open the
+// approval inbox, and so the only ones a step can name or a delegation reach
+const approverWhere = {
+  status: UserStatus.ACTIVE,
+  OR: [
+    { role: { in: [UserRole.ADMIN, UserRole.SUPERADMIN, UserRole.STUDENT_WORKER] } },
+    { managedDepartments: { some: {} } },
+  ],
+} satisfies Prisma.UserWhereInput;
+
+export const isEligibleApprover = async (userId: string): Promise<boolean> =>
+  !!(await prisma.user.findFirst({ where: { id: userId, ...approverWhere }, select: { id: true } }));
+
+export const listEligibleApprovers = () =>
+  prisma.user.findMany({
+    where: approverWhere,
+    select: { id: true, name: true, email: true },
+    orderBy: { name: 'asc' },
+  });
+
+// A chain as submitted for a room: well formed, naming only eligible users
+// and existing departments
+export const validateApprovalChain = async (json: string): Promise<boolean> => {
+  const chain = parseApprovalChainJson(json);
+  if (!chain) return false;
+  const userIds = [...new Set(chain.flatMap((s) => s.approverIds ?? []))];
+  const departmentIds = [...new Set(chain.flatMap((s) => (s.departmentId ? [s.departmentId] : [])))];
+  const [users, departments] = await Promise.all([
+    prisma.user.count({ where: { id: { in: userIds }, ...approverWhere } }),
+    prisma.department.count({ where: { id: { in: departmentIds } } }),
+  ]);
+  return users === userIds.length && departments === departmentIds.length;
+};
+
+// Whose approvals a user may give right now: their own, and those of everyone
+// who has delegated to them for a range covering `at`
+export interface ApprovalAuthority {
+  userId: string;
+  departmentIds: string[]; // managed by the user
+  delegations: { delegatorId: string; role: string; departmentIds: string[] }[];
+}
+
+export const getApprovalAuthority = async (userId: string, at: Date = new Date()): Promise<ApprovalAuthority> => {
+  const [managed, delegations] = await Promise.all([
+    prisma.departmentAdmin.findMany({ where: { userId }, select: { departmentId: true } }),
+    prisma.approvalDelegation.findMany({
+      where: { delegateId: userId, startsAt: { lte: at }, endsAt: { gt: at } },
+      include: { delegator: { select: { role: true, managedDepartments: { select: { departmentId: true } } } } },
+    }),
+  ]);
+  return {
+    userId,
+    departmentIds: managed.map((m) => m.departmentId),
+    delegations: delegations.map((d) => ({
+      delegatorId: d.delegatorId,
+      role: d.delegator.role,
+      departmentIds: d.delegator.managedDepartments.map((m) => m.departmentId),
+    })),
+  };
+};
+
+// Who the user signs `step` as: themselves (null), the delegator whose place
+// they take, or undefined when the step is not theirs to sign
+export const actsForStep = (authority: ApprovalAuthority, step: ApprovalStep): string | null | undefined => {
+  const holds = (userId: string, departmentIds: string[]) =>
+    step.approverIds ? step.approverIds.includes(userId) : departmentIds.includes(step.departmentId!);
+  if (holds(authority.userId, authority.departmentIds)) return null;
+  return authority.delegations.find((d) => holds(d.delegatorId, d.departmentIds))?.delegatorId;
+};
+
+// The delegator a single-approval decision is taken for, when the user only
+// has it by delegation: a staff delegator's reach, or a manager's department
+export const delegatorForDepartment = (
+  authority: ApprovalAuthority,
+  departmentId: string | null
+): string | undefined =>
+  authority.delegations.find(
+    (d) => isStaff(d.role) || (!!departmentId && d.departmentIds.includes(departmentId))
+  )?.delegatorId;
+
+// The step a request waits on, given how many are signed. A chain shortened
+// since the request was made ends at its new last step.
+export const currentStepIndex = (chain: ApprovalStep[], signed: number): number =>
+  Math.min(signed, chain.length - 1);
+
+// Everyone who can sign `step` now, delegates included
+const stepRecipients = async (room: RoomWithDepartment, step: ApprovalStep): Promise<string[]> => {
+  const userIds = step.approverIds
+    ?? (await prisma.departmentAdmin.findMany({ where: { departmentId: step.departmentId } })).map((a) => a.userId);
+  const now = new Date();
+  const [users, delegations, department] = await Promise.all([
+    prisma.user.findMany({ where: { id: { in: userIds } }, select: { email: true } }),
+    prisma.approvalDelegation.findMany({
+      where: { delegatorId: { in: userIds }, startsAt: { lte: now }, endsAt: { gt: now } },
+      include: { delegate: { select: { email: true } } },
+    }),
+    step.departmentId && step.departmentId !== room.departmentId
+      ? prisma.department.findUnique({ where: { id: step.departmentId } })
+      : Promise.resolve(step.departmentId ? room.department : null),
+  ]);
+  return [...new Set([
+    ...parseEmails(department?.contactEmail),
+    ...users.map((u) => u.email),
+    ...delegations.map((d) => d.delegate.email),
+  ].filter(Boolean))];
+};
+
+// Ask the approvers of one step of the room's chain to sign a request
+export const notifyStepApprovers = async (
+  room: RoomWithDepartment,
+  chain: ApprovalStep[],
+  index: number,
+  settings: ServiceSettings,
+  details: Parameters<typeof sendApprovalRequestEmail>[1]
+) => {
+  const recipients = await stepRecipients(room, chain[index]);
+  if (recipients.length === 0) {
+    recipients.push(...parseEmails(settings.contactEmail));
+  }
+  await sendApprovalRequestEmail(recipients, {
+    ...details,
+    step: { name: chain[index].name, index, count: chain.length },
+  });
+};
+
+// Notify everyone responsible for a new request: the department's admins and its
+// contact address(es). Fall back to the service contact(s) so requests are never
+// silently unwatched. A room with an approval chain asks its first step instead.
+export const notifyApprovers = async (
+  room: RoomWithDepartment,
+  settings: ServiceSettings,
+  details: Parameters<typeof sendApprovalRequestEmail>[1]
+) => {
+  const chain = parseApprovalChainJson(room.approvalChain);
+  if (chain) {
+    await notifyStepApprovers(room, chain, 0, settings, details);
+    return;
+  }
+
+  const departmentAdmins = room.departmentId
+    ? await prisma.departmentAdmin.findMany({
+        where: { departmentId: room.departmentId },
+        include: { user: { select: { email: true } } },
+      })
+    : [];
+
+  const recipients = [...new Set([
+    ...parseEmails(room.department?.contactEmail),
+    ...departmentAdmins.map((a: any) => a.user.email).filter(Boolean),
+  ])];
+
+  if (recipients.length === 0) {
+    recipients.push(...parseEmails(settings.contactEmail));
+  }
+
+  await sendApprovalRequestEmail(recipients, details);
+};
+
+// The escalation a pending request is due now, or null. Level 1 (remind its
+// approvers) once it has waited approvalEscalationHours or starts within
+// approvalEscalationLeadHours; level 2 (tell the service contact) once it has
+// waited as long again since the reminder, or starts within half the lead. The
+// lead trigger only counts when the last notice went out before the window
+// opened, so a late request is not chased minutes after it was sent.
+export const dueEscalationLevel = (
+  booking: Pick<Booking, 'createdAt' | 'startTime' | 'escalationLevel' | 'escalatedAt'>,
+  settings: ServiceSettings,
+  now: Date
+): number | null => {
+  if (booking.escalationLevel >= 2) return null;
+  const lastNotice = booking.escalationLevel === 0 ? booking.createdAt : booking.escalatedAt ?? booking.createdAt;
+  const leadMs = (settings.approvalEscalationLeadHours * 3600000) / (booking.escalationLevel === 0 ? 1 : 2);
+  const windowOpens = booking.startTime.getTime() - leadMs;
+  const waited = settings.approvalEscalationHours > 0
+    && now.getTime() - lastNotice.getTime() >= settings.approvalEscalationHours * 3600000;
+  const soon = leadMs > 0 && now.getTime() >= windowOpens && lastNotice.getTime() < windowOpens;
+  return waited || soon ? booking.escalationLevel + 1 : null;
+};
+
+// Send one escalation of an undecided request: level 1 to whoever it waits on
+// (the current step of a chain), level 2 to the service contact(s)
+export const escalatePendingRequest = async (
+  booking: Booking & { user: User; room: RoomWithDepartment; _count: { approvals: number } },
+  level: number,
+  settings: ServiceSettings
+) => {
+  const details = {
+    roomName: booking.room.name,
+    userName: booking.user.name,
+    startTime: booking.startTime,
+    endTime: booking.endTime,
+    escalation: { level, requestedAt: booking.createdAt },
+  };
+  if (level >= 2) {
+    await sendApprovalRequestEmail(parseEmails(settings.contactEmail), details);
+    return;
+  }
+  const chain = parseApprovalChainJson(booking.room.approvalChain);
+  if (chain) {
+    await notifyStepApprovers(booking.room, chain, currentStepIndex(chain, booking._count.approvals), settings, details);
+  } else {
+    await notifyApprovers(booking.room, settings, details);
+  }
+};
@@ -7,12 +7,36 @@ const prisma = new PrismaClient();
 // Every privileged action worth answering "who did this?" about.
 export type AuditAction =
   // Bookings
+  | 'BOOKING_CREATE_ON_BEHALF'
+  | 'BOOKING_UPDATE'
   | 'BOOKING_APPROVE'
+  | 'BOOKING_APPROVE_STEP'
+  | 'BOOKING_AUTO_APPROVE'
   | 'BOOKING_REJECT'
+  | 'BOOKING_PROPOSE'
+  | 'BOOKING_PROPOSAL_ACCEPT'
+  | 'BOOKING_PROPOSAL_DECLINE'
+  | 'BOOKING_PROPOSAL_EXPIRE'
   | 'BOOKING_CANCEL'
   | 'BOOKING_REMIND'
+  | 'BOOKING_COMMENT'
+  | 'BOOKING_ESCALATE'
   | 'BOOKING_AUTO_CANCEL'
   | 'BOOKING_AUTO_COMPLETE'
+  | 'BOOKING_CHECK_IN'
+  | 'BOOKING_NO_SHOW'
+  | 'BOOKING_POLICY_NOTIFY'
+  | 'BOOKING_POLICY_CANCEL'
+  // Waitlist
+  | 'WAITLIST_JOIN'
+  | 'WAITLIST_LEAVE'
+  | 'WAITLIST_OFFER'
+  | 'WAITLIST_CLAIM'
+  | 'WAITLIST_AUTO_BOOK'
+  | 'WAITLIST_EXPIRE'
+  // Approval delegations
+  | 'DELEGATION_CREATE'
+  | 'DELEGATION_DELETE'
   // Rooms
   | 'ROOM_CREATE'
   | 'ROOM_UPDATE'
@@ -26,6 +50,7 @@ export type AuditAction =
   | 'CLOSURE_CREATE'
   | 'CLOSURE_UPDATE'
   | 'CLOSURE_DELETE'
+  | 'CLOSURE_CANCEL_BOOKINGS'
   // Semesters
   | 'SEMESTER_CREATE'
   | 'SEMESTER_UPDATE'
@@ -37,11 +62,17 @@ export type AuditAction =
   | 'USER_IMPORT'
   | 'USER_ROLE_CHANGE'
   | 'USER_STATUS_CHANGE'
+  | 'USER_STRIKE'
+  | 'USER_STRIKE_FORGIVE'
+  | 'USER_BAN'
+  | 'USER_BAN_LIFT'
   // Platform
   | 'SETTINGS_UPDATE';
 
 export type AuditTargetType =
   | 'Booking'
+  | 'WaitlistEntry'
+  | 'ApprovalDelegation'
   | 'Room'
   | 'Department'
   | 'ScheduleException'
@@ -0,0 +1,176 @@
+import { BookingStatus, PrismaClient, UserRole } from '@prisma/client';
+import { RoomWithDepartment } from './bookingValidation.js';
+import { recordSystemAudit } from './audit.js';
+
+const prisma = new PrismaClient();
+
+// A rule that confirms a request in an approval-gated room without review.
+// Every condition a rule sets must hold; a rule with none is refused, since it
+// would turn approval off. Times of day are minutes from midnight, server time.
+export interface AutoApprovalRule {
+  name: string;
+  roles?: UserRole[];
+  maxDurationMinutes?: number;
+  fromMinute?: number; // the booking starts at or after this...
+  toMinute?: number; // ...and ends by this, on the same day
+  bookerInDepartment?: true; // the booker belongs to, or manages, the room's department
+  maxAttendees?: number;
+}
+
+// The rule that confirmed a request, and whether the room or its department set it
+export interface AutoApprovalMatch {
+  rule: AutoApprovalRule;
+  scope: 'ROOM' | 'DEPARTMENT';
+}
+
+// What a rule is checked against. A guest not yet given an account is a
+// student without a department.
+export interface AutoApprovalRequest {
+  start: Date;
+  end: Date;
+  attendees: number;
+  booker: { id: string | null; role: string; departmentId: string | null };
+}
+
+// Plenty for any real policy, and keeps the stored list small
+export const MAX_AUTO_APPROVAL_RULES = 20;
+const MAX_RULE_NAME = 80;
+const MINUTES_PER_DAY = 24 * 60;
+
+const isWhole = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const parseRule = (raw: unknown): AutoApprovalRule | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  let conditions = 0;
+  for (const [key, value] of Object.entries(raw)) {
+    switch (key) {
+      case 'name':
+        if (typeof value !== 'string' || !value.trim() || value.length > MAX_RULE_NAME) return null;
+        continue;
+      case 'roles':
+        if (!Array.isArray(value) || value.length === 0) return null;
+        if (value.some((role) => !Object.values(UserRole).includes(role))) return null;
+        break;
+      case 'maxDurationMinutes':
+        if (!isWhole(value, 1, MINUTES_PER_DAY)) return null;
+        break;
+      case 'fromMinute':
+      case 'toMinute':
+        if (!isWhole(value, 0, MINUTES_PER_DAY)) return null;
+        break;
+      case 'bookerInDepartment':
+        if (value !== true) return null;
+        break;
+      case 'maxAttendees':
+        if (!isWhole(value, 1, 1000)) return null;
+        break;
+      default:
+        return null;
+    }
+    conditions++;
+  }
+  const rule = raw as AutoApprovalRule;
+  if (!rule.name || conditions === 0) return null;
+  if ((rule.fromMinute === undefined) !== (rule.toMinute === undefined)) return null;
+  if (rule.fromMinute !== undefined && rule.fromMinute >= rule.toMinute!) return null;
+  return rule;
+};
+
+// Parse and validate a stored or submitted list. One bad rule makes the whole
+// list invalid (null), as with booking rules.
+export const parseAutoApprovalRulesJson = (json: string | null | undefined): AutoApprovalRule[] | null => {
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed) || parsed.length === 0 || parsed.length > MAX_AUTO_APPROVAL_RULES) return null;
+    const rules = parsed.map(parseRule);
+    return rules.every((r): r is AutoApprovalRule => r !== null) ? rules : null;
+  } catch {
+    return null;
+  }
+};
+
+const minuteOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+// Whether every condition of `rule` holds, apart from the department one
+const matchesDirectly = (rule: AutoApprovalRule, request: AutoApprovalRequest): boolean => {
+  if (rule.roles && !rule.roles.includes(request.booker.role as UserRole)) return false;
+  if (rule.maxAttendees !== undefined && request.attendees > rule.maxAttendees) return false;
+  const minutes = (request.end.getTime() - request.start.getTime()) / 60000;
+  if (rule.maxDurationMinutes !== undefined && minutes > rule.maxDurationMinutes) return false;
+  if (rule.fromMinute !== undefined) {
+    const from = minuteOfDay(request.start);
+    const to = from + minutes;
+    if (from < rule.fromMinute || to > rule.toMinute!) return false;
+  }
+  return true;
+};
+
+// The first rule of the room, then of its department, that confirms this
+// request; null when it needs review. Rooms without approval never ask.
+export const findAutoApprovalRule = async (
+  room: RoomWithDepartment,
+  request: AutoApprovalRequest
+): Promise<AutoApprovalMatch | null> => {
+  if (!room.requiresApproval) return null;
+  const candidates: AutoApprovalMatch[] = [
+    ...(parseAutoApprovalRulesJson(room.autoApprovalRules) ?? []).map((rule) => ({ rule, scope: 'ROOM' as const })),
+    ...(parseAutoApprovalRulesJson(room.department?.autoApprovalRules) ?? []).map((rule) => ({
+      rule,
+      scope: 'DEPARTMENT' as const,
+    })),
+  ].filter((c) => matchesDirectly(c.rule, request));
+  if (candidates.length === 0) return null;
+
+  // Only looked up when some rule still hinges on it
+  let inDepartment: boolean | undefined;
+  for (const candidate of candidates) {
+    if (!candidate.rule.bookerInDepartment) return candidate;
+    if (inDepartment === undefined) {
+      const { booker } = request;
+      inDepartment =
+        !!room.departmentId &&
+        (booker.departmentId === room.departmentId ||
+          (!!booker.id &&
+            !!(await prisma.departmentAdmin.findFirst({
+              where: { userId: booker.id, departmentId: room.departmentId },
+            }))));
+    }
+    if (inDepartment) return candidate;
+  }
+  return null;
+};
+
+// The status a new or moved booking starts in, and the rule that spared it review
+export const decideInitialStatus = async (
+  room: RoomWithDepartment,
+  request: AutoApprovalRequest
+): Promise<{ status: BookingStatus; autoApproval: AutoApprovalMatch | null }> => {
+  if (!room.requiresApproval) return { status: BookingStatus.CONFIRMED, autoApproval: null };
+  const autoApproval = await findAutoApprovalRule(room, request);
+  return { status: autoApproval ? BookingStatus.CONFIRMED : BookingStatus.PENDING, autoApproval };
+};
+
+// One row per confirmed request, naming the rule, so a booking nobody reviewed
+// can still be traced to the policy that let it through
+export const recordAutoApproval = async (
+  booking: { id: string; startTime: Date; user: { name: string; email: string } },
+  room: RoomWithDepartment,
+  match: AutoApprovalMatch
+): Promise<void> => {
+  await recordSystemAudit({
+    action: 'BOOKING_AUTO_APPROVE',
+    targetType: 'Booking',
+    targetId: booking.id,
+    targetLabel: `${room.name} - ${booking.user.name}`,
+    departmentId: room.departmentId,
+    summary: `Auto-approved by ${match.scope === 'ROOM' ? 'room' : 'department'} rule "${match.rule.name}"`,
+    metadata: {
+      rule: match.rule.name,
+      scope: match.scope,
+      start: booking.startTime.toISOString(),
+      booker: booking.user.email,
+    },
+  });
+};
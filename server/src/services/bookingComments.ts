@@ -0,0 +1,131 @@
+import { BookingComment, PrismaClient, User } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import { parseEmails, sendBookingCommentEmail } from './email.js';
+import { Lang, asLang, tr } from './i18n.js';
+import { getServiceSettings } from './settings.js';
+import { awaitsViewer, getBookingViewer } from './bookingView.js';
+import { publishBookingChange } from './liveEvents.js';
+import { recordAudit } from './audit.js';
+
+const prisma = new PrismaClient();
+
+type CommentWithAuthor = BookingComment & { author: Pick<User, 'id' | 'name'> | null };
+
+type ThreadOutcome<T> = { ok: true } & T | { ok: false; status: number; error: string };
+
+const formatComment = (comment: CommentWithAuthor, bookerId: string) => ({
+  id: comment.id,
+  authorId: comment.authorId,
+  authorName: comment.author?.name ?? null,
+  fromBooker: comment.authorId === bookerId,
+  body: comment.body,
+  createdAt: comment.createdAt.toISOString(),
+});
+
+// The booking whose thread is asked for, if the caller may take part in it:
+// the booker, staff, the room's department managers, or whoever its approval
+// waits on - the same people who see it in full on GET /bookings/:id
+const loadThreadBooking = async (req: AuthRequest, bookingId: string, lang: Lang) => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { user: true, room: { include: { department: true } }, approvals: true },
+  });
+  if (!booking) {
+    return { error: { ok: false as const, status: 404, error: tr(lang, 'bookingNotFound') } };
+  }
+  const viewer = await getBookingViewer(req.userId!, req.userRole);
+  const isOwner = booking.userId === req.userId;
+  const managesRoom = !!booking.room.departmentId && viewer.managedDepartmentIds.includes(booking.room.departmentId);
+  if (!isOwner && !viewer.staff && !managesRoom && !awaitsViewer(booking, viewer)) {
+    return { error: { ok: false as const, status: 403, error: tr(lang, 'permissionDenied') } };
+  }
+  return { booking };
+};
+
+export const listBookingComments = async (
+  req: AuthRequest,
+  bookingId: string,
+  lang: Lang
+): Promise<ThreadOutcome<{ comments: ReturnType<typeof formatComment>[] }>> => {
+  const loaded = await loadThreadBooking(req, bookingId, lang);
+  if (loaded.error) return loaded.error;
+  const comments = await prisma.bookingComment.findMany({
+    where: { bookingId },
+    include: { author: { select: { id: true, name: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+  return { ok: true, comments: comments.map((c) => formatComment(c, loaded.booking.userId)) };
+};
+
+// Post to a booking's thread and tell the other side. A comment from the
+// booker goes to the moderators already in the thread and the managers of the
+// room's department (the service contact when there are none); anyone else's
+// goes to the booker. Each is written in the recipient's language.
+export const addBookingComment = async (
+  req: AuthRequest,
+  bookingId: string,
+  body: string,
+  lang: Lang
+): Promise<ThreadOutcome<{ comment: ReturnType<typeof formatComment> }>> => {
+  const loaded = await loadThreadBooking(req, bookingId, lang);
+  if (loaded.error) return loaded.error;
+  const { booking } = loaded;
+
+  const comment = await prisma.bookingComment.create({
+    data: { bookingId, authorId: req.userId, body: body.trim() },
+    include: { author: { select: { id: true, name: true } } },
+  });
+  await publishBookingChange('updated', [booking.id]);
+
+  const fromBooker = req.userId === booking.userId;
+  const authorName = comment.author?.name ?? '';
+  const details = {
+    bookingId: booking.id,
+    roomName: booking.room.name,
+    startTime: booking.startTime,
+    authorName,
+    body: comment.body,
+  };
+  if (!fromBooker) {
+    if (booking.user.email) {
+      await sendBookingCommentEmail(booking.user.email, booking.user.name, { ...details, toBooker: true }, asLang(booking.user.language));
+    }
+  } else {
+    const [earlier, managers] = await Promise.all([
+      prisma.bookingComment.findMany({
+        where: { bookingId, authorId: { not: booking.userId } },
+        select: { author: true },
+        distinct: ['authorId'],
+      }),
+      booking.room.departmentId
+        ? prisma.departmentAdmin.findMany({ where: { departmentId: booking.room.departmentId }, include: { user: true } })
+        : Promise.resolve([]),
+    ]);
+    const recipients = new Map<string, User>();
+    for (const user of [...earlier.map((c) => c.author), ...managers.map((m) => m.user)]) {
+      if (user?.email && user.id !== booking.userId) recipients.set(user.id, user);
+    }
+    for (const user of recipients.values()) {
+      await sendBookingCommentEmail(user.email, user.name, { ...details, toBooker: false }, asLang(user.language));
+    }
+    if (recipients.size === 0) {
+      const settings = await getServiceSettings();
+      for (const email of parseEmails(settings.contactEmail)) {
+        await sendBookingCommentEmail(email, settings.serviceName, { ...details, toBooker: false });
+      }
+    }
+  }
+
+  logger.info(`User ${req.userId} commented on booking ${booking.id}`);
+  await recordAudit(req, {
+    action: 'BOOKING_COMMENT',
+    targetType: 'Booking',
+    targetId: booking.id,
+    targetLabel: `${booking.room.name} - ${booking.user.name}`,
+    departmentId: booking.room.departmentId,
+    summary: fromBooker ? 'Commented on their own booking' : `Commented on a booking belonging to ${booking.user.email}`,
+    metadata: { commentId: comment.id, length: comment.body.length },
+  });
+  return { ok: true, comment: formatComment(comment, booking.userId) };
+};
@@ -0,0 +1,273 @@
+import { BookingStatus, Prisma, PrismaClient, ScheduleException, ServiceSettings } from '@prisma/client';
+import { checkBookingSchedule, getEffectiveOperatingHours, getServiceSettings } from './settings.js';
+import { BLOCKING_STATUSES, RoomWithDepartment } from './bookingValidation.js';
+import { Lang, asLang, tr } from './i18n.js';
+import { publishBookingChange } from './liveEvents.js';
+import { promoteWaitlist } from './waitlist.js';
+import { sendCancellationEmail, sendPolicyChangeEmail } from './email.js';
+import { AuditEntry, recordAudit } from './audit.js';
+import { AuthRequest } from '../middleware/auth.js';
+
+const prisma = new PrismaClient();
+
+// Bookings a change to the schedule or a room would leave stranded: a closure
+// over them, or new hours or capacity they no longer fit. Nothing here changes
+// a booking by itself; callers show the list first and act on what is confirmed.
+
+const AFFECTED_INCLUDE = {
+  user: true,
+  room: { include: { department: true } },
+  _count: { select: { attendees: true } },
+} satisfies Prisma.BookingInclude;
+
+export type AffectedBooking = Prisma.BookingGetPayload<{ include: typeof AFFECTED_INCLUDE }>;
+
+// The upcoming bookings a closure takes away: those its rooms and dates reach
+// that fit the schedule without it and no longer fit with it. Bookings some
+// other closure or the weekly hours already refused are not its doing. Runs
+// the same schedule resolution as a booking, so a block cuts out only the
+// bookings that overlap it and special hours only those outside them.
+export const findClosureImpact = async (exception: ScheduleException): Promise<AffectedBooking[]> => {
+  const now = new Date();
+  const rangeStart = new Date(exception.startDate);
+  rangeStart.setHours(0, 0, 0, 0);
+  const rangeEnd = new Date(exception.endDate);
+  rangeEnd.setHours(24, 0, 0, 0); // endDate is inclusive
+
+  const roomScope: Prisma.RoomWhereInput = exception.roomId
+    ? { id: exception.roomId }
+    : exception.departmentId
+      ? { departmentId: exception.departmentId }
+      : {};
+  const bookings = await prisma.booking.findMany({
+    where: {
+      status: { in: BLOCKING_STATUSES },
+      startTime: { lt: rangeEnd },
+      endTime: { gt: rangeStart > now ? rangeStart : now },
+      room: roomScope,
+    },
+    include: AFFECTED_INCLUDE,
+    orderBy: { startTime: 'asc' },
+  });
+  if (bookings.length === 0) return [];
+
+  const [settings, exceptions] = await Promise.all([
+    getServiceSettings(),
+    findExceptionsFor(bookings, rangeStart, rangeEnd),
+  ]);
+  const others = exceptions.filter((ex) => ex.id !== exception.id);
+  const withClosure = [...others, exception];
+
+  return bookings.filter((booking) => {
+    const weekly = getEffectiveOperatingHours(
+      settings,
+      booking.room.department?.operatingHours,
+      booking.room.operatingHours
+    );
+    const fitsWithout = checkBookingSchedule(booking.startTime, booking.endTime, weekly, booking.room, others).ok;
+    return (
+      fitsWithout &&
+      !checkBookingSchedule(booking.startTime, booking.endTime, weekly, booking.room, withClosure).ok
+    );
+  });
+};
+
+// Every closure that may touch the given bookings' rooms over [from, to)
+const findExceptionsFor = (bookings: AffectedBooking[], from: Date, to: Date) => {
+  const roomIds = Array.from(new Set(bookings.map((b) => b.roomId)));
+  const departmentIds = Array.from(
+    new Set(bookings.map((b) => b.room.departmentId).filter((id): id is string => !!id))
+  );
+  return prisma.scheduleException.findMany({
+    where: {
+      startDate: { lt: to },
+      endDate: { gte: new Date(from.getTime() - 24 * 3600000) },
+      OR: [{ departmentId: null }, { departmentId: { in: departmentIds } }, { roomId: { in: roomIds } }],
+    },
+  });
+};
+
+// What a closure or policy manager is shown of an affected booking before acting on it
+export const formatAffectedBooking = (booking: AffectedBooking) => ({
+  id: booking.id,
+  roomId: booking.roomId,
+  roomName: booking.room.name,
+  userName: booking.user.name,
+  userEmail: booking.user.email,
+  startTime: booking.startTime.toISOString(),
+  endTime: booking.endTime.toISOString(),
+  status: booking.status,
+});
+
+// What a change to hours or a room can break in a booking made under the old rules
+export type PolicyViolation = 'HOURS' | 'CAPACITY';
+
+export interface PolicyImpact {
+  booking: AffectedBooking;
+  // Each rule the booking would break, with the reason in the caller's language
+  violations: Array<{ code: PolicyViolation; message: string }>;
+}
+
+// A pending edit to settings, a department or a room, as the rooms it reaches
+// would look after it
+export interface PolicyChange {
+  // Every room the edit reaches, as it is now
+  rooms: RoomWithDepartment[];
+  // The same room with the edit applied; the identity for rooms it leaves alone
+  apply: (room: RoomWithDepartment) => RoomWithDepartment;
+  // The service settings after the edit, when they are what changes
+  settings?: ServiceSettings;
+}
+
+// The future bookings an edit would break: each one that keeps to the hours
+// and capacity of its room now and would not afterwards. Closures count as
+// they do for a booking, so a date closed anyway is not blamed on the edit.
+export const findPolicyImpact = async (change: PolicyChange, lang: Lang): Promise<PolicyImpact[]> => {
+  if (change.rooms.length === 0) return [];
+  const now = new Date();
+  const bookings = await prisma.booking.findMany({
+    where: {
+      status: { in: BLOCKING_STATUSES },
+      startTime: { gt: now },
+      roomId: { in: change.rooms.map((r) => r.id) },
+    },
+    include: AFFECTED_INCLUDE,
+    orderBy: { startTime: 'asc' },
+  });
+  if (bookings.length === 0) return [];
+
+  const lastEnd = bookings.reduce((max, b) => (b.endTime > max ? b.endTime : max), now);
+  const [current, exceptions] = await Promise.all([
+    getServiceSettings(),
+    findExceptionsFor(bookings, now, lastEnd),
+  ]);
+  const proposed = change.settings ?? current;
+  const roomById = new Map(change.rooms.map((r) => [r.id, r]));
+
+  const impacts: PolicyImpact[] = [];
+  for (const booking of bookings) {
+    const before = roomById.get(booking.roomId)!;
+    const after = change.apply(before);
+    const violations: PolicyImpact['violations'] = [];
+
+    const hoursBefore = getEffectiveOperatingHours(current, before.department?.operatingHours, before.operatingHours);
+    const hoursAfter = getEffectiveOperatingHours(proposed, after.department?.operatingHours, after.operatingHours);
+    if (checkBookingSchedule(booking.startTime, booking.endTime, hoursBefore, before, exceptions).ok) {
+      const check = checkBookingSchedule(booking.startTime, booking.endTime, hoursAfter, after, exceptions, lang);
+      if (!check.ok) violations.push({ code: 'HOURS', message: check.error });
+    }
+
+    const people = booking._count.attendees;
+    const fits = (room: RoomWithDepartment) => people >= room.minCapacity && people <= room.maxCapacity;
+    if (fits(before) && !fits(after)) {
+      violations.push({
+        code: 'CAPACITY',
+        message: tr(lang, 'policyCapacityViolation', { count: people, min: after.minCapacity, max: after.maxCapacity }),
+      });
+    }
+
+    if (violations.length > 0) impacts.push({ booking, violations });
+  }
+  return impacts;
+};
+
+export const formatPolicyImpact = (impact: PolicyImpact) => ({
+  ...formatAffectedBooking(impact.booking),
+  violations: impact.violations,
+});
+
+// Cancel bookings a change has stranded, each with the reason `reasonFor`
+// gives in its booker's language, and email the bookers. Freed slots go to
+// the waitlist, whose own checks skip any the change has closed.
+export const cancelAffectedBookings = async (
+  bookings: AffectedBooking[],
+  reasonFor: (lang: Lang, booking: AffectedBooking) => string
+): Promise<void> => {
+  if (bookings.length === 0) return;
+  const reasons = new Map(bookings.map((b) => [b.id, reasonFor(asLang(b.user.language), b)]));
+
+  await prisma.$transaction(
+    bookings.map((b) =>
+      prisma.booking.update({
+        where: { id: b.id },
+        data: { status: BookingStatus.CANCELLED, cancellationReason: reasons.get(b.id) },
+      })
+    )
+  );
+  await publishBookingChange('cancelled', bookings.map((b) => b.id));
+
+  for (const booking of bookings) {
+    if (booking.user.email) {
+      await sendCancellationEmail(booking.user.email, booking.user.name, {
+        roomName: booking.room.name,
+        startTime: booking.startTime,
+        reason: reasons.get(booking.id),
+      }, asLang(booking.user.language));
+    }
+    await promoteWaitlist(booking.roomId, booking.startTime, booking.endTime);
+  }
+};
+
+// The booker-facing reason for a policy violation, without the details meant for staff
+const policyReason = (impact: PolicyImpact, lang: Lang) =>
+  tr(lang, impact.violations[0].code === 'HOURS' ? 'policyHoursChanged' : 'policyCapacityChanged');
+
+export type PolicyAction = 'NOTIFY' | 'CANCEL';
+
+// What an edit asks done about the bookings its dry run listed, from
+// `impactAction` and `impactBookingIds`: undefined when it asks nothing, null
+// when the request is malformed
+export const parseImpactRequest = (
+  body: any
+): { action: PolicyAction; bookingIds: Set<string> } | null | undefined => {
+  const { impactAction, impactBookingIds } = body;
+  if (impactAction === undefined || impactAction === null) return undefined;
+  if (impactAction !== 'NOTIFY' && impactAction !== 'CANCEL') return null;
+  if (!Array.isArray(impactBookingIds) || impactBookingIds.length === 0) return null;
+  return { action: impactAction, bookingIds: new Set(impactBookingIds.map(String)) };
+};
+
+// Act on the policy impacts an editor confirmed, once their edit is saved:
+// email each booker that their booking no longer fits, or cancel it with that
+// reason. One audit entry covers the batch, filed against what was edited.
+export const resolvePolicyImpact = async (
+  req: AuthRequest,
+  impacts: PolicyImpact[],
+  action: PolicyAction,
+  target: Pick<AuditEntry, 'targetType' | 'targetId' | 'targetLabel' | 'departmentId'>
+): Promise<void> => {
+  if (impacts.length === 0) return;
+  if (action === 'CANCEL') {
+    const byId = new Map(impacts.map((i) => [i.booking.id, i]));
+    await cancelAffectedBookings(
+      impacts.map((i) => i.booking),
+      (lang, booking) => policyReason(byId.get(booking.id)!, lang)
+    );
+  } else {
+    for (const impact of impacts) {
+      const { booking } = impact;
+      if (!booking.user.email) continue;
+      const lang = asLang(booking.user.language);
+      await sendPolicyChangeEmail(booking.user.email, booking.user.name, {
+        roomName: booking.room.name,
+        startTime: booking.startTime,
+        endTime: booking.endTime,
+        reason: policyReason(impact, lang),
+      }, lang);
+    }
+  }
+
+  await recordAudit(req, {
+    action: action === 'CANCEL' ? 'BOOKING_POLICY_CANCEL' : 'BOOKING_POLICY_NOTIFY',
+    ...target,
+    summary:
+      action === 'CANCEL'
+        ? `Cancelled ${impacts.length} booking(s) the change no longer allows`
+        : `Emailed the bookers of ${impacts.length} booking(s) the change no longer allows`,
+    metadata: {
+      count: impacts.length,
+      hours: impacts.filter((i) => i.violations.some((v) => v.code === 'HOURS')).length,
+      capacity: impacts.filter((i) => i.violations.some((v) => v.code === 'CAPACITY')).length,
+    },
+  });
+};
@@ -0,0 +1,30 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Checking a slot and then writing the booking are two statements; two people
+// booking the same time at the same moment can both pass the check. Every
+// write that places a booking into a room (creating, moving, a series, an
+// event, a waitlist claim or offer) therefore runs through here: it bumps the
+// room's slotLock first, which holds a write lock on that row until the
+// transaction ends - a row lock on MySQL and PostgreSQL, the database lock on
+// SQLite - so writers for the same room queue up behind each other. Inside, the caller
+// repeats findSlotClash with `tx` before writing; that repeat is the check that
+// counts, the one before it only gives early and friendlier errors.
+//
+// Rooms are locked in id order, so a move between two rooms cannot deadlock
+// with one the other way round.
+export const withRoomLocks = <T>(
+  roomIds: string[],
+  write: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> =>
+  prisma.$transaction(
+    async (tx) => {
+      for (const id of [...new Set(roomIds)].sort()) {
+        await tx.room.update({ where: { id }, data: { slotLock: { increment: 1 } } });
+      }
+      return write(tx);
+    },
+    // Waiting behind another booking in the room counts against this
+    { maxWait: 10000, timeout: 15000 }
+  );
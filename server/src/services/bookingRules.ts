@@ -0,0 +1,155 @@
+import { ServiceSettings } from '@prisma/client';
+import { Lang, tr, dateLocaleTag } from './i18n.js';
+import { formatLeadTime } from './settings.js';
+import { isStaff } from './permissions.js';
+import { QUOTA_SCOPES, QuotaScope } from './quotas.js';
+
+// How long a booking may run, where it may start, and how far ahead it may be
+// made. The horizon is per role, with the same scopes as quotas.
+export interface BookingRules {
+  minDurationMinutes?: number;
+  maxDurationMinutes?: number;
+  slotMinutes?: number;
+  maxAdvanceDays?: Partial<Record<QuotaScope, number>>;
+}
+
+// The rules one user has in one room, every field resolved
+export interface EffectiveBookingRules {
+  minDurationMinutes: number;
+  maxDurationMinutes: number;
+  slotMinutes: number;
+  maxAdvanceDays: number | null; // null = no horizon
+}
+
+// What applies when nothing is configured anywhere: the limits the booking
+// form always assumed, with no horizon
+export const DEFAULT_BOOKING_RULES: EffectiveBookingRules = {
+  minDurationMinutes: 15,
+  maxDurationMinutes: 12 * 60,
+  slotMinutes: 15,
+  maxAdvanceDays: null,
+};
+
+// Start-time steps the calendar grid can draw; it is laid out in quarter hours
+export const SLOT_MINUTES_OPTIONS = [15, 30, 60];
+
+// A booking never spans days, and nobody plans more than a year out
+const MAX_DURATION_MINUTES = 24 * 60;
+const MAX_ADVANCE_DAYS = 365;
+
+const isWhole = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+// Parse and validate stored or submitted rules. Unknown keys, out-of-range
+// values, or a minimum above the maximum make the whole thing invalid (null).
+export const parseBookingRulesJson = (json: string | null | undefined): BookingRules | null => {
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+    for (const [key, value] of Object.entries(parsed)) {
+      switch (key) {
+        case 'minDurationMinutes':
+        case 'maxDurationMinutes':
+          if (!isWhole(value, 1, MAX_DURATION_MINUTES)) return null;
+          break;
+        case 'slotMinutes':
+          if (!SLOT_MINUTES_OPTIONS.includes(value as number)) return null;
+          break;
+        case 'maxAdvanceDays':
+          if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+          for (const [scope, days] of Object.entries(value)) {
+            if (!QUOTA_SCOPES.includes(scope as QuotaScope)) return null;
+            if (!isWhole(days, 1, MAX_ADVANCE_DAYS)) return null;
+          }
+          break;
+        default:
+          return null;
+      }
+    }
+    const { minDurationMinutes, maxDurationMinutes } = parsed as BookingRules;
+    if (minDurationMinutes && maxDurationMinutes && minDurationMinutes > maxDurationMinutes) return null;
+    return parsed as BookingRules;
+  } catch {
+    return null;
+  }
+};
+
+// Most specific wins, like operating hours - but rule by rule, so a room that
+// only sets its slot length still follows its department's durations. The
+// horizon looks for the user's role, then everyone, at each level in turn.
+// Staff have no horizon.
+export const getEffectiveBookingRules = (
+  settings: ServiceSettings,
+  departmentRules: string | null | undefined,
+  roomRules: string | null | undefined,
+  role: string | undefined
+): EffectiveBookingRules => {
+  const levels = [
+    parseBookingRulesJson(roomRules),
+    parseBookingRulesJson(departmentRules),
+    parseBookingRulesJson(settings.bookingRules),
+  ].filter((r): r is BookingRules => r !== null);
+  const pick = <K extends 'minDurationMinutes' | 'maxDurationMinutes' | 'slotMinutes'>(key: K) =>
+    levels.find((r) => r[key] !== undefined)?.[key] ?? DEFAULT_BOOKING_RULES[key];
+
+  let maxAdvanceDays: number | null = null;
+  if (role && !isStaff(role)) {
+    const scope = QUOTA_SCOPES.includes(role as QuotaScope) ? (role as QuotaScope) : null;
+    for (const r of levels) {
+      const days = (scope && r.maxAdvanceDays?.[scope]) ?? r.maxAdvanceDays?.default;
+      if (days) {
+        maxAdvanceDays = days;
+        break;
+      }
+    }
+  }
+
+  return {
+    minDurationMinutes: pick('minDurationMinutes'),
+    maxDurationMinutes: pick('maxDurationMinutes'),
+    slotMinutes: pick('slotMinutes'),
+    maxAdvanceDays,
+  };
+};
+
+// Whether [start, end) follows the rules. Returns the error to show, or null
+// when it does. Slots count from midnight, so 30-minute slots start on the
+// hour or the half hour. The horizon is in calendar days: with 14 days, any
+// time on the 14th day from today is still bookable.
+export const checkBookingRules = (
+  start: Date,
+  end: Date,
+  rules: EffectiveBookingRules,
+  lang: Lang,
+  now: Date = new Date()
+): string | null => {
+  const minutes = (end.getTime() - start.getTime()) / 60000;
+  if (minutes < rules.minDurationMinutes) {
+    return tr(lang, 'bookingTooShort', { duration: formatLeadTime(rules.minDurationMinutes, lang) });
+  }
+  if (minutes > rules.maxDurationMinutes) {
+    return tr(lang, 'bookingTooLong', { duration: formatLeadTime(rules.maxDurationMinutes, lang) });
+  }
+
+  const startOfDay = new Date(start);
+  startOfDay.setHours(0, 0, 0, 0);
+  const offset = (start.getTime() - startOfDay.getTime()) / 60000;
+  if (!Number.isInteger(offset / rules.slotMinutes)) {
+    return tr(lang, 'bookingSlotMinutes', { duration: formatLeadTime(rules.slotMinutes, lang) });
+  }
+
+  if (rules.maxAdvanceDays) {
+    const lastDay = new Date(now);
+    lastDay.setHours(0, 0, 0, 0);
+    lastDay.setDate(lastDay.getDate() + rules.maxAdvanceDays + 1);
+    if (start >= lastDay) {
+      lastDay.setDate(lastDay.getDate() - 1);
+      return tr(lang, 'bookingTooFarAhead', {
+        days: rules.maxAdvanceDays,
+        date: lastDay.toLocaleDateString(dateLocaleTag(lang), { day: 'numeric', month: 'short' }),
+      });
+    }
+  }
+  return null;
+};
@@ -1,9 +1,15 @@
 import cron from 'node-cron';
 import { PrismaClient } from '@prisma/client';
 import logger from '../utils/logger.js';
-import { sendReminderEmail } from './email.js';
+import { sendNoShowEmail, sendReminderEmail } from './email.js';
 import { asLang, tr } from './i18n.js';
 import { recordSystemAudit } from './audit.js';
+import { expireWaitlistEntries, promoteWaitlist } from './waitlist.js';
+import { publishBookingChange } from './liveEvents.js';
+import { dueEscalationLevel, escalatePendingRequest } from './approvals.js';
+import { expireProposals } from './proposals.js';
+import { recordStrike } from './strikes.js';
+import { MAX_CHECK_IN_MINUTES, getCheckInGraceMinutes, getCheckInWindow, getServiceSettings } from './settings.js';
 
 const prisma = new PrismaClient();
 
@@ -16,7 +22,75 @@ export const startBookingScheduler = () => {
     try {
       const now = new Date();
 
-      // 1. Mark completed bookings.
+      // 1. Release confirmed bookings nobody checked in for. Runs before
+      // completion so a booking shorter than its grace period is still caught.
+      // Nothing older than the longest possible grace can be due.
+      const settings = await getServiceSettings();
+      const unchecked = await prisma.booking.findMany({
+        where: {
+          status: 'CONFIRMED',
+          checkedInAt: null,
+          startTime: { lte: now, gte: new Date(now.getTime() - MAX_CHECK_IN_MINUTES * 60000) },
+        },
+        include: { user: true, room: { include: { department: true } } },
+      });
+
+      let noShows = 0;
+      for (const booking of unchecked) {
+        const { room } = booking;
+        const checkIn = getCheckInWindow(
+          booking.startTime,
+          booking.endTime,
+          settings,
+          room.department?.checkInGraceMinutes,
+          room.checkInGraceMinutes,
+        );
+        if (!checkIn || checkIn.closesAt > now) continue;
+
+        // Only if still unclaimed: the booker may have checked in since the read
+        const lang = asLang(booking.user.language);
+        const released = await prisma.booking.updateMany({
+          where: { id: booking.id, status: 'CONFIRMED', checkedInAt: null },
+          data: { status: 'NO_SHOW', cancellationReason: tr(lang, 'noShowReleased') },
+        });
+        if (released.count === 0) continue;
+        noShows++;
+        await publishBookingChange('updated', [booking.id]);
+
+        if (booking.user.email) {
+          await sendNoShowEmail(booking.user.email, booking.user.name, {
+            roomName: room.name,
+            startTime: booking.startTime,
+            endTime: booking.endTime,
+            graceMinutes: getCheckInGraceMinutes(settings, room.department?.checkInGraceMinutes, room.checkInGraceMinutes),
+          }, lang);
+        }
+
+        // One row each, like an auto-cancellation: someone lost a booking
+        await recordSystemAudit({
+          action: 'BOOKING_NO_SHOW',
+          targetType: 'Booking',
+          targetId: booking.id,
+          targetLabel: `${room.name} - ${booking.user.name}`,
+          departmentId: room.departmentId,
+          summary: 'Released: nobody checked in within the grace period',
+          metadata: {
+            start: booking.startTime.toISOString(),
+            booker: booking.user.email,
+          },
+        });
+
+        await recordStrike(booking.user, booking, 'NO_SHOW', settings);
+
+        // The rest of the slot is free again
+        await promoteWaitlist(booking.roomId, booking.startTime, booking.endTime);
+      }
+
+      if (noShows > 0) {
+        logger.info(`Released ${noShows} booking(s) as NO_SHOW`);
+      }
+
+      // 2. Mark completed bookings.
       // Select the ids first so the audit trail can report a count that matches
       // exactly the rows this run changed.
       const toComplete = await prisma.booking.findMany({
@@ -29,6 +103,7 @@ export const startBookingScheduler = () => {
           where: { id: { in: toComplete.map((b) => b.id) } },
           data: { status: 'COMPLETED' },
         });
+        await publishBookingChange('updated', toComplete.map((b) => b.id));
         logger.info(`Marked ${toComplete.length} booking(s) as COMPLETED`);
         // Routine lifecycle - recorded as one aggregate row so it cannot drown
         // out the entries someone is actually looking for.
@@ -41,9 +116,14 @@ export const startBookingScheduler = () => {
         });
       }
 
-      // 1b. Cancel PENDING requests whose start time passed without a decision
+      // 2b. Close proposals of another slot the booker did not answer in time,
+      // withdrawing their request, and those whose request was settled otherwise
+      await expireProposals(now);
+
+      // 2c. Cancel PENDING requests whose start time passed without a decision.
+      // One the booker is still weighing a proposal for waits on their answer.
       const expiredPending = await prisma.booking.findMany({
-        where: { status: 'PENDING', startTime: { lt: now } },
+        where: { status: 'PENDING', startTime: { lt: now }, proposals: { none: { status: 'OPEN' } } },
         include: { user: true, room: true },
       });
 
@@ -57,6 +137,7 @@ export const startBookingScheduler = () => {
             cancellationReason: tr(asLang(booking.user.language), 'autoCancelledUnapproved'),
           },
         });
+        await publishBookingChange('cancelled', [booking.id]);
 
         // One row each: an auto-cancellation destroys someone's booking with no
         // human involved, so it needs to be individually answerable for.
@@ -72,13 +153,69 @@ export const startBookingScheduler = () => {
             booker: booking.user.email,
           },
         });
+
+        // Any part of the slot still ahead goes to the waitlist
+        await promoteWaitlist(booking.roomId, booking.startTime, booking.endTime);
       }
 
       if (expiredPending.length > 0) {
         logger.info(`Auto-cancelled ${expiredPending.length} unapproved pending booking(s)`);
       }
 
-      // 2. Send Reminders (Start checking 30 minutes before)
+      // 2d. Escalate requests left undecided too long: remind their approvers,
+      // then the service contact, rather than let them lapse unseen
+      const undecided = await prisma.booking.findMany({
+        // A request answered with a proposal waits on the booker, not its approvers
+        where: { status: 'PENDING', escalationLevel: { lt: 2 }, proposals: { none: { status: 'OPEN' } } },
+        include: {
+          user: true,
+          room: { include: { department: true } },
+          _count: { select: { approvals: true } },
+        },
+      });
+
+      let escalated = 0;
+      for (const booking of undecided) {
+        const level = dueEscalationLevel(booking, settings, now);
+        if (!level) continue;
+
+        // Claim the level first so a run overlapping this one cannot send it twice
+        const claimed = await prisma.booking.updateMany({
+          where: { id: booking.id, status: 'PENDING', escalationLevel: booking.escalationLevel },
+          data: { escalationLevel: level, escalatedAt: now },
+        });
+        if (claimed.count === 0) continue;
+
+        await escalatePendingRequest(booking, level, settings);
+        escalated++;
+        await publishBookingChange('updated', [booking.id]);
+
+        await recordSystemAudit({
+          action: 'BOOKING_ESCALATE',
+          targetType: 'Booking',
+          targetId: booking.id,
+          targetLabel: `${booking.room.name} - ${booking.user.name}`,
+          departmentId: booking.room.departmentId,
+          summary: level === 1
+            ? 'Escalated: approvers reminded of an undecided request'
+            : 'Escalated: service contact told of an undecided request',
+          metadata: {
+            level,
+            start: booking.startTime.toISOString(),
+            requestedAt: booking.createdAt.toISOString(),
+            booker: booking.user.email,
+          },
+        });
+      }
+
+      if (escalated > 0) {
+        logger.info(`Escalated ${escalated} undecided pending booking(s)`);
+      }
+
+      // 2e. Expire waitlist entries whose slot started or whose offer lapsed
+      await expireWaitlistEntries(now);
+
+      // 3. Send Reminders (Start checking 30 minutes before)
       const fiveMinutesFromNow = new Date(now.getTime() + 5 * 60000);
       const thirtyMinutesFromNow = new Date(now.getTime() + 30 * 60000);
 
@@ -0,0 +1,370 @@
+import {
+  Prisma,
+  PrismaClient,
+  BookingStatus,
+  Department,
+  ProposalStatus,
+  RecurrenceFrequency,
+  Room,
+  ServiceSettings,
+  WaitlistStatus,
+} from '@prisma/client';
+import { Lang, tr, dateLocaleTag } from './i18n.js';
+import {
+  getEffectiveOperatingHours,
+  checkBookingSchedule,
+  getApprovalLeadMinutes,
+  formatLeadTime,
+} from './settings.js';
+import { checkBookingRules, getEffectiveBookingRules } from './bookingRules.js';
+
+const prisma = new PrismaClient();
+
+// PENDING requests hold their slot, so both statuses block overlapping bookings
+export const BLOCKING_STATUSES = [BookingStatus.CONFIRMED, BookingStatus.PENDING];
+
+export type RoomWithDepartment = Room & { department: Department | null };
+
+// Bookings in a room that overlap [start, end). Touching edges (one booking
+// ending exactly when the next starts) do not count as an overlap. A room's
+// turnover buffer widens every booking by that many minutes on both sides, so
+// back-to-back bookings must leave the gap free.
+export const overlappingBookingsWhere = (
+  roomId: string,
+  start: Date,
+  end: Date,
+  excludeBookingId?: string,
+  bufferMinutes = 0
+) => ({
+  roomId,
+  status: { in: BLOCKING_STATUSES },
+  startTime: { lt: new Date(end.getTime() + bufferMinutes * 60000) },
+  endTime: { gt: new Date(start.getTime() - bufferMinutes * 60000) },
+  ...(excludeBookingId && { id: { not: excludeBookingId } }),
+});
+
+// Waitlist offers in a room that overlap [start, end) and have not lapsed. A
+// freed slot offered to someone stays theirs until then, or the offer would be
+// worthless by the time they claim it. The buffer applies as for bookings.
+export const heldOffersWhere = (
+  roomId: string,
+  start: Date,
+  end: Date,
+  now: Date,
+  excludeEntryId?: string,
+  bufferMinutes = 0
+) => ({
+  roomId,
+  status: WaitlistStatus.OFFERED,
+  offerExpiresAt: { gt: now },
+  startTime: { lt: new Date(end.getTime() + bufferMinutes * 60000) },
+  endTime: { gt: new Date(start.getTime() - bufferMinutes * 60000) },
+  ...(excludeEntryId && { id: { not: excludeEntryId } }),
+});
+
+// Open counter-proposals in a room that overlap [start, end) and have not
+// lapsed. The slot an approver offers is kept for the booker until they answer,
+// like a waitlist offer; one whose request has since been decided holds nothing.
+export const heldProposalsWhere = (
+  roomId: string,
+  start: Date,
+  end: Date,
+  now: Date,
+  excludeProposalId?: string,
+  bufferMinutes = 0
+) => ({
+  roomId,
+  status: ProposalStatus.OPEN,
+  expiresAt: { gt: now },
+  booking: { status: BookingStatus.PENDING },
+  startTime: { lt: new Date(end.getTime() + bufferMinutes * 60000) },
+  endTime: { gt: new Date(start.getTime() - bufferMinutes * 60000) },
+  ...(excludeProposalId && { id: { not: excludeProposalId } }),
+});
+
+// Whether a clash found with the buffer applied is only with the buffer, so
+// the booker can be told the room needs turnover time rather than that it is taken
+export const isBufferOnlyClash = (start: Date, end: Date, other: { startTime: Date; endTime: Date }) =>
+  other.startTime >= end || other.endTime <= start;
+
+// The room's capacity range (attendees list includes the booker) and, when the
+// room has terms & conditions, explicit acceptance. Returns the error to show,
+// or null when the request is acceptable.
+export const checkRoomPolicy = (
+  room: Room,
+  attendees: unknown,
+  termsAccepted: unknown,
+  lang: Lang
+): string | null => {
+  const attendeeCount = Array.isArray(attendees) ? attendees.length : 0;
+  if (attendeeCount < room.minCapacity || attendeeCount > room.maxCapacity) {
+    return tr(lang, 'capacityRange', { min: room.minCapacity, max: room.maxCapacity });
+  }
+  if (room.bookingTerms && termsAccepted !== true) {
+    return tr(lang, 'termsRequired');
+  }
+  return null;
+};
+
+// Why a slot was refused. Callers that validate many slots at once (a
+// recurring series) report closures separately from clashes with other people.
+export type SlotFailure = 'RANGE' | 'PAST' | 'RULES' | 'LEAD_TIME' | 'HOURS' | 'EXCEPTION' | 'SEMESTER' | 'CONFLICT';
+
+export type SlotCheck =
+  | { ok: true }
+  | {
+      ok: false;
+      reason: SlotFailure;
+      status: 400 | 409;
+      error: string;
+      exceptionName?: string;
+      conflict?: { startTime: string; endTime: string; bookedBy: string };
+    };
+
+export type SlotRefusal = Extract<SlotCheck, { ok: false }>;
+
+// Everything a single time slot must satisfy in a given room, in the order the
+// booker is told about it: ends after it starts, not in the past, within the
+// room's booking rules, enough notice for approval, inside
+// the day's schedule (including closures), inside the active semester, and not
+// overlapping a booking that holds the room, a waitlist offer or a
+// counter-proposal. Pass excludeBookingId when re-validating an existing
+// booking so it does not clash with itself, waitlistEntryId when the owner of
+// an offer claims it, and proposalId when a booker takes up a proposal. The
+// booking horizon is only checked when the booker's role is passed.
+// skipLeadTime lets staff booking at the desk waive the approval notice, since
+// they can approve the request themselves.
+export const checkBookingSlot = async (
+  room: RoomWithDepartment,
+  start: Date,
+  end: Date,
+  settings: ServiceSettings,
+  lang: Lang,
+  options: {
+    excludeBookingId?: string;
+    waitlistEntryId?: string;
+    proposalId?: string;
+    now?: Date;
+    role?: string;
+    skipLeadTime?: boolean;
+  } = {}
+): Promise<SlotCheck> => {
+  const now = options.now ?? new Date();
+
+  if (end <= start) {
+    return { ok: false, reason: 'RANGE', status: 400, error: tr(lang, 'endAfterStart') };
+  }
+  if (start <= now) {
+    return { ok: false, reason: 'PAST', status: 400, error: tr(lang, 'pastStart') };
+  }
+  if (end <= now) {
+    return { ok: false, reason: 'PAST', status: 400, error: tr(lang, 'pastEnd') };
+  }
+
+  const rules = getEffectiveBookingRules(settings, room.department?.bookingRules, room.bookingRules, options.role);
+  const rulesError = checkBookingRules(start, end, rules, lang, now);
+  if (rulesError) {
+    return { ok: false, reason: 'RULES', status: 400, error: rulesError };
+  }
+
+  // Approval-gated rooms need enough notice for a human to actually respond.
+  // Without this a request can start minutes from now, and the scheduler will
+  // auto-cancel it before anyone sees it - a booking that was never going to
+  // succeed. Refuse it up front instead, while the booker can still re-pick.
+  if (room.requiresApproval && !options.skipLeadTime) {
+    const leadMinutes = getApprovalLeadMinutes(settings);
+    if (leadMinutes > 0 && start < new Date(now.getTime() + leadMinutes * 60000)) {
+      return {
+        ok: false,
+        reason: 'LEAD_TIME',
+        status: 400,
+        error: tr(lang, 'approvalLeadTime', { duration: formatLeadTime(leadMinutes, lang) }),
+      };
+    }
+  }
+
+  // The room's schedule wins, then its department's, else the global one
+  const effectiveHours = getEffectiveOperatingHours(
+    settings,
+    room.department?.operatingHours,
+    room.operatingHours,
+  );
+
+  // Date-specific closures/special hours for this day, room and department
+  const dayStart = new Date(start);
+  dayStart.setHours(0, 0, 0, 0);
+  const dayEnd = new Date(start);
+  dayEnd.setHours(23, 59, 59, 999);
+  const exceptions = await prisma.scheduleException.findMany({
+    where: {
+      startDate: { lte: dayEnd },
+      endDate: { gte: dayStart },
+      OR: [{ departmentId: null }, { departmentId: room.departmentId }, { roomId: room.id }],
+    },
+  });
+
+  const hoursCheck = checkBookingSchedule(start, end, effectiveHours, room, exceptions, lang);
+  if (!hoursCheck.ok) {
+    return hoursCheck.exceptionName
+      ? { ok: false, reason: 'EXCEPTION', status: 400, error: hoursCheck.error, exceptionName: hoursCheck.exceptionName }
+      : { ok: false, reason: 'HOURS', status: 400, error: hoursCheck.error };
+  }
+
+  const activeSemester = await prisma.semester.findFirst({ where: { isActive: true } });
+  if (activeSemester && (start < activeSemester.startDate || end > activeSemester.endDate)) {
+    const dateTag = dateLocaleTag(lang);
+    return {
+      ok: false,
+      reason: 'SEMESTER',
+      status: 400,
+      error: tr(lang, 'semesterOnly', {
+        name: activeSemester.name,
+        start: activeSemester.startDate.toLocaleDateString(dateTag),
+        end: activeSemester.endDate.toLocaleDateString(dateTag),
+      }),
+    };
+  }
+
+  const clash = await findSlotClash(prisma, room, start, end, lang, now, options);
+  if (clash) return clash;
+
+  return { ok: true };
+};
+
+// The booking, held offer or proposal [start, end) clashes with in the room, as the
+// refusal to send back, or null when the slot is free. Takes the client to
+// query through so a locked write can repeat it inside its transaction (see
+// services/bookingLocks.ts), where it is the check that counts.
+export const findSlotClash = async (
+  db: PrismaClient | Prisma.TransactionClient,
+  room: Pick<Room, 'id' | 'bufferMinutes'>,
+  start: Date,
+  end: Date,
+  lang: Lang,
+  now: Date,
+  options: { excludeBookingId?: string; waitlistEntryId?: string; proposalId?: string } = {}
+): Promise<SlotRefusal | null> => {
+  const overlapping = await db.booking.findFirst({
+    where: overlappingBookingsWhere(room.id, start, end, options.excludeBookingId, room.bufferMinutes),
+    include: { user: true },
+  });
+  if (overlapping) {
+    return {
+      ok: false,
+      reason: 'CONFLICT',
+      status: 409,
+      error: isBufferOnlyClash(start, end, overlapping)
+        ? tr(lang, 'slotBuffer', { minutes: room.bufferMinutes })
+        : tr(lang, 'slotConflict'),
+      conflict: {
+        startTime: overlapping.startTime.toISOString(),
+        endTime: overlapping.endTime.toISOString(),
+        bookedBy: overlapping.user.name,
+      },
+    };
+  }
+
+  const heldOffer = await db.waitlistEntry.findFirst({
+    where: heldOffersWhere(room.id, start, end, now, options.waitlistEntryId, room.bufferMinutes),
+    include: { user: true },
+  });
+  if (heldOffer) {
+    return {
+      ok: false,
+      reason: 'CONFLICT',
+      status: 409,
+      error: isBufferOnlyClash(start, end, heldOffer)
+        ? tr(lang, 'slotBuffer', { minutes: room.bufferMinutes })
+        : tr(lang, 'slotOffered'),
+      conflict: {
+        startTime: heldOffer.startTime.toISOString(),
+        endTime: heldOffer.endTime.toISOString(),
+        bookedBy: heldOffer.user.name,
+      },
+    };
+  }
+
+  const heldProposal = await db.bookingProposal.findFirst({
+    where: heldProposalsWhere(room.id, start, end, now, options.proposalId, room.bufferMinutes),
+    include: { booking: { include: { user: true } } },
+  });
+  if (heldProposal) {
+    return {
+      ok: false,
+      reason: 'CONFLICT',
+      status: 409,
+      error: isBufferOnlyClash(start, end, heldProposal)
+        ? tr(lang, 'slotBuffer', { minutes: room.bufferMinutes })
+        : tr(lang, 'slotProposed'),
+      conflict: {
+        startTime: heldProposal.startTime.toISOString(),
+        endTime: heldProposal.endTime.toISOString(),
+        bookedBy: heldProposal.booking.user.name,
+      },
+    };
+  }
+
+  return null;
+};
+
+// Pairs of bookings in the same room whose times overlap, each pair once with
+// the earlier booking first. A sweep over the bookings sorted by room and
+// start, so a large table is not compared pair by pair.
+export const findOverlappingPairs = <B extends { roomId: string; startTime: Date; endTime: Date }>(
+  bookings: B[]
+): Array<[B, B]> => {
+  const sorted = [...bookings].sort(
+    (a, b) => a.roomId.localeCompare(b.roomId) || a.startTime.getTime() - b.startTime.getTime()
+  );
+  const pairs: Array<[B, B]> = [];
+  let open: B[] = [];
+  for (const booking of sorted) {
+    open = open.filter((o) => o.roomId === booking.roomId && o.endTime > booking.startTime);
+    for (const o of open) pairs.push([o, booking]);
+    open.push(booking);
+  }
+  return pairs;
+};
+
+// Hard ceiling on one series, whatever end date or count was asked for. A
+// semester is rarely longer than this, and it keeps a typo from filling a year.
+export const MAX_SERIES_OCCURRENCES = 52;
+
+const FREQUENCY_WEEKS: Record<RecurrenceFrequency, number> = {
+  WEEKLY: 1,
+  BIWEEKLY: 2,
+};
+
+// The candidate slots of a series, first occurrence included. Dates advance in
+// local calendar days so the wall-clock time stays put across DST changes.
+// Stops at whichever comes first: the count, the inclusive until-date, the
+// last day of the active semester, or MAX_SERIES_OCCURRENCES.
+export const expandRecurrence = (
+  start: Date,
+  end: Date,
+  frequency: RecurrenceFrequency,
+  limits: { count?: number | null; until?: Date | null; semesterEnd?: Date | null }
+): { start: Date; end: Date }[] => {
+  const step = FREQUENCY_WEEKS[frequency] * 7;
+  const max = Math.min(limits.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+
+  let lastDay: Date | null = null;
+  if (limits.until) {
+    lastDay = new Date(limits.until);
+    lastDay.setHours(23, 59, 59, 999);
+  }
+  if (limits.semesterEnd && (!lastDay || limits.semesterEnd < lastDay)) {
+    lastDay = limits.semesterEnd;
+  }
+
+  const slots: { start: Date; end: Date }[] = [];
+  for (let i = 0; slots.length < max; i++) {
+    const s = new Date(start);
+    s.setDate(s.getDate() + i * step);
+    const e = new Date(end);
+    e.setDate(e.getDate() + i * step);
+    if (lastDay && e > lastDay) break;
+    slots.push({ start: s, end: e });
+  }
+  return slots;
+};
@@ -0,0 +1,170 @@
+import { Booking, BookingStatus, Prisma, ProposalStatus, Room, ServiceSettings } from '@prisma/client';
+import { getCheckInWindow } from './settings.js';
+import { RoomWithDepartment } from './bookingValidation.js';
+import { isStaff } from './permissions.js';
+import {
+  ApprovalAuthority,
+  actsForStep,
+  currentStepIndex,
+  delegatorForDepartment,
+  getApprovalAuthority,
+  parseApprovalChainJson,
+} from './approvals.js';
+
+// What every booking listing loads alongside the booking
+export const BOOKING_LIST_INCLUDE = {
+  user: true,
+  createdBy: { select: { id: true, name: true } },
+  room: { include: { department: true } },
+  attendees: true,
+  approvals: {
+    include: { approver: { select: { name: true } }, onBehalfOf: { select: { name: true } } },
+    orderBy: { step: 'asc' },
+  },
+  // At most one: a new proposal withdraws the one before
+  proposals: {
+    where: { status: ProposalStatus.OPEN },
+    include: { room: { select: { name: true } }, proposedBy: { select: { name: true } } },
+  },
+  _count: { select: { comments: true } },
+} satisfies Prisma.BookingInclude;
+
+export type ListedBooking = Prisma.BookingGetPayload<{ include: typeof BOOKING_LIST_INCLUDE }>;
+
+// Who is looking, as far as redaction cares
+export interface BookingViewer {
+  userId: string;
+  staff: boolean;
+  managedDepartmentIds: string[];
+  authority: ApprovalAuthority; // whose approvals they may give, delegations included
+}
+
+export const getBookingViewer = async (userId: string, role: string | undefined): Promise<BookingViewer> => {
+  const authority = await getApprovalAuthority(userId);
+  return { userId, staff: isStaff(role), managedDepartmentIds: authority.departmentIds, authority };
+};
+
+// Whether the viewer may give the approval a pending booking waits on: the
+// current step of the room's chain, or else the one approval any moderator gives
+export const awaitsViewer = (
+  booking: { status: BookingStatus; room: Pick<Room, 'approvalChain' | 'departmentId'>; approvals: unknown[] },
+  viewer: BookingViewer
+): boolean => {
+  if (booking.status !== BookingStatus.PENDING) return false;
+  const chain = parseApprovalChainJson(booking.room.approvalChain);
+  if (chain) {
+    const step = chain[currentStepIndex(chain, booking.approvals.length)];
+    return actsForStep(viewer.authority, step) !== undefined;
+  }
+  const { departmentId } = booking.room;
+  return viewer.staff
+    || (!!departmentId && viewer.managedDepartmentIds.includes(departmentId))
+    || delegatorForDepartment(viewer.authority, departmentId) !== undefined;
+};
+
+// A chained room's sign-off progress: the step names and who signed which
+export const approvalProgress = (booking: ListedBooking, canViewDetails: boolean) => {
+  const chain = parseApprovalChainJson(booking.room.approvalChain);
+  if (!chain) return null;
+  return {
+    steps: chain.map((s) => s.name),
+    signed: booking.approvals.length,
+    approvals: canViewDetails
+      ? booking.approvals.map((a) => ({
+          step: a.step,
+          approverName: a.approver?.name ?? null,
+          onBehalfOfName: a.onBehalfOf?.name ?? null,
+          approvedAt: a.createdAt.toISOString(),
+        }))
+      : [],
+  };
+};
+
+// The other slot an approver offered instead of the one requested, while the
+// booker has yet to answer. Its details are for the same people as the booking's.
+export const openProposal = (booking: ListedBooking, canViewDetails: boolean) => {
+  const proposal = booking.proposals[0];
+  if (!proposal || booking.status !== BookingStatus.PENDING || !canViewDetails) return null;
+  return {
+    id: proposal.id,
+    roomId: proposal.roomId,
+    roomName: proposal.room.name,
+    startTime: proposal.startTime.toISOString(),
+    endTime: proposal.endTime.toISOString(),
+    message: proposal.message,
+    expiresAt: proposal.expiresAt.toISOString(),
+    proposedByName: proposal.proposedBy?.name ?? null,
+  };
+};
+
+// Escalation of a request left undecided (level 0 = none yet), for the people
+// who moderate it; the booker only needs to know it is still pending
+export const escalationFields = (booking: Booking, canModerate: boolean) => ({
+  escalationLevel: canModerate ? booking.escalationLevel : 0,
+  escalatedAt: canModerate && booking.escalatedAt ? booking.escalatedAt.toISOString() : null,
+});
+
+// Check-in state, shown on every booking: when check-in opens and closes
+// (null when the room does not require it) and whether it has happened
+export const checkInFields = (booking: Booking, room: RoomWithDepartment, settings: ServiceSettings) => {
+  const checkIn = getCheckInWindow(
+    booking.startTime,
+    booking.endTime,
+    settings,
+    room.department?.checkInGraceMinutes,
+    room.checkInGraceMinutes,
+  );
+  return {
+    checkedInAt: booking.checkedInAt ? booking.checkedInAt.toISOString() : null,
+    checkInOpensAt: checkIn ? checkIn.opensAt.toISOString() : null,
+    checkInClosesAt: checkIn ? checkIn.closesAt.toISOString() : null,
+  };
+};
+
+// A booking as listed to one viewer. Staff see everything. Everyone else -
+// STUDENT, FACULTY, or any base role added later - gets details only for their
+// own bookings and for the departments they were explicitly granted; the rest
+// are redacted to a busy slot. Mirrors the check on GET /bookings/:id.
+export const formatBookingForViewer = (
+  booking: ListedBooking,
+  viewer: BookingViewer,
+  settings: ServiceSettings
+) => {
+  const isOwner = booking.userId === viewer.userId;
+  const managesRoom = !!booking.room.departmentId && viewer.managedDepartmentIds.includes(booking.room.departmentId);
+  // Whoever the request waits on needs its details to decide it
+  const awaitsYou = awaitsViewer(booking, viewer);
+  const canViewDetails = viewer.staff || isOwner || managesRoom || awaitsYou;
+
+  return {
+    id: booking.id,
+    roomId: booking.roomId,
+    userId: booking.userId,
+    userDisplay: canViewDetails ? booking.user.name : null,
+    userEmail: canViewDetails ? booking.user.email : null,
+    startTime: booking.startTime.toISOString(),
+    endTime: booking.endTime.toISOString(),
+    purpose: canViewDetails ? booking.purpose : null,
+    attendees: canViewDetails ? booking.attendees.map((a) => ({
+      name: a.name,
+      studentId: a.studentId,
+      isCompanion: a.isCompanion,
+    })) : [],
+    status: booking.status,
+    cancellationReason: canViewDetails ? booking.cancellationReason : null,
+    seriesId: canViewDetails ? booking.seriesId : null,
+    eventId: canViewDetails ? booking.eventId : null,
+    // Set when staff booked it for the user at the desk or over the phone
+    createdByName: canViewDetails ? booking.createdBy?.name ?? null : null,
+    approval: approvalProgress(booking, canViewDetails),
+    proposal: openProposal(booking, canViewDetails),
+    // The thread is for the same people as the details
+    commentCount: canViewDetails ? booking._count.comments : 0,
+    awaitsYou,
+    // For those who decide it: how far the scheduler has chased the request
+    ...escalationFields(booking, viewer.staff || managesRoom || awaitsYou),
+    // Not private: the desk needs to see which rooms are actually in use
+    ...checkInFields(booking, booking.room, settings),
+    createdAt: booking.createdAt.toISOString(),
+  };
+};
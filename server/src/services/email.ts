@@ -10,6 +10,15 @@ export const parseEmails = (value: string | null | undefined): string[] => {
     .filter((e) => e.includes('@'));
 };
 
+// Text someone typed, made safe to place in an email body
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
 interface Branding {
   serviceName: string;
   logoUrl: string;
@@ -160,9 +169,9 @@ const footerAssistText: Record<Lang, string> = {
 };
 
 // Shared field labels used in the info boxes
-const FIELD_LABELS: Record<Lang, { room: string; date: string; time: string; reason: string; requestedBy: string }> = {
-  en: { room: 'Room', date: 'Date', time: 'Time', reason: 'Reason', requestedBy: 'Requested by' },
-  th: { room: 'ห้อง', date: 'วันที่', time: 'เวลา', reason: 'เหตุผล', requestedBy: 'ผู้ขอจอง' },
+const FIELD_LABELS: Record<Lang, { room: string; date: string; time: string; reason: string; requestedBy: string; occurrences: string }> = {
+  en: { room: 'Room', date: 'Date', time: 'Time', reason: 'Reason', requestedBy: 'Requested by', occurrences: 'Occurrences' },
+  th: { room: 'ห้อง', date: 'วันที่', time: 'เวลา', reason: 'เหตุผล', requestedBy: 'ผู้ขอจอง', occurrences: 'จำนวนครั้ง' },
 };
 
 const formatEmailDate = (date: Date, lang: Lang, opts: Intl.DateTimeFormatOptions) =>
@@ -226,10 +235,11 @@ const getEmailTemplate = (title: string, content: string, branding: Branding, te
 export const sendCancellationEmail = async (
   email: string,
   userName: string,
-  details: { roomName: string; startTime: Date; reason?: string },
+  details: { roomName: string; startTime: Date; reason?: string; occurrences?: number },
   lang: Lang = 'en'
 ) => {
   const branding = await getBranding();
+  const occurrences = details.occurrences ?? 1;
   const S = {
     en: {
       subject: `Booking Cancelled - ${branding.serviceName}`,
@@ -238,6 +248,7 @@ export const sendCancellationEmail = async (
       intro: `This email is to inform you that your room reservation with ${branding.serviceName} has been cancelled.`,
       outro: 'If you believe this cancellation was made in error or if you have any questions, please contact the administrators immediately.',
       button: 'Visit Booking System',
+      occurrences: `${occurrences} bookings in this recurring series, from the date above`,
     },
     th: {
       subject: `การจองถูกยกเลิก - ${branding.serviceName}`,
@@ -246,6 +257,7 @@ export const sendCancellationEmail = async (
       intro: `อีเมลฉบับนี้แจ้งให้ทราบว่าการจองห้องของคุณกับ ${branding.serviceName} ถูกยกเลิกแล้ว`,
       outro: 'หากคุณคิดว่าการยกเลิกนี้เกิดจากความผิดพลาด หรือมีข้อสงสัยใด ๆ กรุณาติดต่อผู้ดูแลระบบทันที',
       button: 'ไปที่ระบบจองห้อง',
+      occurrences: `${occurrences} รายการในชุดการจองประจำนี้ เริ่มจากวันที่ข้างต้น`,
     },
   }[lang];
   const L = FIELD_LABELS[lang];
@@ -275,6 +287,11 @@ export const sendCancellationEmail = async (
         <div class="info-label">${L.time}</div>
         <div class="info-value">${timeStr}</div>
       </div>
+      ${occurrences > 1 ? `
+      <div class="info-row">
+        <div class="info-label">${L.occurrences}</div>
+        <div class="info-value">${S.occurrences}</div>
+      </div>` : ''}
       ${details.reason ? `
       <div class="info-row">
         <div class="info-label">${L.reason}</div>
@@ -292,6 +309,74 @@ export const sendCancellationEmail = async (
   await sendEmail(email, S.subject, getEmailTemplate(S.title, message, branding, lang));
 };
 
+// A change to the room's hours or capacity means a booking no longer fits;
+// it still stands, and the booker is asked to move it
+export const sendPolicyChangeEmail = async (
+  email: string,
+  userName: string,
+  details: { roomName: string; startTime: Date; endTime: Date; reason: string },
+  lang: Lang = 'en'
+) => {
+  const branding = await getBranding();
+  const S = {
+    en: {
+      subject: `Your Booking Needs Changing - ${branding.serviceName}`,
+      title: 'Your Booking Needs Changing',
+      greeting: `Dear <strong>${userName}</strong>,`,
+      intro: `The rules for a room you booked with ${branding.serviceName} have changed, and your booking below no longer fits them.`,
+      note: 'Your booking has not been cancelled, but it may be. Please move it to another time or room, or contact the administrators if you need help.',
+      button: 'View My Bookings',
+    },
+    th: {
+      subject: `การจองของคุณต้องแก้ไข - ${branding.serviceName}`,
+      title: 'การจองของคุณต้องแก้ไข',
+      greeting: `เรียน คุณ<strong>${userName}</strong>`,
+      intro: `กฎของห้องที่คุณจองไว้กับ ${branding.serviceName} มีการเปลี่ยนแปลง และการจองด้านล่างไม่เป็นไปตามกฎใหม่แล้ว`,
+      note: 'การจองของคุณยังไม่ถูกยกเลิก แต่อาจถูกยกเลิกได้ กรุณาย้ายไปเวลาหรือห้องอื่น หรือติดต่อผู้ดูแลระบบหากต้องการความช่วยเหลือ',
+      button: 'ดูการจองของฉัน',
+    },
+  }[lang];
+  const L = FIELD_LABELS[lang];
+
+  const dateStr = formatEmailDate(details.startTime, lang, {
+    weekday: 'long', month: 'long', day: 'numeric', year: 'numeric',
+  });
+  const startTimeStr = formatEmailTime(details.startTime, lang);
+  const endTimeStr = formatEmailTime(details.endTime, lang);
+
+  const message = `
+    <p style="font-size: 16px; margin-bottom: 20px;">${S.greeting}</p>
+    <p>${S.intro}</p>
+
+    <div class="info-box">
+      <div class="info-row">
+        <div class="info-label">${L.room}</div>
+        <div class="info-value">${details.roomName}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${L.date}</div>
+        <div class="info-value">${dateStr}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${L.time}</div>
+        <div class="info-value">${startTimeStr} - ${endTimeStr}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${L.reason}</div>
+        <div class="info-value">${details.reason}</div>
+      </div>
+    </div>
+
+    <p>${S.note}</p>
+
+    <div style="text-align: center;">
+      <a href="${process.env.CLIENT_URL || 'http://localhost:3000'}/my-bookings" class="button">${S.button}</a>
+    </div>
+  `;
+
+  await sendEmail(email, S.subject, getEmailTemplate(S.title, message, branding, lang));
+};
+
 export const sendApprovalEmail = async (
   email: string,
   userName: string,
@@ -350,13 +435,570 @@ export const sendApprovalEmail = async (
   await sendEmail(email, S.subject, getEmailTemplate(S.title, message, branding, lang));
 };
 
+// Sent to the booker when their booking is moved or edited, whoever made the
+// change. A move into an approval-gated room says it is waiting again.
+export const sendBookingUpdatedEmail = async (
+  email: string,
+  userName: string,
+  details: { roomName: string; startTime: Date; endTime: Date; pending: boolean },
+  lang: Lang = 'en'
+) => {
+  const branding = await getBranding();
+  const S = {
+    en: {
+      subject: `Booking Updated - ${branding.serviceName}`,
+      title: 'Booking Updated',
+      greeting: `Dear <strong>${userName}</strong>,`,
+      intro: 'Your booking has been changed. The updated details are below.',
+      pending: 'This room requires approval, so the changed booking is pending again until a department admin approves it. The time slot stays reserved for you meanwhile.',
+      button: 'View My Bookings',
+    },
+    th: {
+      subject: `การจองมีการเปลี่ยนแปลง - ${branding.serviceName}`,
+      title: 'การจองมีการเปลี่ยนแปลง',
+      greeting: `เรียน คุณ<strong>${userName}</strong>`,
+      intro: 'การจองของคุณมีการเปลี่ยนแปลง รายละเอียดล่าสุดอยู่ด้านล่าง',
+      pending: 'ห้องนี้ต้องได้รับการอนุมัติ การจองที่เปลี่ยนแปลงจึงกลับไปรออนุมัติอีกครั้ง ระหว่างนี้ช่วงเวลาดังกล่าวยังคงสงวนไว้ให้คุณ',
+      button: 'ดูการจองของฉัน',
+    },
+  }[lang];
+  const L = FIELD_LABELS[lang];
+
+  const dateStr = formatEmailDate(details.startTime, lang, {
+    weekday: 'long', month: 'long', day: 'numeric', year: 'numeric',
+  });
+  const startTimeStr = formatEmailTime(details.startTime, lang);
+  const endTimeStr = formatEmailTime(details.endTime, lang);
+
+  const message = `
+    <p style="font-size: 16px; margin-bottom: 20px;">${S.greeting}</p>
+    <p>${S.intro}</p>
+
+    <div class="info-box">
+      <div class="info-row">
+        <div class="info-label">${L.room}</div>
+        <div class="info-value">${details.roomName}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${L.date}</div>
+        <div class="info-value">${dateStr}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${L.time}</div>
+        <div class="info-value">${startTimeStr} - ${endTimeStr}</div>
+      </div>
+    </div>
+
+    ${details.pending ? `<p>${S.pending}</p>` : ''}
+
+    <div style="text-align: center;">
+      <a href="${process.env.CLIENT_URL || 'http://localhost:3000'}/my-bookings" class="button">${S.button}</a>
+    </div>
+  `;
+
+  await sendEmail(email, S.subject, getEmailTemplate(S.title, message, branding, lang));
+};
+
+// Sent when the scheduler releases a booking nobody checked in for
+export const sendNoShowEmail = async (
+  email: string,
+  userName: string,
+  details: { roomName: string; startTime: Date; endTime: Date; graceMinutes: number },
+  lang: Lang = 'en'
+) => {
+  const branding = await getBranding();
+  const S = {
+    en: {
+      subject: `Booking Released - ${branding.serviceName}`,
+      title: 'Booking Released',
+      greeting: `Dear <strong>${userName}</strong>,`,
+      intro: `Nobody checked in within ${details.graceMinutes} minutes of the start of your booking, so it has been released and the room is available to others.`,
+      note: 'If you still need a room, you can make a new booking. Remember to check in when you arrive.',
+      button: 'View My Bookings',
+    },
+    th: {
+      subject: `การจองถูกปล่อย - ${branding.serviceName}`,
+      title: 'การจองถูกปล่อย',
+      greeting: `เรียน คุณ<strong>${userName}</strong>`,
+      intro: `ไม่มีการเช็คอินภายใน ${details.graceMinutes} นาทีหลังเวลาเริ่มการจองของคุณ การจองจึงถูกปล่อยและห้องเปิดให้ผู้อื่นใช้แล้ว`,
+      note: 'หากคุณยังต้องการใช้ห้อง สามารถจองใหม่ได้ และอย่าลืมเช็คอินเมื่อมาถึง',
+      button: 'ดูการจองของฉัน',
+    },
+  }[lang];
+  const L = FIELD_LABELS[lang];
+
+  const dateStr = formatEmailDate(details.startTime, lang, {
+    weekday: 'long', month: 'long', day: 'numeric', year: 'numeric',
+  });
+  const startTimeStr = formatEmailTime(details.startTime, lang);
+  const endTimeStr = formatEmailTime(details.endTime, lang);
+
+  const message = `
+    <p style="font-size: 16px; margin-bottom: 20px;">${S.greeting}</p>
+    <p>${S.intro}</p>
+
+    <div class="info-box">
+      <div class="info-row">
+        <div class="info-label">${L.room}</div>
+        <div class="info-value">${details.roomName}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${L.date}</div>
+        <div class="info-value">${dateStr}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${L.time}</div>
+        <div class="info-value">${startTimeStr} - ${endTimeStr}</div>
+      </div>
+    </div>
+
+    <p>${S.note}</p>
+
+    <div style="text-align: center;">
+      <a href="${process.env.CLIENT_URL || 'http://localhost:3000'}/my-bookings" class="button">${S.button}</a>
+    </div>
+  `;
+
+  await sendEmail(email, S.subject, getEmailTemplate(S.title, message, branding, lang));
+};
+
+// Sent when strikes for late cancellations and no-shows reach the threshold
+export const sendBookingBanEmail = async (
+  email: string,
+  userName: string,
+  details: { bannedUntil: Date; strikeCount: number; windowDays: number },
+  lang: Lang = 'en'
+) => {
+  const branding = await getBranding();
+  const S = {
+    en: {
+      subject: `Booking Suspended - ${branding.serviceName}`,
+      title: 'Booking Suspended',
+      greeting: `Dear <strong>${userName}</strong>,`,
+      intro: `You have ${details.strikeCount} strikes for late cancellations or missed bookings in the last ${details.windowDays} days, so you cannot make new bookings for now.`,
+      until: 'You can book again from',
+      note: 'Your existing bookings are not affected. If you think a strike was recorded in error, please contact the library.',
+      button: 'View My Bookings',
+    },
+    th: {
+      subject: `ระงับสิทธิ์การจอง - ${branding.serviceName}`,
+      title: 'ระงับสิทธิ์การจอง',
+      greeting: `เรียน คุณ<strong>${userName}</strong>`,
+      intro: `คุณได้รับ ${details.strikeCount} ครั้งจากการยกเลิกกระชั้นชิดหรือไม่มาใช้ห้องในช่วง ${details.windowDays} วันที่ผ่านมา จึงไม่สามารถจองใหม่ได้ชั่วคราว`,
+      until: 'จองได้อีกครั้งตั้งแต่',
+      note: 'การจองที่มีอยู่แล้วไม่ได้รับผลกระทบ หากคิดว่ามีการบันทึกผิดพลาด โปรดติดต่อห้องสมุด',
+      button: 'ดูการจองของฉัน',
+    },
+  }[lang];
+
+  const untilStr = `${formatEmailDate(details.bannedUntil, lang, {
+    weekday: 'long', month: 'long', day: 'numeric', year: 'numeric',
+  })} ${formatEmailTime(details.bannedUntil, lang)}`;
+
+  const message = `
+    <p style="font-size: 16px; margin-bottom: 20px;">${S.greeting}</p>
+    <p>${S.intro}</p>
+
+    <div class="info-box">
+      <div class="info-row">
+        <div class="info-label">${S.until}</div>
+        <div class="info-value">${untilStr}</div>
+      </div>
+    </div>
+
+    <p>${S.note}</p>
+
+    <div style="text-align: center;">
+      <a href="${process.env.CLIENT_URL || 'http://localhost:3000'}/my-bookings" class="button">${S.button}</a>
+    </div>
+  `;
+
+  await sendEmail(email, S.subject, getEmailTemplate(S.title, message, branding, lang));
+};
+
+// A waitlisted slot came free and is being held for this user to claim
+export const sendWaitlistOfferEmail = async (
+  email: string,
+  userName: string,
+  details: { roomName: string; startTime: Date; endTime: Date; offerExpiresAt: Date },
+  lang: Lang = 'en'
+) => {
+  const branding = await getBranding();
+  const holdUntil = formatEmailTime(details.offerExpiresAt, lang);
+  const S = {
+    en: {
+      subject: `A Slot You Waited For Is Available - ${branding.serviceName}`,
+      title: 'Your Waitlisted Slot Is Available',
+      greeting: `Dear <strong>${userName}</strong>,`,
+      intro: 'The booking that held the slot you were waiting for has been cancelled. The slot is being held for you.',
+      hold: `Claim it before <strong>${holdUntil}</strong> from My Bookings. After that it is offered to the next person in the queue.`,
+      button: 'Claim the Slot',
+    },
+    th: {
+      subject: `ช่วงเวลาที่คุณรอคิวว่างแล้ว - ${branding.serviceName}`,
+      title: 'ช่วงเวลาที่คุณรอคิวว่างแล้ว',
+      greeting: `เรียน คุณ<strong>${userName}</strong>`,
+      intro: 'การจองที่ใช้ช่วงเวลาที่คุณรอคิวอยู่ถูกยกเลิกแล้ว ขณะนี้ช่วงเวลาดังกล่าวถูกสงวนไว้ให้คุณ',
+      hold: `กรุณายืนยันการจองก่อนเวลา <strong>${holdUntil}</strong> ที่หน้าการจองของฉัน หลังจากนั้นจะเสนอให้ผู้ที่อยู่ในคิวถัดไป`,
+      button: 'ยืนยันการจอง',
+    },
+  }[lang];
+  const L = FIELD_LABELS[lang];
+
+  const dateStr = formatEmailDate(details.startTime, lang, {
+    weekday: 'long', month: 'long', day: 'numeric', year: 'numeric',
+  });
+  const startTimeStr = formatEmailTime(details.startTime, lang);
+  const endTimeStr = formatEmailTime(details.endTime, lang);
+
+  const message = `
+    <p style="font-size: 16px; margin-bottom: 20px;">${S.greeting}</p>
+    <p>${S.intro}</p>
+
+    <div class="info-box">
+      <div class="info-row">
+        <div class="info-label">${L.room}</div>
+        <div class="info-value">${details.roomName}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${L.date}</div>
+        <div class="info-value">${dateStr}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${L.time}</div>
+        <div class="info-value">${startTimeStr} - ${endTimeStr}</div>
+      </div>
+    </div>
+
+    <p>${S.hold}</p>
+
+    <div style="text-align: center;">
+      <a href="${process.env.CLIENT_URL || 'http://localhost:3000'}/my-bookings" class="button">${S.button}</a>
+    </div>
+  `;
+
+  await sendEmail(email, S.subject, getEmailTemplate(S.title, message, branding, lang));
+};
+
+// An approver offers another time or room in place of the one requested. The
+// slot is held until expiresAt; the link opens My Bookings on the proposal.
+export const sendBookingProposalEmail = async (
+  email: string,
+  userName: string,
+  details: {
+    bookingId: string;
+    roomName: string;
+    startTime: Date;
+    endTime: Date;
+    requestedRoomName: string;
+    requestedStartTime: Date;
+    proposerName: string;
+    message?: string | null;
+    expiresAt: Date;
+  },
+  lang: Lang = 'en'
+) => {
+  const branding = await getBranding();
+  const holdUntil = `${formatEmailDate(details.expiresAt, lang, { month: 'short', day: 'numeric' })} ${formatEmailTime(details.expiresAt, lang)}`;
+  const requested = `${details.requestedRoomName}, ${formatEmailDate(details.requestedStartTime, lang, {
+    weekday: 'short', month: 'short', day: 'numeric',
+  })} ${formatEmailTime(details.requestedStartTime, lang)}`;
+  const S = {
+    en: {
+      subject: `Another Time Proposed for Your Booking - ${branding.serviceName}`,
+      title: 'Another Time Proposed',
+      greeting: `Dear <strong>${userName}</strong>,`,
+      intro: `<strong>${details.proposerName}</strong> cannot approve your request for ${requested}, but proposes the slot below instead. It is being held for you.`,
+      note: 'Note',
+      hold: `Accept or decline it before <strong>${holdUntil}</strong>. Declining, or not answering in time, withdraws your request.`,
+      button: 'Review the Proposal',
+    },
+    th: {
+      subject: `มีการเสนอเวลาอื่นสำหรับการจองของคุณ - ${branding.serviceName}`,
+      title: 'มีการเสนอเวลาอื่น',
+      greeting: `เรียน คุณ<strong>${userName}</strong>`,
+      intro: `<strong>${details.proposerName}</strong> ไม่สามารถอนุมัติคำขอของคุณสำหรับ ${requested} ได้ แต่เสนอช่วงเวลาด้านล่างแทน ขณะนี้ช่วงเวลาดังกล่าวถูกสงวนไว้ให้คุณ`,
+      note: 'หมายเหตุ',
+      hold: `กรุณาตอบรับหรือปฏิเสธก่อนเวลา <strong>${holdUntil}</strong> หากปฏิเสธหรือไม่ตอบภายในเวลาดังกล่าว คำขอของคุณจะถูกยกเลิก`,
+      button: 'ดูข้อเสนอ',
+    },
+  }[lang];
+  const L = FIELD_LABELS[lang];
+
+  const dateStr = formatEmailDate(details.startTime, lang, {
+    weekday: 'long', month: 'long', day: 'numeric', year: 'numeric',
+  });
+  const startTimeStr = formatEmailTime(details.startTime, lang);
+  const endTimeStr = formatEmailTime(details.endTime, lang);
+
+  const message = `
+    <p style="font-size: 16px; margin-bottom: 20px;">${S.greeting}</p>
+    <p>${S.intro}</p>
+
+    <div class="info-box">
+      <div class="info-row">
+        <div class="info-label">${L.room}</div>
+        <div class="info-value">${details.roomName}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${L.date}</div>
+        <div class="info-value">${dateStr}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${L.time}</div>
+        <div class="info-value">${startTimeStr} - ${endTimeStr}</div>
+      </div>
+      ${details.message ? `
+      <div class="info-row">
+        <div class="info-label">${S.note}</div>
+        <div class="info-value">${escapeHtml(details.message)}</div>
+      </div>` : ''}
+    </div>
+
+    <p>${S.hold}</p>
+
+    <div style="text-align: center;">
+      <a href="${process.env.CLIENT_URL || 'http://localhost:3000'}/my-bookings?proposal=${details.bookingId}" class="button">${S.button}</a>
+    </div>
+  `;
+
+  await sendEmail(email, S.subject, getEmailTemplate(S.title, message, branding, lang));
+};
+
+// Someone else on the booking's comment thread wrote to it
+export const sendBookingCommentEmail = async (
+  email: string,
+  userName: string,
+  details: {
+    bookingId: string;
+    roomName: string;
+    startTime: Date;
+    authorName: string;
+    body: string;
+    toBooker: boolean; // the booker gets a link to My Bookings; moderators to the admin view
+  },
+  lang: Lang = 'en'
+) => {
+  const branding = await getBranding();
+  const dateStr = formatEmailDate(details.startTime, lang, {
+    weekday: 'long', month: 'long', day: 'numeric', year: 'numeric',
+  });
+  const when = `${dateStr} ${formatEmailTime(details.startTime, lang)}`;
+  const S = {
+    en: {
+      subject: `New Comment on a Booking - ${branding.serviceName}`,
+      title: 'New Comment',
+      greeting: `Dear <strong>${userName}</strong>,`,
+      intro: `<strong>${details.authorName}</strong> commented on the booking of ${details.roomName} for ${when}:`,
+      outro: 'Reply in the booking system so the conversation stays with the booking.',
+      button: 'View the Booking',
+    },
+    th: {
+      subject: `มีความคิดเห็นใหม่ในการจอง - ${branding.serviceName}`,
+      title: 'ความคิดเห็นใหม่',
+      greeting: `เรียน คุณ<strong>${userName}</strong>`,
+      intro: `<strong>${details.authorName}</strong> แสดงความคิดเห็นในการจอง ${details.roomName} วันที่ ${when}:`,
+      outro: 'กรุณาตอบกลับในระบบจองห้อง เพื่อให้บทสนทนาอยู่กับการจอง',
+      button: 'ดูการจอง',
+    },
+  }[lang];
+  const link = details.toBooker
+    ? `/my-bookings?highlight=${details.bookingId}`
+    : `/admin?tab=bookings&focus=${details.bookingId}`;
+
+  const message = `
+    <p style="font-size: 16px; margin-bottom: 20px;">${S.greeting}</p>
+    <p>${S.intro}</p>
+
+    <div class="info-box">
+      <div class="info-value" style="white-space: pre-wrap;">${escapeHtml(details.body)}</div>
+    </div>
+
+    <p>${S.outro}</p>
+
+    <div style="text-align: center;">
+      <a href="${process.env.CLIENT_URL || 'http://localhost:3000'}${link}" class="button">${S.button}</a>
+    </div>
+  `;
+
+  await sendEmail(email, S.subject, getEmailTemplate(S.title, message, branding, lang));
+};
+
+// A waitlisted slot came free and was booked for this user automatically
+export const sendWaitlistBookedEmail = async (
+  email: string,
+  userName: string,
+  details: { roomName: string; startTime: Date; endTime: Date; pending: boolean },
+  lang: Lang = 'en'
+) => {
+  const branding = await getBranding();
+  const S = {
+    en: {
+      subject: `Booked From the Waitlist - ${branding.serviceName}`,
+      title: 'Booked From the Waitlist',
+      greeting: `Dear <strong>${userName}</strong>,`,
+      intro: 'The slot you were waiting for came free, and it has been booked for you.',
+      pending: 'This room requires approval, so the booking is pending until a department admin approves it.',
+      cancel: 'If you no longer need the room, please cancel the booking so someone else can use it.',
+      button: 'View My Bookings',
+    },
+    th: {
+      subject: `จองจากรายการรอคิวแล้ว - ${branding.serviceName}`,
+      title: 'จองจากรายการรอคิวแล้ว',
+      greeting: `เรียน คุณ<strong>${userName}</strong>`,
+      intro: 'ช่วงเวลาที่คุณรอคิวว่างแล้ว และระบบได้จองให้คุณเรียบร้อยแล้ว',
+      pending: 'ห้องนี้ต้องได้รับการอนุมัติ การจองจึงอยู่ระหว่างรออนุมัติจากผู้ดูแลหน่วยงาน',
+      cancel: 'หากคุณไม่ต้องการใช้ห้องแล้ว กรุณายกเลิกการจองเพื่อให้ผู้อื่นได้ใช้',
+      button: 'ดูการจองของฉัน',
+    },
+  }[lang];
+  const L = FIELD_LABELS[lang];
+
+  const dateStr = formatEmailDate(details.startTime, lang, {
+    weekday: 'long', month: 'long', day: 'numeric', year: 'numeric',
+  });
+  const startTimeStr = formatEmailTime(details.startTime, lang);
+  const endTimeStr = formatEmailTime(details.endTime, lang);
+
+  const message = `
+    <p style="font-size: 16px; margin-bottom: 20px;">${S.greeting}</p>
+    <p>${S.intro}</p>
+
+    <div class="info-box">
+      <div class="info-row">
+        <div class="info-label">${L.room}</div>
+        <div class="info-value">${details.roomName}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${L.date}</div>
+        <div class="info-value">${dateStr}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${L.time}</div>
+        <div class="info-value">${startTimeStr} - ${endTimeStr}</div>
+      </div>
+    </div>
+
+    ${details.pending ? `<p>${S.pending}</p>` : ''}
+    <p>${S.cancel}</p>
+
+    <div style="text-align: center;">
+      <a href="${process.env.CLIENT_URL || 'http://localhost:3000'}/my-bookings" class="button">${S.button}</a>
+    </div>
+  `;
+
+  await sendEmail(email, S.subject, getEmailTemplate(S.title, message, branding, lang));
+};
+
+// Staff booked a room for this user at the desk or over the phone. Guests
+// cannot sign in, so they are pointed back to the desk instead of My Bookings.
+export const sendBookedOnBehalfEmail = async (
+  email: string,
+  userName: string,
+  details: {
+    roomName: string;
+    startTime: Date;
+    endTime: Date;
+    purpose: string;
+    bookedBy: string;
+    pending: boolean;
+    guest: boolean;
+  },
+  lang: Lang = 'en'
+) => {
+  const branding = await getBranding();
+  const S = {
+    en: {
+      subject: `A Room Was Booked for You - ${branding.serviceName}`,
+      title: 'A Room Was Booked for You',
+      greeting: `Dear <strong>${userName}</strong>,`,
+      intro: `<strong>${details.bookedBy}</strong> has booked a room for you.`,
+      purpose: 'Purpose',
+      bookedBy: 'Booked by',
+      pending: 'This room requires approval, so the booking is pending until a department admin approves it.',
+      cancel: 'If you no longer need the room, please cancel the booking so someone else can use it.',
+      guestCancel: 'If you no longer need the room, please let the library desk know so someone else can use it.',
+      button: 'View My Bookings',
+    },
+    th: {
+      subject: `มีการจองห้องให้คุณ - ${branding.serviceName}`,
+      title: 'มีการจองห้องให้คุณ',
+      greeting: `เรียน คุณ<strong>${userName}</strong>`,
+      intro: `<strong>${details.bookedBy}</strong> ได้จองห้องให้คุณแล้ว`,
+      purpose: 'วัตถุประสงค์',
+      bookedBy: 'จองโดย',
+      pending: 'ห้องนี้ต้องได้รับการอนุมัติ การจองจึงอยู่ระหว่างรออนุมัติจากผู้ดูแลหน่วยงาน',
+      cancel: 'หากคุณไม่ต้องการใช้ห้องแล้ว กรุณายกเลิกการจองเพื่อให้ผู้อื่นได้ใช้',
+      guestCancel: 'หากคุณไม่ต้องการใช้ห้องแล้ว กรุณาแจ้งเคาน์เตอร์ห้องสมุดเพื่อให้ผู้อื่นได้ใช้',
+      button: 'ดูการจองของฉัน',
+    },
+  }[lang];
+  const L = FIELD_LABELS[lang];
+
+  const dateStr = formatEmailDate(details.startTime, lang, {
+    weekday: 'long', month: 'long', day: 'numeric', year: 'numeric',
+  });
+  const startTimeStr = formatEmailTime(details.startTime, lang);
+  const endTimeStr = formatEmailTime(details.endTime, lang);
+
+  const message = `
+    <p style="font-size: 16px; margin-bottom: 20px;">${S.greeting}</p>
+    <p>${S.intro}</p>
+
+    <div class="info-box">
+      <div class="info-row">
+        <div class="info-label">${L.room}</div>
+        <div class="info-value">${details.roomName}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${L.date}</div>
+        <div class="info-value">${dateStr}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${L.time}</div>
+        <div class="info-value">${startTimeStr} - ${endTimeStr}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${S.purpose}</div>
+        <div class="info-value">${details.purpose}</div>
+      </div>
+      <div class="info-row">
+        <div class="info-label">${S.bookedBy}</div>
+        <div class="info-value">${details.bookedBy}</div>
+      </div>
+    </div>
+
+    ${details.pending ? `<p>${S.pending}</p>` : ''}
+    <p>${details.guest ? S.guestCancel : S.cancel}</p>
+
+    ${details.guest ? '' : `
+    <div style="text-align: center;">
+      <a href="${process.env.CLIENT_URL || 'http://localhost:3000'}/my-bookings" class="button">${S.button}</a>
+    </div>`}
+  `;
+
+  await sendEmail(email, S.subject, getEmailTemplate(S.title, message, branding, lang));
+};
+
 export const sendApprovalRequestEmail = async (
   recipients: string[],
-  details: { roomName: string; userName: string; startTime: Date; endTime: Date }
+  details: {
+    roomName: string;
+    userName: string;
+    startTime: Date;
+    endTime: Date;
+    occurrences?: number;
+    step?: { name: string; index: number; count: number }; // rooms with an approval chain
+    // Set when the scheduler re-sends an undecided request: 1 to its approvers,
+    // 2 to the service contact once they have not acted either
+    escalation?: { level: number; requestedAt: Date };
+  }
 ) => {
   if (recipients.length === 0) return;
   const branding = await getBranding();
-  const subject = `Booking Awaiting Approval - ${branding.serviceName}`;
+  const subject = details.escalation
+    ? `Reminder: Booking Still Awaiting Approval - ${branding.serviceName}`
+    : `Booking Awaiting Approval - ${branding.serviceName}`;
 
   const dateStr = new Date(details.startTime).toLocaleDateString('en-US', {
     weekday: 'long', month: 'long', day: 'numeric', year: 'numeric',
@@ -366,7 +1008,11 @@ export const sendApprovalRequestEmail = async (
 
   const message = `
     <p style="font-size: 16px; margin-bottom: 20px;">Hello,</p>
-    <p>A new booking request is awaiting approval.</p>
+    <p>${!details.escalation
+      ? 'A new booking request is awaiting approval.'
+      : details.escalation.level === 1
+        ? `This booking request has been waiting since ${new Date(details.escalation.requestedAt).toLocaleString('en-US')} and nobody has decided it yet.`
+        : `This booking request has been waiting since ${new Date(details.escalation.requestedAt).toLocaleString('en-US')}. Its approvers were reminded and have not acted, so it is passed to you.`}</p>
 
     <div class="info-box">
       <div class="info-row">
@@ -385,6 +1031,16 @@ export const sendApprovalRequestEmail = async (
         <div class="info-label">Time</div>
         <div class="info-value">${startTimeStr} - ${endTimeStr}</div>
       </div>
+      ${details.occurrences && details.occurrences > 1 ? `
+      <div class="info-row">
+        <div class="info-label">Occurrences</div>
+        <div class="info-value">Recurring - ${details.occurrences} bookings, starting on the date above. Each one is approved separately.</div>
+      </div>` : ''}
+      ${details.step ? `
+      <div class="info-row">
+        <div class="info-label">Approval step</div>
+        <div class="info-value">${details.step.name} (${details.step.index + 1} of ${details.step.count})</div>
+      </div>` : ''}
     </div>
 
     <p>Please review it in the admin dashboard. Unapproved requests are cancelled automatically when their start time passes.</p>
@@ -0,0 +1,192 @@
+import { BookingStatus, PrismaClient, ProposalStatus, ServiceSettings, WaitlistStatus } from '@prisma/client';
+import { getEffectiveOperatingHours, resolveDayHours } from './settings.js';
+import { BLOCKING_STATUSES, RoomWithDepartment } from './bookingValidation.js';
+
+const prisma = new PrismaClient();
+
+// Longest range one request may ask about: a month view plus the week either
+// side it shows
+export const MAX_FREE_BUSY_DAYS = 62;
+
+export interface Interval {
+  start: string;
+  end: string;
+}
+
+// Why a stretch of time cannot be booked whatever else is in the room
+export type ClosedReason = 'HOURS' | 'EXCEPTION' | 'SEMESTER';
+
+export interface RoomFreeBusy {
+  roomId: string;
+  // When the room takes bookings, before counting the bookings themselves
+  open: Interval[];
+  // The rest of each day, and any blocks inside it; `name` is the closure or
+  // semester responsible
+  closed: Array<Interval & { reason: ClosedReason; name: string | null }>;
+  // What holds the room inside those hours: bookings, freed slots offered to
+  // the waitlist, and the turnover time around either. Nothing about who.
+  busy: Array<Interval & { kind: 'BOOKING' | 'OFFER' | 'BUFFER' }>;
+}
+
+type Span = { start: number; end: number };
+
+const toInterval = (span: Span): Interval => ({
+  start: new Date(span.start).toISOString(),
+  end: new Date(span.end).toISOString(),
+});
+
+// Each room's open, closed and busy time over [from, to), worked out with the
+// same schedule resolution, semester window and clash rules the booking checks
+// use, so a calendar drawn from it agrees with what the API will accept.
+// Every interval is clipped to the range.
+export const getFreeBusy = async (
+  rooms: RoomWithDepartment[],
+  from: Date,
+  to: Date,
+  settings: ServiceSettings
+): Promise<RoomFreeBusy[]> => {
+  const now = new Date();
+  const roomIds = rooms.map((r) => r.id);
+  const departmentIds = Array.from(new Set(rooms.map((r) => r.departmentId).filter((id): id is string => !!id)));
+  // Wide enough to catch the turnover time of bookings just outside the range
+  const maxBuffer = Math.max(0, ...rooms.map((r) => r.bufferMinutes)) * 60000;
+  const overlapsRange = {
+    roomId: { in: roomIds },
+    startTime: { lt: new Date(to.getTime() + maxBuffer) },
+    endTime: { gt: new Date(from.getTime() - maxBuffer) },
+  };
+
+  const [exceptions, semester, bookings, offers, proposals] = await Promise.all([
+    prisma.scheduleException.findMany({
+      where: {
+        startDate: { lt: to },
+        endDate: { gte: new Date(from.getTime() - 24 * 3600000) },
+        OR: [{ departmentId: null }, { departmentId: { in: departmentIds } }, { roomId: { in: roomIds } }],
+      },
+    }),
+    prisma.semester.findFirst({ where: { isActive: true } }),
+    prisma.booking.findMany({
+      where: { ...overlapsRange, status: { in: BLOCKING_STATUSES } },
+      select: { roomId: true, startTime: true, endTime: true },
+    }),
+    prisma.waitlistEntry.findMany({
+      where: { ...overlapsRange, status: WaitlistStatus.OFFERED, offerExpiresAt: { gt: now } },
+      select: { roomId: true, startTime: true, endTime: true },
+    }),
+    prisma.bookingProposal.findMany({
+      where: {
+        ...overlapsRange,
+        status: ProposalStatus.OPEN,
+        expiresAt: { gt: now },
+        booking: { status: BookingStatus.PENDING },
+      },
+      select: { roomId: true, startTime: true, endTime: true },
+    }),
+  ]);
+
+  const clip = (span: Span): Span | null => {
+    const start = Math.max(span.start, from.getTime());
+    const end = Math.min(span.end, to.getTime());
+    return start < end ? { start, end } : null;
+  };
+
+  return rooms.map((room) => {
+    const weekly = getEffectiveOperatingHours(settings, room.department?.operatingHours, room.operatingHours);
+    const result: RoomFreeBusy = { roomId: room.id, open: [], closed: [], busy: [] };
+
+    const day = new Date(from);
+    day.setHours(0, 0, 0, 0);
+    for (; day < to; day.setDate(day.getDate() + 1)) {
+      const dayStart = day.getTime();
+      const at = (hour: number, minute = 0) => {
+        const d = new Date(day);
+        d.setHours(hour, minute, 0, 0);
+        return d.getTime();
+      };
+      const dayEnd = at(24);
+      const { hours, exceptionName, blocks } = resolveDayHours(day, weekly, room, exceptions);
+      const reason: ClosedReason = exceptionName ? 'EXCEPTION' : 'HOURS';
+      const name = exceptionName ?? null;
+
+      const closed: Array<Span & { reason: ClosedReason; name: string | null }> = [];
+      let open: Span[] = [];
+      if (!hours) {
+        closed.push({ start: dayStart, end: dayEnd, reason, name });
+      } else {
+        if (hours.open > 0) closed.push({ start: dayStart, end: at(hours.open), reason, name });
+        open.push({ start: at(hours.open), end: at(hours.close) });
+        if (hours.close < 24) closed.push({ start: at(hours.close), end: dayEnd, reason, name });
+      }
+
+      // Blocks cut holes in the open hours, as closures of their own
+      for (const block of blocks) {
+        const blockStart = at(0, block.start);
+        const blockEnd = at(0, block.end);
+        const remaining: Span[] = [];
+        for (const span of open) {
+          const start = Math.max(span.start, blockStart);
+          const end = Math.min(span.end, blockEnd);
+          if (start >= end) {
+            remaining.push(span);
+            continue;
+          }
+          closed.push({ start, end, reason: 'EXCEPTION', name: block.name });
+          if (span.start < start) remaining.push({ start: span.start, end: start });
+          if (end < span.end) remaining.push({ start: end, end: span.end });
+        }
+        open = remaining;
+      }
+
+      // Outside the active semester nothing is bookable, opening hours or not
+      if (semester) {
+        const semStart = semester.startDate.getTime();
+        const semEnd = semester.endDate.getTime();
+        const inside: Span[] = [];
+        for (const span of open) {
+          if (span.start < semStart) {
+            closed.push({ start: span.start, end: Math.min(span.end, semStart), reason: 'SEMESTER', name: semester.name });
+          }
+          if (span.end > semEnd) {
+            closed.push({ start: Math.max(span.start, semEnd), end: span.end, reason: 'SEMESTER', name: semester.name });
+          }
+          const start = Math.max(span.start, semStart);
+          const end = Math.min(span.end, semEnd);
+          if (start < end) inside.push({ start, end });
+        }
+        open = inside;
+      }
+
+      for (const span of open) {
+        const clipped = clip(span);
+        if (clipped) result.open.push(toInterval(clipped));
+      }
+      for (const span of closed.sort((a, b) => a.start - b.start)) {
+        const clipped = clip(span);
+        if (clipped) result.closed.push({ ...toInterval(clipped), reason: span.reason, name: span.name });
+      }
+    }
+
+    const buffer = room.bufferMinutes * 60000;
+    const holds = [
+      ...bookings.filter((b) => b.roomId === room.id).map((b) => ({ ...b, kind: 'BOOKING' as const })),
+      ...offers.filter((o) => o.roomId === room.id).map((o) => ({ ...o, kind: 'OFFER' as const })),
+      // A counter-proposal is held for its booker just as a waitlist offer is
+      ...proposals.filter((p) => p.roomId === room.id).map((p) => ({ ...p, kind: 'OFFER' as const })),
+    ].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+    for (const hold of holds) {
+      const start = hold.startTime.getTime();
+      const end = hold.endTime.getTime();
+      const spans: Array<Span & { kind: 'BOOKING' | 'OFFER' | 'BUFFER' }> = [{ start, end, kind: hold.kind }];
+      if (buffer > 0) {
+        spans.unshift({ start: start - buffer, end: start, kind: 'BUFFER' });
+        spans.push({ start: end, end: end + buffer, kind: 'BUFFER' });
+      }
+      for (const span of spans) {
+        const clipped = clip(span);
+        if (clipped) result.busy.push({ ...toInterval(clipped), kind: span.kind });
+      }
+    }
+
+    return result;
+  });
+};
@@ -34,12 +34,14 @@ const STATUS_NAMES: Record<Lang, Record<string, string>> = {
     CONFIRMED: 'confirmed',
     CANCELLED: 'cancelled',
     COMPLETED: 'completed',
+    NO_SHOW: 'released as a no-show',
   },
   th: {
     PENDING: 'รออนุมัติ',
     CONFIRMED: 'ยืนยันแล้ว',
     CANCELLED: 'ยกเลิกแล้ว',
     COMPLETED: 'เสร็จสิ้น',
+    NO_SHOW: 'ถูกปล่อยเนื่องจากไม่มาใช้ห้อง',
   },
 };
 
@@ -91,6 +93,54 @@ const MESSAGES = {
     en: 'Approval notice must be a whole number of minutes between 0 and 10080 (7 days).',
     th: 'ระยะเวลาแจ้งล่วงหน้าสำหรับการอนุมัติต้องเป็นจำนวนเต็มนาทีระหว่าง 0 ถึง 10080 (7 วัน)',
   },
+  invalidEscalationHours: {
+    en: 'Escalation times must be a whole number of hours between 0 and 168 (7 days).',
+    th: 'เวลาการแจ้งเตือนซ้ำต้องเป็นจำนวนเต็มชั่วโมงระหว่าง 0 ถึง 168 (7 วัน)',
+  },
+  invalidCheckInMinutes: {
+    en: 'Check-in times must be a whole number of minutes between 0 and 240 (4 hours).',
+    th: 'เวลาเช็คอินต้องเป็นจำนวนเต็มนาทีระหว่าง 0 ถึง 240 (4 ชั่วโมง)',
+  },
+  invalidStrikeSettings: {
+    en: 'Strike settings are out of range: late-cancellation notice 0-168 hours, threshold 0-20 strikes, window and ban 1-365 days.',
+    th: 'การตั้งค่าการทำผิดไม่อยู่ในช่วงที่กำหนด: ยกเลิกกระชั้นชิด 0-168 ชั่วโมง เกณฑ์ 0-20 ครั้ง ช่วงเวลาและระยะระงับ 1-365 วัน',
+  },
+  invalidBookingQuotas: {
+    en: 'Invalid booking quotas. Each limit must be a positive number within its range (hours in quarter-hour steps).',
+    th: 'โควตาการจองไม่ถูกต้อง แต่ละค่าต้องเป็นจำนวนบวกภายในช่วงที่กำหนด (ชั่วโมงเป็นช่วงละ 15 นาที)',
+  },
+  invalidBufferMinutes: {
+    en: 'Turnover buffer must be a whole number of minutes between 0 and 120.',
+    th: 'เวลาเว้นว่างระหว่างการจองต้องเป็นจำนวนเต็มนาทีระหว่าง 0 ถึง 120',
+  },
+  invalidBookingRules: {
+    en: 'Invalid booking rules. Durations must be 1 to 1440 minutes with the minimum no more than the maximum, slots 15, 30 or 60 minutes, and advance booking 1 to 365 days.',
+    th: 'กฎการจองไม่ถูกต้อง ระยะเวลาต้องอยู่ระหว่าง 1 ถึง 1440 นาทีโดยค่าต่ำสุดไม่เกินค่าสูงสุด ช่วงเวลาเริ่มต้องเป็น 15, 30 หรือ 60 นาที และการจองล่วงหน้าต้องอยู่ระหว่าง 1 ถึง 365 วัน',
+  },
+  invalidApprovalChain: {
+    en: 'Invalid approval chain. Give each step a name and either approvers (staff or department managers) or a department, with up to 5 steps.',
+    th: 'ลำดับการอนุมัติไม่ถูกต้อง แต่ละขั้นตอนต้องมีชื่อและระบุผู้อนุมัติ (เจ้าหน้าที่หรือผู้ดูแลแผนก) หรือแผนก และมีได้ไม่เกิน 5 ขั้นตอน',
+  },
+  invalidAutoApprovalRules: {
+    en: 'Invalid auto-approval rules. Give each rule a name and at least one condition, with times of day in order and up to 20 rules.',
+    th: 'กฎอนุมัติอัตโนมัติไม่ถูกต้อง แต่ละกฎต้องมีชื่อและเงื่อนไขอย่างน้อยหนึ่งข้อ ช่วงเวลาต้องเรียงถูกต้อง และมีได้ไม่เกิน 20 กฎ',
+  },
+  bookingTooShort: {
+    en: 'Bookings in this room must be at least {duration} long.',
+    th: 'การจองห้องนี้ต้องมีระยะเวลาอย่างน้อย {duration}',
+  },
+  bookingTooLong: {
+    en: 'Bookings in this room can be at most {duration} long.',
+    th: 'การจองห้องนี้มีระยะเวลาได้ไม่เกิน {duration}',
+  },
+  bookingSlotMinutes: {
+    en: 'Bookings in this room start on {duration} steps (for example on the hour). Please pick another start time.',
+    th: 'การจองห้องนี้ต้องเริ่มตามช่วงละ {duration} (เช่น ตรงชั่วโมง) กรุณาเลือกเวลาเริ่มใหม่',
+  },
+  bookingTooFarAhead: {
+    en: 'This room can be booked at most {days} day(s) ahead, up to {date}.',
+    th: 'ห้องนี้จองล่วงหน้าได้ไม่เกิน {days} วัน (ถึงวันที่ {date})',
+  },
   sameDay: {
     en: 'Bookings must start and end on the same day.',
     th: 'การจองต้องเริ่มและสิ้นสุดภายในวันเดียวกัน',
@@ -107,6 +157,10 @@ const MESSAGES = {
     en: 'On this date ({name}) bookings are only available between {open} and {close}.',
     th: 'ในวันที่เลือก ({name}) เปิดให้จองเฉพาะเวลา {open} ถึง {close}',
   },
+  closedForBlock: {
+    en: 'The room is closed for {name} from {start} to {end} on this date.',
+    th: 'ห้องปิดเนื่องใน {name} ตั้งแต่เวลา {start} ถึง {end} ในวันที่เลือก',
+  },
   weekdayHours: {
     en: 'Bookings on {weekday}s are only available between {open} and {close}.',
     th: '{weekday}เปิดให้จองเฉพาะเวลา {open} ถึง {close}',
@@ -119,6 +173,10 @@ const MESSAGES = {
     en: 'This time slot conflicts with an existing booking',
     th: 'ช่วงเวลานี้ซ้ำกับการจองที่มีอยู่แล้ว',
   },
+  slotBuffer: {
+    en: 'This room needs {minutes} minutes free between bookings, and this time is too close to another one',
+    th: 'ห้องนี้ต้องเว้นว่าง {minutes} นาทีระหว่างการจอง และช่วงเวลานี้ใกล้กับการจองอื่นเกินไป',
+  },
   bookingNotFound: {
     en: 'Booking not found',
     th: 'ไม่พบการจอง',
@@ -147,6 +205,14 @@ const MESSAGES = {
     en: 'Not approved before the booking start time',
     th: 'ไม่ได้รับการอนุมัติก่อนถึงเวลาเริ่มจอง',
   },
+  proposalDeclinedReason: {
+    en: 'You declined the time or room the approver proposed instead',
+    th: 'คุณปฏิเสธเวลาหรือห้องที่ผู้อนุมัติเสนอแทน',
+  },
+  proposalExpiredReason: {
+    en: 'The time or room the approver proposed instead was not accepted in time',
+    th: 'ไม่ได้ตอบรับเวลาหรือห้องที่ผู้อนุมัติเสนอแทนภายในเวลาที่กำหนด',
+  },
   cancelOwnOnly: {
     en: 'You can only cancel your own bookings',
     th: 'คุณสามารถยกเลิกได้เฉพาะการจองของตนเอง',
@@ -163,6 +229,22 @@ const MESSAGES = {
     en: 'Failed to create booking',
     th: 'สร้างการจองไม่สำเร็จ',
   },
+  endAfterStart: {
+    en: 'End time must be after start time.',
+    th: 'เวลาสิ้นสุดต้องอยู่หลังเวลาเริ่มต้น',
+  },
+  cannotEditStatus: {
+    en: 'Cannot change a {status} booking',
+    th: 'ไม่สามารถแก้ไขการจองที่มีสถานะ{status}ได้',
+  },
+  editEnded: {
+    en: 'Cannot change a booking that has already ended',
+    th: 'ไม่สามารถแก้ไขการจองที่สิ้นสุดไปแล้ว',
+  },
+  updateFailed: {
+    en: 'Failed to update booking',
+    th: 'แก้ไขการจองไม่สำเร็จ',
+  },
 
   // --- Bookings (remaining) ---
   fetchBookingsFailed: {
@@ -173,6 +255,10 @@ const MESSAGES = {
     en: 'Failed to fetch booking',
     th: 'ดึงข้อมูลการจองไม่สำเร็จ',
   },
+  eventStreamFailed: {
+    en: 'Failed to open the live update stream',
+    th: 'เปิดการอัปเดตแบบเรียลไทม์ไม่สำเร็จ',
+  },
   missingFields: {
     en: 'Missing required fields',
     th: 'กรอกข้อมูลไม่ครบถ้วน',
@@ -181,6 +267,10 @@ const MESSAGES = {
     en: 'Failed to check conflicts',
     th: 'ตรวจสอบการจองซ้ำไม่สำเร็จ',
   },
+  suggestSlotsFailed: {
+    en: 'Failed to find other times or rooms',
+    th: 'ค้นหาเวลาหรือห้องอื่นไม่สำเร็จ',
+  },
   approveFailed: {
     en: 'Failed to approve booking',
     th: 'อนุมัติการจองไม่สำเร็จ',
@@ -189,6 +279,70 @@ const MESSAGES = {
     en: 'Failed to reject booking',
     th: 'ปฏิเสธการจองไม่สำเร็จ',
   },
+  invalidModerationAction: {
+    en: 'Action must be APPROVE or REJECT',
+    th: 'การดำเนินการต้องเป็น APPROVE หรือ REJECT',
+  },
+  moderationIdsRequired: {
+    en: 'Give between 1 and {max} booking ids',
+    th: 'ระบุรหัสการจองตั้งแต่ 1 ถึง {max} รายการ',
+  },
+  moderateFailed: {
+    en: 'Failed to process the selected bookings',
+    th: 'ดำเนินการกับการจองที่เลือกไม่สำเร็จ',
+  },
+  notYourApprovalStep: {
+    en: 'This request is waiting on another approver: {step}',
+    th: 'คำขอนี้กำลังรอการอนุมัติจากผู้อนุมัติอื่น: {step}',
+  },
+  approvalStepTaken: {
+    en: 'Someone has just signed this approval step. Reload to see where the request is now.',
+    th: 'มีผู้อนุมัติขั้นตอนนี้ไปแล้ว กรุณาโหลดใหม่เพื่อดูสถานะล่าสุดของคำขอ',
+  },
+  onlyPendingPropose: {
+    en: 'Another slot can only be proposed for a pending request',
+    th: 'สามารถเสนอช่วงเวลาอื่นได้เฉพาะคำขอที่รออนุมัติ',
+  },
+  proposalSameSlot: {
+    en: 'Propose a different time or room from the one requested',
+    th: 'กรุณาเสนอเวลาหรือห้องที่ต่างจากที่ขอไว้',
+  },
+  proposalMessageTooLong: {
+    en: 'The note to the booker can be at most 500 characters',
+    th: 'ข้อความถึงผู้จองต้องไม่เกิน 500 ตัวอักษร',
+  },
+  proposalNotFound: {
+    en: 'There is no open proposal for this booking',
+    th: 'ไม่มีข้อเสนอที่รอการตอบรับสำหรับการจองนี้',
+  },
+  proposalExpired: {
+    en: 'This proposal has expired',
+    th: 'ข้อเสนอนี้หมดอายุแล้ว',
+  },
+  proposeFailed: {
+    en: 'Failed to propose another slot',
+    th: 'เสนอช่วงเวลาอื่นไม่สำเร็จ',
+  },
+  respondProposalFailed: {
+    en: 'Failed to answer the proposal',
+    th: 'ตอบรับข้อเสนอไม่สำเร็จ',
+  },
+  commentRequired: {
+    en: 'Write a comment first',
+    th: 'กรุณาพิมพ์ความคิดเห็นก่อน',
+  },
+  commentTooLong: {
+    en: 'A comment can be at most 2000 characters',
+    th: 'ความคิดเห็นต้องไม่เกิน 2000 ตัวอักษร',
+  },
+  fetchCommentsFailed: {
+    en: 'Failed to load comments',
+    th: 'โหลดความคิดเห็นไม่สำเร็จ',
+  },
+  commentFailed: {
+    en: 'Failed to post the comment',
+    th: 'ส่งความคิดเห็นไม่สำเร็จ',
+  },
   cancelFailed: {
     en: 'Failed to cancel booking',
     th: 'ยกเลิกการจองไม่สำเร็จ',
@@ -213,6 +367,194 @@ const MESSAGES = {
     en: 'User has no email address',
     th: 'ผู้ใช้ไม่มีที่อยู่อีเมล',
   },
+  bookForOthersDenied: {
+    en: 'Only staff and department admins can book on behalf of someone else',
+    th: 'เฉพาะเจ้าหน้าที่และผู้ดูแลหน่วยงานเท่านั้นที่จองแทนผู้อื่นได้',
+  },
+  bookForUserOrGuest: {
+    en: 'Book for an existing user or a guest, not both',
+    th: 'เลือกจองให้ผู้ใช้ที่มีอยู่หรือผู้เยี่ยมชมอย่างใดอย่างหนึ่ง',
+  },
+  bookForUserNotFound: {
+    en: 'The person this booking is for was not found',
+    th: 'ไม่พบผู้ใช้ที่ต้องการจองให้',
+  },
+  bookForUserInactive: {
+    en: 'This account is not active, so it cannot be booked for',
+    th: 'บัญชีนี้ไม่ได้ใช้งานอยู่ จึงไม่สามารถจองให้ได้',
+  },
+
+  // --- Recurring series ---
+  recurrenceEndRequired: {
+    en: 'Choose when the series ends: an end date or a number of occurrences.',
+    th: 'กรุณาระบุวันสิ้นสุดหรือจำนวนครั้งของการจองประจำ',
+  },
+  recurrenceEndBeforeStart: {
+    en: 'The series end date must be after the first booking.',
+    th: 'วันสิ้นสุดของการจองประจำต้องอยู่หลังการจองครั้งแรก',
+  },
+  seriesNothingBooked: {
+    en: 'None of the dates in this series could be booked.',
+    th: 'ไม่สามารถจองวันใดในชุดการจองประจำนี้ได้',
+  },
+  createSeriesFailed: {
+    en: 'Failed to create the booking series',
+    th: 'สร้างการจองประจำไม่สำเร็จ',
+  },
+  invalidCancelScope: {
+    en: 'Invalid cancellation scope',
+    th: 'ขอบเขตการยกเลิกไม่ถูกต้อง',
+  },
+
+  // --- Events (several rooms booked together) ---
+  eventRoomsDistinct: {
+    en: 'Each room can only be in an event once',
+    th: 'แต่ละห้องอยู่ในกิจกรรมได้เพียงครั้งเดียว',
+  },
+  eventNotBooked: {
+    en: 'The event was not booked: {count} of its rooms could not be. Nothing was reserved.',
+    th: 'จองกิจกรรมไม่สำเร็จ: มี {count} ห้องที่จองไม่ได้ จึงไม่ได้จองห้องใดเลย',
+  },
+  eventNotFound: {
+    en: 'Event not found',
+    th: 'ไม่พบกิจกรรม',
+  },
+  createEventFailed: {
+    en: 'Failed to book the event',
+    th: 'จองกิจกรรมไม่สำเร็จ',
+  },
+  fetchEventFailed: {
+    en: 'Failed to fetch the event',
+    th: 'ดึงข้อมูลกิจกรรมไม่สำเร็จ',
+  },
+
+  // --- Waitlist ---
+  slotOffered: {
+    en: 'This time slot is being held for someone on the waitlist',
+    th: 'ช่วงเวลานี้กำลังสงวนไว้ให้ผู้ที่อยู่ในรายการรอคิว',
+  },
+  slotProposed: {
+    en: 'This time slot is being held for a booker to accept an approver\'s proposal',
+    th: 'ช่วงเวลานี้กำลังสงวนไว้ให้ผู้จองตอบรับข้อเสนอของผู้อนุมัติ',
+  },
+  waitlistSlotFree: {
+    en: 'This time slot is available. Book it directly instead of joining the waitlist.',
+    th: 'ช่วงเวลานี้ว่างอยู่ กรุณาจองโดยตรงแทนการเข้าคิวรอ',
+  },
+  waitlistDuplicate: {
+    en: 'You are already on the waitlist for this room at an overlapping time',
+    th: 'คุณอยู่ในรายการรอคิวของห้องนี้ในช่วงเวลาที่ทับซ้อนกันอยู่แล้ว',
+  },
+  waitlistEntryNotFound: {
+    en: 'Waitlist entry not found',
+    th: 'ไม่พบรายการรอคิว',
+  },
+  waitlistNotActive: {
+    en: 'This waitlist entry is no longer active',
+    th: 'รายการรอคิวนี้ไม่มีผลแล้ว',
+  },
+  waitlistOfferExpired: {
+    en: 'This offer has expired',
+    th: 'ข้อเสนอนี้หมดเวลาแล้ว',
+  },
+  fetchWaitlistFailed: {
+    en: 'Failed to fetch your waitlist',
+    th: 'ดึงรายการรอคิวไม่สำเร็จ',
+  },
+  joinWaitlistFailed: {
+    en: 'Failed to join the waitlist',
+    th: 'เข้าคิวรอไม่สำเร็จ',
+  },
+  leaveWaitlistFailed: {
+    en: 'Failed to leave the waitlist',
+    th: 'ออกจากคิวรอไม่สำเร็จ',
+  },
+  claimWaitlistFailed: {
+    en: 'Failed to claim the offered slot',
+    th: 'ยืนยันการจองช่วงเวลาที่เสนอไม่สำเร็จ',
+  },
+
+  // --- Check-in ---
+  checkInNotRequired: {
+    en: 'This room does not require check-in',
+    th: 'ห้องนี้ไม่ต้องเช็คอิน',
+  },
+  checkInConfirmedOnly: {
+    en: 'Only confirmed bookings can be checked in',
+    th: 'เช็คอินได้เฉพาะการจองที่ยืนยันแล้วเท่านั้น',
+  },
+  alreadyCheckedIn: {
+    en: 'This booking is already checked in',
+    th: 'การจองนี้เช็คอินแล้ว',
+  },
+  checkInNotOpen: {
+    en: 'Check-in opens at {time}',
+    th: 'เปิดให้เช็คอินเวลา {time}',
+  },
+  checkInClosed: {
+    en: 'The check-in period for this booking has ended',
+    th: 'หมดเวลาเช็คอินสำหรับการจองนี้แล้ว',
+  },
+  checkInFailed: {
+    en: 'Failed to check in',
+    th: 'เช็คอินไม่สำเร็จ',
+  },
+  noShowReleased: {
+    en: 'Released automatically: nobody checked in within the grace period.',
+    th: 'ถูกปล่อยโดยอัตโนมัติ: ไม่มีการเช็คอินภายในเวลาที่กำหนด',
+  },
+
+  // --- Quotas ---
+  quotaActiveBookings: {
+    en: 'You can hold at most {max} upcoming booking(s) at a time. Cancel one you no longer need first.',
+    th: 'คุณสามารถมีการจองที่ยังไม่ถึงเวลาได้สูงสุด {max} รายการ กรุณายกเลิกการจองที่ไม่ต้องการก่อน',
+  },
+  quotaHoursPerDay: {
+    en: 'This would exceed your limit of {max} booking hour(s) on {date} ({used} already booked).',
+    th: 'การจองนี้เกินโควตา {max} ชั่วโมงของวันที่ {date} (จองไปแล้ว {used} ชั่วโมง)',
+  },
+  quotaHoursPerWeek: {
+    en: 'This would exceed your limit of {max} booking hour(s) in the week of {date} ({used} already booked).',
+    th: 'การจองนี้เกินโควตา {max} ชั่วโมงในสัปดาห์ของวันที่ {date} (จองไปแล้ว {used} ชั่วโมง)',
+  },
+  quotaRoomPerWeek: {
+    en: 'You can book {room} at most {max} time(s) per week.',
+    th: 'คุณสามารถจอง {room} ได้สูงสุด {max} ครั้งต่อสัปดาห์',
+  },
+  fetchQuotaFailed: {
+    en: 'Failed to load your booking quota',
+    th: 'ไม่สามารถโหลดโควตาการจองได้',
+  },
+
+  // --- Strikes ---
+  bookingBanned: {
+    en: 'You cannot make new bookings until {date}: you have too many late cancellations or missed bookings. Contact the library if you think this is a mistake.',
+    th: 'คุณไม่สามารถจองใหม่ได้จนถึง {date} เนื่องจากยกเลิกกระชั้นชิดหรือไม่มาใช้ห้องหลายครั้งเกินไป หากคิดว่าผิดพลาดโปรดติดต่อห้องสมุด',
+  },
+  strikeNotFound: {
+    en: 'Strike not found',
+    th: 'ไม่พบประวัติการทำผิด',
+  },
+  strikeAlreadyForgiven: {
+    en: 'This strike has already been forgiven',
+    th: 'ประวัติการทำผิดนี้ได้รับการยกเว้นแล้ว',
+  },
+  userNotBanned: {
+    en: 'This user is not banned from booking',
+    th: 'ผู้ใช้นี้ไม่ได้ถูกระงับสิทธิ์การจอง',
+  },
+  fetchStrikesFailed: {
+    en: 'Failed to load strikes',
+    th: 'โหลดประวัติการทำผิดไม่สำเร็จ',
+  },
+  forgiveStrikeFailed: {
+    en: 'Failed to forgive the strike',
+    th: 'ยกเว้นประวัติการทำผิดไม่สำเร็จ',
+  },
+  liftBanFailed: {
+    en: 'Failed to lift the ban',
+    th: 'ยกเลิกการระงับสิทธิ์ไม่สำเร็จ',
+  },
 
   // --- Auth / session ---
   tokenRequired: {
@@ -455,6 +797,18 @@ const MESSAGES = {
     en: 'Failed to fetch room',
     th: 'ดึงข้อมูลห้องไม่สำเร็จ',
   },
+  freeBusyRangeTooLong: {
+    en: 'Ask for at most {days} days at a time',
+    th: 'ขอข้อมูลได้ครั้งละไม่เกิน {days} วัน',
+  },
+  fetchFreeBusyFailed: {
+    en: 'Failed to fetch room availability',
+    th: 'ดึงข้อมูลเวลาว่างของห้องไม่สำเร็จ',
+  },
+  searchRoomsFailed: {
+    en: 'Failed to search for available rooms',
+    th: 'ค้นหาห้องว่างไม่สำเร็จ',
+  },
   roomFieldsRequired: {
     en: 'Name, description, minimum capacity, and maximum capacity are required',
     th: 'กรุณากรอกชื่อ คำอธิบาย ความจุขั้นต่ำ และความจุสูงสุด',
@@ -558,6 +912,54 @@ const MESSAGES = {
     th: 'มีผู้ใช้ที่เลือกบางรายไม่มีอยู่ในระบบ',
   },
 
+  // --- Approval delegations ---
+  notAnApprover: {
+    en: 'Only staff and department managers give approvals',
+    th: 'เฉพาะเจ้าหน้าที่และผู้ดูแลแผนกเท่านั้นที่อนุมัติได้',
+  },
+  invalidDelegation: {
+    en: 'Choose someone else who can approve, and a date range of at most a year that has not already ended',
+    th: 'กรุณาเลือกผู้อื่นที่อนุมัติได้ และช่วงวันที่ไม่เกินหนึ่งปีที่ยังไม่สิ้นสุด',
+  },
+  delegationNotFound: {
+    en: 'Delegation not found',
+    th: 'ไม่พบการมอบหมายการอนุมัติ',
+  },
+  fetchApproversFailed: {
+    en: 'Failed to fetch approvers',
+    th: 'ดึงข้อมูลผู้อนุมัติไม่สำเร็จ',
+  },
+  fetchDelegationsFailed: {
+    en: 'Failed to fetch delegations',
+    th: 'ดึงข้อมูลการมอบหมายการอนุมัติไม่สำเร็จ',
+  },
+  createDelegationFailed: {
+    en: 'Failed to delegate approvals',
+    th: 'มอบหมายการอนุมัติไม่สำเร็จ',
+  },
+  deleteDelegationFailed: {
+    en: 'Failed to end the delegation',
+    th: 'ยกเลิกการมอบหมายการอนุมัติไม่สำเร็จ',
+  },
+
+  // --- Policy changes (hours and capacity edits) ---
+  policyCapacityViolation: {
+    en: 'Has {count} people; the room would take {min} to {max}',
+    th: 'มีผู้ใช้ {count} คน แต่ห้องจะรับได้ {min} ถึง {max} คน',
+  },
+  policyHoursChanged: {
+    en: "The room's opening hours have changed and no longer cover this booking",
+    th: 'เวลาเปิดทำการของห้องเปลี่ยนไปและไม่ครอบคลุมการจองนี้แล้ว',
+  },
+  policyCapacityChanged: {
+    en: "The room's capacity has changed and no longer fits this booking's group",
+    th: 'ความจุของห้องเปลี่ยนไปและไม่รองรับจำนวนผู้ใช้ของการจองนี้แล้ว',
+  },
+  invalidImpactAction: {
+    en: 'Choose whether to notify or cancel the affected bookings, and which ones',
+    th: 'กรุณาเลือกว่าจะแจ้งเตือนหรือยกเลิกการจองที่ได้รับผลกระทบ และเลือกการจอง',
+  },
+
   // --- Closures (schedule exceptions) ---
   closureNotFound: {
     en: 'Closure not found',
@@ -591,6 +993,18 @@ const MESSAGES = {
     en: 'You can only manage closures for your own department',
     th: 'คุณจัดการได้เฉพาะวันหยุดของแผนกคุณเท่านั้น',
   },
+  closureBookingIdsRequired: {
+    en: 'Choose the bookings to cancel',
+    th: 'กรุณาเลือกการจองที่จะยกเลิก',
+  },
+  closureCancelReason: {
+    en: 'The room is closed for {name} at this time',
+    th: 'ห้องปิดในช่วงเวลานี้เนื่องใน {name}',
+  },
+  cancelAffectedFailed: {
+    en: 'Failed to cancel the affected bookings',
+    th: 'ยกเลิกการจองที่ได้รับผลกระทบไม่สำเร็จ',
+  },
 
   // --- Semesters ---
   fetchActiveSemesterFailed: {
@@ -623,6 +1037,10 @@ const MESSAGES = {
     en: 'Failed to fetch statistics',
     th: 'ดึงข้อมูลสถิติไม่สำเร็จ',
   },
+  overlapScanFailed: {
+    en: 'Failed to scan bookings for overlaps',
+    th: 'ตรวจสอบการจองที่ซ้อนกันไม่สำเร็จ',
+  },
   fetchAuditFailed: {
     en: 'Failed to fetch the audit log',
     th: 'ดึงข้อมูลบันทึกการตรวจสอบไม่สำเร็จ',
@@ -673,6 +1091,82 @@ const MESSAGES = {
     en: 'At least one attendee is required',
     th: 'ต้องมีผู้เข้าใช้อย่างน้อย 1 คน',
   },
+  invalidBookingFor: {
+    en: 'Invalid user to book for',
+    th: 'ผู้ใช้ที่ต้องการจองให้ไม่ถูกต้อง',
+  },
+  invalidGuest: {
+    en: 'A guest needs a name and an email address',
+    th: 'ผู้เยี่ยมชมต้องมีชื่อและอีเมล',
+  },
+  guestNameRequired: {
+    en: "Guest's name is required",
+    th: 'กรุณาระบุชื่อผู้เยี่ยมชม',
+  },
+  invalidOverride: {
+    en: 'Overrides must be true or false',
+    th: 'ค่าการยกเว้นต้องเป็นจริงหรือเท็จ',
+  },
+  eventRoomCount: {
+    en: 'An event books between 2 and 10 rooms',
+    th: 'กิจกรรมต้องจองตั้งแต่ 2 ถึง 10 ห้อง',
+  },
+  invalidRecurrence: {
+    en: 'Repeat must be weekly or every two weeks',
+    th: 'การจองประจำต้องเป็นทุกสัปดาห์หรือทุกสองสัปดาห์',
+  },
+  invalidRecurrenceEnd: {
+    en: 'Invalid series end date',
+    th: 'วันสิ้นสุดของการจองประจำไม่ถูกต้อง',
+  },
+  invalidOccurrenceCount: {
+    en: 'Number of occurrences must be between 2 and 52',
+    th: 'จำนวนครั้งต้องอยู่ระหว่าง 2 ถึง 52',
+  },
+  invalidRangeStart: {
+    en: 'Invalid start of the date range',
+    th: 'วันเริ่มต้นของช่วงวันที่ไม่ถูกต้อง',
+  },
+  invalidRangeEnd: {
+    en: 'Invalid end of the date range',
+    th: 'วันสิ้นสุดของช่วงวันที่ไม่ถูกต้อง',
+  },
+  invalidStatusFilter: {
+    en: 'Unknown booking status in the filter',
+    th: 'สถานะการจองในตัวกรองไม่ถูกต้อง',
+  },
+  invalidPageSize: {
+    en: 'Page size must be between 1 and 500',
+    th: 'จำนวนต่อหน้าต้องอยู่ระหว่าง 1 ถึง 500',
+  },
+  invalidCursor: {
+    en: 'Invalid page cursor',
+    th: 'ตำแหน่งหน้าไม่ถูกต้อง',
+  },
+  invalidSortOrder: {
+    en: 'Order must be asc or desc',
+    th: 'ลำดับต้องเป็น asc หรือ desc',
+  },
+  invalidDepartmentFilter: {
+    en: 'Invalid department filter',
+    th: 'ตัวกรองหน่วยงานไม่ถูกต้อง',
+  },
+  invalidUserFilter: {
+    en: 'Invalid user filter',
+    th: 'ตัวกรองผู้ใช้ไม่ถูกต้อง',
+  },
+  invalidRoomFilter: {
+    en: 'Invalid list of rooms',
+    th: 'รายการห้องไม่ถูกต้อง',
+  },
+  invalidHeadcount: {
+    en: 'Number of people must be at least 1',
+    th: 'จำนวนคนต้องมีอย่างน้อย 1 คน',
+  },
+  invalidFeatureFilter: {
+    en: 'Invalid list of room features',
+    th: 'รายการสิ่งอำนวยความสะดวกไม่ถูกต้อง',
+  },
   invalidRole: {
     en: 'Invalid role',
     th: 'บทบาทไม่ถูกต้อง',
@@ -0,0 +1,107 @@
+import { Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import logger from '../utils/logger.js';
+import { getServiceSettings } from './settings.js';
+import {
+  BOOKING_LIST_INCLUDE,
+  BookingViewer,
+  formatBookingForViewer,
+  getBookingViewer,
+} from './bookingView.js';
+
+const prisma = new PrismaClient();
+
+// Pushes changes to every open client over Server-Sent Events, so they need
+// not poll. Subscribers live in this process: the server runs as a single
+// instance (see ecosystem.config.cjs).
+
+// What happened to the bookings a `booking` event carries
+export type BookingChange = 'created' | 'updated' | 'cancelled' | 'approved' | 'rejected' | 'deleted';
+
+// Everything else a client keeps in memory; these events carry no data, the
+// client reloads what it has
+export type LiveTopic = 'rooms' | 'closures' | 'settings';
+
+interface Subscriber {
+  res: Response;
+  viewer: BookingViewer;
+}
+
+const subscribers = new Set<Subscriber>();
+
+// Often enough that proxies do not drop an idle stream. Each beat also re-reads
+// the viewer, so a role change or suspension applies within it rather than at
+// the next reconnect.
+const HEARTBEAT_MS = 25 * 1000;
+
+const send = (res: Response, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+// Hold the response open as an event stream until the client goes away
+export const openEventStream = (res: Response, viewer: BookingViewer) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // nginx would otherwise hold events back
+  });
+  res.flushHeaders();
+
+  const subscriber: Subscriber = { res, viewer };
+  subscribers.add(subscriber);
+  send(res, 'ready', {});
+
+  const heartbeat = setInterval(async () => {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: viewer.userId },
+        select: { role: true, status: true },
+      });
+      if (!user || user.status !== 'ACTIVE') {
+        close();
+        return;
+      }
+      subscriber.viewer = await getBookingViewer(viewer.userId, user.role);
+      res.write(': heartbeat\n\n');
+    } catch (error) {
+      logger.error('Event stream heartbeat failed:', error);
+    }
+  }, HEARTBEAT_MS);
+
+  const close = () => {
+    clearInterval(heartbeat);
+    subscribers.delete(subscriber);
+    res.end();
+  };
+  res.on('close', close);
+};
+
+// Tell every client about bookings that changed, each redacted for its viewer
+// like GET /bookings. Deleted ones go out as ids only. Never throws: a failed
+// push only means clients catch up on their next reload.
+export const publishBookingChange = async (change: BookingChange, bookingIds: string[]) => {
+  if (subscribers.size === 0 || bookingIds.length === 0) return;
+  try {
+    if (change === 'deleted') {
+      for (const s of subscribers) send(s.res, 'booking', { change, bookingIds });
+      return;
+    }
+    const [bookings, settings] = await Promise.all([
+      prisma.booking.findMany({ where: { id: { in: bookingIds } }, include: BOOKING_LIST_INCLUDE }),
+      getServiceSettings(),
+    ]);
+    for (const s of subscribers) {
+      send(s.res, 'booking', {
+        change,
+        bookings: bookings.map((b) => formatBookingForViewer(b, s.viewer, settings)),
+      });
+    }
+  } catch (error) {
+    logger.error('Failed to publish booking change:', error);
+  }
+};
+
+export const publishChange = (topic: LiveTopic) => {
+  for (const s of subscribers) send(s.res, topic, {});
+};
@@ -0,0 +1,240 @@
+import { BookingStatus, Prisma, PrismaClient } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import { sendApprovalEmail, sendCancellationEmail } from './email.js';
+import { getManagedDepartmentIds, isStaff } from './permissions.js';
+import { promoteWaitlist } from './waitlist.js';
+import { publishBookingChange } from './liveEvents.js';
+import { recordAudit } from './audit.js';
+import { Lang, asLang, tr } from './i18n.js';
+import { getServiceSettings } from './settings.js';
+import {
+  ApprovalAuthority,
+  actsForStep,
+  currentStepIndex,
+  delegatorForDepartment,
+  getApprovalAuthority,
+  notifyStepApprovers,
+  parseApprovalChainJson,
+} from './approvals.js';
+
+const prisma = new PrismaClient();
+
+// Most requests one bulk approve or reject may name
+export const MAX_BULK_MODERATION = 100;
+
+// Staff, or a department admin of the room's department, may approve/reject/cancel
+export const canModerateBooking = async (req: AuthRequest, departmentId: string | null): Promise<boolean> => {
+  if (isStaff(req.userRole)) return true;
+  const managed = await getManagedDepartmentIds(req.userId);
+  return !!departmentId && managed.includes(departmentId);
+};
+
+// The single approval of a room without a chain: a moderator's, or a
+// delegate's standing in for one. Returns who they act for, or undefined.
+const approvalActor = async (
+  req: AuthRequest,
+  departmentId: string | null,
+  authority: ApprovalAuthority
+): Promise<string | null | undefined> => {
+  if (await canModerateBooking(req, departmentId)) return null;
+  return delegatorForDepartment(authority, departmentId);
+};
+
+// Whether the user may turn a pending request down, or counter it with another
+// slot: any moderator of the room, or whoever the request now waits on
+export const mayDecidePendingBooking = async (
+  req: AuthRequest,
+  booking: { room: { departmentId: string | null; approvalChain: string | null }; _count: { approvals: number } },
+  authority: ApprovalAuthority
+): Promise<boolean> => {
+  if ((await approvalActor(req, booking.room.departmentId, authority)) !== undefined) return true;
+  const chain = parseApprovalChainJson(booking.room.approvalChain);
+  return !!chain && actsForStep(authority, chain[currentStepIndex(chain, booking._count.approvals)]) !== undefined;
+};
+
+// Whether the user may act as a moderator in a room, in person or as a
+// delegate: the rooms a counter-proposal may move a request into
+export const mayModerateRoom = async (
+  req: AuthRequest,
+  departmentId: string | null,
+  authority: ApprovalAuthority
+): Promise<boolean> => (await approvalActor(req, departmentId, authority)) !== undefined;
+
+type ModerationOutcome =
+  | { ok: true; id: string; status: BookingStatus; cancellationReason?: string | null }
+  | { ok: false; status: number; error: string };
+
+// Approve one pending request: confirm it, email the booker and audit it. In
+// a room with an approval chain this signs the step the request waits on, and
+// only the last step confirms it. Refusals come back with the HTTP status a
+// single request would answer with.
+export const approvePendingBooking = async (
+  req: AuthRequest,
+  bookingId: string,
+  lang: Lang
+): Promise<ModerationOutcome> => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { user: true, room: { include: { department: true } }, _count: { select: { approvals: true } } },
+  });
+
+  if (!booking) {
+    return { ok: false, status: 404, error: tr(lang, 'bookingNotFound') };
+  }
+
+  const authority = await getApprovalAuthority(req.userId!);
+  const chain = parseApprovalChainJson(booking.room.approvalChain);
+  const step = chain ? currentStepIndex(chain, booking._count.approvals) : 0;
+  const onBehalfOfId = chain
+    ? actsForStep(authority, chain[step])
+    : await approvalActor(req, booking.room.departmentId, authority);
+  if (onBehalfOfId === undefined) {
+    return {
+      ok: false,
+      status: 403,
+      error: chain ? tr(lang, 'notYourApprovalStep', { step: chain[step].name }) : tr(lang, 'permissionDenied'),
+    };
+  }
+
+  if (booking.status !== BookingStatus.PENDING) {
+    return { ok: false, status: 400, error: tr(lang, 'onlyPendingApprove') };
+  }
+
+  if (booking.endTime <= new Date()) {
+    return { ok: false, status: 400, error: tr(lang, 'alreadyPassed') };
+  }
+
+  // A chain cut short since the request was made may already have every step
+  // it now has signed; the last step's approver then just confirms it
+  if (chain && booking._count.approvals < chain.length) {
+    // One signature per step: a second approver of the same step loses the race
+    try {
+      await prisma.bookingApproval.create({
+        data: { bookingId: booking.id, step, approverId: req.userId, onBehalfOfId },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { ok: false, status: 409, error: tr(lang, 'approvalStepTaken') };
+      }
+      throw error;
+    }
+
+    if (step < chain.length - 1) {
+      // The next step's approvers are chased from the start
+      await prisma.booking.update({
+        where: { id: booking.id },
+        data: { escalationLevel: 0, escalatedAt: null },
+      });
+      await publishBookingChange('updated', [booking.id]);
+      await notifyStepApprovers(booking.room, chain, step + 1, await getServiceSettings(), {
+        roomName: booking.room.name,
+        userName: booking.user.name,
+        startTime: booking.startTime,
+        endTime: booking.endTime,
+      });
+      logger.info(`Booking ${booking.id} step ${step + 1}/${chain.length} approved by user ${req.userId}`);
+      await recordAudit(req, {
+        action: 'BOOKING_APPROVE_STEP',
+        targetType: 'Booking',
+        targetId: booking.id,
+        targetLabel: `${booking.room.name} - ${booking.user.name}`,
+        departmentId: booking.room.departmentId,
+        summary: `Signed approval step "${chain[step].name}" (${step + 1} of ${chain.length}) for ${booking.user.email}`,
+        metadata: { step: chain[step].name, index: step, onBehalfOfId, start: booking.startTime.toISOString() },
+      });
+      return { ok: true, id: booking.id, status: booking.status };
+    }
+  }
+
+  const updated = await prisma.booking.update({
+    where: { id: booking.id },
+    data: { status: BookingStatus.CONFIRMED },
+  });
+  await publishBookingChange('approved', [booking.id]);
+
+  if (booking.user.email) {
+    await sendApprovalEmail(booking.user.email, booking.user.name, {
+      roomName: booking.room.name,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+    }, asLang(booking.user.language));
+  }
+
+  logger.info(`Booking ${booking.id} approved by user ${req.userId}`);
+  await recordAudit(req, {
+    action: 'BOOKING_APPROVE',
+    targetType: 'Booking',
+    targetId: booking.id,
+    targetLabel: `${booking.room.name} - ${booking.user.name}`,
+    departmentId: booking.room.departmentId,
+    summary: `Approved booking for ${booking.user.email}`,
+    metadata: {
+      start: booking.startTime.toISOString(),
+      bookerId: booking.userId,
+      ...(onBehalfOfId && { onBehalfOfId }),
+      ...(chain && { step: chain[step].name }),
+    },
+  });
+  return { ok: true, id: updated.id, status: updated.status };
+};
+
+// Reject one pending request with `reason`, or the default one in the
+// booker's language, email them and offer the slot to the waitlist
+export const rejectPendingBooking = async (
+  req: AuthRequest,
+  bookingId: string,
+  reason: string | undefined,
+  lang: Lang
+): Promise<ModerationOutcome> => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { user: true, room: true, _count: { select: { approvals: true } } },
+  });
+
+  if (!booking) {
+    return { ok: false, status: 404, error: tr(lang, 'bookingNotFound') };
+  }
+
+  // Any moderator may turn a request down, and so may whoever it waits on
+  if (!(await mayDecidePendingBooking(req, booking, await getApprovalAuthority(req.userId!)))) {
+    return { ok: false, status: 403, error: tr(lang, 'permissionDenied') };
+  }
+
+  if (booking.status !== BookingStatus.PENDING) {
+    return { ok: false, status: 400, error: tr(lang, 'onlyPendingReject') };
+  }
+
+  // The default reason is stored and later shown to the booker — use their language
+  const rejectionReason = (reason && String(reason).trim()) || tr(asLang(booking.user.language), 'rejectedDefault');
+  const updated = await prisma.booking.update({
+    where: { id: booking.id },
+    data: {
+      status: BookingStatus.CANCELLED,
+      cancellationReason: rejectionReason,
+    },
+  });
+  await publishBookingChange('rejected', [booking.id]);
+
+  if (booking.user.email) {
+    await sendCancellationEmail(booking.user.email, booking.user.name, {
+      roomName: booking.room.name,
+      startTime: booking.startTime,
+      reason: rejectionReason,
+    }, asLang(booking.user.language));
+  }
+
+  await promoteWaitlist(booking.roomId, booking.startTime, booking.endTime);
+
+  logger.info(`Booking ${booking.id} rejected by user ${req.userId}. Reason: ${rejectionReason}`);
+  await recordAudit(req, {
+    action: 'BOOKING_REJECT',
+    targetType: 'Booking',
+    targetId: booking.id,
+    targetLabel: `${booking.room.name} - ${booking.user.name}`,
+    departmentId: booking.room.departmentId,
+    summary: `Rejected booking for ${booking.user.email}`,
+    metadata: { reason: rejectionReason, start: booking.startTime.toISOString() },
+  });
+  return { ok: true, id: updated.id, status: updated.status, cancellationReason: updated.cancellationReason };
+};
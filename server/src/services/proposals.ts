@@ -0,0 +1,441 @@
+import { BookingProposal, BookingStatus, PrismaClient, ProposalStatus } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import { sendApprovalEmail, sendBookingProposalEmail, sendCancellationEmail } from './email.js';
+import { Lang, asLang, tr } from './i18n.js';
+import { getServiceSettings } from './settings.js';
+import { checkBookingSlot, checkRoomPolicy, findSlotClash } from './bookingValidation.js';
+import { withRoomLocks } from './bookingLocks.js';
+import { checkBookingQuota } from './quotas.js';
+import { checkBookingBan } from './strikes.js';
+import { promoteWaitlist } from './waitlist.js';
+import { publishBookingChange } from './liveEvents.js';
+import { recordAudit, recordSystemAudit } from './audit.js';
+import { getApprovalAuthority, notifyStepApprovers, parseApprovalChainJson } from './approvals.js';
+import { mayDecidePendingBooking, mayModerateRoom } from './moderation.js';
+
+const prisma = new PrismaClient();
+
+// How long the booker has to answer before the held slot goes back and the
+// request lapses. Never past the proposed start.
+export const PROPOSAL_HOLD_HOURS = 24;
+
+type ProposalOutcome =
+  | { ok: true; id: string; status: BookingStatus; proposalId: string }
+  | {
+      ok: false;
+      status: number;
+      error: string;
+      conflict?: { startTime: string; endTime: string; bookedBy: string };
+    };
+
+const auditTime = (date: Date) => date.toISOString().slice(0, 16);
+
+// Counter a pending request with another slot instead of rejecting it: the
+// same room at another time, or another room the approver moderates. The slot
+// passes every check a new booking by the booker would, bar the approval
+// notice, and is held for them; a proposal still open for the request is
+// withdrawn and its slot released.
+export const proposeAlternative = async (
+  req: AuthRequest,
+  bookingId: string,
+  input: { roomId?: string; startTime: string; endTime: string; message?: string | null },
+  lang: Lang
+): Promise<ProposalOutcome> => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      user: true,
+      room: { include: { department: true } },
+      attendees: true,
+      proposals: { where: { status: ProposalStatus.OPEN } },
+      _count: { select: { approvals: true } },
+    },
+  });
+
+  if (!booking) {
+    return { ok: false, status: 404, error: tr(lang, 'bookingNotFound') };
+  }
+
+  const authority = await getApprovalAuthority(req.userId!);
+  if (!(await mayDecidePendingBooking(req, booking, authority))) {
+    return { ok: false, status: 403, error: tr(lang, 'permissionDenied') };
+  }
+
+  if (booking.status !== BookingStatus.PENDING) {
+    return { ok: false, status: 400, error: tr(lang, 'onlyPendingPropose') };
+  }
+
+  const room =
+    input.roomId && input.roomId !== booking.roomId
+      ? await prisma.room.findUnique({ where: { id: input.roomId }, include: { department: true } })
+      : booking.room;
+  if (!room) {
+    return { ok: false, status: 404, error: tr(lang, 'roomNotFound') };
+  }
+  // Offering another room means deciding requests there too
+  if (room.id !== booking.roomId && !(await mayModerateRoom(req, room.departmentId, authority))) {
+    return { ok: false, status: 403, error: tr(lang, 'permissionDenied') };
+  }
+
+  const start = new Date(input.startTime);
+  const end = new Date(input.endTime);
+  if (
+    room.id === booking.roomId &&
+    start.getTime() === booking.startTime.getTime() &&
+    end.getTime() === booking.endTime.getTime()
+  ) {
+    return { ok: false, status: 400, error: tr(lang, 'proposalSameSlot') };
+  }
+
+  // Terms of another room are accepted by the booker when they take it up
+  const policyError = checkRoomPolicy(room, booking.attendees, true, lang);
+  if (policyError) {
+    return { ok: false, status: 400, error: policyError };
+  }
+
+  const settings = await getServiceSettings();
+  const previous = booking.proposals[0];
+  const slot = await checkBookingSlot(room, start, end, settings, lang, {
+    excludeBookingId: booking.id,
+    proposalId: previous?.id,
+    role: booking.user.role,
+    skipLeadTime: true,
+  });
+  if (!slot.ok) {
+    return { ok: false, status: slot.status, error: slot.error, conflict: slot.conflict };
+  }
+
+  const quotaError = await checkBookingQuota(booking.user, room, start, end, settings, lang, {
+    excludeBookingId: booking.id,
+  });
+  if (quotaError) {
+    return { ok: false, status: 400, error: quotaError };
+  }
+
+  const now = new Date();
+  const expiresAt = new Date(Math.min(now.getTime() + PROPOSAL_HOLD_HOURS * 3600000, start.getTime()));
+  const written = await withRoomLocks([room.id], async (tx) => {
+    const clash = await findSlotClash(tx, room, start, end, lang, now, {
+      excludeBookingId: booking.id,
+      proposalId: previous?.id,
+    });
+    if (clash) return { clash };
+    await tx.bookingProposal.updateMany({
+      where: { bookingId: booking.id, status: ProposalStatus.OPEN },
+      data: { status: ProposalStatus.WITHDRAWN, respondedAt: now },
+    });
+    const proposal = await tx.bookingProposal.create({
+      data: {
+        bookingId: booking.id,
+        roomId: room.id,
+        startTime: start,
+        endTime: end,
+        message: input.message?.trim() || null,
+        expiresAt,
+        proposedById: req.userId,
+      },
+      include: { proposedBy: true },
+    });
+    return { proposal };
+  });
+  if (written.clash) {
+    return { ok: false, status: written.clash.status, error: written.clash.error, conflict: written.clash.conflict };
+  }
+  const { proposal } = written;
+  await publishBookingChange('updated', [booking.id]);
+
+  if (previous) {
+    await promoteWaitlist(previous.roomId, previous.startTime, previous.endTime);
+  }
+
+  if (booking.user.email) {
+    await sendBookingProposalEmail(booking.user.email, booking.user.name, {
+      bookingId: booking.id,
+      roomName: room.name,
+      startTime: start,
+      endTime: end,
+      requestedRoomName: booking.room.name,
+      requestedStartTime: booking.startTime,
+      proposerName: proposal.proposedBy?.name ?? '',
+      message: proposal.message,
+      expiresAt,
+    }, asLang(booking.user.language));
+  }
+
+  logger.info(`User ${req.userId} proposed another slot for booking ${booking.id}`);
+  await recordAudit(req, {
+    action: 'BOOKING_PROPOSE',
+    targetType: 'Booking',
+    targetId: booking.id,
+    targetLabel: `${booking.room.name} - ${booking.user.name}`,
+    departmentId: booking.room.departmentId,
+    summary: `Proposed another slot to ${booking.user.email} instead of the one requested`,
+    metadata: {
+      requested: { room: booking.room.name, start: auditTime(booking.startTime), end: auditTime(booking.endTime) },
+      proposed: { room: room.name, start: auditTime(start), end: auditTime(end) },
+      expiresAt: auditTime(expiresAt),
+    },
+  });
+  return { ok: true, id: booking.id, status: booking.status, proposalId: proposal.id };
+};
+
+// The request a booker answers, with its open proposal. Only the booker may
+// answer, and only while the request is pending.
+const loadOpenProposal = async (req: AuthRequest, bookingId: string, lang: Lang) => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      user: true,
+      room: { include: { department: true } },
+      attendees: true,
+      proposals: { where: { status: ProposalStatus.OPEN }, include: { room: { include: { department: true } } } },
+    },
+  });
+  if (!booking) {
+    return { error: { ok: false as const, status: 404, error: tr(lang, 'bookingNotFound') } };
+  }
+  if (booking.userId !== req.userId) {
+    return { error: { ok: false as const, status: 403, error: tr(lang, 'permissionDenied') } };
+  }
+  const proposal = booking.proposals[0];
+  if (!proposal || booking.status !== BookingStatus.PENDING) {
+    return { error: { ok: false as const, status: 404, error: tr(lang, 'proposalNotFound') } };
+  }
+  if (proposal.expiresAt <= new Date()) {
+    return { error: { ok: false as const, status: 400, error: tr(lang, 'proposalExpired') } };
+  }
+  return { booking, proposal };
+};
+
+// Take up a proposal: the booking moves to the proposed slot, which the
+// proposal already held. The approver's offer is their approval, so it is
+// confirmed, unless the room it moves into has an approval chain; then it goes
+// through that chain from the first step.
+export const acceptProposal = async (
+  req: AuthRequest,
+  bookingId: string,
+  termsAccepted: unknown,
+  lang: Lang
+): Promise<ProposalOutcome> => {
+  const loaded = await loadOpenProposal(req, bookingId, lang);
+  if (loaded.error) return loaded.error;
+  const { booking, proposal } = loaded;
+  const room = proposal.room;
+  const roomChanged = room.id !== booking.roomId;
+  const timeChanged =
+    proposal.startTime.getTime() !== booking.startTime.getTime() ||
+    proposal.endTime.getTime() !== booking.endTime.getTime();
+
+  // A booker banned since the proposal was made cannot take it up
+  const banError = checkBookingBan(booking.user, lang);
+  if (banError) {
+    return { ok: false, status: 403, error: banError };
+  }
+
+  const policyError = checkRoomPolicy(room, booking.attendees, roomChanged ? termsAccepted : true, lang);
+  if (policyError) {
+    return { ok: false, status: 400, error: policyError };
+  }
+
+  // A closure or semester change since the proposal was made still counts
+  const settings = await getServiceSettings();
+  const slot = await checkBookingSlot(room, proposal.startTime, proposal.endTime, settings, lang, {
+    excludeBookingId: booking.id,
+    proposalId: proposal.id,
+    role: booking.user.role,
+    skipLeadTime: true,
+  });
+  if (!slot.ok) {
+    return { ok: false, status: slot.status, error: slot.error, conflict: slot.conflict };
+  }
+
+  // Other bookings made while the proposal waited count against it too
+  const quotaError = await checkBookingQuota(booking.user, room, proposal.startTime, proposal.endTime, settings, lang, {
+    excludeBookingId: booking.id,
+  });
+  if (quotaError) {
+    return { ok: false, status: 400, error: quotaError };
+  }
+
+  const chain = room.requiresApproval ? parseApprovalChainJson(room.approvalChain) : null;
+  const status = chain ? BookingStatus.PENDING : BookingStatus.CONFIRMED;
+  const now = new Date();
+  const written = await withRoomLocks([booking.roomId, room.id], async (tx) => {
+    const clash = await findSlotClash(tx, room, proposal.startTime, proposal.endTime, lang, now, {
+      excludeBookingId: booking.id,
+      proposalId: proposal.id,
+    });
+    if (clash) return { clash };
+    const updated = await tx.booking.update({
+      where: { id: booking.id },
+      data: {
+        roomId: room.id,
+        startTime: proposal.startTime,
+        endTime: proposal.endTime,
+        status,
+        ...(timeChanged && { reminderSent: false, checkedInAt: null, checkedInById: null }),
+        ...(roomChanged && { termsAcceptedAt: room.bookingTerms ? now : null }),
+        approvals: { deleteMany: {} },
+        escalationLevel: 0,
+        escalatedAt: null,
+      },
+    });
+    await tx.bookingProposal.update({
+      where: { id: proposal.id },
+      data: { status: ProposalStatus.ACCEPTED, respondedAt: now },
+    });
+    return { updated };
+  });
+  if (written.clash) {
+    return { ok: false, status: written.clash.status, error: written.clash.error, conflict: written.clash.conflict };
+  }
+  const { updated } = written;
+  await publishBookingChange(status === BookingStatus.CONFIRMED ? 'approved' : 'updated', [booking.id]);
+
+  // The slot the request held is free for the waitlist
+  await promoteWaitlist(booking.roomId, booking.startTime, booking.endTime);
+
+  if (chain) {
+    await notifyStepApprovers(room, chain, 0, settings, {
+      roomName: room.name,
+      userName: booking.user.name,
+      startTime: updated.startTime,
+      endTime: updated.endTime,
+    });
+  } else if (booking.user.email) {
+    await sendApprovalEmail(booking.user.email, booking.user.name, {
+      roomName: room.name,
+      startTime: updated.startTime,
+      endTime: updated.endTime,
+    }, asLang(booking.user.language));
+  }
+
+  logger.info(`Booking ${booking.id} moved to the slot proposed in ${proposal.id}`);
+  await recordAudit(req, {
+    action: 'BOOKING_PROPOSAL_ACCEPT',
+    targetType: 'Booking',
+    targetId: booking.id,
+    targetLabel: `${room.name} - ${booking.user.name}`,
+    departmentId: room.departmentId,
+    summary: 'Accepted the slot an approver proposed instead',
+    metadata: {
+      before: { room: booking.room.name, start: auditTime(booking.startTime), end: auditTime(booking.endTime) },
+      after: { room: room.name, start: auditTime(updated.startTime), end: auditTime(updated.endTime), status },
+      proposedById: proposal.proposedById,
+    },
+  });
+  return { ok: true, id: updated.id, status: updated.status, proposalId: proposal.id };
+};
+
+// Turn down a proposal. The approver has already said no to the slot first
+// asked for, so the request is withdrawn with it and both slots are released.
+export const declineProposal = async (
+  req: AuthRequest,
+  bookingId: string,
+  lang: Lang
+): Promise<ProposalOutcome> => {
+  const loaded = await loadOpenProposal(req, bookingId, lang);
+  if (loaded.error) return loaded.error;
+  const { booking, proposal } = loaded;
+
+  const updated = await closeWithRequest(booking.id, proposal, ProposalStatus.DECLINED, tr(asLang(booking.user.language), 'proposalDeclinedReason'));
+  await publishBookingChange('cancelled', [booking.id]);
+  await promoteWaitlist(booking.roomId, booking.startTime, booking.endTime);
+  await promoteWaitlist(proposal.roomId, proposal.startTime, proposal.endTime);
+
+  logger.info(`Booking ${booking.id}: proposal ${proposal.id} declined`);
+  await recordAudit(req, {
+    action: 'BOOKING_PROPOSAL_DECLINE',
+    targetType: 'Booking',
+    targetId: booking.id,
+    targetLabel: `${booking.room.name} - ${booking.user.name}`,
+    departmentId: booking.room.departmentId,
+    summary: 'Declined the slot an approver proposed instead, withdrawing the request',
+    metadata: {
+      proposed: { room: proposal.room.name, start: auditTime(proposal.startTime), end: auditTime(proposal.endTime) },
+      proposedById: proposal.proposedById,
+    },
+  });
+  return { ok: true, id: updated.id, status: updated.status, proposalId: proposal.id };
+};
+
+// Close a proposal together with the request it answered
+const closeWithRequest = async (
+  bookingId: string,
+  proposal: BookingProposal,
+  outcome: ProposalStatus,
+  reason: string
+) => {
+  const now = new Date();
+  const [, updated] = await prisma.$transaction([
+    prisma.bookingProposal.update({ where: { id: proposal.id }, data: { status: outcome, respondedAt: now } }),
+    prisma.booking.update({
+      where: { id: bookingId },
+      data: { status: BookingStatus.CANCELLED, cancellationReason: reason },
+    }),
+  ]);
+  return updated;
+};
+
+// Scheduler sweep. A proposal nobody answered in time lapses, and the request
+// with it: the booker is emailed and both slots go to the waitlist. One whose
+// request was decided some other way meanwhile (approved, rejected, withdrawn,
+// moved) is closed as withdrawn and its slot released.
+export const expireProposals = async (now: Date): Promise<void> => {
+  const open = await prisma.bookingProposal.findMany({
+    where: {
+      status: ProposalStatus.OPEN,
+      OR: [{ expiresAt: { lte: now } }, { booking: { status: { not: BookingStatus.PENDING } } }],
+    },
+    include: { room: true, booking: { include: { user: true, room: true } } },
+  });
+
+  let expired = 0;
+  for (const proposal of open) {
+    const { booking } = proposal;
+    if (booking.status !== BookingStatus.PENDING) {
+      await prisma.bookingProposal.update({
+        where: { id: proposal.id },
+        data: { status: ProposalStatus.WITHDRAWN, respondedAt: now },
+      });
+      await promoteWaitlist(proposal.roomId, proposal.startTime, proposal.endTime);
+      continue;
+    }
+
+    const lang = asLang(booking.user.language);
+    const reason = tr(lang, 'proposalExpiredReason');
+    await closeWithRequest(booking.id, proposal, ProposalStatus.EXPIRED, reason);
+    expired++;
+    await publishBookingChange('cancelled', [booking.id]);
+
+    if (booking.user.email) {
+      await sendCancellationEmail(booking.user.email, booking.user.name, {
+        roomName: booking.room.name,
+        startTime: booking.startTime,
+        reason,
+      }, lang);
+    }
+
+    // One row each, like an auto-cancellation: the request is gone
+    await recordSystemAudit({
+      action: 'BOOKING_PROPOSAL_EXPIRE',
+      targetType: 'Booking',
+      targetId: booking.id,
+      targetLabel: `${booking.room.name} - ${booking.user.name}`,
+      departmentId: booking.room.departmentId,
+      summary: 'Request withdrawn: the slot proposed instead was not accepted in time',
+      metadata: {
+        proposed: { room: proposal.room.name, start: auditTime(proposal.startTime), end: auditTime(proposal.endTime) },
+        booker: booking.user.email,
+      },
+    });
+
+    await promoteWaitlist(booking.roomId, booking.startTime, booking.endTime);
+    await promoteWaitlist(proposal.roomId, proposal.startTime, proposal.endTime);
+  }
+
+  if (expired > 0) {
+    logger.info(`Expired ${expired} unanswered booking proposal(s)`);
+  }
+};
@@ -0,0 +1,208 @@
+import { PrismaClient, BookingStatus, ServiceSettings } from '@prisma/client';
+import { Lang, tr, dateLocaleTag } from './i18n.js';
+import { isStaff } from './permissions.js';
+import { BLOCKING_STATUSES, RoomWithDepartment } from './bookingValidation.js';
+
+const prisma = new PrismaClient();
+
+export const QUOTA_LIMITS = [
+  'maxActiveBookings',
+  'maxHoursPerDay',
+  'maxHoursPerWeek',
+  'maxRoomBookingsPerWeek',
+] as const;
+export type QuotaLimit = (typeof QUOTA_LIMITS)[number];
+export type QuotaLimits = Partial<Record<QuotaLimit, number>>;
+
+// Who an entry applies to: everyone, or one base role. Staff have no scope
+// because they are never limited.
+export const QUOTA_SCOPES = ['default', 'STUDENT', 'FACULTY'] as const;
+export type QuotaScope = (typeof QUOTA_SCOPES)[number];
+export type QuotaConfig = Partial<Record<QuotaScope, QuotaLimits>>;
+
+// Largest value each limit accepts; anything bigger is a typo, not a policy
+const QUOTA_MAX: Record<QuotaLimit, number> = {
+  maxActiveBookings: 100,
+  maxHoursPerDay: 24,
+  maxHoursPerWeek: 168,
+  maxRoomBookingsPerWeek: 50,
+};
+
+const HOUR_LIMITS: QuotaLimit[] = ['maxHoursPerDay', 'maxHoursPerWeek'];
+
+// Counts are whole numbers; hours go in quarter-hour steps, the booking grid
+const isValidLimit = (limit: QuotaLimit, value: unknown): value is number => {
+  if (typeof value !== 'number' || value <= 0 || value > QUOTA_MAX[limit]) return false;
+  return HOUR_LIMITS.includes(limit) ? Number.isInteger(value * 4) : Number.isInteger(value);
+};
+
+// Parse and validate stored or submitted quotas. Unknown scopes or limits and
+// out-of-range values make the whole thing invalid (null), like operating hours.
+export const parseQuotaJson = (json: string | null | undefined): QuotaConfig | null => {
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+    for (const [scope, limits] of Object.entries(parsed)) {
+      if (!QUOTA_SCOPES.includes(scope as QuotaScope)) return null;
+      if (!limits || typeof limits !== 'object' || Array.isArray(limits)) return null;
+      for (const [limit, value] of Object.entries(limits)) {
+        if (!QUOTA_LIMITS.includes(limit as QuotaLimit)) return null;
+        if (!isValidLimit(limit as QuotaLimit, value)) return null;
+      }
+    }
+    return parsed as QuotaConfig;
+  } catch {
+    return null;
+  }
+};
+
+// The limits one user has in one room. Each limit resolves on its own, most
+// specific first: the room's department for the user's role, the department
+// for everyone, then the same two globally. Unset everywhere = unlimited.
+export const getEffectiveQuota = (
+  settings: ServiceSettings,
+  departmentQuotas: string | null | undefined,
+  role: string | undefined
+): QuotaLimits => {
+  const department = parseQuotaJson(departmentQuotas) || {};
+  const global = parseQuotaJson(settings.bookingQuotas) || {};
+  const scope = QUOTA_SCOPES.includes(role as QuotaScope) ? (role as QuotaScope) : null;
+
+  const quota: QuotaLimits = {};
+  for (const limit of QUOTA_LIMITS) {
+    const value =
+      (scope && department[scope]?.[limit]) ??
+      department.default?.[limit] ??
+      (scope && global[scope]?.[limit]) ??
+      global.default?.[limit];
+    if (value) quota[limit] = value;
+  }
+  return quota;
+};
+
+// Bookings that use up hours and weekly room visits. NO_SHOW and CANCELLED
+// gave the room back, so they do not count against anyone.
+const COUNTED_STATUSES = [BookingStatus.PENDING, BookingStatus.CONFIRMED, BookingStatus.COMPLETED];
+
+// Quota days and weeks are local calendar ones; weeks start on Monday
+const dayBounds = (date: Date) => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start, end };
+};
+
+const weekBounds = (date: Date) => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  const end = new Date(start);
+  end.setDate(end.getDate() + 7);
+  return { start, end };
+};
+
+const hoursOf = (start: Date, end: Date) => (end.getTime() - start.getTime()) / 3600000;
+
+// Rounded for messages: 1.5 rather than 1.4999999
+const formatHours = (hours: number) => String(Math.round(hours * 100) / 100);
+
+export interface QuotaUsage {
+  activeBookings: number;
+  hoursOnDay: number;
+  hoursInWeek: number;
+  roomBookingsInWeek: number;
+}
+
+// A slot from the same request that will be booked but is not saved yet (the
+// earlier dates of a series), so it counts towards the later ones
+export interface PlannedSlot {
+  roomId: string;
+  start: Date;
+  end: Date;
+}
+
+// What the user already holds, measured on the day and week of `date`
+export const getQuotaUsage = async (
+  userId: string,
+  roomId: string,
+  date: Date,
+  options: { excludeBookingId?: string; planned?: PlannedSlot[]; now?: Date } = {}
+): Promise<QuotaUsage> => {
+  const now = options.now ?? new Date();
+  const day = dayBounds(date);
+  const week = weekBounds(date);
+  const exclude = options.excludeBookingId ? { id: { not: options.excludeBookingId } } : {};
+
+  const activeBookings = await prisma.booking.count({
+    where: { userId, status: { in: BLOCKING_STATUSES }, endTime: { gt: now }, ...exclude },
+  });
+  const inWeek = await prisma.booking.findMany({
+    where: {
+      userId,
+      status: { in: COUNTED_STATUSES },
+      startTime: { gte: week.start, lt: week.end },
+      ...exclude,
+    },
+    select: { roomId: true, startTime: true, endTime: true },
+  });
+
+  const slots = [
+    ...inWeek.map((b) => ({ roomId: b.roomId, start: b.startTime, end: b.endTime })),
+    ...(options.planned || []).filter((p) => p.start >= week.start && p.start < week.end),
+  ];
+  const onDay = slots.filter((s) => s.start >= day.start && s.start < day.end);
+
+  return {
+    activeBookings: activeBookings + (options.planned || []).filter((p) => p.end > now).length,
+    hoursOnDay: onDay.reduce((sum, s) => sum + hoursOf(s.start, s.end), 0),
+    hoursInWeek: slots.reduce((sum, s) => sum + hoursOf(s.start, s.end), 0),
+    roomBookingsInWeek: slots.filter((s) => s.roomId === roomId).length,
+  };
+};
+
+// Whether booking [start, end) in the room keeps the user within their quota.
+// Returns the error to show, or null when it does. Pass excludeBookingId when
+// the booking being checked already exists (a reschedule), so it is not
+// counted twice.
+export const checkBookingQuota = async (
+  user: { id: string; role: string },
+  room: RoomWithDepartment,
+  start: Date,
+  end: Date,
+  settings: ServiceSettings,
+  lang: Lang,
+  options: { excludeBookingId?: string; planned?: PlannedSlot[]; now?: Date } = {}
+): Promise<string | null> => {
+  if (isStaff(user.role)) return null;
+
+  const quota = getEffectiveQuota(settings, room.department?.bookingQuotas, user.role);
+  if (Object.keys(quota).length === 0) return null;
+
+  const usage = await getQuotaUsage(user.id, room.id, start, options);
+  const hours = hoursOf(start, end);
+  const date = start.toLocaleDateString(dateLocaleTag(lang), { day: 'numeric', month: 'short' });
+
+  if (quota.maxActiveBookings && usage.activeBookings + 1 > quota.maxActiveBookings) {
+    return tr(lang, 'quotaActiveBookings', { max: quota.maxActiveBookings });
+  }
+  if (quota.maxHoursPerDay && usage.hoursOnDay + hours > quota.maxHoursPerDay) {
+    return tr(lang, 'quotaHoursPerDay', {
+      max: formatHours(quota.maxHoursPerDay),
+      used: formatHours(usage.hoursOnDay),
+      date,
+    });
+  }
+  if (quota.maxHoursPerWeek && usage.hoursInWeek + hours > quota.maxHoursPerWeek) {
+    return tr(lang, 'quotaHoursPerWeek', {
+      max: formatHours(quota.maxHoursPerWeek),
+      used: formatHours(usage.hoursInWeek),
+      date,
+    });
+  }
+  if (quota.maxRoomBookingsPerWeek && usage.roomBookingsInWeek + 1 > quota.maxRoomBookingsPerWeek) {
+    return tr(lang, 'quotaRoomPerWeek', { max: quota.maxRoomBookingsPerWeek, room: room.name });
+  }
+  return null;
+};
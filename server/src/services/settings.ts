@@ -43,6 +43,27 @@ export const getApprovalLeadMinutes = (settings: ServiceSettings): number => {
   return Math.min(Math.floor(raw as number), MAX_APPROVAL_LEAD_MINUTES);
 };
 
+// Escalation triggers are whole hours up to a week; past that a request has
+// long since been auto-cancelled at its start time
+export const MAX_ESCALATION_HOURS = 7 * 24;
+
+export const isValidEscalationHours = (hours: number): boolean =>
+  Number.isInteger(hours) && hours >= 0 && hours <= MAX_ESCALATION_HOURS;
+
+// Bounds for the strike policy: late-cancellation notice up to a week, a
+// threshold of up to 20 strikes (0 = no bans), windows and bans of a day to a year
+export const STRIKE_SETTING_RANGES = {
+  lateCancelHours: [0, 7 * 24],
+  strikeThreshold: [0, 20],
+  strikeWindowDays: [1, 365],
+  banDays: [1, 365],
+} as const;
+
+export type StrikeSetting = keyof typeof STRIKE_SETTING_RANGES;
+
+export const isValidStrikeSetting = (field: StrikeSetting, value: number): boolean =>
+  Number.isInteger(value) && value >= STRIKE_SETTING_RANGES[field][0] && value <= STRIKE_SETTING_RANGES[field][1];
+
 // Human-readable notice period, used in the booking-rejection message
 export const formatLeadTime = (minutes: number, lang: Lang): string => {
   if (minutes >= 60 && minutes % 60 === 0) {
@@ -56,6 +77,57 @@ export const formatLeadTime = (minutes: number, lang: Lang): string => {
     : tr(lang, 'durationMinutes', { count: minutes });
 };
 
+// Upper bound for the check-in grace and opening window (4 hours). Longer than
+// most bookings, so a bigger value is a typo rather than a policy.
+export const MAX_CHECK_IN_MINUTES = 4 * 60;
+
+export const isValidCheckInMinutes = (value: unknown): boolean =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_CHECK_IN_MINUTES;
+
+// A room or department override as sent by a form: empty means inherit (null).
+// Returns false when the value is not a valid number of minutes.
+export const parseCheckInOverride = (value: unknown): number | null | false => {
+  if (value === undefined || value === null || value === '') return null;
+  const minutes = Number(value);
+  return isValidCheckInMinutes(minutes) ? minutes : false;
+};
+
+// Most specific grace wins, like operating hours: room, then department, then
+// the global default. 0 anywhere in the chain means check-in is not required.
+export const getCheckInGraceMinutes = (
+  settings: ServiceSettings,
+  departmentGrace: number | null | undefined,
+  roomGrace?: number | null
+): number => {
+  const grace = roomGrace ?? departmentGrace ?? settings.checkInGraceMinutes;
+  return isValidCheckInMinutes(grace) ? grace : 0;
+};
+
+// When a booking can be checked in, or null when its room does not require
+// check-in. After closesAt the scheduler releases it; a booking shorter than
+// the grace period closes at its own end.
+export const getCheckInWindow = (
+  start: Date,
+  end: Date,
+  settings: ServiceSettings,
+  departmentGrace: number | null | undefined,
+  roomGrace?: number | null
+): { opensAt: Date; closesAt: Date } | null => {
+  const grace = getCheckInGraceMinutes(settings, departmentGrace, roomGrace);
+  if (grace === 0) return null;
+  const opens = isValidCheckInMinutes(settings.checkInOpensMinutes) ? settings.checkInOpensMinutes : 0;
+  return {
+    opensAt: new Date(start.getTime() - opens * 60000),
+    closesAt: new Date(Math.min(start.getTime() + grace * 60000, end.getTime())),
+  };
+};
+
+// Upper bound for a room's turnover buffer (2 hours)
+export const MAX_BUFFER_MINUTES = 120;
+
+export const isValidBufferMinutes = (value: unknown): boolean =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_BUFFER_MINUTES;
+
 export const parseAllowedDomains = (settings: ServiceSettings): string[] => {
   return (settings.allowedEmailDomains || '')
     .split(',')
@@ -131,64 +203,113 @@ export interface ExceptionLike {
   closed: boolean;
   openHour: number | null;
   closeHour: number | null;
+  blockStartMinute: number | null;
+  blockEndMinute: number | null;
   departmentId: string | null;
+  roomId: string | null;
 }
 
-// Find the exception applying to a calendar date for a department;
-// a department-specific entry beats a service-wide one.
-export const findException = (
+// What an exception is resolved for: a room and the department it belongs to
+export interface ExceptionScope {
+  id: string;
+  departmentId: string | null;
+}
+
+// A stretch of a day closed by a partial-day block, in minutes from midnight
+export interface DayBlock {
+  start: number;
+  end: number;
+  name: string;
+}
+
+// A block closes part of each day in its range and leaves the rest of the day
+// to the normal schedule; anything else replaces the day's hours outright
+const isPartialBlock = (ex: ExceptionLike) =>
+  ex.closed && ex.blockStartMinute !== null && ex.blockEndMinute !== null;
+
+// Exceptions covering a calendar date that reach the given room
+const exceptionsOn = (
   date: Date,
-  departmentId: string | null | undefined,
+  scope: ExceptionScope,
   exceptions: ExceptionLike[]
-): ExceptionLike | null => {
+): ExceptionLike[] => {
   const day = new Date(date);
   day.setHours(12, 0, 0, 0); // midday avoids boundary/timezone edge cases
 
-  const applicable = exceptions.filter((ex) => {
+  return exceptions.filter((ex) => {
     const s = new Date(ex.startDate);
     s.setHours(0, 0, 0, 0);
     const e = new Date(ex.endDate);
     e.setHours(23, 59, 59, 999);
     if (day < s || day > e) return false;
-    return ex.departmentId === null || ex.departmentId === (departmentId || null);
+    if (ex.roomId) return ex.roomId === scope.id;
+    return ex.departmentId === null || ex.departmentId === (scope.departmentId || null);
   });
+};
 
+// Find the whole-day exception applying to a calendar date for a room;
+// a room-specific entry beats a department one, which beats a service-wide one.
+export const findException = (
+  date: Date,
+  scope: ExceptionScope,
+  exceptions: ExceptionLike[]
+): ExceptionLike | null => {
+  const applicable = exceptionsOn(date, scope, exceptions).filter((ex) => !isPartialBlock(ex));
   if (applicable.length === 0) return null;
   return (
-    applicable.find((ex) => ex.departmentId !== null) || applicable[0]
+    applicable.find((ex) => ex.roomId !== null) ||
+    applicable.find((ex) => ex.departmentId !== null) ||
+    applicable[0]
   );
 };
 
-// Effective hours for a specific date: exception overrides the weekly schedule
+// Partial-day blocks closing part of a calendar date for a room, earliest first
+export const findBlocks = (
+  date: Date,
+  scope: ExceptionScope,
+  exceptions: ExceptionLike[]
+): DayBlock[] =>
+  exceptionsOn(date, scope, exceptions)
+    .filter(isPartialBlock)
+    .map((ex) => ({ start: ex.blockStartMinute as number, end: ex.blockEndMinute as number, name: ex.name }))
+    .sort((a, b) => a.start - b.start);
+
+// Effective hours for a specific date: exception overrides the weekly schedule,
+// and any blocks close stretches inside whatever hours that leaves
 export const resolveDayHours = (
   date: Date,
   weekly: OperatingHours,
-  departmentId: string | null | undefined,
+  scope: ExceptionScope,
   exceptions: ExceptionLike[]
-): { hours: DayHours; exceptionName?: string } => {
-  const ex = findException(date, departmentId, exceptions);
+): { hours: DayHours; exceptionName?: string; blocks: DayBlock[] } => {
+  const blocks = findBlocks(date, scope, exceptions);
+  const ex = findException(date, scope, exceptions);
   if (ex) {
-    if (ex.closed) return { hours: null, exceptionName: ex.name };
+    if (ex.closed) return { hours: null, exceptionName: ex.name, blocks: [] };
     if (ex.openHour !== null && ex.closeHour !== null) {
       return {
         hours: { open: ex.openHour, close: ex.closeHour },
         exceptionName: ex.name,
+        blocks,
       };
     }
   }
-  return { hours: weekly[date.getDay()] };
+  return { hours: weekly[date.getDay()], blocks };
 };
 
+const formatMinute = (m: number) => `${Math.floor(m / 60)}:${String(m % 60).padStart(2, '0')}`;
+
 // Validates that a booking falls entirely within the schedule of its day,
-// including date-specific exceptions. Local-timezone semantics throughout.
+// including date-specific exceptions and blocks. Local-timezone semantics
+// throughout. A refusal names the exception responsible, if any.
 export const checkBookingSchedule = (
   start: Date,
   end: Date,
   weekly: OperatingHours,
-  departmentId: string | null | undefined,
+  scope: ExceptionScope,
   exceptions: ExceptionLike[],
   lang: Lang = 'en'
-): { ok: true } | { ok: false; error: string } => {
+): { ok: true } | { ok: false; error: string; exceptionName?: string } => {
   const sameDay =
     start.getFullYear() === end.getFullYear() &&
     start.getMonth() === end.getMonth() &&
@@ -207,10 +328,10 @@ export const checkBookingSchedule = (
     }
   }
 
-  const { hours: dayHours, exceptionName } = resolveDayHours(
+  const { hours: dayHours, exceptionName, blocks } = resolveDayHours(
     start,
     weekly,
-    departmentId,
+    scope,
     exceptions
   );
 
@@ -220,6 +341,7 @@ export const checkBookingSchedule = (
       error: exceptionName
         ? tr(lang, 'closedForException', { name: exceptionName })
         : tr(lang, 'closedOnWeekday', { weekday: weekdayName(lang, start.getDay()) }),
+      exceptionName,
     };
   }
 
@@ -236,6 +358,20 @@ export const checkBookingSchedule = (
             open,
             close,
           }),
+      exceptionName,
+    };
+  }
+
+  const block = blocks.find((b) => startMinutes < b.end && endMinutes > b.start);
+  if (block) {
+    return {
+      ok: false,
+      error: tr(lang, 'closedForBlock', {
+        name: block.name,
+        start: formatMinute(block.start),
+        end: formatMinute(block.end),
+      }),
+      exceptionName: block.name,
     };
   }
 
@@ -0,0 +1,124 @@
+import { PrismaClient, ServiceSettings } from '@prisma/client';
+import { Lang } from './i18n.js';
+import { checkBookingSchedule, getEffectiveOperatingHours } from './settings.js';
+import { getEffectiveBookingRules } from './bookingRules.js';
+import { RoomWithDepartment, checkBookingSlot, overlappingBookingsWhere } from './bookingValidation.js';
+
+const prisma = new PrismaClient();
+
+// How many of each kind to offer; a handful is a choice, more is a list to read
+const MAX_SUGGESTIONS = 3;
+
+// Each candidate that survives the cheap filters below still costs a full slot
+// check; stop looking after this many rather than walk a whole refused day
+const MAX_SLOT_CHECKS = 24;
+
+export interface SlotSuggestions {
+  // Free slots of the same length in the same room on the same day, in time order
+  sameRoom: Array<{ startTime: string; endTime: string }>;
+  // The same time in other rooms of the room's department that fit the group
+  otherRooms: Array<{
+    roomId: string;
+    roomName: string;
+    startTime: string;
+    endTime: string;
+    requiresApproval: boolean;
+  }>;
+}
+
+// Where else a refused booking could go: the nearest free slots of the same
+// length in the room that day, and the same time in other rooms of its
+// department with room for `people`. Every suggestion has passed the same slot
+// check as a booking, so taking one succeeds unless someone gets there first.
+export const suggestAlternativeSlots = async (
+  room: RoomWithDepartment,
+  start: Date,
+  end: Date,
+  people: number,
+  settings: ServiceSettings,
+  lang: Lang,
+  options: { role?: string; excludeBookingId?: string } = {}
+): Promise<SlotSuggestions> => {
+  const now = new Date();
+  const duration = end.getTime() - start.getTime();
+  const rules = getEffectiveBookingRules(settings, room.department?.bookingRules, room.bookingRules, options.role);
+  const step = rules.slotMinutes * 60000;
+  const buffer = room.bufferMinutes * 60000;
+
+  const dayStart = new Date(start);
+  dayStart.setHours(0, 0, 0, 0);
+  const dayEnd = new Date(dayStart);
+  dayEnd.setDate(dayEnd.getDate() + 1);
+
+  // The day's schedule and bookings, loaded once to pass over most taken or
+  // closed candidates without a query each
+  const [taken, exceptions] = await Promise.all([
+    prisma.booking.findMany({
+      where: overlappingBookingsWhere(room.id, dayStart, dayEnd, options.excludeBookingId, room.bufferMinutes),
+      select: { startTime: true, endTime: true },
+    }),
+    prisma.scheduleException.findMany({
+      where: {
+        startDate: { lt: dayEnd },
+        endDate: { gte: dayStart },
+        OR: [{ departmentId: null }, { departmentId: room.departmentId }, { roomId: room.id }],
+      },
+    }),
+  ]);
+  const hours = getEffectiveOperatingHours(settings, room.department?.operatingHours, room.operatingHours);
+
+  const candidates: Date[] = [];
+  for (let t = dayStart.getTime(); t + duration <= dayEnd.getTime(); t += step) {
+    if (t === start.getTime() || t <= now.getTime()) continue;
+    const s = new Date(t);
+    const e = new Date(t + duration);
+    if (taken.some((b) => s.getTime() < b.endTime.getTime() + buffer && e.getTime() > b.startTime.getTime() - buffer)) {
+      continue;
+    }
+    if (!checkBookingSchedule(s, e, hours, room, exceptions, lang).ok) continue;
+    candidates.push(s);
+  }
+  // Nearest to the time asked for first; on a tie, the earlier one
+  candidates.sort(
+    (a, b) =>
+      Math.abs(a.getTime() - start.getTime()) - Math.abs(b.getTime() - start.getTime()) ||
+      a.getTime() - b.getTime()
+  );
+
+  const sameRoom: SlotSuggestions['sameRoom'] = [];
+  for (const s of candidates.slice(0, MAX_SLOT_CHECKS)) {
+    if (sameRoom.length >= MAX_SUGGESTIONS) break;
+    const e = new Date(s.getTime() + duration);
+    const slot = await checkBookingSlot(room, s, e, settings, lang, options);
+    if (slot.ok) sameRoom.push({ startTime: s.toISOString(), endTime: e.toISOString() });
+  }
+  sameRoom.sort((a, b) => a.startTime.localeCompare(b.startTime));
+
+  // Smallest room that fits first, as the room finder ranks them
+  const others = await prisma.room.findMany({
+    where: {
+      id: { not: room.id },
+      departmentId: room.departmentId,
+      minCapacity: { lte: people },
+      maxCapacity: { gte: people },
+    },
+    include: { department: true },
+    orderBy: [{ maxCapacity: 'asc' }, { name: 'asc' }],
+  });
+
+  const otherRooms: SlotSuggestions['otherRooms'] = [];
+  for (const other of others.slice(0, MAX_SLOT_CHECKS)) {
+    if (otherRooms.length >= MAX_SUGGESTIONS) break;
+    const slot = await checkBookingSlot(other, start, end, settings, lang, { role: options.role });
+    if (!slot.ok) continue;
+    otherRooms.push({
+      roomId: other.id,
+      roomName: other.name,
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+      requiresApproval: other.requiresApproval,
+    });
+  }
+
+  return { sameRoom, otherRooms };
+};
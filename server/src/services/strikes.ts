@@ -0,0 +1,203 @@
+import { PrismaClient, ServiceSettings, StrikeReason, User } from '@prisma/client';
+import { AuthRequest } from '../middleware/auth.js';
+import logger from '../utils/logger.js';
+import { AuditEntry, recordAudit, recordSystemAudit } from './audit.js';
+import { sendBookingBanEmail } from './email.js';
+import { Lang, asLang, dateLocaleTag, tr } from './i18n.js';
+import { isStaff } from './permissions.js';
+
+const prisma = new PrismaClient();
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+type StrikeOutcome<T = {}> = { ok: true } & T | { ok: false; status: number; error: string };
+
+type StrikeBooking = {
+  id: string;
+  startTime: Date;
+  room: { name: string };
+};
+
+// Whether cancelling a confirmed booking now earns a strike
+export const isLateCancellation = (startTime: Date, settings: ServiceSettings, now = new Date()): boolean =>
+  settings.lateCancelHours > 0 && startTime.getTime() - now.getTime() < settings.lateCancelHours * HOUR_MS;
+
+// The refusal for a user banned from booking, or null when they may book.
+// Staff are never banned; a ban ends by itself at bookingBannedUntil.
+export const checkBookingBan = (
+  user: Pick<User, 'role' | 'bookingBannedUntil'>,
+  lang: Lang,
+  now = new Date()
+): string | null => {
+  if (isStaff(user.role) || !user.bookingBannedUntil || user.bookingBannedUntil <= now) return null;
+  return tr(lang, 'bookingBanned', {
+    date: user.bookingBannedUntil.toLocaleString(dateLocaleTag(lang), {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }),
+  });
+};
+
+// Strikes count towards a ban while they are unforgiven, inside the window and
+// newer than the end of the user's last ban - that ban has dealt with them
+const countingSince = (user: Pick<User, 'bookingBannedUntil'>, settings: ServiceSettings, now: Date): Date => {
+  const windowStart = new Date(now.getTime() - Math.max(settings.strikeWindowDays, 0) * DAY_MS);
+  return user.bookingBannedUntil && user.bookingBannedUntil > windowStart ? user.bookingBannedUntil : windowStart;
+};
+
+// Record a strike against a booking's owner and ban them once they reach the
+// threshold. req is the user cancelling; the scheduler passes none.
+export const recordStrike = async (
+  user: User,
+  booking: StrikeBooking,
+  reason: StrikeReason,
+  settings: ServiceSettings,
+  req?: AuthRequest
+): Promise<void> => {
+  if (isStaff(user.role)) return;
+  const audit = (entry: AuditEntry) => (req ? recordAudit(req, entry) : recordSystemAudit(entry));
+  const now = new Date();
+
+  const strike = await prisma.bookingStrike.create({
+    data: { userId: user.id, bookingId: booking.id, reason },
+  });
+  await audit({
+    action: 'USER_STRIKE',
+    targetType: 'User',
+    targetId: user.id,
+    targetLabel: user.email,
+    summary: reason === 'LATE_CANCEL'
+      ? `Strike for cancelling ${booking.room.name} late`
+      : `Strike for not checking in to ${booking.room.name}`,
+    metadata: { strikeId: strike.id, reason, bookingId: booking.id, start: booking.startTime.toISOString() },
+  });
+
+  if (settings.strikeThreshold <= 0) return;
+  // Read afresh: the scheduler may have banned them for another no-show in the
+  // same sweep. Already banned, the ban is not stretched.
+  const current = await prisma.user.findUnique({ where: { id: user.id }, select: { bookingBannedUntil: true } });
+  if (!current || (current.bookingBannedUntil && current.bookingBannedUntil > now)) return;
+  const strikes = await prisma.bookingStrike.count({
+    where: { userId: user.id, forgivenAt: null, createdAt: { gt: countingSince(current, settings, now) } },
+  });
+  if (strikes < settings.strikeThreshold) return;
+
+  const bannedUntil = new Date(now.getTime() + Math.max(settings.banDays, 1) * DAY_MS);
+  await prisma.user.update({ where: { id: user.id }, data: { bookingBannedUntil: bannedUntil } });
+  if (user.email) {
+    await sendBookingBanEmail(user.email, user.name, {
+      bannedUntil,
+      strikeCount: strikes,
+      windowDays: settings.strikeWindowDays,
+    }, asLang(user.language));
+  }
+  logger.info(`User ${user.id} banned from booking until ${bannedUntil.toISOString()} after ${strikes} strike(s)`);
+  await audit({
+    action: 'USER_BAN',
+    targetType: 'User',
+    targetId: user.id,
+    targetLabel: user.email,
+    summary: `Banned ${user.email} from booking for ${settings.banDays} day(s) after ${strikes} strikes`,
+    metadata: { strikes, until: bannedUntil.toISOString() },
+  });
+};
+
+// Everyone with a strike inside the window or a ban still running, most
+// recently struck first, for the admin screen
+export const listStrikes = async (settings: ServiceSettings, now = new Date()) => {
+  const windowStart = new Date(now.getTime() - Math.max(settings.strikeWindowDays, 0) * DAY_MS);
+  const users = await prisma.user.findMany({
+    where: {
+      OR: [
+        { bookingBannedUntil: { gt: now } },
+        { bookingStrikes: { some: { createdAt: { gte: windowStart } } } },
+      ],
+    },
+    include: {
+      bookingStrikes: {
+        where: { createdAt: { gte: windowStart } },
+        include: {
+          booking: { select: { startTime: true, room: { select: { name: true } } } },
+          forgivenBy: { select: { name: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      },
+    },
+  });
+
+  return users
+    .map((user) => ({
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      bannedUntil: user.bookingBannedUntil && user.bookingBannedUntil > now ? user.bookingBannedUntil.toISOString() : null,
+      activeStrikes: user.bookingStrikes.filter((s) => !s.forgivenAt && s.createdAt > countingSince(user, settings, now)).length,
+      strikes: user.bookingStrikes.map((s) => ({
+        id: s.id,
+        reason: s.reason,
+        bookingId: s.bookingId,
+        roomName: s.booking?.room.name ?? null,
+        bookingStart: s.booking?.startTime.toISOString() ?? null,
+        createdAt: s.createdAt.toISOString(),
+        forgivenAt: s.forgivenAt ? s.forgivenAt.toISOString() : null,
+        forgivenByName: s.forgivenBy?.name ?? null,
+      })),
+    }))
+    .sort((a, b) => (b.strikes[0]?.createdAt ?? '').localeCompare(a.strikes[0]?.createdAt ?? ''));
+};
+
+// Stop a strike counting. A ban it helped cause stays until lifted on its own.
+export const forgiveStrike = async (req: AuthRequest, strikeId: string, lang: Lang): Promise<StrikeOutcome> => {
+  const strike = await prisma.bookingStrike.findUnique({ where: { id: strikeId }, include: { user: true } });
+  if (!strike) {
+    return { ok: false, status: 404, error: tr(lang, 'strikeNotFound') };
+  }
+  if (strike.forgivenAt) {
+    return { ok: false, status: 400, error: tr(lang, 'strikeAlreadyForgiven') };
+  }
+
+  await prisma.bookingStrike.update({
+    where: { id: strike.id },
+    data: { forgivenAt: new Date(), forgivenById: req.userId },
+  });
+  logger.info(`Strike ${strike.id} against user ${strike.userId} forgiven by ${req.userId}`);
+  await recordAudit(req, {
+    action: 'USER_STRIKE_FORGIVE',
+    targetType: 'User',
+    targetId: strike.userId,
+    targetLabel: strike.user.email,
+    summary: `Forgave a ${strike.reason === 'LATE_CANCEL' ? 'late-cancellation' : 'no-show'} strike against ${strike.user.email}`,
+    metadata: { strikeId: strike.id, reason: strike.reason, bookingId: strike.bookingId },
+  });
+  return { ok: true };
+};
+
+// End a user's ban now. The strikes behind it stop counting, as when a ban
+// runs out.
+export const liftBookingBan = async (req: AuthRequest, userId: string, lang: Lang): Promise<StrikeOutcome> => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    return { ok: false, status: 404, error: tr(lang, 'userNotFound') };
+  }
+  const now = new Date();
+  if (!user.bookingBannedUntil || user.bookingBannedUntil <= now) {
+    return { ok: false, status: 400, error: tr(lang, 'userNotBanned') };
+  }
+
+  await prisma.user.update({ where: { id: user.id }, data: { bookingBannedUntil: now } });
+  logger.info(`Booking ban on user ${user.id} lifted by ${req.userId}`);
+  await recordAudit(req, {
+    action: 'USER_BAN_LIFT',
+    targetType: 'User',
+    targetId: user.id,
+    targetLabel: user.email,
+    summary: `Lifted the booking ban on ${user.email}`,
+    metadata: { wasUntil: user.bookingBannedUntil.toISOString() },
+  });
+  return { ok: true };
+};
@@ -0,0 +1,235 @@
+import { PrismaClient, Booking, BookingStatus, ServiceSettings, User, WaitlistEntry, WaitlistStatus } from '@prisma/client';
+import logger from '../utils/logger.js';
+import { Lang, asLang } from './i18n.js';
+import { getServiceSettings } from './settings.js';
+import {
+  RoomWithDepartment,
+  SlotRefusal,
+  checkBookingSlot,
+  checkRoomPolicy,
+  findSlotClash,
+} from './bookingValidation.js';
+import { withRoomLocks } from './bookingLocks.js';
+import { notifyApprovers } from './approvals.js';
+import { decideInitialStatus, recordAutoApproval } from './autoApproval.js';
+import { publishBookingChange } from './liveEvents.js';
+import { checkBookingQuota } from './quotas.js';
+import { checkBookingBan } from './strikes.js';
+import { sendWaitlistBookedEmail, sendWaitlistOfferEmail } from './email.js';
+import { recordSystemAudit } from './audit.js';
+
+const prisma = new PrismaClient();
+
+// How long a freed slot is held for the person it is offered to before it moves
+// on to the next in the queue. Never past the slot's own start.
+export const WAITLIST_OFFER_MINUTES = 60;
+
+// Entries still in the queue; the rest are history
+export const ACTIVE_WAITLIST_STATUSES: WaitlistStatus[] = [WaitlistStatus.WAITING, WaitlistStatus.OFFERED];
+
+export type WaitlistEntryWithRoom = WaitlistEntry & { user: User; room: RoomWithDepartment };
+
+export const parseWaitlistAttendees = (entry: WaitlistEntry) => {
+  try {
+    const parsed = JSON.parse(entry.attendees);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+// Turn an entry into a real booking and close it. The slot must already have
+// been validated by the caller; it is checked once more under the room's lock,
+// and the clash comes back instead when someone took the slot in between.
+export const bookWaitlistEntry = async (
+  entry: WaitlistEntryWithRoom,
+  settings: ServiceSettings,
+  lang: Lang
+): Promise<{ booking: Booking; clash?: undefined } | { clash: SlotRefusal; booking?: undefined }> => {
+  const attendees = parseWaitlistAttendees(entry);
+  const { status, autoApproval } = await decideInitialStatus(entry.room, {
+    start: entry.startTime,
+    end: entry.endTime,
+    attendees: attendees.length,
+    booker: { id: entry.userId, role: entry.user.role, departmentId: entry.user.departmentId },
+  });
+  const written = await withRoomLocks([entry.roomId], async (tx) => {
+    const clash = await findSlotClash(tx, entry.room, entry.startTime, entry.endTime, lang, new Date(), {
+      waitlistEntryId: entry.id,
+    });
+    if (clash) return { clash };
+
+    const booking = await tx.booking.create({
+      data: {
+        roomId: entry.roomId,
+        userId: entry.userId,
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+        purpose: entry.purpose,
+        status,
+        termsAcceptedAt: entry.termsAcceptedAt,
+        attendees: { create: attendees },
+      },
+    });
+    await tx.waitlistEntry.update({
+      where: { id: entry.id },
+      data: { status: WaitlistStatus.BOOKED, bookingId: booking.id, offerExpiresAt: null },
+    });
+    return { booking };
+  });
+  if (written.clash) return written;
+  const { booking } = written;
+  await publishBookingChange('created', [booking.id]);
+
+  if (autoApproval) {
+    await recordAutoApproval({ ...booking, user: entry.user }, entry.room, autoApproval);
+  }
+  if (status === BookingStatus.PENDING) {
+    await notifyApprovers(entry.room, settings, {
+      roomName: entry.room.name,
+      userName: entry.user.name,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+    });
+  }
+
+  return { booking };
+};
+
+// Called whenever [start, end) in a room stops being held: a booking cancelled,
+// rejected, auto-cancelled or moved away, or an offer that lapsed. Waiting
+// entries are tried oldest first; each one the slot now passes for is offered
+// it, or booked outright when waitlistAutoBook is on. An entry that still
+// clashes with something (or no longer fits the rules or the user's quota, or
+// the user is banned from booking) keeps its place.
+//
+// Never throws: a failed promotion must not undo the cancellation behind it.
+export const promoteWaitlist = async (roomId: string, start: Date, end: Date): Promise<void> => {
+  try {
+    const now = new Date();
+    // Entries that only clashed with the turnover time around the freed slot
+    // may fit now too
+    const room = await prisma.room.findUnique({ where: { id: roomId }, select: { bufferMinutes: true } });
+    const buffer = (room?.bufferMinutes ?? 0) * 60000;
+    const candidates = await prisma.waitlistEntry.findMany({
+      where: {
+        roomId,
+        status: WaitlistStatus.WAITING,
+        startTime: { lt: new Date(end.getTime() + buffer), gt: now },
+        endTime: { gt: new Date(start.getTime() - buffer) },
+      },
+      include: { user: true, room: { include: { department: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (candidates.length === 0) return;
+
+    const settings = await getServiceSettings();
+
+    for (const entry of candidates) {
+      const lang = asLang(entry.user.language);
+      if (checkRoomPolicy(entry.room, parseWaitlistAttendees(entry), true, lang)) continue;
+      const slot = await checkBookingSlot(entry.room, entry.startTime, entry.endTime, settings, lang, {
+        now,
+        role: entry.user.role,
+      });
+      if (!slot.ok) continue;
+      if (checkBookingBan(entry.user, lang, now)) continue;
+      if (await checkBookingQuota(entry.user, entry.room, entry.startTime, entry.endTime, settings, lang, { now })) {
+        continue;
+      }
+
+      const auditBase = {
+        targetType: 'WaitlistEntry' as const,
+        targetId: entry.id,
+        targetLabel: `${entry.room.name} - ${entry.user.name}`,
+        departmentId: entry.room.departmentId,
+      };
+
+      if (settings.waitlistAutoBook) {
+        const { booking } = await bookWaitlistEntry(entry, settings, lang);
+        if (!booking) continue;
+        if (entry.user.email) {
+          await sendWaitlistBookedEmail(entry.user.email, entry.user.name, {
+            roomName: entry.room.name,
+            startTime: booking.startTime,
+            endTime: booking.endTime,
+            pending: booking.status === BookingStatus.PENDING,
+          }, lang);
+        }
+        logger.info(`Waitlist entry ${entry.id} booked automatically as ${booking.id}`);
+        await recordSystemAudit({
+          ...auditBase,
+          action: 'WAITLIST_AUTO_BOOK',
+          summary: `Booked a freed slot for ${entry.user.email} from the waitlist`,
+          metadata: { bookingId: booking.id, start: booking.startTime.toISOString() },
+        });
+      } else {
+        const offerExpiresAt = new Date(
+          Math.min(now.getTime() + WAITLIST_OFFER_MINUTES * 60000, entry.startTime.getTime())
+        );
+        // An offer holds the slot like a booking, so it is made under the lock too
+        const offered = await withRoomLocks([entry.roomId], async (tx) => {
+          if (await findSlotClash(tx, entry.room, entry.startTime, entry.endTime, lang, now)) return false;
+          await tx.waitlistEntry.update({
+            where: { id: entry.id },
+            data: { status: WaitlistStatus.OFFERED, offerExpiresAt },
+          });
+          return true;
+        });
+        if (!offered) continue;
+        if (entry.user.email) {
+          await sendWaitlistOfferEmail(entry.user.email, entry.user.name, {
+            roomName: entry.room.name,
+            startTime: entry.startTime,
+            endTime: entry.endTime,
+            offerExpiresAt,
+          }, lang);
+        }
+        logger.info(`Waitlist entry ${entry.id} offered the freed slot until ${offerExpiresAt.toISOString()}`);
+        await recordSystemAudit({
+          ...auditBase,
+          action: 'WAITLIST_OFFER',
+          summary: `Offered a freed slot to ${entry.user.email} from the waitlist`,
+          metadata: { start: entry.startTime.toISOString(), until: offerExpiresAt.toISOString() },
+        });
+      }
+    }
+  } catch (error) {
+    logger.error('Error promoting waitlist:', error);
+  }
+};
+
+// Scheduler housekeeping. Entries whose slot has started can never be used and
+// are expired. Offers nobody claimed in time are expired too, and the slot goes
+// to the next person in the queue.
+export const expireWaitlistEntries = async (now: Date): Promise<void> => {
+  const started = await prisma.waitlistEntry.findMany({
+    where: { status: { in: ACTIVE_WAITLIST_STATUSES }, startTime: { lte: now } },
+    select: { id: true },
+  });
+
+  const lapsedOffers = await prisma.waitlistEntry.findMany({
+    where: { status: WaitlistStatus.OFFERED, offerExpiresAt: { lte: now }, startTime: { gt: now } },
+  });
+
+  const expiredIds = [...started, ...lapsedOffers].map((e) => e.id);
+  if (expiredIds.length === 0) return;
+
+  await prisma.waitlistEntry.updateMany({
+    where: { id: { in: expiredIds } },
+    data: { status: WaitlistStatus.EXPIRED, offerExpiresAt: null },
+  });
+  logger.info(`Expired ${expiredIds.length} waitlist entry(s)`);
+  // Routine lifecycle, like auto-completion: one aggregate row per run
+  await recordSystemAudit({
+    action: 'WAITLIST_EXPIRE',
+    targetType: 'WaitlistEntry',
+    targetLabel: `${expiredIds.length} entry(s)`,
+    summary: `Expired ${expiredIds.length} waitlist entry(s) that started or were not claimed in time`,
+    metadata: { started: started.length, lapsedOffers: lapsedOffers.length },
+  });
+
+  for (const offer of lapsedOffers) {
+    await promoteWaitlist(offer.roomId, offer.startTime, offer.endTime);
+  }
+};